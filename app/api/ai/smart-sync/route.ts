@@ -1,5 +1,95 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
+import {
+  isProviderId,
+  resolveTextProvider,
+  resolveVisionProvider,
+  type AIProvider,
+  type ProviderId,
+} from "@/utils/ai/provider";
+import { completeStructured } from "@/utils/ai/structured-output";
+import {
+  AnalysisError,
+  FieldExtractionSchema,
+  FolderSuggestionsSchema,
+  RenameSuggestionSchema,
+  createFailedResult,
+  type AnalysisResult,
+  type FolderSuggestions,
+  type RenameSuggestion,
+  type SmartSyncErrorBody,
+  type SmartSyncEvent,
+  type SmartSyncResults,
+} from "@/utils/ai/analysis-schema";
+import {
+  NamingTemplateSchema,
+  parseTemplate,
+  renderTemplate,
+  templateFields,
+  type NamingFields,
+  type NamingTemplate,
+} from "@/utils/ai/naming-template";
+import type { CompletionRequest, CompletionUsage } from "@/utils/ai/types";
+import { createClient } from "@/utils/supabase/server";
+import { StoredFileExtractor } from "@/utils/stored-file-extractor";
+import { MAX_SUGGESTED_TAGS, normalizeTags } from "@/utils/tags";
+import {
+  describeQuotaExceeded,
+  recordAiTokens,
+  reserveAiRequests,
+  type QuotaExceeded,
+} from "@/utils/ai/usage-quota";
+import { getUserSettings } from "@/utils/user-settings";
+import { getNamingExamples, type NamingExample } from "@/utils/ai/naming-examples";
+import {
+  cacheSuggestions,
+  getCachedSuggestions,
+  getSuggestionCacheKey,
+  type CachedSuggestion,
+} from "@/utils/ai/suggestion-cache";
+import {
+  loadUserApiKeys,
+  recordApiKeyUsage,
+  toApiKeySelection,
+  type UserApiKey,
+} from "@/utils/ai/user-api-keys";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Tokens reported by the provider across one request, recorded against the
+// user's daily quota once the request is done. Per-provider totals are
+// attributed to the user's own key for that provider, when one was used
+interface UsageTotals {
+  totalTokens: number;
+  byProvider: Partial<Record<ProviderId, { requests: number; tokens: number }>>;
+}
+
+// How the user wants names written: their language and the names they kept
+// before. Examples are only used for free-form names, not templates
+interface NamingStyle {
+  language: string | null;
+  examples: NamingExample[];
+}
+
+// What FileContentExtractor found about a file; the keys vary by file type
+interface ExtractedMetadata {
+  category?: string;
+  dateInFilename?: string;
+  versionInFilename?: string;
+  isScreenshot?: boolean;
+  isScan?: boolean;
+  isDraft?: boolean;
+  isFinal?: boolean;
+  pageCount?: number;
+  documentTitle?: string;
+  documentAuthor?: string;
+  documentCreated?: string;
+  documentModified?: string;
+  sheetNames?: string[];
+  slideCount?: number;
+  hasTextLayer?: boolean;
+  ocrPages?: number[];
+  hasOcrText?: boolean;
+}
 
 interface FileMetadata {
   name: string;
@@ -7,16 +97,17 @@ interface FileMetadata {
   size: number;
   preview: string;
   path?: string;
-  metadata?: Record<string, any>;
+  metadata?: ExtractedMetadata;
   imageData?: string; // Base64 encoded image data for vision analysis
+  contentHash?: string; // SHA-256 of the file, for the suggestion cache
 }
 
-interface AnalysisResult {
-  originalName: string;
-  suggestedName: string;
-  confidence: number;
-  reasoning: string;
-}
+// Characters of extracted content sent to the model. Documents such as
+// invoices usually identify themselves within the first page of text
+const MAX_PREVIEW_CHARS = 1500;
+
+// Stored files are downloaded and extracted here, so keep requests small
+const MAX_STORED_FILES_PER_REQUEST = 20;
 
 // Helper to extract file extension
 function getFileExtension(filename: string): string {
@@ -35,44 +126,472 @@ function sanitizeFilename(filename: string): string {
     .trim();
 }
 
+// Turn a validated suggestion into a result, keeping the original extension
+function toAnalysisResult(
+  metadata: FileMetadata,
+  suggestion: RenameSuggestion & { fields?: NamingFields },
+  extension: string
+): AnalysisResult {
+  let suggestedName = sanitizeFilename(suggestion.suggestedName);
+  if (!suggestedName) {
+    throw new AnalysisError(
+      "invalid_output",
+      "Suggested name was empty after removing invalid characters"
+    );
+  }
+  if (extension && !suggestedName.toLowerCase().endsWith(extension.toLowerCase())) {
+    suggestedName += extension;
+  }
+
+  return {
+    originalName: metadata.name,
+    suggestedName,
+    suggestedTags: normalizeTags(suggestion.suggestedTags, MAX_SUGGESTED_TAGS),
+    confidence: suggestion.confidence,
+    reasoning: suggestion.reasoning,
+    ...(suggestion.fields && { fields: suggestion.fields }),
+  };
+}
+
+// Asked for alongside every name, whichever way the name is produced
+const TAG_INSTRUCTIONS = `Also suggest up to ${MAX_SUGGESTED_TAGS} short tags (1-3 words each) for the topic, client, project or document type, usable to group related files. Use an empty list if nothing stands out.`;
+
+const FIELD_DESCRIPTIONS: Record<keyof NamingFields, string> = {
+  date: "the document's own date (issue, publication or signing date) as YYYY-MM-DD, or YYYY-MM / YYYY if only partly known",
+  author: "the author or authors, surnames only when there are several",
+  title: "a short title of 3-8 words describing the content",
+  counterparty: "the client, vendor or other party the document is with",
+  amount: "the total amount with currency code, e.g. 1250.00 EUR",
+  category: "the document type in one or two words, e.g. invoice, contract, receipt",
+};
+
+// Names are written in the user's chosen language; identifiers stay as they are
+function languageInstruction(language: string): string {
+  return `Write the name (or the extracted title and category) in ${language}, translating descriptive words but keeping proper names, codes, numbers and amounts unchanged.`;
+}
+
+// Names the user approved or corrected before, so free-form suggestions
+// converge on their conventions. Only the style carries over, not the content
+function examplesInstruction(examples: NamingExample[]): string {
+  const lines = examples.map((example) =>
+    example.finalName === example.suggestedName
+      ? `- ${JSON.stringify(example.originalName)} -> ${JSON.stringify(example.finalName)}`
+      : `- ${JSON.stringify(example.originalName)} -> ${JSON.stringify(example.finalName)} (corrected from ${JSON.stringify(example.suggestedName)})`
+  );
+  return `Files this user renamed before:
+${lines.join("\n")}
+Follow the conventions of these names (word order, separators, capitalization, date format, abbreviations), but describe this file's own content.`;
+}
+
+/**
+ * Ask the provider for a name. Without a template the model suggests the
+ * whole name; with one it only extracts the template's fields and the name
+ * is rendered here, so every file in a batch follows the same pattern.
+ */
+async function requestSuggestion(
+  provider: AIProvider,
+  request: CompletionRequest,
+  extension: string,
+  template: NamingTemplate | null,
+  style: NamingStyle,
+  example: { confidence: number; reasoning: string }
+) {
+  if (style.language) {
+    request = { ...request, system: `${request.system} ${languageInstruction(style.language)}` };
+  }
+
+  if (!template) {
+    const examples = style.examples.length > 0 ? `\n\n${examplesInstruction(style.examples)}` : "";
+    return completeStructured(
+      provider,
+      {
+        ...request,
+        prompt: `${request.prompt}${examples}
+
+${TAG_INSTRUCTIONS}
+
+Respond with ONLY this JSON format:
+{"suggestedName": "descriptive-name${extension}", "suggestedTags": ["tag"], "confidence": ${example.confidence}, "reasoning": "${example.reasoning}"}`,
+      },
+      RenameSuggestionSchema,
+      "rename_suggestion"
+    );
+  }
+
+  const wanted = templateFields(template);
+  const { data, completion, attempts } = await completeStructured(
+    provider,
+    {
+      ...request,
+      system: `${request.system} Instead of a filename, extract the fields a naming template needs. Use null for any field that cannot be determined from the file; never guess.`,
+      prompt: `${request.prompt}
+
+Extract these fields:
+${wanted.map((field) => `- ${field}: ${FIELD_DESCRIPTIONS[field]}`).join("\n")}
+Set every other field to null.
+
+${TAG_INSTRUCTIONS}
+
+Respond with ONLY this JSON format:
+{"fields": {"date": null, "author": null, "title": null, "counterparty": null, "amount": null, "category": null}, "suggestedTags": ["tag"], "confidence": ${example.confidence}, "reasoning": "${example.reasoning}"}`,
+    },
+    FieldExtractionSchema,
+    "field_extraction"
+  );
+
+  const rendered = renderTemplate(template, data.fields);
+  if (!rendered) {
+    throw new AnalysisError(
+      "invalid_output",
+      `None of the template fields (${wanted.join(", ")}) could be extracted`
+    );
+  }
+
+  return {
+    data: {
+      suggestedName: rendered + extension,
+      suggestedTags: data.suggestedTags,
+      confidence: data.confidence,
+      reasoning: data.reasoning,
+      fields: data.fields,
+    },
+    completion,
+    attempts,
+  };
+}
+
+// Stored files in request order with their content hashes, enough to look
+// them up in the suggestion cache before anything is downloaded
+async function getStoredFileSummaries(
+  supabase: SupabaseServerClient,
+  userId: string,
+  nodeIds: string[]
+): Promise<FileMetadata[]> {
+  const { data: nodes, error } = await supabase
+    .from("nodes")
+    .select("id, name, mime_type, size, node_type, content_hash")
+    .in("id", nodeIds)
+    .eq("user_id", userId)
+    .is("deleted_at", null);
+
+  if (error) throw error;
+
+  return nodeIds.map((nodeId) => {
+    const node = nodes?.find((n) => n.id === nodeId);
+    return {
+      name: node?.name || nodeId,
+      type: node?.mime_type || "",
+      size: node?.size || 0,
+      preview: "",
+      contentHash: node?.node_type === "file" ? node.content_hash ?? undefined : undefined,
+    };
+  });
+}
+
+/**
+ * Download workspace files from the `user-files` bucket and extract them the
+ * way the browser would. Images are read from the text indexed for them, and
+ * their data is only attached for a vision model when `allowVision` is set.
+ * Files that can't be read keep a placeholder entry so results stay in
+ * request order, with the reason in `failures`. Files at `skipIndexes`
+ * (already answered from the cache) only get the placeholder.
+ */
+async function loadStoredFiles(
+  supabase: SupabaseServerClient,
+  userId: string,
+  nodeIds: string[],
+  allowVision: boolean,
+  skipIndexes: Set<number> = new Set()
+) {
+  const { data: nodes, error } = await supabase
+    .from("nodes")
+    .select("*")
+    .in("id", nodeIds)
+    .eq("user_id", userId)
+    .is("deleted_at", null);
+
+  if (error) throw error;
+
+  // Folder names give the model the same path context as local folders
+  const workspaceIds = Array.from(new Set((nodes || []).map((node) => node.workspace_id)));
+  const { data: folders } = workspaceIds.length
+    ? await supabase
+        .from("nodes")
+        .select("id, name, parent_id")
+        .in("workspace_id", workspaceIds)
+        .eq("user_id", userId)
+        .eq("node_type", "folder")
+        .is("deleted_at", null)
+    : { data: [] };
+  const folderById = new Map((folders || []).map((folder) => [folder.id, folder]));
+
+  // Text extracted when the files were indexed, including OCR of images
+  const { data: contents } = await supabase
+    .from("node_contents")
+    .select("node_id, content_text")
+    .in("node_id", nodeIds)
+    .eq("user_id", userId);
+  const indexedText = new Map((contents || []).map((row) => [row.node_id, row.content_text]));
+
+  const folderPath = (parentId: string | null) => {
+    const segments: string[] = [];
+    const seen = new Set<string>();
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      const folder = folderById.get(parentId);
+      if (!folder) break;
+      segments.unshift(folder.name);
+      parentId = folder.parent_id;
+    }
+    return segments.join("/");
+  };
+
+  const files: FileMetadata[] = [];
+  const failures = new Map<number, AnalysisError>();
+
+  await Promise.all(
+    nodeIds.map(async (nodeId, index) => {
+      const node = nodes?.find((n) => n.id === nodeId);
+      files[index] = {
+        name: node?.name || nodeId,
+        type: node?.mime_type || "",
+        size: node?.size || 0,
+        preview: "",
+      };
+      if (skipIndexes.has(index)) return;
+
+      if (!node || node.node_type !== "file" || !node.storage_object_path) {
+        failures.set(index, new AnalysisError("storage", "File not found in this workspace"));
+        return;
+      }
+
+      const { data: content, error: downloadError } = await supabase.storage
+        .from("user-files")
+        .download(node.storage_object_path);
+
+      if (downloadError || !content) {
+        console.error(`[SmartSync API] Failed to download ${node.name}:`, downloadError);
+        failures.set(index, new AnalysisError("storage", "File could not be downloaded from storage"));
+        return;
+      }
+
+      try {
+        files[index] = await StoredFileExtractor.extract(
+          content,
+          node.name,
+          node.mime_type,
+          folderPath(node.parent_id) || undefined,
+          { indexedText: indexedText.get(node.id), allowVision }
+        );
+      } catch (extractError) {
+        // Unreadable content still leaves the name and type to go on
+        console.error(`[SmartSync API] Failed to extract ${node.name}:`, extractError);
+      }
+    })
+  );
+
+  return { files, failures };
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { files, analyzeFolderStructure = false } = await request.json();
+    // Every call spends provider credits, so only signed-in users may analyze
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json<SmartSyncErrorBody>(
+        { error: "Not authenticated", category: "auth" },
+        { status: 401 }
+      );
+    }
 
-    if (!files || !Array.isArray(files) || files.length === 0) {
+    const {
+      files: requestFiles,
+      nodeIds,
+      analyzeFolderStructure = false,
+      provider,
+      model,
+      visionProvider,
+      visionModel,
+      namingTemplate: rawTemplate,
+      workspaceId,
+      stream = false,
+    } = await request.json();
+
+    let files: FileMetadata[] = requestFiles;
+    let failures = new Map<number, AnalysisError>();
+
+    // Files already in workspace storage are sent by id and read here
+    if (nodeIds !== undefined) {
+      if (
+        !Array.isArray(nodeIds) ||
+        nodeIds.length === 0 ||
+        !nodeIds.every((id) => typeof id === "string")
+      ) {
+        return NextResponse.json({ error: "No files provided" }, { status: 400 });
+      }
+      if (nodeIds.length > MAX_STORED_FILES_PER_REQUEST) {
+        return NextResponse.json(
+          { error: `At most ${MAX_STORED_FILES_PER_REQUEST} stored files per request` },
+          { status: 400 }
+        );
+      }
+    } else if (!files || !Array.isArray(files) || files.length === 0) {
       return NextResponse.json({ error: "No files provided" }, { status: 400 });
     }
 
-    if (!process.env.GROK_API_KEY) {
-      console.error("[SmartSync API] Missing GROK_API_KEY");
+    for (const id of [provider, visionProvider]) {
+      if (id !== undefined && !isProviderId(id)) {
+        return NextResponse.json(
+          { error: `Unknown AI provider: ${id}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    let namingTemplate: NamingTemplate | null = null;
+    if (rawTemplate) {
+      const parsed = NamingTemplateSchema.safeParse(rawTemplate);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid naming template" },
+          { status: 400 }
+        );
+      }
+      try {
+        parseTemplate(parsed.data.pattern);
+      } catch (templateError) {
+        return NextResponse.json(
+          { error: templateError instanceof Error ? templateError.message : "Invalid naming template" },
+          { status: 400 }
+        );
+      }
+      namingTemplate = parsed.data;
+    }
+
+    // Resolve providers per request so teams can pin a provider (e.g. a
+    // local model) without changing the deployment's defaults. A selection
+    // in the request wins over the user's settings
+    const [settings, namingExamples] = await Promise.all([
+      getUserSettings(supabase, user.id),
+      getNamingExamples(supabase, user.id),
+    ]);
+    const selection = provider || model
+      ? { provider, model }
+      : { provider: settings.aiProvider ?? undefined, model: settings.aiModel ?? undefined };
+
+    // The user's own keys replace the deployment's, preferring ones
+    // registered for the request's workspace
+    let userKeys: Map<ProviderId, UserApiKey>;
+    try {
+      userKeys = await loadUserApiKeys(
+        supabase,
+        user.id,
+        typeof workspaceId === "string" ? workspaceId : null
+      );
+    } catch (keysError) {
+      console.error("[SmartSync API] Failed to load API keys:", keysError);
+      return NextResponse.json({ error: "Invalid workspace" }, { status: 400 });
+    }
+    const apiKeys = toApiKeySelection(userKeys);
+
+    const textProvider = resolveTextProvider({ ...selection, apiKeys });
+
+    if (!textProvider) {
+      console.error("[SmartSync API] No configured AI provider for", selection.provider || "default");
       return NextResponse.json(
-        { error: "AI service not configured" },
+        { error: "AI service not configured", category: "not_configured" },
         { status: 500 }
       );
     }
 
-    // Initialize OpenAI client with Grok configuration
-    const grokApiKey = process.env.GROK_API_KEY;
+    // Images already in the workspace only go to a vision model the user
+    // chose, not to the deployment's default
+    const visionChosen = Boolean(visionProvider || selection.provider);
+    const imageProvider = nodeIds !== undefined && !visionChosen
+      ? null
+      : resolveVisionProvider({
+          provider: visionProvider || selection.provider,
+          model: visionModel,
+          apiKeys,
+        });
+
     console.log(
-      "[SmartSync API] Grok API Key present:",
-      !!grokApiKey,
-      "Key prefix:",
-      grokApiKey?.substring(0, 10) + "..."
+      `[SmartSync API] Using ${textProvider.id}/${textProvider.model} for text` +
+        (imageProvider
+          ? `, ${imageProvider.id}/${imageProvider.model} for images`
+          : ", no vision provider") +
+        (userKeys.size > 0 ? ` (user keys: ${Array.from(userKeys.keys()).join(", ")})` : "")
     );
 
-    const grokClient = new OpenAI({
-      baseURL: "https://api.x.ai/v1",
-      apiKey: grokApiKey,
+    const style: NamingStyle = {
+      language: settings.nameLanguage,
+      examples: namingTemplate ? [] : namingExamples,
+    };
+
+    // Files analyzed before with the same content, model, prompt version,
+    // template and name language are answered from the cache without a provider call
+    const cacheFiles: FileMetadata[] = nodeIds !== undefined
+      ? await getStoredFileSummaries(supabase, user.id, nodeIds)
+      : files;
+    const cacheModels = cacheFiles.map((file) => {
+      const fileProvider = usesVision(file, imageProvider) ? imageProvider! : textProvider;
+      return `${fileProvider.id}/${fileProvider.model}`;
     });
+    const cacheKeys = cacheFiles.map((file, index) =>
+      getSuggestionCacheKey(file.contentHash, {
+        model: cacheModels[index],
+        template: namingTemplate,
+        language: style.language,
+      })
+    );
+    const cachedResults = await getCachedSuggestions(
+      supabase,
+      user.id,
+      cacheKeys.filter((key): key is string => key !== null)
+    );
+    const cachedByIndex = new Map<number, AnalysisResult>();
+    cacheKeys.forEach((key, index) => {
+      const cached = key ? cachedResults.get(key) : undefined;
+      if (cached) {
+        cachedByIndex.set(index, { ...cached, originalName: cacheFiles[index].name, cached: true });
+      }
+    });
+    if (cachedByIndex.size > 0) {
+      console.log(`[SmartSync API] ${cachedByIndex.size} of ${cacheFiles.length} files served from cache`);
+    }
+
+    // Each file is one provider call and counts as one request. Cached files
+    // and requests paid entirely with the user's own keys don't use the quota
+    const usesOwnKeys =
+      userKeys.has(textProvider.id) && (!imageProvider || userKeys.has(imageProvider.id));
+    const uncachedCount = cacheFiles.length - cachedByIndex.size;
+    const exceeded = usesOwnKeys || uncachedCount === 0
+      ? null
+      : await reserveAiRequests(supabase, uncachedCount);
+    if (exceeded) {
+      console.log(`[SmartSync API] Quota ${exceeded.quota} exceeded for user ${user.id}`);
+      return NextResponse.json<SmartSyncErrorBody & QuotaExceeded>(
+        {
+          error: describeQuotaExceeded(exceeded),
+          category: "rate_limit",
+          ...exceeded,
+        },
+        { status: 429, headers: { "Retry-After": String(exceeded.retryAfter) } }
+      );
+    }
 
-    // Initialize OpenAI client for image analysis
-    const openAIApiKey = process.env.OPEN_AI_API_KEY;
-    const openAIClient = openAIApiKey ? new OpenAI({
-      apiKey: openAIApiKey,
-    }) : null;
-    
-    if (openAIClient) {
-      console.log("[SmartSync API] OpenAI client initialized for image analysis");
+    if (nodeIds !== undefined) {
+      ({ files, failures } = await loadStoredFiles(
+        supabase,
+        user.id,
+        nodeIds,
+        imageProvider !== null,
+        new Set(cachedByIndex.keys())
+      ));
     }
 
     console.log(`[SmartSync API] Processing ${files.length} files`);
@@ -87,42 +606,50 @@ export async function POST(request: NextRequest) {
       `[SmartSync API] Processing ${files.length} files in batches of ${BATCH_SIZE}`
     );
 
-    // Process files in parallel batches
-    const results: AnalysisResult[] = [];
-
-    for (let i = 0; i < files.length; i += BATCH_SIZE) {
-      const batch = files.slice(i, i + BATCH_SIZE);
-      const batchPromises = batch.map((file: FileMetadata) =>
-        analyzeFile(file, grokClient, openAIClient)
-      );
+    // Analyze every file and record the usage. When streaming, each event is
+    // emitted as soon as it is ready instead of after the last batch
+    const analyze = async (emit?: (event: SmartSyncEvent) => void) => {
+      // Process files in parallel batches
+      const results: AnalysisResult[] = [];
+      const usage: UsageTotals = { totalTokens: 0, byProvider: {} };
+
+      for (let i = 0; i < files.length; i += BATCH_SIZE) {
+        const batch = files.slice(i, i + BATCH_SIZE);
+        const batchPromises = batch.map(async (file: FileMetadata, j: number) => {
+          const failure = failures.get(i + j);
+          let result: AnalysisResult;
+          try {
+            result = cachedByIndex.get(i + j) ?? (failure
+              ? createFailedResult(file.name, failure)
+              : await analyzeFile(file, textProvider, imageProvider, namingTemplate, style, usage));
+          } catch (fileError) {
+            console.error(`[SmartSync API] Analysis error at index ${i + j}:`, fileError);
+            // Continue with the other files even if one fails
+            result = createFailedResult(file.name, new AnalysisError(
+              "provider_error",
+              fileError instanceof Error ? fileError.message : "Batch processing failed"
+            ));
+          }
+          emit?.(
+            result.error
+              ? { type: "error", index: i + j, originalName: file.name, error: result.error }
+              : { type: "result", index: i + j, result }
+          );
+          return result;
+        });
 
-      try {
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
-      } catch (batchError) {
-        console.error(`[SmartSync API] Batch error at index ${i}:`, batchError);
-        // Continue with next batch even if one fails
-        // Fill in failed results with fallback
-        for (const file of batch) {
-          results.push({
-            originalName: file.name,
-            suggestedName: file.name,
-            confidence: 0,
-            reasoning: "Processing failed for this batch",
-          });
-        }
+        results.push(...(await Promise.all(batchPromises)));
       }
-    }
 
-    // If folder structure analysis is requested, add suggestions
-    let folderSuggestions = null;
-    if (analyzeFolderStructure && files.length > 10) {
-      // Ask Grok for folder organization suggestions
-      try {
-        const folderPrompt = `Based on these file types and names, suggest an optimal folder structure:
+      // If folder structure analysis is requested, add suggestions
+      let folderSuggestions: FolderSuggestions | null = null;
+      if (analyzeFolderStructure && files.length > 10) {
+        // Ask the text provider for folder organization suggestions
+        try {
+          const folderPrompt = `Based on these file types and names, suggest an optimal folder structure:
 ${files
   .slice(0, 20)
-  .map((f) => `- ${f.name} (${f.type || "unknown"})`)
+  .map((f: FileMetadata) => `- ${f.name} (${f.type || "unknown"})`)
   .join("\n")}
 ${files.length > 20 ? `... and ${files.length - 20} more files` : ""}
 
@@ -132,35 +659,57 @@ Suggest 3-5 main folders with clear, descriptive names. Response in JSON:
   "reasoning": "Brief explanation"
 }`;
 
-        const folderCompletion = await grokClient.chat.completions.create({
-          model: "grok-3-mini",
-          messages: [
+          const { data, ...spent } = await completeStructured(
+            textProvider,
             {
-              role: "system",
-              content:
+              system:
                 "You are a file organization expert. Suggest clear, logical folder structures. Respond ONLY with valid JSON.",
+              prompt: folderPrompt,
+              temperature: 0.3,
+              maxTokens: 500, // Increased to ensure proper response
             },
-            {
-              role: "user",
-              content: folderPrompt,
-            },
-          ],
-          temperature: 0.3,
-          max_tokens: 500, // Increased to ensure proper response
-        });
+            FolderSuggestionsSchema,
+            "folder_suggestions"
+          );
+          logUsage(textProvider, spent, usage);
+          folderSuggestions = data;
+          emit?.({ type: "folders", folderSuggestions });
+        } catch (folderError) {
+          console.error("[SmartSync API] Folder analysis error:", folderError);
+          if (folderError instanceof AnalysisError) logUsage(textProvider, folderError, usage);
+        }
+      }
 
-        const folderResponseText =
-          folderCompletion.choices[0]?.message?.content || "";
-        const jsonMatch = folderResponseText.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          folderSuggestions = JSON.parse(jsonMatch[0]);
+      let deploymentTokens = 0;
+      for (const [id, totals] of Object.entries(usage.byProvider) as [ProviderId, { requests: number; tokens: number }][]) {
+        const key = userKeys.get(id);
+        if (key) {
+          await recordApiKeyUsage(supabase, key.id, totals.requests, totals.tokens);
+        } else {
+          deploymentTokens += totals.tokens;
         }
-      } catch (folderError) {
-        console.error("[SmartSync API] Folder analysis error:", folderError);
       }
+      await recordAiTokens(supabase, deploymentTokens);
+
+      // Only fresh, successful results are cached
+      const freshResults: CachedSuggestion[] = [];
+      results.forEach((result, index) => {
+        const key = cacheKeys[index];
+        if (key && !result.error && !cachedByIndex.has(index)) {
+          freshResults.push({ key, model: cacheModels[index], result });
+        }
+      });
+      await cacheSuggestions(supabase, user.id, freshResults);
+
+      emit?.({ type: "done", processed: results.length });
+      return { results, folderSuggestions };
+    };
+
+    if (stream) {
+      return streamEvents(analyze);
     }
 
-    return NextResponse.json({ results, folderSuggestions });
+    return NextResponse.json<SmartSyncResults>(await analyze());
   } catch (error) {
     console.error("[SmartSync API] Error:", error);
     return NextResponse.json(
@@ -170,181 +719,177 @@ Suggest 3-5 main folders with clear, descriptive names. Response in JSON:
   }
 }
 
-// Analyze image files using OpenAI GPT-4o-mini
-async function analyzeImageWithOpenAI(
+// Respond with newline-delimited JSON events written by `run` as they happen.
+// A failure after the response has started is sent as a final error event
+function streamEvents(
+  run: (emit: (event: SmartSyncEvent) => void) => Promise<unknown>
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: SmartSyncEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+      try {
+        await run(emit);
+      } catch (error) {
+        console.error("[SmartSync API] Stream error:", error);
+        emit({
+          type: "error",
+          error: new AnalysisError("provider_error", "Failed to process files").toFailure(),
+        });
+      }
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    // The client went away; the analysis finishes but nothing more is sent
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      // Keep proxies such as nginx from buffering the events
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+// Log token usage reported by the provider and add it to the request's totals.
+// Takes a structured completion, or the AnalysisError of one that failed
+function logUsage(
+  provider: AIProvider,
+  spent: { attempts?: number; usage?: CompletionUsage },
+  usage: UsageTotals
+) {
+  if (!spent.attempts) return;
+  const totals = (usage.byProvider[provider.id] ??= { requests: 0, tokens: 0 });
+  totals.requests += spent.attempts;
+  if (spent.usage) {
+    usage.totalTokens += spent.usage.totalTokens;
+    totals.tokens += spent.usage.totalTokens;
+    console.log(`[SmartSync API] ${provider.id} token usage:`, {
+      attempts: spent.attempts,
+      prompt_tokens: spent.usage.promptTokens,
+      completion_tokens: spent.usage.completionTokens,
+      total_tokens: spent.usage.totalTokens,
+    });
+  }
+}
+
+// Analyze image files with a vision-capable provider
+async function analyzeImageWithVision(
   metadata: FileMetadata,
-  openAIClient: OpenAI,
-  extension: string
+  visionProvider: AIProvider,
+  extension: string,
+  template: NamingTemplate | null,
+  style: NamingStyle,
+  usage: UsageTotals
 ): Promise<AnalysisResult> {
-  try {
-    console.log(`[SmartSync API] Analyzing image with OpenAI: ${metadata.name}`);
-    
-    // Check if we have actual image data
-    if (!metadata.imageData) {
-      console.log(`[SmartSync API] No image data available for ${metadata.name}, using metadata only`);
-      // Fallback to text-based analysis
-      return analyzeImageWithMetadataOnly(metadata, openAIClient, extension);
-    }
-    
-    // Use vision capabilities with actual image
-    const messages: any[] = [
-      {
-        role: "system",
-        content: `You are an expert at analyzing images and suggesting descriptive, meaningful filenames. Analyze the visual content and suggest a filename that clearly describes what the image contains. Be specific about objects, people, text, logos, UI elements, or any other visual content. Output ONLY valid JSON.`
-      },
-      {
-        role: "user",
-        content: [
-          {
-            type: "text",
-            text: `Analyze this image and suggest a better, more descriptive filename.
+  console.log(
+    `[SmartSync API] Analyzing image with ${visionProvider.id}: ${metadata.name}`
+  );
+
+  // Check if we have actual image data
+  if (!metadata.imageData) {
+    console.log(`[SmartSync API] No image data available for ${metadata.name}, using metadata only`);
+    // Fallback to text-based analysis
+    return analyzeImageWithMetadataOnly(metadata, visionProvider, extension, template, style, usage);
+  }
+
+  // Use vision capabilities with actual image
+  const { data, ...spent } = await requestSuggestion(
+    visionProvider,
+    {
+      system: `You are an expert at analyzing images and suggesting descriptive, meaningful filenames. Analyze the visual content and suggest a filename that clearly describes what the image contains. Be specific about objects, people, text, logos, UI elements, or any other visual content. Output ONLY valid JSON.`,
+      prompt: `Analyze this image and suggest a better, more descriptive filename.
 Current filename: ${metadata.name}
 ${metadata.metadata?.isScreenshot ? 'This appears to be a screenshot.' : ''}
 ${metadata.metadata?.isScan ? 'This appears to be a scanned document.' : ''}
 
-Based on the visual content, suggest a descriptive filename.
-Respond with ONLY this JSON format:
-{"suggestedName": "descriptive-name${extension}", "confidence": 0.85, "reasoning": "what you see in the image"}`
-          },
-          {
-            type: "image_url",
-            image_url: {
-              url: `data:${metadata.type || 'image/png'};base64,${metadata.imageData}`,
-              detail: "auto" // Let OpenAI decide the appropriate detail level
-            }
-          }
-        ]
-      }
-    ];
-    
-    const completion = await openAIClient.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: messages,
+Base your answer on the visual content.`,
+      image: {
+        mimeType: metadata.type || "image/png",
+        data: metadata.imageData,
+      },
       temperature: 0.3,
-      max_tokens: 200,
-    });
-
-    const responseText = completion.choices[0]?.message?.content || "";
-    console.log("[SmartSync API] OpenAI response:", responseText);
-
-    // Log token usage
-    if (completion.usage) {
-      console.log("[SmartSync API] OpenAI token usage:", {
-        prompt_tokens: completion.usage.prompt_tokens,
-        completion_tokens: completion.usage.completion_tokens,
-        total_tokens: completion.usage.total_tokens
-      });
-    }
-
-    // Parse the response
-    try {
-      let parsed;
-      try {
-        parsed = JSON.parse(responseText);
-      } catch (e) {
-        // Try to extract JSON from the response
-        const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          throw new Error("No JSON found in OpenAI response");
-        }
-        parsed = JSON.parse(jsonMatch[0]);
-      }
-
-      if (!parsed.suggestedName) {
-        throw new Error("Invalid response format from OpenAI");
-      }
-
-      return {
-        originalName: metadata.name,
-        suggestedName: sanitizeFilename(parsed.suggestedName),
-        confidence: Math.max(0, Math.min(1, parsed.confidence || 0.85)),
-        reasoning: parsed.reasoning || "AI suggested name based on image analysis",
-      };
-    } catch (parseError) {
-      console.error("[SmartSync API] Failed to parse OpenAI response:", parseError);
-      throw parseError;
-    }
-  } catch (error) {
-    console.error("[SmartSync API] OpenAI image analysis error:", error);
-    
-    // Fallback to basic image naming
-    const imageType = metadata.metadata?.isScreenshot ? 'screenshot' :
-                     metadata.metadata?.isScan ? 'scan' :
-                     'image';
-    const timestamp = new Date().toISOString().split('T')[0];
-    
-    return {
-      originalName: metadata.name,
-      suggestedName: `${imageType}-${timestamp}${extension}`,
-      confidence: 0.3,
-      reasoning: "OpenAI unavailable - basic image naming applied",
-    };
-  }
+      maxTokens: template ? 400 : 200,
+    },
+    extension,
+    template,
+    style,
+    { confidence: 0.85, reasoning: "what you see in the image" }
+  );
+
+  logUsage(visionProvider, spent, usage);
+  return toAnalysisResult(metadata, data, extension);
 }
 
 // Fallback function for analyzing images without actual image data
 async function analyzeImageWithMetadataOnly(
   metadata: FileMetadata,
-  openAIClient: OpenAI,
-  extension: string
+  provider: AIProvider,
+  extension: string,
+  template: NamingTemplate | null,
+  style: NamingStyle,
+  usage: UsageTotals
 ): Promise<AnalysisResult> {
-  try {
-    const completion = await openAIClient.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: `You are a file naming assistant. Based on the limited information available, suggest a better filename. Output ONLY valid JSON.`
-        },
-        {
-          role: "user",
-          content: `Suggest a better filename based on this information:
+  const { data, ...spent } = await requestSuggestion(
+    provider,
+    {
+      system: `You are a file naming assistant. Based on the limited information available, suggest a better filename. Output ONLY valid JSON.`,
+      prompt: `Suggest a better filename based on this information:
 Current filename: ${metadata.name}
 File type: ${metadata.type || "image"}
 File size: ${(metadata.size / 1024).toFixed(1)}KB
-${metadata.preview ? `Metadata: ${metadata.preview}` : ''}
-
-Respond with ONLY this JSON format:
-{"suggestedName": "descriptive-name${extension}", "confidence": 0.5, "reasoning": "based on available metadata"}`
-        }
-      ],
+${metadata.preview ? `Metadata: ${metadata.preview}` : ''}`,
       temperature: 0.3,
-      max_tokens: 150,
-    });
+      maxTokens: template ? 400 : 150,
+    },
+    extension,
+    template,
+    style,
+    { confidence: 0.5, reasoning: "based on available metadata" }
+  );
+
+  logUsage(provider, spent, usage);
+  return toAnalysisResult(metadata, data, extension);
+}
 
-    const responseText = completion.choices[0]?.message?.content || "";
-    const parsed = JSON.parse(responseText);
-    
-    return {
-      originalName: metadata.name,
-      suggestedName: sanitizeFilename(parsed.suggestedName),
-      confidence: Math.max(0, Math.min(1, parsed.confidence || 0.5)),
-      reasoning: parsed.reasoning || "Based on file metadata",
-    };
-  } catch (error) {
-    console.error("[SmartSync API] Metadata-only analysis failed:", error);
-    throw error;
-  }
+// Use the vision provider for images if available, otherwise fall back to
+// text. Images with OCR text are analyzed as documents from that text
+function usesVision(metadata: FileMetadata, visionProvider: AIProvider | null): boolean {
+  const isImageFile = metadata.type?.startsWith('image/') || 
+    /\.(jpg|jpeg|png|gif|bmp|webp|svg|ico|tiff|tif)$/i.test(metadata.name);
+  return !!visionProvider && isImageFile && !metadata.metadata?.hasOcrText;
 }
 
+// Analyze a single file. Never throws: failures are reported on the result
+// with a typed error category so the client can tell them apart
 async function analyzeFile(
   metadata: FileMetadata,
-  grokClient: OpenAI,
-  openAIClient: OpenAI | null
+  textProvider: AIProvider,
+  visionProvider: AIProvider | null,
+  template: NamingTemplate | null,
+  style: NamingStyle,
+  usage: UsageTotals
 ): Promise<AnalysisResult> {
   const extension = getFileExtension(metadata.name);
+  const vision = usesVision(metadata, visionProvider);
 
   try {
-    // Check if this is an image file
-    const isImageFile = metadata.type?.startsWith('image/') || 
-      metadata.name.toLowerCase().match(/\.(jpg|jpeg|png|gif|bmp|webp|svg|ico|tiff|tif)$/i);
-    
-    // Use OpenAI for images if available, otherwise fallback to Grok
-    if (isImageFile && openAIClient) {
-      return await analyzeImageWithOpenAI(metadata, openAIClient, extension);
+    if (vision) {
+      return await analyzeImageWithVision(metadata, visionProvider!, extension, template, style, usage);
     }
-    
-    // Build context for the AI (Grok)
+
+    // Build context for the AI
     const contextParts = [
       `Current filename: ${metadata.name}`,
       `File type: ${metadata.type || "unknown"}`,
@@ -353,7 +898,7 @@ async function analyzeFile(
 
     if (metadata.preview) {
       contextParts.push(
-        `Content preview: ${metadata.preview.substring(0, 500)}`
+        `Content preview: ${metadata.preview.substring(0, MAX_PREVIEW_CHARS)}`
       );
     }
 
@@ -377,206 +922,65 @@ async function analyzeFile(
         contextParts.push(`This appears to be a scanned document`);
       if (meta.isDraft) contextParts.push(`This appears to be a draft`);
       if (meta.isFinal) contextParts.push(`This appears to be a final version`);
+      if (meta.pageCount) contextParts.push(`Page count: ${meta.pageCount}`);
+      if (meta.documentTitle)
+        contextParts.push(`Document title: ${meta.documentTitle}`);
+      if (meta.documentAuthor)
+        contextParts.push(`Document author: ${meta.documentAuthor}`);
+      if (meta.documentCreated)
+        contextParts.push(`Document created: ${meta.documentCreated}`);
+      if (meta.documentModified)
+        contextParts.push(`Document last modified: ${meta.documentModified}`);
+      if (meta.sheetNames?.length)
+        contextParts.push(`Spreadsheet sheets: ${meta.sheetNames.join(", ")}`);
+      if (meta.slideCount) contextParts.push(`Slide count: ${meta.slideCount}`);
+      if (meta.hasTextLayer === false && !meta.ocrPages)
+        contextParts.push(`This PDF has no text layer (likely scanned)`);
+      if (meta.ocrPages)
+        contextParts.push(`Text of pages ${meta.ocrPages.join(", ")} was recognized by OCR and may contain errors`);
+      if (meta.hasOcrText)
+        contextParts.push(`The preview text was recognized by OCR from an image and may contain errors`);
     }
 
-    // Call Grok using OpenAI SDK
-    let completion;
-    try {
-      console.log("[SmartSync API] Calling Grok API...");
-
-      // First, let's try a simple test to see if the API is working
-      const testCompletion = await grokClient.chat.completions.create({
-        model: "grok-3-mini",
-        messages: [
-          {
-            role: "user",
-            content: "Say 'test' and nothing else",
-          },
-        ],
-        temperature: 0,
-        max_tokens: 10,
-      });
-
-      console.log(
-        "[SmartSync API] Test response:",
-        testCompletion.choices[0]?.message?.content
-      );
-
-      // Now make the actual request with increased token limit
-      completion = await grokClient.chat.completions.create({
-        model: "grok-3-mini",
-        messages: [
-          {
-            role: "system",
-            content: `You are a professional file naming assistant who always uses best practices for file naming. You name files based on their content. Please limit the amount of reasoning tokens you use. Analyze the file and suggest a better, more descriptive name. Output ONLY valid JSON with no additional text or explanations.`,
-          },
-          {
-            role: "user",
-            content: `Suggest a better name for this file:
-Current filename: ${metadata.name}
-File type: ${metadata.type || "unknown"}
-${
-  metadata.preview
-    ? `Content preview: ${metadata.preview.substring(0, 200)}`
-    : ""
-}
+    console.log(`[SmartSync API] Calling ${textProvider.id} (${textProvider.model})...`);
 
-Respond with ONLY this JSON format:
-{"suggestedName": "descriptive-name${extension}", "confidence": 0.85, "reasoning": "brief explanation"}`,
-          },
-        ],
+    const { data, ...spent } = await requestSuggestion(
+      textProvider,
+      {
+        system: `You are a professional file naming assistant who always uses best practices for file naming. You name files based on their content. Please limit the amount of reasoning tokens you use. Analyze the file and suggest a better, more descriptive name. Output ONLY valid JSON with no additional text or explanations.`,
+        prompt: `Suggest a better name for this file:
+${contextParts.join("\n")}`,
         temperature: 0.2,
-        max_tokens: 1500, // Increased to allow for proper response
-      });
-    } catch (apiError: any) {
-      console.error("[SmartSync API] API call failed:", {
-        message: apiError.message,
-        status: apiError.status,
-        code: apiError.code,
-        type: apiError.type,
-        response: apiError.response?.data,
-      });
-
-      // Check for common errors
-      if (apiError.status === 401) {
-        throw new Error("Invalid API key - please check your GROK_API_KEY");
-      }
-      if (apiError.status === 429) {
-        throw new Error("Rate limit exceeded - please try again later");
-      }
-
-      if (apiError.message?.includes("response_format")) {
-        console.log(
-          "[SmartSync API] response_format not supported, retrying without it"
-        );
-        // Retry without response_format
-        completion = await grokClient.chat.completions.create({
-          model: "grok-3-mini",
-          messages: [
-            {
-              role: "system",
-              content: `You are a file naming assistant. Respond ONLY with valid JSON.`,
-            },
-            {
-              role: "user",
-              content: `Suggest a better name for this file: ${metadata.name}
-Extension to keep: ${extension}
-
-Respond with ONLY this JSON format:
-{"suggestedName": "new-name${extension}", "confidence": 0.85, "reasoning": "brief reason"}`,
-            },
-          ],
-          temperature: 0.5,
-          max_tokens: 500, // Increased to match main request
-        });
-      } else {
-        throw apiError;
-      }
-    }
-
-    // Log the full completion object for debugging
-    console.log(
-      "[SmartSync API] Full completion object:",
-      JSON.stringify(completion, null, 2)
+        maxTokens: 1500, // Increased to allow for proper response
+      },
+      extension,
+      template,
+      style,
+      { confidence: 0.85, reasoning: "brief explanation" }
     );
 
-    // Parse the response
-    const message = completion.choices[0]?.message;
-    let responseText = message?.content || "";
-
-    // Log usage information for debugging
-    if (completion.usage) {
-      console.log("[SmartSync API] Token usage:", {
-        prompt_tokens: completion.usage.prompt_tokens,
-        completion_tokens: completion.usage.completion_tokens,
-        total_tokens: completion.usage.total_tokens,
-        // @ts-ignore - Grok may include additional fields
-        reasoning_tokens:
-          completion.usage.completion_tokens_details?.reasoning_tokens,
-      });
-    }
-
-    console.log("[SmartSync API] Raw response from Grok:", responseText);
-
-    // Check if we got an empty response
-    if (!responseText || responseText.trim() === "") {
-      console.error("[SmartSync API] Empty response from Grok");
-      throw new Error("Empty response from API");
+    logUsage(textProvider, spent, usage);
+    if (spent.attempts > 1) {
+      console.log(`[SmartSync API] Valid response for ${metadata.name} after ${spent.attempts} attempts`);
     }
 
-    try {
-      // First try to parse the entire response as JSON
-      let parsed;
-      try {
-        parsed = JSON.parse(responseText);
-      } catch (e) {
-        // If that fails, try to extract JSON from the response
-        const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          console.error(
-            "[SmartSync API] No JSON found in response:",
-            responseText
+    return toAnalysisResult(metadata, data, extension);
+  } catch (error) {
+    const failure =
+      error instanceof AnalysisError
+        ? error
+        : new AnalysisError(
+            "provider_error",
+            error instanceof Error ? error.message : "Unknown error"
           );
-          throw new Error("No JSON found in response");
-        }
-        parsed = JSON.parse(jsonMatch[0]);
-      }
 
-      // Validate the parsed response has required fields
-      if (!parsed.suggestedName) {
-        console.warn("[SmartSync API] Missing suggestedName in response");
-        throw new Error("Invalid response format");
-      }
-
-      return {
-        originalName: metadata.name,
-        suggestedName: sanitizeFilename(parsed.suggestedName),
-        confidence: Math.max(0, Math.min(1, parsed.confidence || 0.85)),
-        reasoning: parsed.reasoning || "Grok AI suggested name",
-      };
-    } catch (parseError) {
-      console.error("[SmartSync API] Failed to parse AI response:", parseError);
-
-      // Try a simpler approach - just clean up the filename
-      const cleanName = metadata.name
-        .toLowerCase()
-        .replace(/[^\w\s.-]/g, "") // Remove special chars except dots and hyphens
-        .replace(/\s+/g, "-") // Replace spaces with hyphens
-        .replace(/-+/g, "-") // Remove multiple hyphens
-        .replace(/^-|-$/g, ""); // Remove leading/trailing hyphens
-
-      // Reconstruct with extension
-      const nameWithoutExt =
-        cleanName.substring(0, cleanName.lastIndexOf(".")) || cleanName;
-      const suggestedName = nameWithoutExt + extension;
-
-      return {
-        originalName: metadata.name,
-        suggestedName: suggestedName,
-        confidence: 0.5,
-        reasoning: "Basic formatting applied",
-      };
-    }
-  } catch (error) {
     console.error(
-      "[SmartSync API] AI analysis error for",
-      metadata.name,
-      error
+      `[SmartSync API] AI analysis failed for ${metadata.name} (${failure.category}):`,
+      failure.message
     );
+    // Responses that never passed validation still cost tokens
+    logUsage(vision ? visionProvider! : textProvider, failure, usage);
 
-    // Fallback to basic improvements
-    const cleanName = metadata.name
-      .toLowerCase()
-      .replace(/\s+/g, "-")
-      .replace(/[^\w\-\.]/g, "")
-      .replace(/-+/g, "-");
-
-    return {
-      originalName: metadata.name,
-      suggestedName: cleanName,
-      confidence: 0.3,
-      reasoning:
-        "Grok service temporarily unavailable - basic formatting applied",
-    };
+    return createFailedResult(metadata.name, failure);
   }
 }
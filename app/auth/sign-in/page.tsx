@@ -25,7 +25,7 @@ export default function SignIn() {
         setError(result.error)
         setLoading(false)
       }
-    } catch (err) {
+    } catch {
       setError('An unexpected error occurred')
       setLoading(false)
     }
@@ -84,7 +84,7 @@ export default function SignIn() {
                 {loading ? 'Signing in...' : 'Sign in'}
               </Button>
               <p className="text-center text-sm text-muted-foreground">
-                Don't have an account?{' '}
+                Don&apos;t have an account?{' '}
                 <Link 
                   href="/auth/sign-up" 
                   className="font-medium text-primary hover:underline"
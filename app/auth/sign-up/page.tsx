@@ -25,7 +25,7 @@ export default function SignUp() {
         setError(result.error)
         setLoading(false)
       }
-    } catch (err) {
+    } catch {
       setError('An unexpected error occurred')
       setLoading(false)
     }
@@ -21,7 +21,7 @@ export default function VerifyEmail() {
               Check your email
             </CardTitle>
             <CardDescription className="text-center">
-              We've sent you a verification link to confirm your email address
+              We&apos;ve sent you a verification link to confirm your email address
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -30,11 +30,11 @@ export default function VerifyEmail() {
               <ol className="list-decimal list-inside space-y-1">
                 <li>Check your email inbox</li>
                 <li>Click the verification link in the email</li>
-                <li>You'll be redirected to sign in</li>
+                <li>You&apos;ll be redirected to sign in</li>
               </ol>
             </div>
             <p className="text-center text-sm text-muted-foreground">
-              Didn't receive the email? Check your spam folder or contact support.
+              Didn&apos;t receive the email? Check your spam folder or contact support.
             </p>
           </CardContent>
           <CardFooter className="flex flex-col space-y-4 pt-6">
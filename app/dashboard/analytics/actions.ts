@@ -0,0 +1,153 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { TablesInsert } from '@/utils/supabase/database.types'
+import {
+  CONFIDENCE_BUCKETS,
+  getFileCategory,
+  listWeeks,
+  type NodeActivityType,
+  type RenameDecisionInput,
+  type SuggestionDecision
+} from '@/utils/analytics'
+import { saveNamingExamples } from '@/utils/ai/naming-examples'
+
+// Decisions accepted per call; an organizer run sends one per analyzed file
+const MAX_DECISIONS_PER_CALL = 1000
+
+const DECISIONS: SuggestionDecision[] = ['accepted', 'edited', 'rejected']
+
+/**
+ * Record how the user treated AI name suggestions, keeping accepted and
+ * edited names as examples for later prompts. Failing to record is logged
+ * rather than thrown, since the renames themselves already happened.
+ */
+export async function recordRenameDecisions(workspaceId: string, decisions: RenameDecisionInput[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data: workspace } = await supabase
+    .from('workspaces')
+    .select('id')
+    .eq('id', workspaceId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+  if (!workspace) throw new Error('Workspace not found')
+
+  const valid = decisions
+    .filter(decision =>
+      DECISIONS.includes(decision.decision) &&
+      decision.suggestedName.trim() &&
+      Number.isFinite(decision.confidence)
+    )
+    .slice(0, MAX_DECISIONS_PER_CALL)
+
+  const rows: TablesInsert<'activity_events'>[] = valid
+    .map(decision => ({
+      user_id: user.id,
+      workspace_id: workspaceId,
+      node_id: decision.nodeId ?? null,
+      event_type: 'rename_decision' as const,
+      node_type: 'file' as const,
+      decision: decision.decision,
+      confidence: Math.min(1, Math.max(0, decision.confidence)),
+      suggested_name: decision.suggestedName.trim(),
+      final_name: decision.finalName.trim() || null
+    }))
+
+  if (rows.length === 0) return
+
+  const { error } = await supabase.from('activity_events').insert(rows)
+  if (error) {
+    console.error('[Analytics] Failed to record rename decisions:', error)
+  }
+
+  await saveNamingExamples(supabase, user.id, valid
+    .filter(decision => decision.originalName !== undefined)
+    .map(decision => ({
+      originalName: decision.originalName!,
+      suggestedName: decision.suggestedName,
+      finalName: decision.finalName,
+      decision: decision.decision
+    })))
+}
+
+// Storage, AI suggestion quality and weekly activity of a workspace over the last `days`
+export async function getAnalytics(workspaceId: string, days: number) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+  const [{ data: nodes, error: nodesError }, { data: counts, error: countsError }] = await Promise.all([
+    supabase
+      .from('nodes')
+      .select('node_type, name, mime_type, size')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', user.id)
+      .is('deleted_at', null),
+    supabase.rpc('activity_counts', { p_workspace_id: workspaceId, p_since: since.toISOString() })
+  ])
+
+  if (nodesError) throw nodesError
+  if (countsError) throw countsError
+
+  const storage = new Map<string, { category: string; files: number; bytes: number }>()
+  let folderCount = 0
+  for (const node of nodes || []) {
+    if (node.node_type === 'folder') {
+      folderCount++
+      continue
+    }
+    const category = getFileCategory(node)
+    const entry = storage.get(category) ?? { category, files: 0, bytes: 0 }
+    entry.files++
+    entry.bytes += node.size ?? 0
+    storage.set(category, entry)
+  }
+
+  const confidence = CONFIDENCE_BUCKETS.map(label => ({ label, accepted: 0, edited: 0, rejected: 0 }))
+  const activity = listWeeks(since).map(week => ({
+    week,
+    created: 0,
+    renamed: 0,
+    moved: 0,
+    trashed: 0,
+    restored: 0,
+    // Files whose AI suggestion was applied, as suggested or edited
+    organized: 0
+  }))
+
+  for (const row of counts || []) {
+    const events = Number(row.events)
+    const week = activity.find(entry => entry.week === row.week)
+
+    if (row.event_type === 'rename_decision') {
+      const decision = row.decision as SuggestionDecision
+      const bucket = confidence[row.confidence_bucket ?? 0]
+      if (bucket && DECISIONS.includes(decision)) bucket[decision] += events
+      if (week && decision !== 'rejected') week.organized += events
+    } else if (week) {
+      week[row.event_type as NodeActivityType] += events
+    }
+  }
+
+  const decisions = {
+    accepted: confidence.reduce((sum, bucket) => sum + bucket.accepted, 0),
+    edited: confidence.reduce((sum, bucket) => sum + bucket.edited, 0),
+    rejected: confidence.reduce((sum, bucket) => sum + bucket.rejected, 0)
+  }
+
+  return {
+    storage: Array.from(storage.values()).sort((a, b) => b.bytes - a.bytes),
+    fileCount: Array.from(storage.values()).reduce((sum, entry) => sum + entry.files, 0),
+    folderCount,
+    totalBytes: Array.from(storage.values()).reduce((sum, entry) => sum + entry.bytes, 0),
+    decisions,
+    confidence,
+    activity
+  }
+}
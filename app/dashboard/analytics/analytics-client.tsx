@@ -0,0 +1,177 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import WorkspaceHeader from '@/components/dashboard/workspace-header'
+import {
+  ActivityChart,
+  OrganizedPerWeekChart,
+  StorageByTypeChart,
+  SuggestionConfidenceChart
+} from '@/components/dashboard/analytics-charts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { Tables } from '@/utils/supabase/database.types'
+import { FileDownloader } from '@/utils/file-downloader'
+import { ANALYTICS_RANGES, TARGET_APPROVAL_RATE } from '@/utils/analytics'
+import { getAnalytics } from './actions'
+
+type Workspace = Tables<'workspaces'>
+
+interface AnalyticsClientProps {
+  workspaces: Workspace[]
+  currentWorkspaceId: string
+  days: number
+  analytics: Awaited<ReturnType<typeof getAnalytics>>
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '–' : `${Math.round(value * 100)}%`
+}
+
+function StatCard({ title, value, detail, className }: {
+  title: string
+  value: string
+  detail: string
+  className?: string
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className={cn('text-3xl', className)}>{value}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function AnalyticsClient({
+  workspaces,
+  currentWorkspaceId,
+  days,
+  analytics
+}: AnalyticsClientProps) {
+  const router = useRouter()
+  const { decisions, activity } = analytics
+
+  const reviewed = decisions.accepted + decisions.edited + decisions.rejected
+  const approved = decisions.accepted + decisions.edited
+  const approvalRate = reviewed > 0 ? decisions.accepted / reviewed : null
+  const editRate = approved > 0 ? decisions.edited / approved : null
+  const organizedPerWeek = activity.length > 0
+    ? activity.reduce((sum, week) => sum + week.organized, 0) / activity.length
+    : 0
+
+  const navigate = (workspaceId: string, range: number) => {
+    router.push(`/dashboard/analytics?${new URLSearchParams({ workspace: workspaceId, days: String(range) })}`)
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <WorkspaceHeader
+        workspaces={workspaces}
+        currentWorkspaceId={currentWorkspaceId}
+        onWorkspaceChange={(workspaceId) => navigate(workspaceId, days)}
+      />
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-6 lg:p-8">
+        <div className="mx-auto max-w-7xl space-y-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+              <p className="mt-2 text-muted-foreground">
+                How this workspace is organized and how well the AI suggestions land.
+              </p>
+            </div>
+            <Select value={String(days)} onValueChange={(value) => navigate(currentWorkspaceId, Number(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANALYTICS_RANGES.map(range => (
+                  <SelectItem key={range} value={String(range)}>
+                    Last {range} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <StatCard
+              title="Storage"
+              value={FileDownloader.formatBytes(analytics.totalBytes)}
+              detail={`${analytics.fileCount} file${analytics.fileCount === 1 ? '' : 's'} in ${analytics.folderCount} folder${analytics.folderCount === 1 ? '' : 's'}`}
+            />
+            <StatCard
+              title="Approval rate"
+              value={formatPercent(approvalRate)}
+              detail={`AI names approved without edits, target ${formatPercent(TARGET_APPROVAL_RATE)}. ${reviewed} reviewed.`}
+              className={cn(
+                approvalRate !== null && (approvalRate >= TARGET_APPROVAL_RATE ? 'text-green-600' : 'text-amber-600')
+              )}
+            />
+            <StatCard
+              title="Edited before approval"
+              value={formatPercent(editRate)}
+              detail={`${decisions.edited} of ${approved} approved names were changed first`}
+            />
+            <StatCard
+              title="Files organized per week"
+              value={organizedPerWeek.toFixed(1)}
+              detail={`${approved} file${approved === 1 ? '' : 's'} renamed with AI in the last ${days} days`}
+            />
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>AI suggestions by confidence</CardTitle>
+                <CardDescription>How suggested names were treated, by the model&apos;s confidence</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SuggestionConfidenceChart confidence={analytics.confidence} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Storage by type</CardTitle>
+                <CardDescription>Size of the files in this workspace, excluding the trash</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <StorageByTypeChart storage={analytics.storage} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Activity</CardTitle>
+                <CardDescription>Files and folders added, renamed, moved, trashed and restored per week</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ActivityChart activity={activity} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Files organized per week</CardTitle>
+                <CardDescription>AI suggestions applied as suggested or after edits</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <OrganizedPerWeekChart activity={activity} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+export default function Loading() {
+  return (
+    <div className="flex h-full items-center justify-center">
+      <div className="text-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto mb-4" />
+        <p className="text-sm text-muted-foreground">Loading analytics...</p>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
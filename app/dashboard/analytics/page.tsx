@@ -0,0 +1,43 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/utils/supabase/server'
+import { getUserWorkspaces } from '@/app/dashboard/file-organizer/actions'
+import { ANALYTICS_RANGES, DEFAULT_ANALYTICS_RANGE } from '@/utils/analytics'
+import { getAnalytics } from './actions'
+import AnalyticsClient from './analytics-client'
+
+export default async function AnalyticsPage({
+  searchParams
+}: {
+  searchParams: Promise<{ workspace?: string; days?: string }>
+}) {
+  const params = await searchParams
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect('/auth/sign-in')
+  }
+
+  // The file organizer creates the default workspace on first visit
+  const workspaces = await getUserWorkspaces()
+  if (workspaces.length === 0) {
+    redirect('/dashboard/file-organizer')
+  }
+
+  const currentWorkspaceId = params.workspace || workspaces.find(w => w.is_default)?.id || workspaces[0].id
+  if (!workspaces.some(w => w.id === currentWorkspaceId)) {
+    redirect(`/dashboard/analytics?workspace=${workspaces[0].id}`)
+  }
+
+  const days = ANALYTICS_RANGES.find(range => String(range) === params.days) ?? DEFAULT_ANALYTICS_RANGE
+  const analytics = await getAnalytics(currentWorkspaceId, days)
+
+  return (
+    <AnalyticsClient
+      workspaces={workspaces}
+      currentWorkspaceId={currentWorkspaceId}
+      days={days}
+      analytics={analytics}
+    />
+  )
+}
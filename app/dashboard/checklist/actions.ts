@@ -0,0 +1,612 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { Tables } from '@/utils/supabase/database.types'
+import { resolveTextProvider } from '@/utils/ai/provider'
+import { describeQuotaExceeded, recordAiTokens, reserveAiRequests } from '@/utils/ai/usage-quota'
+import { loadUserApiKeys, recordApiKeyUsage, toApiKeySelection } from '@/utils/ai/user-api-keys'
+import {
+  FILES_PER_MATCH_REQUEST,
+  matchChecklistFiles,
+  type ChecklistMatcherFile
+} from '@/utils/ai/checklist-matcher'
+import { toAnalysisError } from '@/utils/ai/structured-output'
+import {
+  MAX_SUGGESTIONS_PER_ITEM,
+  MIN_MATCH_CONFIDENCE,
+  getChecklistFileType,
+  getChecklistItemStatus,
+  matchesExpectedFileType,
+  type ChecklistItemInput
+} from '@/utils/checklist'
+import { toNodeMetadata } from '@/utils/tags'
+import { getUserSettings } from '@/utils/user-settings'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+type Node = Tables<'nodes'>
+type Checklist = Tables<'checklists'>
+type ChecklistItem = Tables<'checklist_items'>
+type ChecklistMatch = Tables<'checklist_matches'>
+
+// Files offered to the model per run, most recently modified first
+const MAX_MATCH_CANDIDATES = 200
+
+export async function getChecklists(workspaceId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('checklists')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  const checklists = (data || []) as Checklist[]
+  const checklistIds = checklists.map(checklist => checklist.id)
+  const [items, matches] = await Promise.all([
+    getItems(supabase, user.id, checklistIds),
+    getLiveMatches(supabase, user.id, checklistIds)
+  ])
+
+  return checklists.map(checklist => {
+    const checklistItems = items.filter(item => item.checklist_id === checklist.id)
+    const completed = checklistItems.filter(item =>
+      getChecklistItemStatus(matches.filter(match => match.item_id === item.id)) === 'complete'
+    ).length
+    return { ...checklist, itemCount: checklistItems.length, completedCount: completed }
+  })
+}
+
+// A checklist with its items in order and the matches of files still in the workspace
+export async function getChecklist(checklistId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const checklist = await getOwnedChecklist(supabase, user.id, checklistId)
+  const [items, matches] = await Promise.all([
+    getItems(supabase, user.id, [checklistId]),
+    getLiveMatches(supabase, user.id, [checklistId])
+  ])
+
+  return { checklist, items, matches }
+}
+
+export async function createChecklist(workspaceId: string, name: string, description: string = '') {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('checklists')
+    .insert({
+      user_id: user.id,
+      workspace_id: workspaceId,
+      name: validateChecklistName(name),
+      description: description.trim() || null
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  revalidatePath('/dashboard/checklist')
+  return data as Checklist
+}
+
+export async function updateChecklist(checklistId: string, name: string, description: string = '') {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('checklists')
+    .update({
+      name: validateChecklistName(name),
+      description: description.trim() || null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', checklistId)
+    .eq('user_id', user.id)
+
+  if (error) throw error
+
+  revalidatePath('/dashboard/checklist')
+}
+
+// Items and matches go with the checklist; matched files are left alone
+export async function deleteChecklist(checklistId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('checklists')
+    .delete()
+    .eq('id', checklistId)
+    .eq('user_id', user.id)
+
+  if (error) throw error
+
+  revalidatePath('/dashboard/checklist')
+}
+
+export async function createChecklistItem(checklistId: string, input: ChecklistItemInput) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  await getOwnedChecklist(supabase, user.id, checklistId)
+
+  const { data: last } = await supabase
+    .from('checklist_items')
+    .select('position')
+    .eq('checklist_id', checklistId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data, error } = await supabase
+    .from('checklist_items')
+    .insert({
+      checklist_id: checklistId,
+      user_id: user.id,
+      position: (last?.position ?? -1) + 1,
+      ...toItemColumns(input)
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await touchChecklist(supabase, user.id, checklistId)
+  revalidatePath('/dashboard/checklist')
+  return data as ChecklistItem
+}
+
+export async function updateChecklistItem(itemId: string, input: ChecklistItemInput) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('checklist_items')
+    .update({ ...toItemColumns(input), updated_at: new Date().toISOString() })
+    .eq('id', itemId)
+    .eq('user_id', user.id)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  // Suggestions were made against the old description
+  const { error: matchError } = await supabase
+    .from('checklist_matches')
+    .delete()
+    .eq('item_id', itemId)
+    .eq('user_id', user.id)
+    .eq('status', 'suggested')
+
+  if (matchError) throw matchError
+
+  await touchChecklist(supabase, user.id, data.checklist_id)
+  revalidatePath('/dashboard/checklist')
+  return data as ChecklistItem
+}
+
+export async function deleteChecklistItem(itemId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('checklist_items')
+    .delete()
+    .eq('id', itemId)
+    .eq('user_id', user.id)
+    .select('checklist_id')
+    .single()
+
+  if (error) throw error
+
+  await touchChecklist(supabase, user.id, data.checklist_id)
+  revalidatePath('/dashboard/checklist')
+}
+
+// Swap an item with its neighbour above (-1) or below (1)
+export async function moveChecklistItem(itemId: string, direction: -1 | 1) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data: item, error } = await supabase
+    .from('checklist_items')
+    .select('id, checklist_id, position')
+    .eq('id', itemId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (error) throw error
+
+  const siblings = supabase
+    .from('checklist_items')
+    .select('id, position')
+    .eq('checklist_id', item.checklist_id)
+    .eq('user_id', user.id)
+  const { data: neighbour } = await (direction < 0
+    ? siblings.lt('position', item.position).order('position', { ascending: false })
+    : siblings.gt('position', item.position).order('position', { ascending: true })
+  ).limit(1).maybeSingle()
+
+  if (!neighbour) return
+
+  for (const [id, position] of [[item.id, neighbour.position], [neighbour.id, item.position]] as const) {
+    const { error: updateError } = await supabase
+      .from('checklist_items')
+      .update({ position })
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (updateError) throw updateError
+  }
+
+  revalidatePath('/dashboard/checklist')
+}
+
+/**
+ * Ask the AI which workspace files satisfy the checklist's open items.
+ * Earlier suggestions for those items are replaced; confirmed and rejected
+ * matches are kept, and files confirmed for another item aren't offered
+ * again. Each group of FILES_PER_MATCH_REQUEST files costs one AI request.
+ */
+export async function matchChecklist(checklistId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const checklist = await getOwnedChecklist(supabase, user.id, checklistId)
+
+  // The user's own key for the checklist's workspace replaces the deployment's
+  const [settings, userKeys] = await Promise.all([
+    getUserSettings(supabase, user.id),
+    loadUserApiKeys(supabase, user.id, checklist.workspace_id)
+  ])
+  const provider = resolveTextProvider({
+    provider: settings.aiProvider ?? undefined,
+    model: settings.aiModel ?? undefined,
+    apiKeys: toApiKeySelection(userKeys)
+  })
+  if (!provider) throw new Error('AI service not configured')
+  const userKey = userKeys.get(provider.id)
+
+  const [items, matches] = await Promise.all([
+    getItems(supabase, user.id, [checklistId]),
+    getLiveMatches(supabase, user.id, [checklistId])
+  ])
+
+  const openItems = items.filter(item =>
+    getChecklistItemStatus(matches.filter(match => match.item_id === item.id)) !== 'complete'
+  )
+  if (openItems.length === 0) return { suggested: 0, openItems: 0 }
+
+  const { data: nodeRows, error: nodesError } = await supabase
+    .from('nodes')
+    .select('id, name, parent_id, node_type, mime_type, updated_at, tags, metadata')
+    .eq('workspace_id', checklist.workspace_id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+
+  if (nodesError) throw nodesError
+
+  const nodes = (nodeRows || []) as Pick<Node, 'id' | 'name' | 'parent_id' | 'node_type' | 'mime_type' | 'updated_at' | 'tags' | 'metadata'>[]
+  const confirmedNodeIds = new Set(matches.filter(match => match.status === 'confirmed').map(match => match.node_id))
+  const candidates = nodes
+    .filter(node => node.node_type === 'file' && !confirmedNodeIds.has(node.id))
+    .filter(node => openItems.some(item => matchesExpectedFileType(item.expected_file_type, node)))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    .slice(0, MAX_MATCH_CANDIDATES)
+
+  if (candidates.length === 0) return { suggested: 0, openItems: openItems.length }
+
+  // Requests paid with the user's own key don't use the quota
+  const requests = Math.ceil(candidates.length / FILES_PER_MATCH_REQUEST)
+  const exceeded = userKey ? null : await reserveAiRequests(supabase, requests)
+  if (exceeded) throw new Error(describeQuotaExceeded(exceeded))
+
+  const excerpts = await getExcerpts(supabase, user.id, candidates.map(node => node.id))
+  const nodesById = new Map(nodes.map(node => [node.id, node]))
+  const folderPath = (parentId: string | null) => {
+    const segments: string[] = []
+    for (let id = parentId; id; id = nodesById.get(id)?.parent_id ?? null) {
+      segments.unshift(nodesById.get(id)?.name ?? '')
+    }
+    return segments.join('/')
+  }
+
+  const files: ChecklistMatcherFile[] = candidates.map(node => ({
+    id: node.id,
+    name: node.name,
+    path: folderPath(node.parent_id),
+    mimeType: node.mime_type,
+    updatedAt: node.updated_at,
+    tags: node.tags,
+    metadata: toNodeMetadata(node.metadata),
+    excerpt: excerpts.get(node.id) ?? ''
+  }))
+
+  let result: Awaited<ReturnType<typeof matchChecklistFiles>>
+  try {
+    result = await matchChecklistFiles(provider, openItems, files)
+  } catch (matchError) {
+    throw new Error(toAnalysisError(matchError).message)
+  }
+  if (userKey) {
+    await recordApiKeyUsage(supabase, userKey.id, requests, result.totalTokens)
+  } else {
+    await recordAiTokens(supabase, result.totalTokens)
+  }
+
+  // Pairs the user already decided on are never suggested again
+  const decided = new Set(matches.map(match => `${match.item_id}:${match.node_id}`))
+  const suggestions = openItems.flatMap(item =>
+    result.matches
+      .filter(match => match.itemId === item.id && match.confidence >= MIN_MATCH_CONFIDENCE)
+      .filter(match => matchesExpectedFileType(item.expected_file_type, nodesById.get(match.nodeId)!))
+      .filter(match => !decided.has(`${match.itemId}:${match.nodeId}`))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_SUGGESTIONS_PER_ITEM)
+  )
+
+  const { error: clearError } = await supabase
+    .from('checklist_matches')
+    .delete()
+    .in('item_id', openItems.map(item => item.id))
+    .eq('user_id', user.id)
+    .eq('status', 'suggested')
+
+  if (clearError) throw clearError
+
+  if (suggestions.length > 0) {
+    const { error: insertError } = await supabase
+      .from('checklist_matches')
+      .insert(suggestions.map(match => ({
+        checklist_id: checklistId,
+        item_id: match.itemId,
+        node_id: match.nodeId,
+        user_id: user.id,
+        confidence: match.confidence,
+        reasoning: match.reasoning,
+        status: 'suggested' as const
+      })))
+
+    if (insertError) throw insertError
+  }
+
+  revalidatePath('/dashboard/checklist')
+  return { suggested: suggestions.length, openItems: openItems.length }
+}
+
+export async function confirmChecklistMatch(matchId: string) {
+  return setMatchStatus(matchId, 'confirmed')
+}
+
+// Rejected pairs stay recorded so matching doesn't suggest them again
+export async function rejectChecklistMatch(matchId: string) {
+  return setMatchStatus(matchId, 'rejected')
+}
+
+// Move a match to another item of the same checklist and confirm it there
+export async function reassignChecklistMatch(matchId: string, itemId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data: match, error } = await supabase
+    .from('checklist_matches')
+    .select('*')
+    .eq('id', matchId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (error) throw error
+  if (match.item_id === itemId) return setMatchStatus(matchId, 'confirmed')
+
+  const { data: item, error: itemError } = await supabase
+    .from('checklist_items')
+    .select('id, checklist_id')
+    .eq('id', itemId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (itemError) throw itemError
+  if (item.checklist_id !== match.checklist_id) throw new Error('Item belongs to another checklist')
+
+  // The file is no longer offered for the item it was moved away from
+  const { error: rejectError } = await supabase
+    .from('checklist_matches')
+    .update({ status: 'rejected', updated_at: new Date().toISOString() })
+    .eq('id', matchId)
+    .eq('user_id', user.id)
+
+  if (rejectError) throw rejectError
+
+  await upsertConfirmedMatch(supabase, user.id, match.checklist_id, itemId, match.node_id, match.confidence, match.reasoning)
+  revalidatePath('/dashboard/checklist')
+}
+
+// Match a file to an item by hand, confirmed straight away
+export async function assignFileToChecklistItem(itemId: string, nodeId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data: item, error } = await supabase
+    .from('checklist_items')
+    .select('id, checklist_id')
+    .eq('id', itemId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (error) throw error
+
+  await upsertConfirmedMatch(supabase, user.id, item.checklist_id, itemId, nodeId, 1, null)
+  revalidatePath('/dashboard/checklist')
+}
+
+function validateChecklistName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Name cannot be empty')
+  if (trimmed.length > 200) throw new Error('Name is too long (max 200 characters)')
+  return trimmed
+}
+
+function toItemColumns(input: ChecklistItemInput) {
+  const description = input.description.trim()
+  if (!description) throw new Error('Description cannot be empty')
+  if (input.expectedFileType && !getChecklistFileType(input.expectedFileType)) {
+    throw new Error(`Unknown file type "${input.expectedFileType}"`)
+  }
+  const dateFrom = input.dateFrom || null
+  const dateTo = input.dateTo || null
+  if (dateFrom && dateTo && dateFrom > dateTo) throw new Error('The start date must be before the end date')
+
+  return {
+    description,
+    expected_file_type: input.expectedFileType || null,
+    date_from: dateFrom,
+    date_to: dateTo
+  }
+}
+
+async function getOwnedChecklist(supabase: SupabaseServerClient, userId: string, checklistId: string): Promise<Checklist> {
+  const { data, error } = await supabase
+    .from('checklists')
+    .select('*')
+    .eq('id', checklistId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !data) throw new Error('Checklist not found')
+  return data as Checklist
+}
+
+async function touchChecklist(supabase: SupabaseServerClient, userId: string, checklistId: string) {
+  const { error } = await supabase
+    .from('checklists')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', checklistId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+async function getItems(supabase: SupabaseServerClient, userId: string, checklistIds: string[]): Promise<ChecklistItem[]> {
+  if (checklistIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('checklist_items')
+    .select('*')
+    .in('checklist_id', checklistIds)
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as ChecklistItem[]
+}
+
+// Matches whose file is still live, with the file's details
+async function getLiveMatches(supabase: SupabaseServerClient, userId: string, checklistIds: string[]) {
+  if (checklistIds.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('checklist_matches')
+    .select('*, node:nodes!inner(id, name, parent_id, mime_type, size, updated_at, storage_object_path)')
+    .in('checklist_id', checklistIds)
+    .eq('user_id', userId)
+    .is('node.deleted_at', null)
+    .order('confidence', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as (ChecklistMatch & {
+    node: Pick<Node, 'id' | 'name' | 'parent_id' | 'mime_type' | 'size' | 'updated_at' | 'storage_object_path'>
+  })[]
+}
+
+// The start of each file's indexed text, read in small groups since rows can be large
+async function getExcerpts(supabase: SupabaseServerClient, userId: string, nodeIds: string[]): Promise<Map<string, string>> {
+  const excerpts = new Map<string, string>()
+
+  for (let i = 0; i < nodeIds.length; i += FILES_PER_MATCH_REQUEST) {
+    const { data, error } = await supabase
+      .from('node_contents')
+      .select('node_id, content_text')
+      .in('node_id', nodeIds.slice(i, i + FILES_PER_MATCH_REQUEST))
+      .eq('user_id', userId)
+
+    if (error) throw error
+    for (const row of (data || []) as { node_id: string; content_text: string }[]) {
+      excerpts.set(row.node_id, row.content_text.slice(0, 1000))
+    }
+  }
+
+  return excerpts
+}
+
+async function setMatchStatus(matchId: string, status: ChecklistMatch['status']) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('checklist_matches')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', matchId)
+    .eq('user_id', user.id)
+
+  if (error) throw error
+
+  revalidatePath('/dashboard/checklist')
+}
+
+async function upsertConfirmedMatch(
+  supabase: SupabaseServerClient,
+  userId: string,
+  checklistId: string,
+  itemId: string,
+  nodeId: string,
+  confidence: number,
+  reasoning: string | null
+) {
+  const { error } = await supabase
+    .from('checklist_matches')
+    .upsert({
+      checklist_id: checklistId,
+      item_id: itemId,
+      node_id: nodeId,
+      user_id: userId,
+      confidence,
+      reasoning,
+      status: 'confirmed',
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'item_id,node_id' })
+
+  if (error) throw error
+}
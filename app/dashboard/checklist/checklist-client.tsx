@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import WorkspaceHeader from '@/components/dashboard/workspace-header'
+import { ChecklistView } from '@/components/dashboard/checklist-view'
+import { ChecklistDialog } from '@/components/dashboard/checklist-dialog'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { ListChecks, Plus } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Tables } from '@/utils/supabase/database.types'
+import { getChecklist, getChecklists } from './actions'
+
+type Workspace = Tables<'workspaces'>
+type Node = Tables<'nodes'>
+
+interface ChecklistClientProps {
+  workspaces: Workspace[]
+  currentWorkspaceId: string
+  checklists: Awaited<ReturnType<typeof getChecklists>>
+  current: Awaited<ReturnType<typeof getChecklist>> | null
+  nodes: Node[]
+}
+
+export default function ChecklistClient({
+  workspaces,
+  currentWorkspaceId,
+  checklists,
+  current,
+  nodes
+}: ChecklistClientProps) {
+  const router = useRouter()
+  const [isCreating, setIsCreating] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+
+  const openChecklist = (checklistId: string | null) => {
+    const params = new URLSearchParams({ workspace: currentWorkspaceId })
+    if (checklistId) params.set('checklist', checklistId)
+    router.push(`/dashboard/checklist?${params}`)
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <WorkspaceHeader
+        workspaces={workspaces}
+        currentWorkspaceId={currentWorkspaceId}
+        onWorkspaceChange={(workspaceId) => router.push(`/dashboard/checklist?workspace=${workspaceId}`)}
+      />
+
+      <div className="flex flex-1 overflow-hidden">
+        {/* Left Sidebar - Checklists */}
+        <div className="w-64 border-r bg-muted/10 overflow-y-auto px-3 py-4">
+          <div className="mb-4 flex items-center justify-between">
+            <h3 className="text-sm font-medium">Checklists</h3>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="transition-all duration-200 hover:scale-110 active:scale-95"
+              title="New checklist"
+              onClick={() => setIsCreating(true)}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {checklists.length === 0 ? (
+            <p className="text-sm text-muted-foreground px-2">No checklists yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {checklists.map(checklist => (
+                <button
+                  key={checklist.id}
+                  className={cn(
+                    'w-full rounded px-2 py-2 text-left hover:bg-accent',
+                    checklist.id === current?.checklist.id && 'bg-accent'
+                  )}
+                  onClick={() => openChecklist(checklist.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-sm">{checklist.name}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {checklist.completedCount}/{checklist.itemCount}
+                    </span>
+                  </div>
+                  <Progress
+                    value={checklist.itemCount > 0 ? (checklist.completedCount / checklist.itemCount) * 100 : 0}
+                    className="mt-1.5 h-1"
+                  />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Main Content Area */}
+        <div className="flex-1 overflow-y-auto p-4 md:p-6 lg:p-8">
+          {current ? (
+            <ChecklistView
+              details={current}
+              nodes={nodes}
+              onEdit={() => setIsEditing(true)}
+              onChanged={() => router.refresh()}
+              onDeleted={() => openChecklist(null)}
+            />
+          ) : (
+            <div className="flex h-full flex-col items-center justify-center text-center">
+              <ListChecks className="h-10 w-10 text-muted-foreground mb-4" />
+              <h1 className="text-2xl font-bold">Checklist Organizer</h1>
+              <p className="mt-2 max-w-md text-muted-foreground">
+                List the documents a deal or project needs, and let AI find them among your workspace files.
+              </p>
+              <Button className="mt-6" onClick={() => setIsCreating(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Checklist
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ChecklistDialog
+        isOpen={isCreating || isEditing}
+        onClose={() => {
+          setIsCreating(false)
+          setIsEditing(false)
+        }}
+        workspaceId={currentWorkspaceId}
+        checklist={isEditing ? current?.checklist : null}
+        onSaved={(checklistId) => {
+          if (isCreating) {
+            openChecklist(checklistId)
+          } else {
+            router.refresh()
+          }
+        }}
+      />
+    </div>
+  )
+}
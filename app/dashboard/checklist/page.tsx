@@ -0,0 +1,50 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/utils/supabase/server'
+import { getUserWorkspaces, getWorkspaceNodes } from '@/app/dashboard/file-organizer/actions'
+import { getChecklist, getChecklists } from './actions'
+import ChecklistClient from './checklist-client'
+
+export default async function ChecklistPage({
+  searchParams
+}: {
+  searchParams: Promise<{ workspace?: string; checklist?: string }>
+}) {
+  const params = await searchParams
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect('/auth/sign-in')
+  }
+
+  // The file organizer creates the default workspace on first visit
+  const workspaces = await getUserWorkspaces()
+  if (workspaces.length === 0) {
+    redirect('/dashboard/file-organizer')
+  }
+
+  const currentWorkspaceId = params.workspace || workspaces.find(w => w.is_default)?.id || workspaces[0].id
+  if (!workspaces.some(w => w.id === currentWorkspaceId)) {
+    redirect(`/dashboard/checklist?workspace=${workspaces[0].id}`)
+  }
+
+  const checklists = await getChecklists(currentWorkspaceId)
+  const currentChecklistId = checklists.some(c => c.id === params.checklist)
+    ? params.checklist!
+    : checklists[0]?.id ?? null
+
+  const [current, nodes] = await Promise.all([
+    currentChecklistId ? getChecklist(currentChecklistId) : null,
+    getWorkspaceNodes(currentWorkspaceId)
+  ])
+
+  return (
+    <ChecklistClient
+      workspaces={workspaces}
+      currentWorkspaceId={currentWorkspaceId}
+      checklists={checklists}
+      current={current}
+      nodes={nodes}
+    />
+  )
+}
@@ -2,10 +2,57 @@
 
 import { createClient } from '@/utils/supabase/server'
 import { revalidatePath } from 'next/cache'
-import { Database, Tables, TablesInsert } from '@/utils/supabase/database.types'
-
+import { Database, Tables } from '@/utils/supabase/database.types'
+import { getTrashRetentionDays } from '@/utils/trash'
+import { getUserSettings } from '@/utils/user-settings'
+import { ContentHasher } from '@/utils/content-hasher'
+import { SearchIndexer } from '@/utils/search-indexer'
+import { StoredFileExtractor } from '@/utils/stored-file-extractor'
+import { resolveEmbeddingProvider, type EmbeddingProvider } from '@/utils/ai/provider'
+import { describeQuotaExceeded, recordAiTokens, reserveAiRequests } from '@/utils/ai/usage-quota'
+import {
+  loadUserApiKeys,
+  recordApiKeyUsage,
+  toApiKeySelection,
+  type UserApiKey
+} from '@/utils/ai/user-api-keys'
+import {
+  MAX_METADATA_VALUE_LENGTH,
+  normalizeMetadataKey,
+  normalizeTags,
+  toNodeMetadata
+} from '@/utils/tags'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
 type Node = Tables<'nodes'>
 type Workspace = Tables<'workspaces'>
+type NodeVersion = Tables<'node_versions'>
+type Bundle = Tables<'bundles'>
+type BundleItem = Tables<'bundle_items'>
+
+// Embedding provider of a workspace, with the user's key when it pays for the calls
+interface WorkspaceEmbedding {
+  provider: EmbeddingProvider
+  key?: UserApiKey
+}
+
+// Filters shared by keyword and semantic search
+interface SearchFilters {
+  nodeType?: 'file' | 'folder'
+  mimePrefix?: string
+  minSize?: number
+  maxSize?: number
+  updatedAfter?: string
+  updatedBefore?: string
+  folderId?: string
+}
+
+// Characters of name and content embedded per file; embedding models
+// truncate or reject inputs beyond a few thousand tokens
+const MAX_EMBEDDING_CHARS = 6000
+
+// Texts sent in one embeddings request, counted as one AI request
+const EMBEDDING_BATCH_SIZE = 32
 
 export async function getUserWorkspaces() {
   const supabase = await createClient()
@@ -17,6 +64,7 @@ export async function getUserWorkspaces() {
     .from('workspaces')
     .select('*')
     .eq('user_id', user.id)
+    .is('deleted_at', null)
     .order('created_at', { ascending: true })
 
   if (error) {
@@ -78,6 +126,7 @@ export async function getWorkspaceNodes(workspaceId: string) {
     .select('*')
     .eq('workspace_id', workspaceId)
     .eq('user_id', user.id)
+    .is('deleted_at', null)
     .order('node_type', { ascending: true })
     .order('name', { ascending: true })
 
@@ -116,9 +165,10 @@ export async function createFolder(workspaceId: string, parentId: string | null,
       
       created = true
       finalData = data as Node
-    } catch (error: any) {
+    } catch (error) {
       // Check if it's a duplicate key error
-      if (error?.code === '23505' && error?.message?.includes('idx_unique_node_in_root')) {
+      const dbError = error as { code?: string; message?: string } | null
+      if (dbError?.code === '23505' && dbError.message?.includes('idx_unique_node_in_root')) {
         attempt++
         // Generate a new name with number suffix
         folderName = `${name} (${attempt + 1})`
@@ -142,11 +192,17 @@ export async function createFolder(workspaceId: string, parentId: string | null,
   } as Node & { wasRenamed: boolean }
 }
 
+/**
+ * Upload a file into a workspace folder. A same-named file is either kept
+ * and the upload renamed with a timestamp ('rename'), or the upload becomes
+ * the file's next version ('version').
+ */
 export async function uploadFile(
   workspaceId: string,
   parentId: string | null,
   file: File,
-  path?: string[]
+  path?: string[],
+  onConflict: 'rename' | 'version' = 'rename'
 ) {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
@@ -166,6 +222,7 @@ export async function uploadFile(
         .eq('name', folderName)
         .eq('node_type', 'folder')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
       
       // Handle NULL parent_id properly
       if (currentParentId === null) {
@@ -196,28 +253,42 @@ export async function uploadFile(
     }
   }
 
-  // Generate unique storage path
-  const fileId = crypto.randomUUID()
-  const lastDotIndex = file.name.lastIndexOf('.')
-  const hasExtension = lastDotIndex > 0 && lastDotIndex < file.name.length - 1
-  const fileExt = hasExtension ? file.name.slice(lastDotIndex + 1) : 'txt'
-  const storagePath = `${user.id}/${fileId}.${fileExt}`
+  // Identical bytes already in the target folder are skipped; elsewhere in
+  // the workspace the new node links to the stored object instead
+  const contentHash = await ContentHasher.hashBuffer(await file.arrayBuffer())
+  const duplicate = await findContentDuplicate(supabase, user.id, workspaceId, currentParentId, contentHash)
+  if (duplicate?.inTargetFolder) return duplicate.node
 
-  // Upload to Supabase Storage
-  const { error: uploadError } = await supabase.storage
-    .from('user-files')
-    .upload(storagePath, file)
+  let storagePath = duplicate?.node.storage_object_path as string
+  const removeUploadedObject = async () => {
+    if (!duplicate) await supabase.storage.from('user-files').remove([storagePath])
+  }
 
-  if (uploadError) throw uploadError
+  if (!duplicate) {
+    // Generate unique storage path
+    const fileId = crypto.randomUUID()
+    const lastDotIndex = file.name.lastIndexOf('.')
+    const hasExtension = lastDotIndex > 0 && lastDotIndex < file.name.length - 1
+    const fileExt = hasExtension ? file.name.slice(lastDotIndex + 1) : 'txt'
+    storagePath = `${user.id}/${fileId}.${fileExt}`
+
+    // Upload to Supabase Storage
+    const { error: uploadError } = await supabase.storage
+      .from('user-files')
+      .upload(storagePath, file)
+
+    if (uploadError) throw uploadError
+  }
 
   // Check if file already exists with same name
   let fileQuery = supabase
     .from('nodes')
-    .select('id, name')
+    .select('*')
     .eq('workspace_id', workspaceId)
     .eq('node_type', 'file')
     .eq('user_id', user.id)
     .eq('name', file.name)
+    .is('deleted_at', null)
   
   // Handle NULL parent_id properly
   if (currentParentId === null) {
@@ -227,6 +298,23 @@ export async function uploadFile(
   }
   
   const { data: existingFile } = await fileQuery.single()
+
+  if (existingFile && onConflict === 'version') {
+    try {
+      const updated = await replaceFileContent(supabase, user.id, existingFile as Node, {
+        storage_object_path: storagePath,
+        mime_type: file.type,
+        size: file.size,
+        content_hash: contentHash
+      })
+      await indexUploadedContent(supabase, user.id, updated, file)
+      revalidatePath('/dashboard/file-organizer')
+      return updated
+    } catch (error) {
+      await removeUploadedObject()
+      throw error
+    }
+  }
   
   // If file exists, generate a unique name
   let fileName = file.name
@@ -248,305 +336,993 @@ export async function uploadFile(
       name: fileName,
       mime_type: file.type,
       size: file.size,
-      storage_object_path: storagePath
+      storage_object_path: storagePath,
+      content_hash: contentHash
     })
     .select()
     .single()
 
   if (error) {
     // Clean up storage if database insert fails
-    await supabase.storage.from('user-files').remove([storagePath])
+    await removeUploadedObject()
     throw error
   }
 
+  await indexUploadedContent(supabase, user.id, data as Node, file)
+
   revalidatePath('/dashboard/file-organizer')
   return data as Node
 }
 
-export async function deleteNode(nodeId: string) {
+/**
+ * Make an object the TUS uploader already stored the next version of the
+ * same-named file in the target folder. Returns null when there is no such
+ * file, in which case the caller creates the node as usual.
+ */
+export async function addUploadedVersion(
+  workspaceId: string,
+  parentId: string | null,
+  name: string,
+  upload: { storagePath: string; mimeType: string; size: number; contentHash?: string }
+) {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
   
   if (!user) throw new Error('Not authenticated')
+  // Uploads are stored under the user's own folder
+  if (!upload.storagePath.startsWith(`${user.id}/`)) throw new Error('Invalid storage path')
 
-  // Get node details first
-  const { data: node } = await supabase
+  let query = supabase
     .from('nodes')
     .select('*')
-    .eq('id', nodeId)
+    .eq('workspace_id', workspaceId)
+    .eq('node_type', 'file')
     .eq('user_id', user.id)
-    .single()
-
-  if (!node) throw new Error('Node not found')
-
-  // Collect all storage paths to delete
-  const storagePaths: string[] = []
-
-  // If it's a file, add its storage path
-  if (node.node_type === 'file' && node.storage_object_path) {
-    storagePaths.push(node.storage_object_path)
-  }
+    .eq('name', name)
+    .is('deleted_at', null)
   
-  // If it's a folder, get all descendant files
-  if (node.node_type === 'folder') {
-    const descendantFiles = await getAllDescendantFiles(supabase, nodeId, user.id)
-    storagePaths.push(...descendantFiles)
+  if (parentId === null) {
+    query = query.is('parent_id', null)
+  } else {
+    query = query.eq('parent_id', parentId)
   }
 
-  // Delete all files from storage
-  if (storagePaths.length > 0) {
-    const { error: storageError } = await supabase.storage
-      .from('user-files')
-      .remove(storagePaths)
-    
-    if (storageError) {
-      console.error('Error deleting files from storage:', storageError)
-      // Continue with database deletion even if storage deletion fails
-    }
-  }
+  const { data: existingFile } = await query.maybeSingle()
+  if (!existingFile) return null
 
-  // Delete from database (cascade will handle children)
-  const { error } = await supabase
-    .from('nodes')
-    .delete()
-    .eq('id', nodeId)
-    .eq('user_id', user.id)
+  const updated = await replaceFileContent(supabase, user.id, existingFile as Node, {
+    storage_object_path: upload.storagePath,
+    mime_type: upload.mimeType,
+    size: upload.size,
+    content_hash: upload.contentHash || null
+  })
 
-  if (error) throw error
   revalidatePath('/dashboard/file-organizer')
+  return updated
 }
 
-export async function deleteNodes(nodeIds: string[]) {
+// A file's current version followed by its earlier versions, newest first
+export async function getFileVersions(nodeId: string) {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
   
   if (!user) throw new Error('Not authenticated')
-  if (nodeIds.length === 0) return
 
-  // Get all nodes to be deleted
-  const { data: nodes } = await supabase
+  const { data: node, error } = await supabase
     .from('nodes')
     .select('*')
-    .in('id', nodeIds)
+    .eq('id', nodeId)
     .eq('user_id', user.id)
+    .eq('node_type', 'file')
+    .single()
 
-  if (!nodes || nodes.length === 0) throw new Error('No nodes found')
-
-  // Collect all storage paths to delete
-  const storagePaths: string[] = []
-  
-  for (const node of nodes) {
-    // Add file storage paths
-    if (node.node_type === 'file' && node.storage_object_path) {
-      storagePaths.push(node.storage_object_path)
-    }
-    
-    // For folders, get all descendant files
-    if (node.node_type === 'folder') {
-      const descendantFiles = await getAllDescendantFiles(supabase, node.id, user.id)
-      storagePaths.push(...descendantFiles)
-    }
-  }
-
-  // Delete all files from storage if any
-  if (storagePaths.length > 0) {
-    const { error: storageError } = await supabase.storage
-      .from('user-files')
-      .remove(storagePaths)
-    
-    if (storageError) {
-      console.error('Error deleting files from storage:', storageError)
-      // Continue with database deletion even if storage deletion fails
-    }
-  }
+  if (error || !node) throw new Error('File not found')
 
-  // Delete all nodes from database (cascade will handle children)
-  const { error } = await supabase
-    .from('nodes')
-    .delete()
-    .in('id', nodeIds)
+  const { data: versions, error: versionsError } = await supabase
+    .from('node_versions')
+    .select('*')
+    .eq('node_id', nodeId)
     .eq('user_id', user.id)
+    .order('version', { ascending: false })
 
-  if (error) throw error
-  revalidatePath('/dashboard/file-organizer')
+  if (versionsError) throw versionsError
+
+  return {
+    current: node as Node,
+    currentUploadedAt: await getContentUploadedAt(supabase, node as Node),
+    versions: (versions || []) as NodeVersion[]
+  }
 }
 
-export async function moveNodes(nodeIds: string[], newParentId: string | null) {
+/**
+ * Bring back an earlier version by copying its object into a new current
+ * version, so the history stays intact and the restore can itself be undone.
+ */
+export async function restoreFileVersion(versionId: string) {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
   
   if (!user) throw new Error('Not authenticated')
-  if (nodeIds.length === 0) return
 
-  // Get all nodes to be moved
-  const { data: nodes } = await supabase
-    .from('nodes')
+  const { data: version } = await supabase
+    .from('node_versions')
     .select('*')
-    .in('id', nodeIds)
+    .eq('id', versionId)
     .eq('user_id', user.id)
+    .single()
 
-  if (!nodes || nodes.length === 0) throw new Error('No nodes found')
-
-  // Validate target if not root
-  if (newParentId) {
-    const { data: targetFolder } = await supabase
-      .from('nodes')
-      .select('*')
-      .eq('id', newParentId)
-      .eq('user_id', user.id)
-      .single()
-
-    if (!targetFolder || targetFolder.node_type !== 'folder') {
-      throw new Error('Invalid target folder')
-    }
+  if (!version) throw new Error('Version not found')
 
-    // Check workspace consistency
-    const differentWorkspace = nodes.some(node => node.workspace_id !== targetFolder.workspace_id)
-    if (differentWorkspace) {
-      throw new Error('Cannot move items between workspaces')
-    }
+  const { data: node } = await supabase
+    .from('nodes')
+    .select('*')
+    .eq('id', version.node_id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .single()
 
-    // Check for circular references for folders
-    for (const node of nodes.filter(n => n.node_type === 'folder')) {
-      const isCircular = await checkCircularReference(supabase, node.id, newParentId, user.id)
-      if (isCircular) {
-        throw new Error(`Cannot move folder "${node.name}" into itself or its descendants`)
-      }
-    }
-  }
+  if (!node) throw new Error('File not found')
 
-  // Move all nodes
-  const results = []
-  for (const node of nodes) {
-    // Check for duplicate names and rename if needed
-    let finalName = node.name
-    let query = supabase
-      .from('nodes')
-      .select('name')
-      .eq('workspace_id', node.workspace_id)
-      .eq('user_id', user.id)
-      .eq('node_type', node.node_type)
-      .neq('id', node.id) // Exclude the node being moved
-    
-    if (newParentId === null) {
-      query = query.is('parent_id', null)
-    } else {
-      query = query.eq('parent_id', newParentId)
-    }
-    
-    const { data: existingNodes } = await query
+  const extensionIndex = version.storage_object_path.lastIndexOf('.')
+  const extension = extensionIndex > version.storage_object_path.lastIndexOf('/')
+    ? version.storage_object_path.slice(extensionIndex)
+    : ''
+  const storagePath = `${user.id}/${crypto.randomUUID()}${extension}`
 
-    if (existingNodes) {
-      const existingNames = new Set(existingNodes.map(n => n.name))
-      if (existingNames.has(node.name)) {
-        let counter = 1
-        const baseName = node.name.replace(/ \(\d+\)$/, '')
-        while (existingNames.has(finalName)) {
-          finalName = `${baseName} (${counter})`
-          counter++
-        }
-      }
-    }
+  const { error: copyError } = await supabase.storage
+    .from('user-files')
+    .copy(version.storage_object_path, storagePath)
 
-    // Update the node
-    const { error } = await supabase
-      .from('nodes')
-      .update({ 
-        parent_id: newParentId,
-        name: finalName,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', node.id)
-      .eq('user_id', user.id)
+  if (copyError) throw copyError
 
-    if (error) throw error
-    
-    results.push({ id: node.id, newName: finalName, renamed: finalName !== node.name })
+  try {
+    const updated = await replaceFileContent(supabase, user.id, node as Node, {
+      storage_object_path: storagePath,
+      mime_type: version.mime_type,
+      size: version.size,
+      content_hash: version.content_hash
+    })
+    revalidatePath('/dashboard/file-organizer')
+    return updated
+  } catch (error) {
+    await supabase.storage.from('user-files').remove([storagePath])
+    throw error
   }
+}
 
-  revalidatePath('/dashboard/file-organizer')
-  return results
+// A live file in the workspace with the given content hash, if any
+export async function findDuplicateContent(workspaceId: string, parentId: string | null, contentHash: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  return findContentDuplicate(supabase, user.id, workspaceId, parentId, contentHash)
 }
 
-export async function moveNode(nodeId: string, newParentId: string | null) {
+/**
+ * Add a file that shares the stored object of an identical file elsewhere in
+ * the workspace, so duplicate bytes are only uploaded and stored once.
+ */
+export async function linkDuplicateFile(
+  workspaceId: string,
+  parentId: string | null,
+  name: string,
+  sourceNodeId: string
+) {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
   
   if (!user) throw new Error('Not authenticated')
 
-  // Get the node to be moved
-  const { data: node, error: nodeError } = await supabase
+  const { data: source } = await supabase
     .from('nodes')
     .select('*')
-    .eq('id', nodeId)
+    .eq('id', sourceNodeId)
+    .eq('workspace_id', workspaceId)
     .eq('user_id', user.id)
+    .eq('node_type', 'file')
+    .is('deleted_at', null)
     .single()
 
-  if (nodeError || !node) throw new Error('Node not found')
-
-  // If moving to a folder (not root), validate the target
-  if (newParentId) {
-    // Get target folder
-    const { data: targetFolder, error: targetError } = await supabase
-      .from('nodes')
-      .select('*')
-      .eq('id', newParentId)
-      .eq('user_id', user.id)
-      .single()
-
-    if (targetError || !targetFolder) throw new Error('Target folder not found')
-    
-    // Ensure target is a folder
-    if (targetFolder.node_type !== 'folder') {
-      throw new Error('Can only move items into folders')
-    }
-
-    // Ensure same workspace
-    if (targetFolder.workspace_id !== node.workspace_id) {
-      throw new Error('Cannot move items between workspaces')
-    }
-
-    // Prevent circular reference - check if target is a descendant of the node
-    if (node.node_type === 'folder') {
-      const isCircular = await checkCircularReference(supabase, nodeId, newParentId, user.id)
-      if (isCircular) {
-        throw new Error('Cannot move a folder into itself or its descendants')
-      }
-    }
-  }
+  if (!source?.storage_object_path) throw new Error('Source file not found')
 
-  // Check for duplicate names in the target location
-  let finalName = node.name
   let query = supabase
     .from('nodes')
     .select('name')
-    .eq('workspace_id', node.workspace_id)
+    .eq('workspace_id', workspaceId)
     .eq('user_id', user.id)
-    .eq('node_type', node.node_type)
+    .eq('node_type', 'file')
+    .is('deleted_at', null)
   
-  // Handle NULL parent_id properly
-  if (newParentId === null) {
+  if (parentId === null) {
     query = query.is('parent_id', null)
   } else {
-    query = query.eq('parent_id', newParentId)
+    query = query.eq('parent_id', parentId)
   }
-  
-  const { data: existingNodes } = await query
 
-  if (existingNodes) {
-    const existingNames = new Set(existingNodes.map(n => n.name))
-    if (existingNames.has(node.name)) {
-      // Generate unique name
-      let counter = 1
-      const baseName = node.name.replace(/ \(\d+\)$/, '') // Remove existing (n) suffix
-      while (existingNames.has(finalName)) {
-        finalName = `${baseName} (${counter})`
-        counter++
-      }
-    }
-  }
+  const { data: siblings } = await query
+  const finalName = uniqueSiblingName(validateNodeName(name), new Set((siblings || []).map(n => n.name)), 'file')
 
-  // Perform the move
+  const { data, error } = await supabase
+    .from('nodes')
+    .insert({
+      user_id: user.id,
+      workspace_id: workspaceId,
+      parent_id: parentId,
+      node_type: 'file',
+      name: finalName,
+      mime_type: source.mime_type,
+      size: source.size,
+      storage_object_path: source.storage_object_path,
+      content_hash: source.content_hash
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  // Same bytes, so the source's indexed text applies to the link too. The
+  // name differs, so the link gets its own embedding
+  const { data: sourceContent } = await supabase
+    .from('node_contents')
+    .select('content_text')
+    .eq('node_id', source.id)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (sourceContent) {
+    await supabase.from('node_contents').insert({
+      node_id: data.id,
+      user_id: user.id,
+      workspace_id: workspaceId,
+      content_text: sourceContent.content_text
+    })
+
+    try {
+      await embedNodes(supabase, user.id, [data.id])
+    } catch (embeddingError) {
+      console.error('Failed to embed linked file:', embeddingError)
+    }
+  }
+
+  revalidatePath('/dashboard/file-organizer')
+  return data as Node
+}
+
+/**
+ * Groups of live files in a workspace with identical content, largest waste
+ * first. Each file carries its folder path for display.
+ */
+export async function getDuplicateGroups(workspaceId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { data: nodes, error } = await supabase
+    .from('nodes')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+
+  if (error) throw error
+
+  const nodesById = new Map(((nodes || []) as Node[]).map(node => [node.id, node]))
+  const folderPath = (parentId: string | null): string => {
+    const segments: string[] = []
+    for (let current = parentId ? nodesById.get(parentId) : undefined; current; ) {
+      segments.unshift(current.name)
+      current = current.parent_id ? nodesById.get(current.parent_id) : undefined
+    }
+    return segments.join('/')
+  }
+
+  const byHash = new Map<string, Node[]>()
+  for (const node of nodesById.values()) {
+    if (node.node_type !== 'file' || !node.content_hash) continue
+    byHash.set(node.content_hash, [...(byHash.get(node.content_hash) || []), node])
+  }
+
+  return Array.from(byHash.entries())
+    .filter(([, files]) => files.length > 1)
+    .map(([contentHash, files]) => ({
+      contentHash,
+      size: files[0].size || 0,
+      files: files
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map(file => ({ ...file, folderPath: folderPath(file.parent_id) }))
+    }))
+    .sort((a, b) => b.size * (b.files.length - 1) - a.size * (a.files.length - 1))
+}
+
+// Files uploaded before content hashing, which the Duplicates report can scan
+export async function getUnhashedFiles(workspaceId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('nodes')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .eq('node_type', 'file')
+    .is('deleted_at', null)
+    .is('content_hash', null)
+    .not('storage_object_path', 'is', null)
+
+  if (error) throw error
+  return (data || []) as Node[]
+}
+
+export async function saveContentHashes(hashes: { nodeId: string; contentHash: string }[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  for (const { nodeId, contentHash } of hashes) {
+    if (!/^[0-9a-f]{64}$/.test(contentHash)) throw new Error('Invalid content hash')
+
+    const { error } = await supabase
+      .from('nodes')
+      .update({ content_hash: contentHash })
+      .eq('id', nodeId)
+      .eq('user_id', user.id)
+
+    if (error) throw error
+  }
+}
+
+/**
+ * Store the text extracted from files in the browser, where the PDF, Office
+ * and OCR extractors run, in the search index. Replaces earlier text.
+ */
+export async function indexNodeContents(entries: { nodeId: string; text: string }[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+  if (entries.length === 0) return
+
+  const { data: nodes, error: nodesError } = await supabase
+    .from('nodes')
+    .select('id, workspace_id')
+    .in('id', entries.map(entry => entry.nodeId))
+    .eq('user_id', user.id)
+    .eq('node_type', 'file')
+
+  if (nodesError) throw nodesError
+
+  const workspaceByNode = new Map((nodes || []).map(node => [node.id, node.workspace_id]))
+  const rows = entries
+    .filter(entry => workspaceByNode.has(entry.nodeId))
+    .map(entry => ({
+      node_id: entry.nodeId,
+      user_id: user.id,
+      workspace_id: workspaceByNode.get(entry.nodeId)!,
+      content_text: normalizeIndexText(entry.text),
+      indexed_at: new Date().toISOString()
+    }))
+
+  if (rows.length === 0) return
+
+  const { error } = await supabase
+    .from('node_contents')
+    .upsert(rows, { onConflict: 'node_id' })
+
+  if (error) throw error
+
+  try {
+    await embedNodes(supabase, user.id, rows.map(row => row.node_id))
+  } catch (embeddingError) {
+    // The semantic index catches up through embedMissingNodes
+    console.error('Failed to embed file contents:', embeddingError)
+  }
+}
+
+// Files whose contents are not in the search index yet, for the backfill in the search panel
+export async function getUnindexedFiles(workspaceId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const [{ data: files, error }, { data: indexed, error: indexedError }] = await Promise.all([
+    supabase
+      .from('nodes')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', user.id)
+      .eq('node_type', 'file')
+      .is('deleted_at', null)
+      .not('storage_object_path', 'is', null),
+    supabase
+      .from('node_contents')
+      .select('node_id')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', user.id)
+  ])
+
+  if (error) throw error
+  if (indexedError) throw indexedError
+
+  const indexedIds = new Set((indexed || []).map(row => row.node_id))
+  return ((files || []) as Node[]).filter(file => !indexedIds.has(file.id))
+}
+
+/**
+ * Search a workspace by file and folder names and the indexed text of file
+ * contents. Every word is matched as a prefix; highlights mark matches with
+ * « and ». The folder filter includes everything below the folder.
+ */
+export async function searchNodes(workspaceId: string, query: string, filters: SearchFilters = {}) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+  if (!query.trim()) return []
+
+  const { data, error } = await supabase.rpc('search_nodes', {
+    p_workspace_id: workspaceId,
+    p_query: query,
+    p_node_type: filters.nodeType ?? null,
+    p_mime_prefix: filters.mimePrefix ?? null,
+    p_min_size: filters.minSize ?? null,
+    p_max_size: filters.maxSize ?? null,
+    p_updated_after: filters.updatedAfter ?? null,
+    p_updated_before: filters.updatedBefore ?? null,
+    p_folder_id: filters.folderId ?? null
+  })
+
+  if (error) throw error
+
+  const matches = (data || []) as Database['public']['Functions']['search_nodes']['Returns']
+  if (matches.length === 0) return []
+
+  const { data: nodes, error: nodesError } = await supabase
+    .from('nodes')
+    .select('*')
+    .in('id', matches.map(match => match.id))
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+
+  if (nodesError) throw nodesError
+
+  const nodesById = new Map(((nodes || []) as Node[]).map(node => [node.id, node]))
+  return matches
+    .filter(match => nodesById.has(match.id))
+    .map(match => ({
+      node: nodesById.get(match.id)!,
+      rank: match.rank,
+      nameHighlight: match.name_highlight,
+      contentHighlight: match.content_highlight
+    }))
+}
+
+/**
+ * How much of a workspace is in the semantic index for the configured
+ * embedding model. Files count as missing until their text is indexed and
+ * embedded, or when they were embedded by a different model.
+ */
+export async function getSemanticIndexStatus(workspaceId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const embedding = await resolveWorkspaceEmbedding(supabase, user.id, workspaceId)
+  if (!embedding) return { enabled: false, model: null, missing: 0 }
+
+  const { model } = embedding.provider
+  const missing = await getUnembeddedNodeIds(supabase, user.id, workspaceId, model)
+  return { enabled: true, model, missing: missing.length }
+}
+
+/**
+ * Embed up to `limit` indexed files that have no embedding for the current
+ * model yet. Callers repeat until `remaining` is 0.
+ */
+export async function embedMissingNodes(workspaceId: string, limit: number = 64) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const embedding = await resolveWorkspaceEmbedding(supabase, user.id, workspaceId)
+  if (!embedding) throw new Error('Semantic search is not configured')
+
+  const missing = await getUnembeddedNodeIds(supabase, user.id, workspaceId, embedding.provider.model)
+  const embedded = await embedNodes(supabase, user.id, missing.slice(0, limit))
+
+  return { embedded, remaining: Math.max(0, missing.length - embedded) }
+}
+
+/**
+ * Files whose names and contents are closest in meaning to the query, most
+ * similar first. The query is embedded with the model that embedded the
+ * files, so it costs one AI request.
+ */
+export async function semanticSearchNodes(workspaceId: string, query: string, filters: SearchFilters = {}) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+  if (!query.trim()) return []
+
+  const workspaceEmbedding = await resolveWorkspaceEmbedding(supabase, user.id, workspaceId)
+  if (!workspaceEmbedding) throw new Error('Semantic search is not configured')
+  const { provider } = workspaceEmbedding
+
+  await reserveEmbeddingRequest(supabase, workspaceEmbedding)
+  const { embeddings: [embedding], usage } = await provider.embed([query.trim().slice(0, MAX_EMBEDDING_CHARS)])
+  await recordEmbeddingUsage(supabase, workspaceEmbedding, usage?.totalTokens || 0)
+
+  const { data, error } = await supabase.rpc('match_nodes', {
+    p_workspace_id: workspaceId,
+    p_embedding: JSON.stringify(embedding),
+    p_model: provider.model,
+    p_node_type: filters.nodeType ?? null,
+    p_mime_prefix: filters.mimePrefix ?? null,
+    p_min_size: filters.minSize ?? null,
+    p_max_size: filters.maxSize ?? null,
+    p_updated_after: filters.updatedAfter ?? null,
+    p_updated_before: filters.updatedBefore ?? null,
+    p_folder_id: filters.folderId ?? null
+  })
+
+  if (error) throw error
+
+  const matches = (data || []) as Database['public']['Functions']['match_nodes']['Returns']
+  if (matches.length === 0) return []
+
+  const { data: nodes, error: nodesError } = await supabase
+    .from('nodes')
+    .select('*')
+    .in('id', matches.map(match => match.id))
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+
+  if (nodesError) throw nodesError
+
+  const nodesById = new Map(((nodes || []) as Node[]).map(node => [node.id, node]))
+  return matches
+    .filter(match => nodesById.has(match.id))
+    .map(match => ({
+      node: nodesById.get(match.id)!,
+      similarity: match.similarity,
+      excerpt: match.excerpt
+    }))
+}
+
+// Deleting moves nodes to the trash; see permanentlyDeleteNodes
+export async function deleteNode(nodeId: string) {
+  await deleteNodes([nodeId])
+}
+
+export async function deleteNodes(nodeIds: string[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+  if (nodeIds.length === 0) return
+
+  // Get all nodes to be trashed
+  const { data: nodes } = await supabase
+    .from('nodes')
+    .select('*')
+    .in('id', nodeIds)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+
+  if (!nodes || nodes.length === 0) throw new Error('No nodes found')
+
+  // Collect each folder's subtree first, so a node selected together with
+  // one of its ancestors is trashed (and later restored) with that ancestor
+  const subtrees = new Map<string, Set<string>>()
+  for (const node of nodes.filter(n => n.node_type === 'folder')) {
+    subtrees.set(node.id, await getAllDescendants(supabase, node.id, user.id))
+  }
+  const isInsideSelection = (nodeId: string) =>
+    Array.from(subtrees.entries()).some(([rootId, ids]) => rootId !== nodeId && ids.has(nodeId))
+
+  const deletedAt = new Date().toISOString()
+  for (const node of nodes.filter(n => !isInsideSelection(n.id))) {
+    const ids = [node.id, ...Array.from(subtrees.get(node.id) ?? [])]
+    
+    // Nodes already in the trash keep their own entry
+    const { error } = await supabase
+      .from('nodes')
+      .update({ deleted_at: deletedAt, deleted_root_id: node.id })
+      .in('id', ids)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+
+    if (error) throw error
+  }
+
+  revalidatePath('/dashboard/file-organizer')
+}
+
+// Trash entries of a workspace: nodes deleted directly, not their contents
+export async function getTrash(workspaceId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { data: trashed, error } = await supabase
+    .from('nodes')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
+
+  if (error) throw error
+
+  const { trashRetentionDays } = await getUserSettings(supabase, user.id)
+  const retentionMs = getTrashRetentionDays(trashRetentionDays) * 24 * 60 * 60 * 1000
+  const nodes = (trashed || []) as Node[]
+  const liveIds = new Set<string>()
+  
+  // Parents that are still live, for showing where a node will be restored
+  const parentIds = Array.from(new Set(nodes.map(n => n.parent_id).filter(Boolean))) as string[]
+  if (parentIds.length > 0) {
+    const { data: parents } = await supabase
+      .from('nodes')
+      .select('id')
+      .in('id', parentIds)
+      .is('deleted_at', null)
+    parents?.forEach(parent => liveIds.add(parent.id))
+  }
+
+  return nodes
+    .filter(node => node.deleted_root_id === node.id)
+    .map(node => ({
+      ...node,
+      // Other nodes deleted along with this one
+      itemCount: nodes.filter(n => n.deleted_root_id === node.id && n.id !== node.id).length,
+      expiresAt: new Date(new Date(node.deleted_at!).getTime() + retentionMs).toISOString(),
+      restoresToRoot: node.parent_id !== null && !liveIds.has(node.parent_id)
+    }))
+}
+
+/**
+ * Restore trash entries with everything deleted along with them. Nodes go
+ * back to their original folder, or to the workspace root when that folder
+ * is itself in the trash, and get a " (n)" suffix if the name was reused.
+ */
+export async function restoreNodes(nodeIds: string[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+  if (nodeIds.length === 0) return []
+
+  const { data: nodes } = await supabase
+    .from('nodes')
+    .select('*')
+    .in('id', nodeIds)
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+
+  if (!nodes || nodes.length === 0) throw new Error('No nodes found in trash')
+
+  const results = []
+  for (const node of nodes.filter(n => n.deleted_root_id === n.id)) {
+    let parentId: string | null = node.parent_id
+    if (parentId) {
+      const { data: parent } = await supabase
+        .from('nodes')
+        .select('id')
+        .eq('id', parentId)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .maybeSingle()
+      if (!parent) parentId = null
+    }
+
+    let query = supabase
+      .from('nodes')
+      .select('name')
+      .eq('workspace_id', node.workspace_id)
+      .eq('user_id', user.id)
+      .eq('node_type', node.node_type)
+      .is('deleted_at', null)
+    
+    if (parentId === null) {
+      query = query.is('parent_id', null)
+    } else {
+      query = query.eq('parent_id', parentId)
+    }
+    
+    const { data: siblings } = await query
+    const finalName = uniqueSiblingName(node.name, new Set((siblings || []).map(n => n.name)), node.node_type)
+
+    // Restore the entry first so the unique index sees its final name
+    const { error } = await supabase
+      .from('nodes')
+      .update({
+        parent_id: parentId,
+        name: finalName,
+        deleted_at: null,
+        deleted_root_id: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', node.id)
+      .eq('user_id', user.id)
+
+    if (error) throw error
+
+    const { error: contentsError } = await supabase
+      .from('nodes')
+      .update({ deleted_at: null, deleted_root_id: null })
+      .eq('deleted_root_id', node.id)
+      .eq('user_id', user.id)
+
+    if (contentsError) throw contentsError
+
+    results.push({
+      id: node.id,
+      newName: finalName,
+      adjusted: finalName !== node.name,
+      movedToRoot: node.parent_id !== null && parentId === null
+    })
+  }
+
+  revalidatePath('/dashboard/file-organizer')
+  return results
+}
+
+// Remove trash entries for good, including their files in storage
+export async function permanentlyDeleteNodes(nodeIds: string[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+  if (nodeIds.length === 0) return
+
+  // Only nodes already in the trash can be deleted permanently
+  const { data: nodes } = await supabase
+    .from('nodes')
+    .select('*')
+    .in('id', nodeIds)
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+
+  if (!nodes || nodes.length === 0) throw new Error('No nodes found in trash')
+
+  await destroyNodes(supabase, user.id, nodes)
+  revalidatePath('/dashboard/file-organizer')
+}
+
+export async function emptyTrash(workspaceId: string) {
+  const entries = await getTrash(workspaceId)
+  await permanentlyDeleteNodes(entries.map(entry => entry.id))
+}
+
+// Permanently delete trash entries and workspaces older than the retention
+// period. Called by the trash view before it lists the trash, never while a
+// page renders
+export async function purgeExpiredTrash() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { trashRetentionDays } = await getUserSettings(supabase, user.id)
+  const cutoff = new Date(Date.now() - getTrashRetentionDays(trashRetentionDays) * 24 * 60 * 60 * 1000).toISOString()
+
+  const { data: expiredNodes } = await supabase
+    .from('nodes')
+    .select('*')
+    .eq('user_id', user.id)
+    .lt('deleted_at', cutoff)
+
+  const expiredRoots = (expiredNodes || []).filter(n => n.deleted_root_id === n.id)
+  if (expiredRoots.length > 0) {
+    await destroyNodes(supabase, user.id, expiredRoots)
+  }
+
+  const { data: expiredWorkspaces } = await supabase
+    .from('workspaces')
+    .select('id')
+    .eq('user_id', user.id)
+    .lt('deleted_at', cutoff)
+
+  for (const workspace of expiredWorkspaces || []) {
+    await destroyWorkspace(supabase, user.id, workspace.id)
+  }
+
+  return { nodes: expiredRoots.length, workspaces: expiredWorkspaces?.length ?? 0 }
+}
+
+export async function moveNodes(nodeIds: string[], newParentId: string | null) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+  if (nodeIds.length === 0) return
+
+  // Get all nodes to be moved
+  const { data: nodes } = await supabase
+    .from('nodes')
+    .select('*')
+    .in('id', nodeIds)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+
+  if (!nodes || nodes.length === 0) throw new Error('No nodes found')
+
+  // Validate target if not root
+  if (newParentId) {
+    const { data: targetFolder } = await supabase
+      .from('nodes')
+      .select('*')
+      .eq('id', newParentId)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .single()
+
+    if (!targetFolder || targetFolder.node_type !== 'folder') {
+      throw new Error('Invalid target folder')
+    }
+
+    // Check workspace consistency
+    const differentWorkspace = nodes.some(node => node.workspace_id !== targetFolder.workspace_id)
+    if (differentWorkspace) {
+      throw new Error('Cannot move items between workspaces')
+    }
+
+    // Check for circular references for folders
+    for (const node of nodes.filter(n => n.node_type === 'folder')) {
+      const isCircular = await checkCircularReference(supabase, node.id, newParentId, user.id)
+      if (isCircular) {
+        throw new Error(`Cannot move folder "${node.name}" into itself or its descendants`)
+      }
+    }
+  }
+
+  // Move all nodes
+  const results = []
+  for (const node of nodes) {
+    // Check for duplicate names and rename if needed
+    let finalName = node.name
+    let query = supabase
+      .from('nodes')
+      .select('name')
+      .eq('workspace_id', node.workspace_id)
+      .eq('user_id', user.id)
+      .eq('node_type', node.node_type)
+      .neq('id', node.id) // Exclude the node being moved
+      .is('deleted_at', null)
+    
+    if (newParentId === null) {
+      query = query.is('parent_id', null)
+    } else {
+      query = query.eq('parent_id', newParentId)
+    }
+    
+    const { data: existingNodes } = await query
+
+    if (existingNodes) {
+      const existingNames = new Set(existingNodes.map(n => n.name))
+      if (existingNames.has(node.name)) {
+        let counter = 1
+        const baseName = node.name.replace(/ \(\d+\)$/, '')
+        while (existingNames.has(finalName)) {
+          finalName = `${baseName} (${counter})`
+          counter++
+        }
+      }
+    }
+
+    // Update the node
+    const { error } = await supabase
+      .from('nodes')
+      .update({ 
+        parent_id: newParentId,
+        name: finalName,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', node.id)
+      .eq('user_id', user.id)
+
+    if (error) throw error
+    
+    results.push({ id: node.id, newName: finalName, renamed: finalName !== node.name })
+  }
+
+  revalidatePath('/dashboard/file-organizer')
+  return results
+}
+
+export async function moveNode(nodeId: string, newParentId: string | null) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  // Get the node to be moved
+  const { data: node, error: nodeError } = await supabase
+    .from('nodes')
+    .select('*')
+    .eq('id', nodeId)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .single()
+
+  if (nodeError || !node) throw new Error('Node not found')
+
+  // If moving to a folder (not root), validate the target
+  if (newParentId) {
+    // Get target folder
+    const { data: targetFolder, error: targetError } = await supabase
+      .from('nodes')
+      .select('*')
+      .eq('id', newParentId)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .single()
+
+    if (targetError || !targetFolder) throw new Error('Target folder not found')
+    
+    // Ensure target is a folder
+    if (targetFolder.node_type !== 'folder') {
+      throw new Error('Can only move items into folders')
+    }
+
+    // Ensure same workspace
+    if (targetFolder.workspace_id !== node.workspace_id) {
+      throw new Error('Cannot move items between workspaces')
+    }
+
+    // Prevent circular reference - check if target is a descendant of the node
+    if (node.node_type === 'folder') {
+      const isCircular = await checkCircularReference(supabase, nodeId, newParentId, user.id)
+      if (isCircular) {
+        throw new Error('Cannot move a folder into itself or its descendants')
+      }
+    }
+  }
+
+  // Check for duplicate names in the target location
+  let finalName = node.name
+  let query = supabase
+    .from('nodes')
+    .select('name')
+    .eq('workspace_id', node.workspace_id)
+    .eq('user_id', user.id)
+    .eq('node_type', node.node_type)
+    .is('deleted_at', null)
+  
+  // Handle NULL parent_id properly
+  if (newParentId === null) {
+    query = query.is('parent_id', null)
+  } else {
+    query = query.eq('parent_id', newParentId)
+  }
+  
+  const { data: existingNodes } = await query
+
+  if (existingNodes) {
+    const existingNames = new Set(existingNodes.map(n => n.name))
+    if (existingNames.has(node.name)) {
+      // Generate unique name
+      let counter = 1
+      const baseName = node.name.replace(/ \(\d+\)$/, '') // Remove existing (n) suffix
+      while (existingNames.has(finalName)) {
+        finalName = `${baseName} (${counter})`
+        counter++
+      }
+    }
+  }
+
+  // Perform the move
   const { error: updateError } = await supabase
     .from('nodes')
     .update({ 
@@ -557,15 +1333,500 @@ export async function moveNode(nodeId: string, newParentId: string | null) {
     .eq('id', nodeId)
     .eq('user_id', user.id)
 
-  if (updateError) throw updateError
+  if (updateError) throw updateError
+
+  revalidatePath('/dashboard/file-organizer')
+  return { success: true, newName: finalName }
+}
+
+export async function renameNodes(renames: { nodeId: string; name: string }[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+  if (renames.length === 0) return []
+
+  const requestedNames = new Map(renames.map(r => [r.nodeId, validateNodeName(r.name)]))
+
+  // Get all nodes to be renamed
+  const { data: nodes } = await supabase
+    .from('nodes')
+    .select('*')
+    .in('id', Array.from(requestedNames.keys()))
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+
+  if (!nodes || nodes.length === 0) throw new Error('No nodes found')
+
+  // Sibling names per folder and node type, loaded once and kept current as
+  // the batch is applied so two nodes can't be given the same name
+  const siblingNames = new Map<string, Set<string>>()
+
+  const results = []
+  const renamedIds: string[] = []
+  for (const node of nodes) {
+    const requestedName = requestedNames.get(node.id)!
+    if (requestedName === node.name) {
+      results.push({ id: node.id, newName: node.name, adjusted: false })
+      continue
+    }
+
+    const siblingKey = `${node.workspace_id}/${node.parent_id ?? ''}/${node.node_type}`
+    let existingNames = siblingNames.get(siblingKey)
+    if (!existingNames) {
+      let query = supabase
+        .from('nodes')
+        .select('name')
+        .eq('workspace_id', node.workspace_id)
+        .eq('user_id', user.id)
+        .eq('node_type', node.node_type)
+        .neq('id', node.id) // Exclude the node being renamed
+        .is('deleted_at', null)
+      
+      if (node.parent_id === null) {
+        query = query.is('parent_id', null)
+      } else {
+        query = query.eq('parent_id', node.parent_id)
+      }
+      
+      const { data: existingNodes } = await query
+      existingNames = new Set((existingNodes || []).map(n => n.name))
+      siblingNames.set(siblingKey, existingNames)
+    }
+
+    // The node's current name becomes free once it is renamed
+    existingNames.delete(node.name)
+    const finalName = uniqueSiblingName(requestedName, existingNames, node.node_type)
+
+    const { error } = await supabase
+      .from('nodes')
+      .update({
+        name: finalName,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', node.id)
+      .eq('user_id', user.id)
+
+    if (error) throw error
+
+    existingNames.add(finalName)
+    renamedIds.push(node.id)
+    results.push({ id: node.id, newName: finalName, adjusted: finalName !== requestedName })
+  }
+
+  // Embeddings include the name; renamed files are embedded again on the next backfill
+  if (renamedIds.length > 0) {
+    await supabase.from('node_embeddings').delete().in('node_id', renamedIds).eq('user_id', user.id)
+  }
+
+  revalidatePath('/dashboard/file-organizer')
+  return results
+}
+
+export async function renameNode(nodeId: string, name: string) {
+  const [result] = await renameNodes([{ nodeId, name }])
+  if (!result) throw new Error('Node not found')
+  return result
+}
+
+// Resolve a folder path below parentId, creating any folder that doesn't
+// exist yet, and return the id of the innermost folder
+export async function ensureFolderPath(workspaceId: string, parentId: string | null, segments: string[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  let currentId = parentId
+  for (const segment of segments) {
+    const name = validateNodeName(segment)
+
+    let query = supabase
+      .from('nodes')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', user.id)
+      .eq('node_type', 'folder')
+      .eq('name', name)
+      .is('deleted_at', null)
+
+    if (currentId === null) {
+      query = query.is('parent_id', null)
+    } else {
+      query = query.eq('parent_id', currentId)
+    }
+
+    const { data: existing, error } = await query.maybeSingle()
+    if (error) throw error
+
+    if (existing) {
+      currentId = existing.id
+      continue
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('nodes')
+      .insert({
+        user_id: user.id,
+        workspace_id: workspaceId,
+        parent_id: currentId,
+        node_type: 'folder',
+        name
+      })
+      .select('id')
+      .single()
+
+    if (insertError) throw insertError
+    currentId = created.id
+  }
+
+  revalidatePath('/dashboard/file-organizer')
+  return currentId
+}
+
+// Add tags to every given node, skipping tags a node already has
+export async function addTagsToNodes(nodeIds: string[], tags: string[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const added = normalizeTags(tags)
+  if (added.length === 0) return 0
+
+  const updated = await updateNodeTags(supabase, user.id, nodeIds, current => normalizeTags([...current, ...added]))
+  revalidatePath('/dashboard/file-organizer')
+  return updated
+}
+
+// Remove tags from every given node, ignoring case
+export async function removeTagsFromNodes(nodeIds: string[], tags: string[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const removed = new Set(tags.map(tag => tag.toLowerCase()))
+  const updated = await updateNodeTags(supabase, user.id, nodeIds, current =>
+    current.filter(tag => !removed.has(tag.toLowerCase()))
+  )
+  revalidatePath('/dashboard/file-organizer')
+  return updated
+}
+
+// Rename a tag on every node of a workspace, merging it into an existing tag of the new name
+export async function renameTag(workspaceId: string, tag: string, newTag: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const [renamed] = normalizeTags([newTag])
+  if (!renamed) throw new Error('Tag name cannot be empty')
+
+  const nodeIds = await getTaggedNodeIds(supabase, user.id, workspaceId, tag)
+  const updated = await updateNodeTags(supabase, user.id, nodeIds, current =>
+    normalizeTags(current.map(existing => (existing.toLowerCase() === tag.toLowerCase() ? renamed : existing)))
+  )
+  revalidatePath('/dashboard/file-organizer')
+  return updated
+}
+
+// Remove a tag from every node of a workspace
+export async function deleteTag(workspaceId: string, tag: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const nodeIds = await getTaggedNodeIds(supabase, user.id, workspaceId, tag)
+  const updated = await updateNodeTags(supabase, user.id, nodeIds, current =>
+    current.filter(existing => existing.toLowerCase() !== tag.toLowerCase())
+  )
+  revalidatePath('/dashboard/file-organizer')
+  return updated
+}
+
+/**
+ * Set or remove metadata values on every given node. Keys mapped to null or
+ * an empty string are removed; keys not mentioned are left alone.
+ */
+export async function updateNodesMetadata(nodeIds: string[], changes: Record<string, string | null>) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+  if (nodeIds.length === 0) return 0
+
+  const normalized = new Map<string, string | null>()
+  for (const [key, value] of Object.entries(changes)) {
+    const normalizedKey = normalizeMetadataKey(key)
+    if (!normalizedKey) throw new Error(`Invalid metadata key "${key}"`)
+    const trimmed = value?.trim().slice(0, MAX_METADATA_VALUE_LENGTH)
+    normalized.set(normalizedKey, trimmed || null)
+  }
+
+  const { data: nodes, error } = await supabase
+    .from('nodes')
+    .select('id, metadata')
+    .in('id', nodeIds)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+
+  if (error) throw error
+
+  let updated = 0
+  for (const node of nodes || []) {
+    const metadata = toNodeMetadata(node.metadata)
+    for (const [key, value] of normalized) {
+      if (value === null) {
+        delete metadata[key]
+      } else {
+        metadata[key] = value
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('nodes')
+      .update({ metadata })
+      .eq('id', node.id)
+      .eq('user_id', user.id)
+
+    if (updateError) throw updateError
+    updated++
+  }
+
+  revalidatePath('/dashboard/file-organizer')
+  return updated
+}
+
+export async function getBundles(workspaceId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('bundles')
+    .select('*, bundle_items(count)')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+
+  return ((data || []) as (Bundle & { bundle_items: { count: number }[] })[]).map(({ bundle_items, ...bundle }) => ({
+    ...bundle,
+    itemCount: bundle_items[0]?.count ?? 0
+  }))
+}
+
+// A bundle's items in export order, including files that are in the trash
+export async function getBundle(bundleId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { data: bundle, error } = await supabase
+    .from('bundles')
+    .select('*')
+    .eq('id', bundleId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (error || !bundle) throw new Error('Bundle not found')
+
+  const { data: items, error: itemsError } = await supabase
+    .from('bundle_items')
+    .select('*, node:nodes!inner(*)')
+    .eq('bundle_id', bundleId)
+    .eq('user_id', user.id)
+    .order('position', { ascending: true })
+
+  if (itemsError) throw itemsError
+
+  return {
+    bundle: bundle as Bundle,
+    items: (items || []) as (BundleItem & { node: Node })[]
+  }
+}
+
+// Create a bundle of files in the given order; folders stand for the files below them
+export async function createBundle(workspaceId: string, name: string, nodeIds: string[] = []) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { data: bundle, error } = await supabase
+    .from('bundles')
+    .insert({ user_id: user.id, workspace_id: workspaceId, name: validateBundleName(name) })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  const fileIds = await expandToFileIds(supabase, user.id, workspaceId, nodeIds)
+  await insertBundleItems(supabase, user.id, bundle.id, fileIds, 0)
+
+  revalidatePath('/dashboard/file-organizer')
+  return bundle as Bundle
+}
+
+// Append files to a bundle, skipping ones it already contains
+export async function addNodesToBundle(bundleId: string, nodeIds: string[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const workspaceId = await touchBundle(supabase, user.id, bundleId, {})
+
+  const { data: existing, error } = await supabase
+    .from('bundle_items')
+    .select('node_id, position')
+    .eq('bundle_id', bundleId)
+    .eq('user_id', user.id)
+
+  if (error) throw error
+
+  const existingIds = new Set((existing || []).map(item => item.node_id))
+  const nextPosition = Math.max(-1, ...(existing || []).map(item => item.position)) + 1
+  const fileIds = (await expandToFileIds(supabase, user.id, workspaceId, nodeIds)).filter(id => !existingIds.has(id))
+  await insertBundleItems(supabase, user.id, bundleId, fileIds, nextPosition)
+
+  revalidatePath('/dashboard/file-organizer')
+  return fileIds.length
+}
+
+/**
+ * Save a bundle as edited: its name and the complete list of items in
+ * export order. Items left out of the list are removed from the bundle.
+ * The new list is written before the removed items are deleted, so a failed
+ * save never leaves the bundle empty.
+ */
+export async function saveBundle(bundleId: string, name: string, items: { nodeId: string; label: string | null }[]) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const workspaceId = await touchBundle(supabase, user.id, bundleId, { name: validateBundleName(name) })
+
+  const nodeIds = items.map(item => item.nodeId)
+  if (new Set(nodeIds).size !== nodeIds.length) throw new Error('A file can only appear once in a bundle')
+
+  // Files of another workspace can't be part of the bundle
+  const { data: files, error: filesError } = await supabase
+    .from('nodes')
+    .select('id')
+    .in('id', nodeIds)
+    .eq('user_id', user.id)
+    .eq('workspace_id', workspaceId)
+    .eq('node_type', 'file')
+
+  if (filesError) throw filesError
+  const fileIds = new Set((files || []).map(file => file.id))
+  if (nodeIds.some(nodeId => !fileIds.has(nodeId))) throw new Error('Some files no longer exist in this workspace')
+
+  const { data: existing, error: existingError } = await supabase
+    .from('bundle_items')
+    .select('node_id')
+    .eq('bundle_id', bundleId)
+    .eq('user_id', user.id)
+
+  if (existingError) throw existingError
+
+  if (items.length > 0) {
+    const { error } = await supabase
+      .from('bundle_items')
+      .upsert(items.map((item, position) => ({
+        bundle_id: bundleId,
+        node_id: item.nodeId,
+        user_id: user.id,
+        position,
+        label: item.label?.trim() || null
+      })), { onConflict: 'bundle_id,node_id' })
+
+    if (error) throw error
+  }
+
+  const removedIds = (existing || [])
+    .map(item => item.node_id)
+    .filter(nodeId => !fileIds.has(nodeId))
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('bundle_items')
+      .delete()
+      .eq('bundle_id', bundleId)
+      .eq('user_id', user.id)
+      .in('node_id', removedIds)
+
+    if (error) throw error
+  }
+
+  revalidatePath('/dashboard/file-organizer')
+}
+
+export async function markBundleExported(bundleId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  await touchBundle(supabase, user.id, bundleId, { exported_at: new Date().toISOString() })
+}
+
+// The bundle's files are left alone
+export async function deleteBundle(bundleId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('bundles')
+    .delete()
+    .eq('id', bundleId)
+    .eq('user_id', user.id)
+
+  if (error) throw error
 
   revalidatePath('/dashboard/file-organizer')
-  return { success: true, newName: finalName }
+}
+
+function validateNodeName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Name cannot be empty')
+  if (trimmed === '.' || trimmed === '..') throw new Error(`"${trimmed}" is not a valid name`)
+  if (/[\/\\]/.test(trimmed)) throw new Error('Name cannot contain slashes')
+  if (trimmed.length > 255) throw new Error('Name is too long (max 255 characters)')
+  return trimmed
+}
+
+// Append " (n)" until the name is free, before the extension for files so
+// "report.pdf" becomes "report (1).pdf"
+function uniqueSiblingName(name: string, existingNames: Set<string>, nodeType: string): string {
+  if (!existingNames.has(name)) return name
+
+  const lastDot = name.lastIndexOf('.')
+  const hasExtension = nodeType === 'file' && lastDot > 0
+  const stem = (hasExtension ? name.slice(0, lastDot) : name).replace(/ \(\d+\)$/, '')
+  const extension = hasExtension ? name.slice(lastDot) : ''
+
+  let counter = 1
+  let candidate = `${stem} (${counter})${extension}`
+  while (existingNames.has(candidate)) {
+    counter++
+    candidate = `${stem} (${counter})${extension}`
+  }
+  return candidate
 }
 
 // Helper function to check for circular references
 async function checkCircularReference(
-  supabase: any,
+  supabase: SupabaseServerClient,
   nodeId: string,
   targetId: string,
   userId: string
@@ -582,7 +1843,7 @@ async function checkCircularReference(
 
 // Recursively get all descendant IDs
 async function getAllDescendants(
-  supabase: any,
+  supabase: SupabaseServerClient,
   nodeId: string,
   userId: string
 ): Promise<Set<string>> {
@@ -609,7 +1870,7 @@ async function getAllDescendants(
 
 // Recursively get all descendant file storage paths
 async function getAllDescendantFiles(
-  supabase: any,
+  supabase: SupabaseServerClient,
   nodeId: string,
   userId: string
 ): Promise<string[]> {
@@ -635,6 +1896,7 @@ async function getAllDescendantFiles(
   return filePaths
 }
 
+// Workspaces are soft deleted like nodes and purged after the retention period
 export async function deleteWorkspace(workspaceId: string) {
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
@@ -647,11 +1909,545 @@ export async function deleteWorkspace(workspaceId: string) {
     .select('*')
     .eq('id', workspaceId)
     .eq('user_id', user.id)
+    .is('deleted_at', null)
     .single()
 
   if (!workspace) throw new Error('Workspace not found')
   if (workspace.is_default) throw new Error('Cannot delete default workspace')
 
+  const { error } = await supabase
+    .from('workspaces')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', workspaceId)
+    .eq('user_id', user.id)
+
+  if (error) throw error
+  revalidatePath('/dashboard/file-organizer')
+}
+
+export async function getDeletedWorkspaces() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('*')
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
+
+  if (error) throw error
+
+  const { trashRetentionDays } = await getUserSettings(supabase, user.id)
+  const retentionMs = getTrashRetentionDays(trashRetentionDays) * 24 * 60 * 60 * 1000
+  return ((data || []) as Workspace[]).map(workspace => ({
+    ...workspace,
+    expiresAt: new Date(new Date(workspace.deleted_at!).getTime() + retentionMs).toISOString()
+  }))
+}
+
+export async function restoreWorkspace(workspaceId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('workspaces')
+    .update({ deleted_at: null })
+    .eq('id', workspaceId)
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .select()
+    .single()
+
+  if (error) throw error
+  revalidatePath('/dashboard/file-organizer')
+  return data as Workspace
+}
+
+// A live file with the given bytes, preferring one already in the target folder
+async function findContentDuplicate(
+  supabase: SupabaseServerClient,
+  userId: string,
+  workspaceId: string,
+  parentId: string | null,
+  contentHash: string
+) {
+  const { data } = await supabase
+    .from('nodes')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .eq('node_type', 'file')
+    .eq('content_hash', contentHash)
+    .is('deleted_at', null)
+    .not('storage_object_path', 'is', null)
+    .order('created_at', { ascending: true })
+
+  const files = (data || []) as Node[]
+  if (files.length === 0) return null
+
+  const inFolder = files.find(file => file.parent_id === parentId)
+  return { node: inFolder || files[0], inTargetFolder: Boolean(inFolder) }
+}
+
+// When a file's current content was uploaded: when the node was created, or
+// when the content replaced the previous version. Not updated_at, which
+// renames, moves and tag edits change as well
+async function getContentUploadedAt(supabase: SupabaseServerClient, node: Node): Promise<string> {
+  if (node.version <= 1) return node.created_at
+
+  const { data } = await supabase
+    .from('node_versions')
+    .select('archived_at')
+    .eq('node_id', node.id)
+    .eq('user_id', node.user_id)
+    .eq('version', node.version - 1)
+    .maybeSingle()
+
+  return data?.archived_at ?? node.created_at
+}
+
+// Archive a file's current object as a version and point the node at a new one
+async function replaceFileContent(
+  supabase: SupabaseServerClient,
+  userId: string,
+  node: Node,
+  content: Pick<Node, 'storage_object_path' | 'mime_type' | 'size' | 'content_hash'>
+) {
+  if (!node.storage_object_path) throw new Error('File has no stored content')
+
+  const { data: archived, error: archiveError } = await supabase
+    .from('node_versions')
+    .insert({
+      node_id: node.id,
+      user_id: userId,
+      workspace_id: node.workspace_id,
+      version: node.version,
+      storage_object_path: node.storage_object_path,
+      mime_type: node.mime_type,
+      size: node.size,
+      content_hash: node.content_hash,
+      created_at: await getContentUploadedAt(supabase, node)
+    })
+    .select('id')
+    .single()
+
+  if (archiveError) throw archiveError
+
+  // Only update the version we archived, so concurrent uploads can't both win
+  const { data, error } = await supabase
+    .from('nodes')
+    .update({
+      ...content,
+      version: node.version + 1,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', node.id)
+    .eq('user_id', userId)
+    .eq('version', node.version)
+    .select()
+    .single()
+
+  if (error || !data) {
+    await supabase.from('node_versions').delete().eq('id', archived.id)
+    throw error || new Error('File was changed by another upload')
+  }
+
+  // The indexed text and its embedding belong to the archived version
+  await supabase.from('node_contents').delete().eq('node_id', node.id).eq('user_id', userId)
+  await supabase.from('node_embeddings').delete().eq('node_id', node.id).eq('user_id', userId)
+
+  return data as Node
+}
+
+// Index a file uploaded through the server. Scans and Office files are only
+// described by StoredFileExtractor, so they are left for the search panel to
+// index with the browser extractors
+async function indexUploadedContent(supabase: SupabaseServerClient, userId: string, node: Node, file: File) {
+  try {
+    const { preview } = await StoredFileExtractor.extract(file, node.name, file.type)
+    const text = SearchIndexer.toSearchText(preview)
+    if (!text) return
+
+    await supabase
+      .from('node_contents')
+      .upsert({
+        node_id: node.id,
+        user_id: userId,
+        workspace_id: node.workspace_id,
+        content_text: normalizeIndexText(text),
+        indexed_at: new Date().toISOString()
+      }, { onConflict: 'node_id' })
+
+    await embedNodes(supabase, userId, [node.id])
+  } catch (error) {
+    // Search indexing never fails an upload
+    console.error('Failed to index file contents:', node.name, error)
+  }
+}
+
+// Indexed files of a workspace without an embedding from `model`
+async function getUnembeddedNodeIds(supabase: SupabaseServerClient, userId: string, workspaceId: string, model: string) {
+  const [{ data: indexed, error }, { data: embedded, error: embeddedError }] = await Promise.all([
+    supabase
+      .from('node_contents')
+      .select('node_id, nodes!inner(deleted_at)')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .is('nodes.deleted_at', null),
+    supabase
+      .from('node_embeddings')
+      .select('node_id')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .eq('model', model)
+  ])
+
+  if (error) throw error
+  if (embeddedError) throw embeddedError
+
+  const embeddedIds = new Set((embedded || []).map((row: { node_id: string }) => row.node_id))
+  return (indexed || [])
+    .map((row: { node_id: string }) => row.node_id)
+    .filter((nodeId: string) => !embeddedIds.has(nodeId))
+}
+
+/**
+ * The embedding provider for a workspace, paid with the user's own key for
+ * that workspace when there is one. Null when none is configured.
+ */
+async function resolveWorkspaceEmbedding(
+  supabase: SupabaseServerClient,
+  userId: string,
+  workspaceId: string
+): Promise<WorkspaceEmbedding | null> {
+  const keys = await loadUserApiKeys(supabase, userId, workspaceId)
+  const provider = resolveEmbeddingProvider(toApiKeySelection(keys))
+  if (!provider) return null
+  return { provider, key: provider.id === 'hash' ? undefined : keys.get(provider.id) }
+}
+
+// Calls paid with the user's own key don't count against the quotas
+async function reserveEmbeddingRequest(supabase: SupabaseServerClient, embedding: WorkspaceEmbedding) {
+  if (embedding.key) return
+  const exceeded = await reserveAiRequests(supabase, 1)
+  if (exceeded) throw new Error(describeQuotaExceeded(exceeded))
+}
+
+async function recordEmbeddingUsage(supabase: SupabaseServerClient, embedding: WorkspaceEmbedding, tokens: number) {
+  if (embedding.key) {
+    await recordApiKeyUsage(supabase, embedding.key.id, 1, tokens)
+  } else {
+    await recordAiTokens(supabase, tokens)
+  }
+}
+
+/**
+ * Embed the names and indexed text of files and store the vectors. Does
+ * nothing when no embedding provider is configured. Each batch is one AI
+ * request, counted against the user's quotas unless their own key for the
+ * workspace pays for it. Returns the number embedded.
+ */
+async function embedNodes(
+  supabase: SupabaseServerClient,
+  userId: string,
+  nodeIds: string[]
+): Promise<number> {
+  if (nodeIds.length === 0) return 0
+
+  const { data, error } = await supabase
+    .from('node_contents')
+    .select('node_id, workspace_id, content_text, nodes!inner(name)')
+    .in('node_id', nodeIds)
+    .eq('user_id', userId)
+
+  if (error) throw error
+
+  // The embedded node is a single row, not the list the database types infer
+  const contents = (data || []) as unknown as { node_id: string; workspace_id: string; content_text: string; nodes: { name: string } }[]
+  let embedded = 0
+
+  // Keys are registered per workspace, so each workspace's files are embedded separately
+  for (const workspaceId of Array.from(new Set(contents.map(content => content.workspace_id)))) {
+    const embedding = await resolveWorkspaceEmbedding(supabase, userId, workspaceId)
+    if (!embedding) continue
+    const workspaceContents = contents.filter(content => content.workspace_id === workspaceId)
+
+    for (let i = 0; i < workspaceContents.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = workspaceContents.slice(i, i + EMBEDDING_BATCH_SIZE)
+
+      await reserveEmbeddingRequest(supabase, embedding)
+      const { embeddings, usage } = await embedding.provider.embed(
+        batch.map(content => `${content.nodes.name}\n\n${content.content_text}`.slice(0, MAX_EMBEDDING_CHARS))
+      )
+      await recordEmbeddingUsage(supabase, embedding, usage?.totalTokens || 0)
+
+      const { error: upsertError } = await supabase
+        .from('node_embeddings')
+        .upsert(batch.map((content, j) => ({
+          node_id: content.node_id,
+          user_id: userId,
+          workspace_id: content.workspace_id,
+          model: embedding.provider.model,
+          embedding: JSON.stringify(embeddings[j]),
+          embedded_at: new Date().toISOString()
+        })), { onConflict: 'node_id' })
+
+      if (upsertError) throw upsertError
+      embedded += batch.length
+    }
+  }
+
+  return embedded
+}
+
+// Postgres text can't hold NUL characters, which binary files decoded as text contain
+function normalizeIndexText(text: string): string {
+  return text.replace(/\u0000/g, '').slice(0, SearchIndexer.MAX_TEXT_LENGTH)
+}
+
+// Live nodes of a workspace carrying a tag, in any letter case
+async function getTaggedNodeIds(supabase: SupabaseServerClient, userId: string, workspaceId: string, tag: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('nodes')
+    .select('id, tags')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .neq('tags', '{}')
+
+  if (error) throw error
+
+  const wanted = tag.toLowerCase()
+  return ((data || []) as Pick<Node, 'id' | 'tags'>[])
+    .filter(node => node.tags.some(existing => existing.toLowerCase() === wanted))
+    .map(node => node.id)
+}
+
+// Rewrite the tags of live nodes; nodes whose tags don't change are skipped
+async function updateNodeTags(
+  supabase: SupabaseServerClient,
+  userId: string,
+  nodeIds: string[],
+  update: (tags: string[]) => string[]
+): Promise<number> {
+  if (nodeIds.length === 0) return 0
+
+  const { data, error } = await supabase
+    .from('nodes')
+    .select('id, tags')
+    .in('id', nodeIds)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+
+  if (error) throw error
+
+  let updated = 0
+  for (const node of (data || []) as Pick<Node, 'id' | 'tags'>[]) {
+    const tags = update(node.tags)
+    if (tags.length === node.tags.length && tags.every((tag, i) => tag === node.tags[i])) continue
+
+    const { error: updateError } = await supabase
+      .from('nodes')
+      .update({ tags })
+      .eq('id', node.id)
+      .eq('user_id', userId)
+
+    if (updateError) throw updateError
+    updated++
+  }
+
+  return updated
+}
+
+function validateBundleName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Bundle name cannot be empty')
+  if (trimmed.length > 200) throw new Error('Bundle name is too long (max 200 characters)')
+  return trimmed
+}
+
+// Returns the bundle's workspace, which every item must belong to
+async function touchBundle(supabase: SupabaseServerClient, userId: string, bundleId: string, update: Partial<Bundle>): Promise<string> {
+  const { data, error } = await supabase
+    .from('bundles')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', bundleId)
+    .eq('user_id', userId)
+    .select('id, workspace_id')
+
+  if (error) throw error
+  if (!data || data.length === 0) throw new Error('Bundle not found')
+  return data[0].workspace_id
+}
+
+// Live files of the workspace among the given nodes, with folders replaced by
+// the files below them in tree order (folders first, then by name), keeping
+// the given order
+async function expandToFileIds(supabase: SupabaseServerClient, userId: string, workspaceId: string, nodeIds: string[]): Promise<string[]> {
+  if (nodeIds.length === 0) return []
+
+  const { data: selected, error } = await supabase
+    .from('nodes')
+    .select('id, node_type')
+    .in('id', nodeIds)
+    .eq('user_id', userId)
+    .eq('workspace_id', workspaceId)
+    .is('deleted_at', null)
+
+  if (error) throw error
+
+  const selectedNodes = (selected || []) as Pick<Node, 'id' | 'node_type'>[]
+  let workspaceNodes: Pick<Node, 'id' | 'parent_id' | 'node_type' | 'name'>[] = []
+
+  if (selectedNodes.some(node => node.node_type === 'folder')) {
+    const { data, error: nodesError } = await supabase
+      .from('nodes')
+      .select('id, parent_id, node_type, name')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+
+    if (nodesError) throw nodesError
+    workspaceNodes = data || []
+  }
+
+  const collect = (folderId: string): string[] =>
+    workspaceNodes
+      .filter(node => node.parent_id === folderId)
+      .sort((a, b) => a.node_type === b.node_type ? a.name.localeCompare(b.name) : a.node_type === 'folder' ? -1 : 1)
+      .flatMap(node => (node.node_type === 'folder' ? collect(node.id) : [node.id]))
+
+  const fileIds: string[] = []
+  for (const nodeId of nodeIds) {
+    const node = selectedNodes.find(n => n.id === nodeId)
+    if (!node) continue
+    for (const id of node.node_type === 'folder' ? collect(node.id) : [node.id]) {
+      if (!fileIds.includes(id)) fileIds.push(id)
+    }
+  }
+  return fileIds
+}
+
+async function insertBundleItems(supabase: SupabaseServerClient, userId: string, bundleId: string, nodeIds: string[], firstPosition: number) {
+  if (nodeIds.length === 0) return
+
+  const { error } = await supabase
+    .from('bundle_items')
+    .insert(nodeIds.map((nodeId, i) => ({
+      bundle_id: bundleId,
+      node_id: nodeId,
+      user_id: userId,
+      position: firstPosition + i
+    })))
+
+  if (error) throw error
+}
+
+// Storage objects of earlier versions of the given nodes
+async function getVersionStoragePaths(supabase: SupabaseServerClient, userId: string, nodeIds: string[]): Promise<string[]> {
+  if (nodeIds.length === 0) return []
+
+  const { data } = await supabase
+    .from('node_versions')
+    .select('storage_object_path')
+    .in('node_id', nodeIds)
+    .eq('user_id', userId)
+
+  return (data || []).map((version: Pick<NodeVersion, 'storage_object_path'>) => version.storage_object_path)
+}
+
+// Storage paths that no node or version outside ownerIds points at
+async function excludeSharedObjects(
+  supabase: SupabaseServerClient,
+  userId: string,
+  paths: string[],
+  ownerIds: Set<string>
+): Promise<string[]> {
+  const uniquePaths = Array.from(new Set(paths))
+  if (uniquePaths.length === 0) return []
+
+  const { data: nodeRefs } = await supabase
+    .from('nodes')
+    .select('id, storage_object_path')
+    .in('storage_object_path', uniquePaths)
+    .eq('user_id', userId)
+
+  const { data: versionRefs } = await supabase
+    .from('node_versions')
+    .select('node_id, storage_object_path')
+    .in('storage_object_path', uniquePaths)
+    .eq('user_id', userId)
+
+  const shared = new Set<string>()
+  for (const ref of nodeRefs || []) {
+    if (!ownerIds.has(ref.id)) shared.add(ref.storage_object_path)
+  }
+  for (const ref of versionRefs || []) {
+    if (!ownerIds.has(ref.node_id)) shared.add(ref.storage_object_path)
+  }
+
+  return uniquePaths.filter(path => !shared.has(path))
+}
+
+// Remove nodes, everything below them and their files in storage
+async function destroyNodes(supabase: SupabaseServerClient, userId: string, nodes: Node[]) {
+  // Collect all storage paths to delete
+  const storagePaths: string[] = []
+
+  // Everything below the folders, including descendants that were trashed
+  // on their own earlier, goes with them along with its earlier versions
+  const subtreeIds = new Set<string>(nodes.map(node => node.id))
+  for (const node of nodes) {
+    if (node.node_type !== 'folder') continue
+    const descendants = await getAllDescendants(supabase, node.id, userId)
+    descendants.forEach(id => subtreeIds.add(id))
+  }
+  storagePaths.push(...await getVersionStoragePaths(supabase, userId, Array.from(subtreeIds)))
+  
+  for (const node of nodes) {
+    // Add file storage paths
+    if (node.node_type === 'file' && node.storage_object_path) {
+      storagePaths.push(node.storage_object_path)
+    }
+    
+    // For folders, get all descendant files
+    if (node.node_type === 'folder') {
+      const descendantFiles = await getAllDescendantFiles(supabase, node.id, userId)
+      storagePaths.push(...descendantFiles)
+    }
+  }
+
+  // Linked duplicates share objects, so keep any that other files still use
+  const removablePaths = await excludeSharedObjects(supabase, userId, storagePaths, subtreeIds)
+
+  // Delete all files from storage if any
+  if (removablePaths.length > 0) {
+    const { error: storageError } = await supabase.storage
+      .from('user-files')
+      .remove(removablePaths)
+    
+    if (storageError) {
+      console.error('Error deleting files from storage:', storageError)
+      // Continue with database deletion even if storage deletion fails
+    }
+  }
+
+  // Delete all nodes from database (cascade will handle children)
+  const { error } = await supabase
+    .from('nodes')
+    .delete()
+    .in('id', nodes.map(node => node.id))
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
+
+async function destroyWorkspace(supabase: SupabaseServerClient, userId: string, workspaceId: string) {
   // Get all files in this workspace to delete from storage
   const { data: files } = await supabase
     .from('nodes')
@@ -660,9 +2456,18 @@ export async function deleteWorkspace(workspaceId: string) {
     .eq('node_type', 'file')
     .not('storage_object_path', 'is', null)
 
-  // Delete files from storage
+  const { data: versions } = await supabase
+    .from('node_versions')
+    .select('storage_object_path')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+
+  // Delete files and their earlier versions from storage
   if (files && files.length > 0) {
-    const filePaths = files.map(f => f.storage_object_path).filter(Boolean) as string[]
+    const filePaths = [
+      ...files.map((f: Pick<Node, 'storage_object_path'>) => f.storage_object_path),
+      ...(versions || []).map((v: Pick<NodeVersion, 'storage_object_path'>) => v.storage_object_path)
+    ].filter(Boolean) as string[]
     if (filePaths.length > 0) {
       await supabase.storage
         .from('user-files')
@@ -675,8 +2480,7 @@ export async function deleteWorkspace(workspaceId: string) {
     .from('workspaces')
     .delete()
     .eq('id', workspaceId)
-    .eq('user_id', user.id)
+    .eq('user_id', userId)
 
   if (error) throw error
-  revalidatePath('/dashboard/file-organizer')
-}
\ No newline at end of file
+}
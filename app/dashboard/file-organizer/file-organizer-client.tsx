@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import WorkspaceHeader from '@/components/dashboard/workspace-header'
 import FileExplorer from '@/components/dashboard/file-explorer'
@@ -24,15 +24,6 @@ export default function FileOrganizerClient({
 }: FileOrganizerClientProps) {
   const router = useRouter()
   const [selectedNode, setSelectedNode] = useState<Node | null>(null)
-  const [hasInitialized, setHasInitialized] = useState(false)
-
-  useEffect(() => {
-    // If we have workspaces, mark as initialized
-    if (workspaces.length > 0) {
-      setHasInitialized(true)
-    }
-  }, [workspaces])
-
   const handleWorkspaceChange = (workspaceId: string) => {
     router.push(`/dashboard/file-organizer?workspace=${workspaceId}`)
   }
@@ -26,6 +26,7 @@ export default async function FileOrganizerPage({
       .from('workspaces')
       .select('*')
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: true })
     
     if (existingWorkspaces && existingWorkspaces.length > 0) {
@@ -0,0 +1,239 @@
+'use server'
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { NamingTemplateSchema, parseTemplate } from '@/utils/ai/naming-template'
+import { getUserSettings, toUserSettings, toUserSettingsRow, type UserSettings } from '@/utils/user-settings'
+import { encryptApiKey, getKeyHint, isKeyVaultConfigured } from '@/utils/ai/key-vault'
+import { PROVIDER_IDS, type ProviderId } from '@/utils/ai/types'
+
+export interface ApiKeySummary {
+  id: string
+  provider: ProviderId
+  label: string
+  keyHint: string
+  workspaceId: string | null
+  createdAt: string
+  lastUsedAt: string | null
+  requestsThisMonth: number
+  tokensThisMonth: number
+  totalRequests: number
+  totalTokens: number
+}
+
+export async function getSettings() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  return getUserSettings(supabase, user.id)
+}
+
+export async function updateSettings(settings: UserSettings) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  if (settings.namingTemplate) {
+    const parsed = NamingTemplateSchema.safeParse(settings.namingTemplate)
+    if (!parsed.success) throw new Error('Invalid naming template')
+    parseTemplate(parsed.data.pattern)
+  }
+
+  const { data, error } = await supabase
+    .from('user_settings')
+    .upsert({
+      user_id: user.id,
+      ...toUserSettingsRow(settings),
+      updated_at: new Date().toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  revalidatePath('/dashboard/settings')
+  revalidatePath('/dashboard/file-organizer')
+  return toUserSettings(data)
+}
+
+// The user's API keys with their usage; the keys themselves never leave the server
+export async function getApiKeys(): Promise<ApiKeySummary[]> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const [{ data: keys, error }, { data: usage, error: usageError }] = await Promise.all([
+    supabase
+      .from('user_api_keys')
+      .select('id, provider, label, key_hint, workspace_id, created_at, last_used_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('api_key_usage')
+      .select('key_id, day, requests, tokens')
+      .eq('user_id', user.id)
+  ])
+
+  if (error) throw error
+  if (usageError) throw usageError
+
+  const monthStart = new Date()
+  monthStart.setUTCDate(1)
+  const monthStartDay = monthStart.toISOString().slice(0, 10)
+
+  return (keys || []).map(key => {
+    const rows = (usage || []).filter(row => row.key_id === key.id)
+    const thisMonth = rows.filter(row => row.day >= monthStartDay)
+    return {
+      id: key.id,
+      provider: key.provider,
+      label: key.label,
+      keyHint: key.key_hint,
+      workspaceId: key.workspace_id,
+      createdAt: key.created_at,
+      lastUsedAt: key.last_used_at,
+      requestsThisMonth: thisMonth.reduce((sum, row) => sum + row.requests, 0),
+      tokensThisMonth: thisMonth.reduce((sum, row) => sum + Number(row.tokens), 0),
+      totalRequests: rows.reduce((sum, row) => sum + row.requests, 0),
+      totalTokens: rows.reduce((sum, row) => sum + Number(row.tokens), 0)
+    }
+  })
+}
+
+export async function addApiKey(
+  provider: ProviderId,
+  label: string,
+  apiKey: string,
+  workspaceId: string | null
+) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  if (!(PROVIDER_IDS as string[]).includes(provider)) throw new Error('Unknown provider')
+  const key = apiKey.trim()
+  if (!key) throw new Error('API key is required')
+  if (!isKeyVaultConfigured()) {
+    throw new Error('Storing API keys is not enabled on this deployment')
+  }
+
+  if (workspaceId) {
+    const { data: workspace } = await supabase
+      .from('workspaces')
+      .select('id')
+      .eq('id', workspaceId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    if (!workspace) throw new Error('Workspace not found')
+  }
+
+  const { error } = await supabase
+    .from('user_api_keys')
+    .insert({
+      user_id: user.id,
+      provider,
+      workspace_id: workspaceId,
+      label: label.trim().slice(0, 100) || provider,
+      encrypted_key: encryptApiKey(key),
+      key_hint: getKeyHint(key)
+    })
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(workspaceId
+        ? 'This workspace already has a key for this provider'
+        : 'You already have a default key for this provider')
+    }
+    throw error
+  }
+
+  revalidatePath('/dashboard/settings')
+}
+
+export async function deleteApiKey(keyId: string) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('user_api_keys')
+    .delete()
+    .eq('id', keyId)
+    .eq('user_id', user.id)
+
+  if (error) throw error
+
+  revalidatePath('/dashboard/settings')
+}
+
+// Number of Smart Sync results the user has cached
+export async function getSuggestionCacheSize() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { count, error } = await supabase
+    .from('suggestion_cache')
+    .select('cache_key', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+// Drop the user's cached suggestions so every file is analyzed again
+export async function clearSuggestionCache() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('suggestion_cache')
+    .delete()
+    .eq('user_id', user.id)
+
+  if (error) throw error
+
+  revalidatePath('/dashboard/settings')
+}
+
+// Number of names kept as examples of the user's naming style
+export async function getNamingExampleCount() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { count, error } = await supabase
+    .from('naming_examples')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+// Forget the learned naming style; suggestions start from the defaults again
+export async function clearNamingExamples() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('naming_examples')
+    .delete()
+    .eq('user_id', user.id)
+
+  if (error) throw error
+
+  revalidatePath('/dashboard/settings')
+}
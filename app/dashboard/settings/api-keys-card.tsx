@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { KeyRound, Loader2, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { PROVIDER_IDS, PROVIDER_LABELS, type ProviderId } from '@/utils/ai/types'
+import { addApiKey, deleteApiKey, type ApiKeySummary } from './actions'
+
+interface ApiKeysCardProps {
+  apiKeys: ApiKeySummary[]
+  canStoreApiKeys: boolean
+  workspaces: { id: string; name: string }[]
+}
+
+// Select items can't have an empty value, so the default key gets its own
+const ALL_WORKSPACES = 'all'
+
+export default function ApiKeysCard({ apiKeys, canStoreApiKeys, workspaces }: ApiKeysCardProps) {
+  const router = useRouter()
+  const [provider, setProvider] = useState<ProviderId>('openai')
+  const [scope, setScope] = useState(ALL_WORKSPACES)
+  const [label, setLabel] = useState('')
+  const [apiKey, setApiKey] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  const [pendingDelete, setPendingDelete] = useState<ApiKeySummary | null>(null)
+
+  const workspaceName = (workspaceId: string | null) => workspaceId === null
+    ? 'All workspaces'
+    : workspaces.find(workspace => workspace.id === workspaceId)?.name ?? 'Unknown workspace'
+
+  const handleAdd = async () => {
+    setIsAdding(true)
+    try {
+      await addApiKey(provider, label, apiKey, scope === ALL_WORKSPACES ? null : scope)
+      setLabel('')
+      setApiKey('')
+      toast(<SimpleToast message="API key added" type="success" />, { duration: 4000 })
+      router.refresh()
+    } catch (error) {
+      console.error('Failed to add API key:', error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : 'Failed to add API key'} type="error" />,
+        { duration: 4000 }
+      )
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return
+    const key = pendingDelete
+    setPendingDelete(null)
+    try {
+      await deleteApiKey(key.id)
+      toast(<SimpleToast message={`Removed "${key.label}"`} type="success" />, { duration: 4000 })
+      router.refresh()
+    } catch (error) {
+      console.error('Failed to remove API key:', error)
+      toast(<SimpleToast message="Failed to remove API key" type="error" />, { duration: 4000 })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API keys</CardTitle>
+        <CardDescription>
+          Your own provider keys, used instead of the deployment&apos;s. A key for a workspace wins over your default key, so each client&apos;s files can be billed to that client.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {apiKeys.length > 0 ? (
+          <div className="divide-y rounded-md border">
+            {apiKeys.map(key => (
+              <div key={key.id} className="flex items-center gap-3 p-3">
+                <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">
+                    {key.label} <span className="font-normal text-muted-foreground">{key.keyHint}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {PROVIDER_LABELS[key.provider]} · {workspaceName(key.workspaceId)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    This month: {key.requestsThisMonth.toLocaleString()} requests, {key.tokensThisMonth.toLocaleString()} tokens
+                    {' · '}Total: {key.totalRequests.toLocaleString()} requests, {key.totalTokens.toLocaleString()} tokens
+                    {key.lastUsedAt && ` · Last used ${new Date(key.lastUsedAt).toLocaleString()}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setPendingDelete(key)}
+                  title="Remove key"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No keys yet; requests use the deployment&apos;s keys.</p>
+        )}
+
+        {canStoreApiKeys ? (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Provider</Label>
+                <Select value={provider} onValueChange={(value) => setProvider(value as ProviderId)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROVIDER_IDS.map(id => (
+                      <SelectItem key={id} value={id}>
+                        {PROVIDER_LABELS[id]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Used for</Label>
+                <Select value={scope} onValueChange={setScope}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_WORKSPACES}>All workspaces (default)</SelectItem>
+                    {workspaces.map(workspace => (
+                      <SelectItem key={workspace.id} value={workspace.id}>
+                        {workspace.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-key-label">Label</Label>
+                <Input
+                  id="api-key-label"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="e.g. Acme Corp"
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-key-value">API key</Label>
+                <Input
+                  id="api-key-value"
+                  type="password"
+                  autoComplete="off"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs text-muted-foreground">
+                Keys are encrypted before they are stored and can&apos;t be viewed again.
+              </p>
+              <Button onClick={handleAdd} disabled={isAdding || !apiKey.trim()}>
+                {isAdding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                Add key
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Adding keys requires API_KEY_ENCRYPTION_SECRET to be set on the server.
+          </p>
+        )}
+      </CardContent>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove &quot;{pendingDelete?.label}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests that used this key fall back to your default key or the deployment&apos;s. Its usage history is deleted with it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-white hover:bg-destructive/90"
+              onClick={handleConfirmDelete}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
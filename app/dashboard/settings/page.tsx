@@ -0,0 +1,39 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/utils/supabase/server'
+import { getDefaultProviderId, listTextProviders } from '@/utils/ai/provider'
+import { isKeyVaultConfigured } from '@/utils/ai/key-vault'
+import { getTrashRetentionDays } from '@/utils/trash'
+import { getUserWorkspaces } from '@/app/dashboard/file-organizer/actions'
+import { getApiKeys, getNamingExampleCount, getSettings, getSuggestionCacheSize } from './actions'
+import SettingsClient from './settings-client'
+
+export default async function SettingsPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect('/auth/sign-in')
+  }
+
+  const [settings, apiKeys, workspaces, cachedSuggestions, namingExamples] = await Promise.all([
+    getSettings(),
+    getApiKeys(),
+    getUserWorkspaces(),
+    getSuggestionCacheSize(),
+    getNamingExampleCount()
+  ])
+
+  return (
+    <SettingsClient
+      settings={settings}
+      providers={listTextProviders()}
+      defaultProvider={getDefaultProviderId()}
+      defaultRetentionDays={getTrashRetentionDays()}
+      apiKeys={apiKeys}
+      canStoreApiKeys={isKeyVaultConfigured()}
+      workspaces={workspaces.map(workspace => ({ id: workspace.id, name: workspace.name }))}
+      cachedSuggestions={cachedSuggestions}
+      namingExamples={namingExamples}
+    />
+  )
+}
@@ -0,0 +1,352 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { NamingTemplatePicker } from '@/components/dashboard/naming-template-picker'
+import { PROVIDER_LABELS, type ProviderId } from '@/utils/ai/types'
+import { UPLOAD_CONFIG } from '@/utils/upload-config'
+import {
+  MAX_TRASH_RETENTION_DAYS,
+  MAX_UPLOAD_BANDWIDTH_LIMIT,
+  NAME_LANGUAGES,
+  type UserSettings
+} from '@/utils/user-settings'
+import { clearNamingExamples, clearSuggestionCache, updateSettings, type ApiKeySummary } from './actions'
+import ApiKeysCard from './api-keys-card'
+
+interface SettingsClientProps {
+  settings: UserSettings
+  providers: { id: ProviderId; configured: boolean; defaultModel: string }[]
+  defaultProvider: ProviderId
+  defaultRetentionDays: number
+  apiKeys: ApiKeySummary[]
+  canStoreApiKeys: boolean
+  workspaces: { id: string; name: string }[]
+  cachedSuggestions: number
+  namingExamples: number
+}
+
+// Select items can't have an empty value, so "use the default" gets its own
+const DEFAULT_VALUE = 'default'
+
+export default function SettingsClient({
+  settings: initialSettings,
+  providers,
+  defaultProvider,
+  defaultRetentionDays,
+  apiKeys,
+  canStoreApiKeys,
+  workspaces,
+  cachedSuggestions,
+  namingExamples
+}: SettingsClientProps) {
+  const router = useRouter()
+  const [settings, setSettings] = useState<UserSettings>(initialSettings)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDirty, setIsDirty] = useState(false)
+  const [isClearingCache, setIsClearingCache] = useState(false)
+  const [isClearingExamples, setIsClearingExamples] = useState(false)
+
+  const update = (changes: Partial<UserSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }))
+    setIsDirty(true)
+  }
+
+  // A default key of the user's makes a provider usable without the deployment's key
+  const isConfigured = (provider: SettingsClientProps['providers'][number]) =>
+    provider.configured || apiKeys.some(key => key.provider === provider.id && key.workspaceId === null)
+
+  const selectedProvider = providers.find(p => p.id === (settings.aiProvider ?? defaultProvider))
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      setSettings(await updateSettings(settings))
+      setIsDirty(false)
+      toast(<SimpleToast message="Settings saved" type="success" />, { duration: 4000 })
+      router.refresh()
+    } catch (error) {
+      console.error('Failed to save settings:', error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : 'Failed to save settings'} type="error" />,
+        { duration: 4000 }
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true)
+    try {
+      await clearSuggestionCache()
+      toast(<SimpleToast message="Cached suggestions cleared" type="success" />, { duration: 4000 })
+      router.refresh()
+    } catch (error) {
+      console.error('Failed to clear suggestion cache:', error)
+      toast(<SimpleToast message="Failed to clear cached suggestions" type="error" />, { duration: 4000 })
+    } finally {
+      setIsClearingCache(false)
+    }
+  }
+
+  const handleClearExamples = async () => {
+    setIsClearingExamples(true)
+    try {
+      await clearNamingExamples()
+      toast(<SimpleToast message="Learned naming style cleared" type="success" />, { duration: 4000 })
+      router.refresh()
+    } catch (error) {
+      console.error('Failed to clear naming examples:', error)
+      toast(<SimpleToast message="Failed to clear the learned naming style" type="error" />, { duration: 4000 })
+    } finally {
+      setIsClearingExamples(false)
+    }
+  }
+
+  return (
+    <main className="px-6 py-8 md:px-8 lg:px-12">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+            <p className="mt-2 text-muted-foreground">
+              Defaults for organizing, uploading and the trash. Anything left on the default follows the deployment&apos;s configuration.
+            </p>
+          </div>
+          <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save changes
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>AI suggestions</CardTitle>
+            <CardDescription>Which model names your files and how its suggestions are used</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Provider</Label>
+                <Select
+                  value={settings.aiProvider ?? DEFAULT_VALUE}
+                  onValueChange={(value) => update({
+                    aiProvider: value === DEFAULT_VALUE ? null : value as ProviderId,
+                    aiModel: null
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_VALUE}>
+                      Default ({PROVIDER_LABELS[defaultProvider]})
+                    </SelectItem>
+                    {providers.map(provider => (
+                      <SelectItem key={provider.id} value={provider.id} disabled={!isConfigured(provider)}>
+                        {PROVIDER_LABELS[provider.id]}
+                        {!isConfigured(provider) && ' (not configured)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ai-model">Model</Label>
+                <Input
+                  id="ai-model"
+                  value={settings.aiModel ?? ''}
+                  onChange={(e) => update({ aiModel: e.target.value || null })}
+                  placeholder={selectedProvider?.defaultModel}
+                  disabled={!settings.aiProvider}
+                />
+                {!settings.aiProvider && (
+                  <p className="text-xs text-muted-foreground">Pick a provider to choose its model</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Default naming convention</p>
+              <NamingTemplatePicker
+                value={settings.namingTemplate}
+                onChange={(namingTemplate) => update({ namingTemplate })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Preselected when organizing; it can still be changed for a single run.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Language of generated names</Label>
+              <Select
+                value={settings.nameLanguage ?? DEFAULT_VALUE}
+                onValueChange={(value) => update({ nameLanguage: value === DEFAULT_VALUE ? null : value })}
+              >
+                <SelectTrigger className="sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VALUE}>Same as the file</SelectItem>
+                  {NAME_LANGUAGES.map(language => (
+                    <SelectItem key={language} value={language}>
+                      {language}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="auto-apply">Only preselect confident suggestions</Label>
+                <Switch
+                  id="auto-apply"
+                  checked={settings.autoApplyThreshold !== null}
+                  onCheckedChange={(checked) => update({ autoApplyThreshold: checked ? 0.8 : null })}
+                />
+              </div>
+              {settings.autoApplyThreshold !== null && (
+                <>
+                  <Label className="text-sm font-normal">
+                    Minimum confidence: {Math.round(settings.autoApplyThreshold * 100)}%
+                  </Label>
+                  <Slider
+                    min={0.5}
+                    max={0.95}
+                    step={0.05}
+                    value={[settings.autoApplyThreshold]}
+                    onValueChange={(value) => update({ autoApplyThreshold: value[0] })}
+                  />
+                </>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {settings.autoApplyThreshold !== null
+                  ? 'Suggestions below this confidence are left unselected for you to review.'
+                  : 'Every successful suggestion is selected for applying.'}
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">Learned naming style</p>
+                <p className="text-xs text-muted-foreground">
+                  {namingExamples.toLocaleString()} names you accepted or corrected. Recent ones are shown to the model so its suggestions follow your conventions.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleClearExamples}
+                disabled={isClearingExamples || namingExamples === 0}
+              >
+                {isClearingExamples && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Forget
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">Cached suggestions</p>
+                <p className="text-xs text-muted-foreground">
+                  {cachedSuggestions.toLocaleString()} saved. Unchanged files reuse their earlier suggestion instead of being sent to the model again.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleClearCache}
+                disabled={isClearingCache || cachedSuggestions === 0}
+              >
+                {isClearingCache && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Clear cache
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <ApiKeysCard apiKeys={apiKeys} canStoreApiKeys={canStoreApiKeys} workspaces={workspaces} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Uploads</CardTitle>
+            <CardDescription>Starting values for the upload panel, which can still adjust them per upload</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label>Parallel uploads: {settings.uploadConcurrency}</Label>
+              <Slider
+                min={UPLOAD_CONFIG.MIN_CONCURRENCY}
+                max={UPLOAD_CONFIG.MAX_CONCURRENCY}
+                step={1}
+                value={[settings.uploadConcurrency]}
+                onValueChange={(value) => update({ uploadConcurrency: value[0] })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>
+                Bandwidth limit: {settings.uploadBandwidthLimit === 0 ? 'Unlimited' : `${settings.uploadBandwidthLimit} MB/s`}
+              </Label>
+              <Slider
+                min={0}
+                max={MAX_UPLOAD_BANDWIDTH_LIMIT}
+                step={5}
+                value={[settings.uploadBandwidthLimit]}
+                onValueChange={(value) => update({ uploadBandwidthLimit: value[0] })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Trash</CardTitle>
+            <CardDescription>How long trashed files, folders and workspaces are kept before they are deleted for good</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="custom-retention">Custom retention period</Label>
+              <Switch
+                id="custom-retention"
+                checked={settings.trashRetentionDays !== null}
+                onCheckedChange={(checked) => update({ trashRetentionDays: checked ? defaultRetentionDays : null })}
+              />
+            </div>
+            {settings.trashRetentionDays !== null ? (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_TRASH_RETENTION_DAYS}
+                  value={settings.trashRetentionDays}
+                  onChange={(e) => update({ trashRetentionDays: Number(e.target.value) || 1 })}
+                  className="w-24"
+                />
+                <span className="text-sm text-muted-foreground">days</span>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Using the default of {defaultRetentionDays} days.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
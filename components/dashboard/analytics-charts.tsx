@@ -0,0 +1,138 @@
+'use client'
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart'
+import type { getAnalytics } from '@/app/dashboard/analytics/actions'
+
+type Analytics = Awaited<ReturnType<typeof getAnalytics>>
+
+const storageConfig = {
+  megabytes: { label: 'Size (MB)', color: 'var(--chart-2)' },
+  files: { label: 'Files', color: 'var(--chart-3)' }
+} satisfies ChartConfig
+
+const decisionConfig = {
+  accepted: { label: 'Accepted', color: 'var(--chart-2)' },
+  edited: { label: 'Edited', color: 'var(--chart-4)' },
+  rejected: { label: 'Rejected', color: 'var(--chart-1)' }
+} satisfies ChartConfig
+
+const activityConfig = {
+  created: { label: 'Added', color: 'var(--chart-2)' },
+  renamed: { label: 'Renamed', color: 'var(--chart-4)' },
+  moved: { label: 'Moved', color: 'var(--chart-3)' },
+  trashed: { label: 'Trashed', color: 'var(--chart-1)' },
+  restored: { label: 'Restored', color: 'var(--chart-5)' }
+} satisfies ChartConfig
+
+const organizedConfig = {
+  organized: { label: 'Files organized', color: 'var(--chart-2)' }
+} satisfies ChartConfig
+
+// "Oct 13" for a YYYY-MM-DD week start
+function formatWeek(week: string): string {
+  return new Date(`${week}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function EmptyChart({ message }: { message: string }) {
+  return (
+    <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">
+      {message}
+    </div>
+  )
+}
+
+export function StorageByTypeChart({ storage }: { storage: Analytics['storage'] }) {
+  if (storage.length === 0) return <EmptyChart message="No files in this workspace yet" />
+
+  const data = storage.map(entry => ({
+    category: entry.category,
+    megabytes: Math.round((entry.bytes / (1024 * 1024)) * 100) / 100,
+    files: entry.files
+  }))
+
+  return (
+    <ChartContainer config={storageConfig} className="h-[250px] w-full">
+      <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <YAxis dataKey="category" type="category" tickLine={false} axisLine={false} width={110} />
+        <XAxis type="number" dataKey="megabytes" hide />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="megabytes" fill="var(--color-megabytes)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  )
+}
+
+export function SuggestionConfidenceChart({ confidence }: { confidence: Analytics['confidence'] }) {
+  if (confidence.every(bucket => bucket.accepted + bucket.edited + bucket.rejected === 0)) {
+    return <EmptyChart message="No reviewed AI suggestions in this period" />
+  }
+
+  return (
+    <ChartContainer config={decisionConfig} className="h-[250px] w-full">
+      <BarChart data={confidence}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="accepted" stackId="decisions" fill="var(--color-accepted)" />
+        <Bar dataKey="edited" stackId="decisions" fill="var(--color-edited)" />
+        <Bar dataKey="rejected" stackId="decisions" fill="var(--color-rejected)" radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ChartContainer>
+  )
+}
+
+export function ActivityChart({ activity }: { activity: Analytics['activity'] }) {
+  if (activity.every(week => week.created + week.renamed + week.moved + week.trashed + week.restored === 0)) {
+    return <EmptyChart message="No activity in this period" />
+  }
+
+  return (
+    <ChartContainer config={activityConfig} className="h-[250px] w-full">
+      <BarChart data={activity}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="week" tickFormatter={formatWeek} tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Week of ${formatWeek(String(week))}`} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {Object.keys(activityConfig).map((key, index, keys) => (
+          <Bar
+            key={key}
+            dataKey={key}
+            stackId="activity"
+            fill={`var(--color-${key})`}
+            radius={index === keys.length - 1 ? [4, 4, 0, 0] : 0}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  )
+}
+
+export function OrganizedPerWeekChart({ activity }: { activity: Analytics['activity'] }) {
+  if (activity.every(week => week.organized === 0)) {
+    return <EmptyChart message="No files organized with AI in this period" />
+  }
+
+  return (
+    <ChartContainer config={organizedConfig} className="h-[250px] w-full">
+      <BarChart data={activity}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="week" tickFormatter={formatWeek} tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Week of ${formatWeek(String(week))}`} />} />
+        <Bar dataKey="organized" fill="var(--color-organized)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,421 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Download,
+  Loader2,
+  Package,
+  Plus,
+  Trash2,
+  X
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { ProgressToast } from '@/components/ui/progress-toast'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { Tables } from '@/utils/supabase/database.types'
+import { BundleExporter } from '@/utils/bundle-exporter'
+import {
+  addNodesToBundle,
+  createBundle,
+  deleteBundle,
+  getBundle,
+  getBundles,
+  markBundleExported,
+  saveBundle
+} from '@/app/dashboard/file-organizer/actions'
+
+type Node = Tables<'nodes'>
+type BundleSummary = Awaited<ReturnType<typeof getBundles>>[number]
+
+interface BundlesDialogProps {
+  // Open while not null; files and folders to add, or empty to browse bundles
+  addNodeIds: string[] | null
+  onClose: () => void
+  workspaceId: string
+  nodes: Node[]
+  onChanged: () => void
+}
+
+interface EditableItem {
+  node: Node
+  label: string
+}
+
+// Saved deliverable bundles: ordered, labelled files exported as one numbered ZIP
+export function BundlesDialog({ addNodeIds, onClose, workspaceId, nodes, onChanged }: BundlesDialogProps) {
+  const [bundles, setBundles] = useState<BundleSummary[]>([])
+  const [newName, setNewName] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const [openBundleId, setOpenBundleId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [items, setItems] = useState<EditableItem[]>([])
+  const [isDirty, setIsDirty] = useState(false)
+  const isOpen = addNodeIds !== null
+  const isAdding = (addNodeIds?.length ?? 0) > 0
+
+  const loadBundles = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setBundles(await getBundles(workspaceId))
+    } catch (error) {
+      console.error('Failed to load bundles:', error)
+      toast(<SimpleToast message="Failed to load bundles" type="error" />, { duration: 4000 })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [workspaceId])
+
+  const loadBundle = useCallback(async (bundleId: string) => {
+    setIsLoading(true)
+    try {
+      const { bundle, items: bundleItems } = await getBundle(bundleId)
+      setName(bundle.name)
+      setItems(bundleItems.map(item => ({ node: item.node, label: item.label ?? '' })))
+      setIsDirty(false)
+      setOpenBundleId(bundleId)
+    } catch (error) {
+      console.error('Failed to load bundle:', error)
+      toast(<SimpleToast message="Failed to load bundle" type="error" />, { duration: 4000 })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isOpen) return
+    setOpenBundleId(null)
+    setNewName('')
+    loadBundles()
+  }, [isOpen, loadBundles])
+
+  const handleClose = () => {
+    if (isBusy) return
+    if (isDirty && !confirm('Discard unsaved changes to this bundle?')) return
+    setIsDirty(false)
+    onClose()
+  }
+
+  const folderPath = (parentId: string | null) => {
+    const segments: string[] = []
+    for (let id = parentId; id; id = nodes.find(node => node.id === id)?.parent_id ?? null) {
+      segments.unshift(nodes.find(node => node.id === id)?.name ?? '')
+    }
+    return segments.join('/')
+  }
+
+  const withBusy = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true)
+    try {
+      await action()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : failure} type="error" />,
+        { duration: 4000 }
+      )
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCreate = () => withBusy(async () => {
+    const bundle = await createBundle(workspaceId, newName, addNodeIds ?? [])
+    setNewName('')
+    onChanged()
+    if (isAdding) {
+      toast(<SimpleToast message={`Created "${bundle.name}"`} type="success" />, { duration: 4000 })
+    }
+    await loadBundle(bundle.id)
+  }, 'Failed to create bundle')
+
+  const handleAddTo = (bundle: BundleSummary) => withBusy(async () => {
+    const added = await addNodesToBundle(bundle.id, addNodeIds ?? [])
+    toast(
+      <SimpleToast
+        message={added > 0
+          ? `Added ${added} file${added === 1 ? '' : 's'} to "${bundle.name}"`
+          : `"${bundle.name}" already contains these files`}
+        type="success"
+      />,
+      { duration: 4000 }
+    )
+    onChanged()
+    await loadBundle(bundle.id)
+  }, 'Failed to add files to bundle')
+
+  const handleDelete = (bundle: BundleSummary) => {
+    if (!confirm(`Delete the bundle "${bundle.name}"? The files themselves are not affected.`)) return
+    withBusy(async () => {
+      await deleteBundle(bundle.id)
+      onChanged()
+      await loadBundles()
+    }, 'Failed to delete bundle')
+  }
+
+  const updateItems = (update: (items: EditableItem[]) => EditableItem[]) => {
+    setItems(update)
+    setIsDirty(true)
+  }
+
+  const moveItem = (index: number, direction: -1 | 1) => updateItems(prev => {
+    const next = [...prev]
+    const [item] = next.splice(index, 1)
+    next.splice(index + direction, 0, item)
+    return next
+  })
+
+  const save = async () => {
+    if (!openBundleId) return
+    await saveBundle(openBundleId, name, items.map(item => ({ nodeId: item.node.id, label: item.label })))
+    setIsDirty(false)
+    onChanged()
+  }
+
+  const handleSave = () => withBusy(async () => {
+    await save()
+    toast(<SimpleToast message="Bundle saved" type="success" />, { duration: 4000 })
+  }, 'Failed to save bundle')
+
+  const handleExport = () => withBusy(async () => {
+    if (!openBundleId) return
+    if (isDirty) await save()
+
+    const toastId = `bundle-export-${openBundleId}`
+    toast(<ProgressToast message="Preparing bundle..." progress={0} />, { id: toastId, duration: Infinity })
+
+    try {
+      const { exported, skipped } = await BundleExporter.export(
+        name,
+        items.map(item => ({ node: item.node, label: item.label || null, path: folderPath(item.node.parent_id) })),
+        (completed, total) => toast(
+          <ProgressToast message="Downloading files..." progress={(completed / total) * 100} />,
+          { id: toastId, duration: Infinity }
+        )
+      )
+      await markBundleExported(openBundleId)
+      toast(
+        <SimpleToast
+          message={skipped.length > 0
+            ? `Exported ${exported} file${exported === 1 ? '' : 's'}, skipped ${skipped.length} (see manifest.json)`
+            : `Exported ${exported} file${exported === 1 ? '' : 's'}`}
+          type="success"
+        />,
+        { id: toastId, duration: 4000 }
+      )
+    } catch (error) {
+      toast.dismiss(toastId)
+      throw error
+    }
+  }, 'Failed to export bundle')
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            {openBundleId ? 'Edit Bundle' : 'Bundles'}
+          </DialogTitle>
+          <DialogDescription>
+            {openBundleId
+              ? 'Files are exported in this order and numbered by position. Labels replace file names in the export.'
+              : isAdding
+                ? `Add ${addNodeIds!.length} selected item${addNodeIds!.length === 1 ? '' : 's'} to a bundle. Folders add the files inside them.`
+                : 'Ordered sets of files exported together as one ZIP with an index.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : openBundleId ? (
+          <div className="space-y-4">
+            <Input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value)
+                setIsDirty(true)
+              }}
+              placeholder="Bundle name"
+              disabled={isBusy}
+            />
+            {items.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">
+                This bundle is empty. Right-click files in the explorer to add them.
+              </p>
+            ) : (
+              <ScrollArea className="max-h-[50vh] pr-3">
+                <div className="space-y-2">
+                  {items.map((item, index) => (
+                    <div key={item.node.id} className="flex items-center gap-2 rounded-lg border p-2">
+                      <span className="w-7 shrink-0 text-right text-sm tabular-nums text-muted-foreground">
+                        {String(index + 1).padStart(2, '0')}
+                      </span>
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <Input
+                          value={item.label}
+                          onChange={(e) => updateItems(prev =>
+                            prev.map((other, i) => (i === index ? { ...other, label: e.target.value } : other))
+                          )}
+                          placeholder={item.node.name.replace(/\.[^.]+$/, '')}
+                          className="h-8 text-sm"
+                          disabled={isBusy}
+                        />
+                        <p className="truncate text-xs text-muted-foreground">
+                          {[folderPath(item.node.parent_id), item.node.name].filter(Boolean).join('/')}
+                          {item.node.deleted_at && (
+                            <Badge variant="destructive" className="ml-2 text-[10px]">In trash</Badge>
+                          )}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        disabled={index === 0 || isBusy}
+                        onClick={() => moveItem(index, -1)}
+                        title="Move up"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        disabled={index === items.length - 1 || isBusy}
+                        onClick={() => moveItem(index, 1)}
+                        title="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0"
+                        disabled={isBusy}
+                        onClick={() => updateItems(prev => prev.filter((_, i) => i !== index))}
+                        title="Remove from bundle"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && newName.trim()) handleCreate()
+                }}
+                placeholder="New bundle name, e.g. Q3 board pack"
+                disabled={isBusy}
+              />
+              <Button onClick={handleCreate} disabled={isBusy || !newName.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create
+              </Button>
+            </div>
+            {bundles.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No bundles yet.</p>
+            ) : (
+              <ScrollArea className="max-h-[50vh] pr-3">
+                <div className="space-y-2">
+                  {bundles.map(bundle => (
+                    <div key={bundle.id} className="flex items-center gap-3 rounded-lg border p-3">
+                      <Package className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate text-sm font-medium">{bundle.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {bundle.itemCount} file{bundle.itemCount === 1 ? '' : 's'}
+                          {bundle.exported_at && ` · exported ${new Date(bundle.exported_at).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      {isAdding ? (
+                        <Button size="sm" onClick={() => handleAddTo(bundle)} disabled={isBusy}>
+                          Add
+                        </Button>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => loadBundle(bundle.id)} disabled={isBusy}>
+                          Open
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleDelete(bundle)}
+                        disabled={isBusy}
+                        title="Delete bundle"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {openBundleId ? (
+            <>
+              <Button
+                variant="outline"
+                className="mr-auto"
+                onClick={() => {
+                  if (isDirty && !confirm('Discard unsaved changes to this bundle?')) return
+                  setIsDirty(false)
+                  setOpenBundleId(null)
+                  loadBundles()
+                }}
+                disabled={isBusy}
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                All bundles
+              </Button>
+              <Button variant="outline" onClick={handleSave} disabled={isBusy || !isDirty || !name.trim()}>
+                Save
+              </Button>
+              <Button onClick={handleExport} disabled={isBusy || items.length === 0 || !name.trim()}>
+                {isBusy ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Export ZIP
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={handleClose} disabled={isBusy}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
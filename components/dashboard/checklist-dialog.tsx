@@ -0,0 +1,115 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { Tables } from '@/utils/supabase/database.types'
+import { createChecklist, updateChecklist } from '@/app/dashboard/checklist/actions'
+
+type Checklist = Tables<'checklists'>
+
+interface ChecklistDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  workspaceId: string
+  // Edited in place when given, otherwise a new checklist is created
+  checklist?: Checklist | null
+  onSaved: (checklistId: string) => void
+}
+
+export function ChecklistDialog({ isOpen, onClose, workspaceId, checklist, onSaved }: ChecklistDialogProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setName(checklist?.name ?? '')
+    setDescription(checklist?.description ?? '')
+  }, [isOpen, checklist])
+
+  const save = async () => {
+    if (!name.trim()) return
+
+    setIsSaving(true)
+    try {
+      if (checklist) {
+        await updateChecklist(checklist.id, name, description)
+        onSaved(checklist.id)
+      } else {
+        const created = await createChecklist(workspaceId, name, description)
+        onSaved(created.id)
+      }
+      onClose()
+    } catch (error) {
+      console.error('Failed to save checklist:', error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : 'Failed to save checklist'} type="error" />,
+        { duration: 4000 }
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{checklist ? 'Edit Checklist' : 'New Checklist'}</DialogTitle>
+          <DialogDescription>
+            A list of documents this workspace should contain, such as a closing binder.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="checklist-name">Name</Label>
+            <Input
+              id="checklist-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') save()
+              }}
+              placeholder="e.g. Acme Corp closing binder"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="checklist-description">Description</Label>
+            <Textarea
+              id="checklist-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              rows={3}
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={isSaving || !name.trim()}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {checklist ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
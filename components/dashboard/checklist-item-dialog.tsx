@@ -0,0 +1,159 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { Tables } from '@/utils/supabase/database.types'
+import { CHECKLIST_FILE_TYPES } from '@/utils/checklist'
+import { createChecklistItem, updateChecklistItem } from '@/app/dashboard/checklist/actions'
+
+type ChecklistItem = Tables<'checklist_items'>
+
+// Select items can't have an empty value
+const ANY_FILE_TYPE = 'any'
+
+interface ChecklistItemDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  checklistId: string
+  // Edited in place when given, otherwise a new item is appended
+  item?: ChecklistItem | null
+  onSaved: () => void
+}
+
+export function ChecklistItemDialog({ isOpen, onClose, checklistId, item, onSaved }: ChecklistItemDialogProps) {
+  const [description, setDescription] = useState('')
+  const [fileType, setFileType] = useState(ANY_FILE_TYPE)
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setDescription(item?.description ?? '')
+    setFileType(item?.expected_file_type ?? ANY_FILE_TYPE)
+    setDateFrom(item?.date_from ?? '')
+    setDateTo(item?.date_to ?? '')
+  }, [isOpen, item])
+
+  const save = async () => {
+    if (!description.trim()) return
+
+    const input = {
+      description,
+      expectedFileType: fileType === ANY_FILE_TYPE ? null : fileType,
+      dateFrom: dateFrom || null,
+      dateTo: dateTo || null
+    }
+
+    setIsSaving(true)
+    try {
+      if (item) {
+        await updateChecklistItem(item.id, input)
+      } else {
+        await createChecklistItem(checklistId, input)
+      }
+      onSaved()
+      onClose()
+    } catch (error) {
+      console.error('Failed to save checklist item:', error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : 'Failed to save item'} type="error" />,
+        { duration: 4000 }
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{item ? 'Edit Item' : 'Add Item'}</DialogTitle>
+          <DialogDescription>
+            Describe the document the way you would to a colleague. The AI matches files against it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="item-description">Description</Label>
+            <Textarea
+              id="item-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Signed share purchase agreement"
+              rows={3}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Expected file type</Label>
+            <Select value={fileType} onValueChange={setFileType} disabled={isSaving}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_FILE_TYPE}>Any type</SelectItem>
+                {CHECKLIST_FILE_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="item-date-from">Dated from</Label>
+              <Input
+                id="item-date-from"
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="item-date-to">Dated until</Label>
+              <Input
+                id="item-date-to"
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={isSaving || !description.trim()}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {item ? 'Save' : 'Add'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,467 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  ArrowDown,
+  ArrowUp,
+  Check,
+  CheckCircle2,
+  Circle,
+  CircleDot,
+  Edit,
+  FileText,
+  Loader2,
+  Plus,
+  Sparkles,
+  Trash2,
+  X
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import { ProgressToast } from '@/components/ui/progress-toast'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { Tables } from '@/utils/supabase/database.types'
+import {
+  formatDateRange,
+  getChecklistFileType,
+  getChecklistItemStatus,
+  type ChecklistItemStatus
+} from '@/utils/checklist'
+import {
+  assignFileToChecklistItem,
+  confirmChecklistMatch,
+  deleteChecklist,
+  deleteChecklistItem,
+  getChecklist,
+  matchChecklist,
+  moveChecklistItem,
+  reassignChecklistMatch,
+  rejectChecklistMatch
+} from '@/app/dashboard/checklist/actions'
+import { ChecklistItemDialog } from './checklist-item-dialog'
+
+type Node = Tables<'nodes'>
+type ChecklistItem = Tables<'checklist_items'>
+type ChecklistDetails = Awaited<ReturnType<typeof getChecklist>>
+type ChecklistMatch = ChecklistDetails['matches'][number]
+
+type StatusFilter = ChecklistItemStatus | 'all'
+
+const STATUS_LABELS: Record<ChecklistItemStatus, string> = {
+  complete: 'Complete',
+  review: 'Needs review',
+  missing: 'Missing'
+}
+
+interface ChecklistViewProps {
+  details: ChecklistDetails
+  nodes: Node[]
+  onEdit: () => void
+  onChanged: () => void
+  onDeleted: () => void
+}
+
+function StatusIcon({ status }: { status: ChecklistItemStatus }) {
+  if (status === 'complete') return <CheckCircle2 className="h-5 w-5 text-green-600" />
+  if (status === 'review') return <CircleDot className="h-5 w-5 text-amber-500" />
+  return <Circle className="h-5 w-5 text-muted-foreground" />
+}
+
+// Items of a checklist with their matched files, progress and the AI matching run
+export function ChecklistView({ details, nodes, onEdit, onChanged, onDeleted }: ChecklistViewProps) {
+  const { checklist, items, matches } = details
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [editingItem, setEditingItem] = useState<ChecklistItem | null>(null)
+  const [isAddingItem, setIsAddingItem] = useState(false)
+  const [isMatching, setIsMatching] = useState(false)
+  // Key of the action in flight, so its buttons can be disabled
+  const [pendingKey, setPendingKey] = useState<string | null>(null)
+
+  const nodesById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes])
+  const files = useMemo(() => nodes.filter(node => node.node_type === 'file'), [nodes])
+
+  const folderPath = (parentId: string | null) => {
+    const segments: string[] = []
+    for (let id = parentId; id; id = nodesById.get(id)?.parent_id ?? null) {
+      segments.unshift(nodesById.get(id)?.name ?? '')
+    }
+    return segments.join('/')
+  }
+
+  const itemMatches = (itemId: string) =>
+    matches.filter(match => match.item_id === itemId && match.status !== 'rejected')
+  const statuses = new Map(items.map(item => [item.id, getChecklistItemStatus(itemMatches(item.id))]))
+  const counts = { complete: 0, review: 0, missing: 0 }
+  for (const status of statuses.values()) counts[status]++
+  const percent = items.length > 0 ? Math.round((counts.complete / items.length) * 100) : 0
+  const visibleItems = statusFilter === 'all' ? items : items.filter(item => statuses.get(item.id) === statusFilter)
+
+  const run = async (key: string, action: () => Promise<unknown>, failure: string) => {
+    setPendingKey(key)
+    try {
+      await action()
+      onChanged()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : failure} type="error" />,
+        { duration: 4000 }
+      )
+    } finally {
+      setPendingKey(null)
+    }
+  }
+
+  const handleMatch = async () => {
+    const toastId = `checklist-match-${checklist.id}`
+    setIsMatching(true)
+    toast(<ProgressToast message="Matching files to checklist items..." progress={30} />, { id: toastId, duration: Infinity })
+
+    try {
+      const { suggested, openItems } = await matchChecklist(checklist.id)
+      toast(
+        <SimpleToast
+          message={openItems === 0
+            ? 'Every item already has a confirmed file'
+            : `Suggested ${suggested} file${suggested === 1 ? '' : 's'} for ${openItems} open item${openItems === 1 ? '' : 's'}`}
+          type="success"
+        />,
+        { id: toastId, duration: 4000 }
+      )
+      onChanged()
+    } catch (error) {
+      console.error('Failed to match checklist:', error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : 'Failed to match files'} type="error" />,
+        { id: toastId, duration: 4000 }
+      )
+    } finally {
+      setIsMatching(false)
+    }
+  }
+
+  const handleDeleteChecklist = async () => {
+    if (!confirm(`Delete the checklist "${checklist.name}"? Matched files are not affected.`)) return
+    await run('checklist', async () => {
+      await deleteChecklist(checklist.id)
+      onDeleted()
+    }, 'Failed to delete checklist')
+  }
+
+  const handleDeleteItem = async (item: ChecklistItem) => {
+    if (!confirm(`Delete "${item.description}" from the checklist?`)) return
+    await run(item.id, () => deleteChecklistItem(item.id), 'Failed to delete item')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="text-2xl font-bold truncate">{checklist.name}</h1>
+          {checklist.description && (
+            <p className="text-muted-foreground">{checklist.description}</p>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <Button size="sm" variant="ghost" onClick={onEdit} title="Edit checklist">
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleDeleteChecklist}
+            disabled={pendingKey === 'checklist'}
+            title="Delete checklist"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setIsAddingItem(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+          <Button size="sm" onClick={handleMatch} disabled={isMatching || items.length === 0}>
+            {isMatching ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Sparkles className="h-4 w-4 mr-2" />
+            )}
+            Match Files
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-6 space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-lg font-semibold">Completion</h2>
+          <span className="text-sm text-muted-foreground">
+            {counts.complete} of {items.length} item{items.length === 1 ? '' : 's'} complete
+          </span>
+        </div>
+        <Progress value={percent} className="h-2" />
+        <div className="flex flex-wrap gap-2">
+          {(['all', 'complete', 'review', 'missing'] as StatusFilter[]).map(filter => (
+            <Button
+              key={filter}
+              size="sm"
+              variant={statusFilter === filter ? 'secondary' : 'ghost'}
+              className="h-7 px-2 text-xs"
+              onClick={() => setStatusFilter(filter)}
+            >
+              {filter === 'all' ? `All (${items.length})` : `${STATUS_LABELS[filter]} (${counts[filter]})`}
+            </Button>
+          ))}
+        </div>
+      </Card>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No items yet. Add the documents this checklist needs, then match files to them.
+        </p>
+      ) : visibleItems.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No items with this status.</p>
+      ) : (
+        <div className="space-y-3">
+          {visibleItems.map(item => (
+            <ChecklistItemRow
+              key={item.id}
+              item={item}
+              index={items.indexOf(item)}
+              items={items}
+              status={statuses.get(item.id)!}
+              matches={itemMatches(item.id)}
+              files={files}
+              folderPath={folderPath}
+              pendingKey={pendingKey}
+              onRun={run}
+              onEdit={() => setEditingItem(item)}
+              onDelete={() => handleDeleteItem(item)}
+            />
+          ))}
+        </div>
+      )}
+
+      <ChecklistItemDialog
+        isOpen={isAddingItem || editingItem !== null}
+        onClose={() => {
+          setIsAddingItem(false)
+          setEditingItem(null)
+        }}
+        checklistId={checklist.id}
+        item={editingItem}
+        onSaved={onChanged}
+      />
+    </div>
+  )
+}
+
+function ChecklistItemRow({
+  item,
+  index,
+  items,
+  status,
+  matches,
+  files,
+  folderPath,
+  pendingKey,
+  onRun,
+  onEdit,
+  onDelete
+}: {
+  item: ChecklistItem
+  index: number
+  items: ChecklistItem[]
+  status: ChecklistItemStatus
+  matches: ChecklistMatch[]
+  files: Node[]
+  folderPath: (parentId: string | null) => string
+  pendingKey: string | null
+  onRun: (key: string, action: () => Promise<unknown>, failure: string) => Promise<void>
+  onEdit: () => void
+  onDelete: () => void
+}) {
+  const [isAssigning, setIsAssigning] = useState(false)
+  const fileType = getChecklistFileType(item.expected_file_type)
+  const dateRange = formatDateRange(item.date_from, item.date_to)
+  const confirmed = matches.filter(match => match.status === 'confirmed')
+  const suggested = matches.filter(match => match.status === 'suggested')
+  const matchedIds = new Set(matches.map(match => match.node_id))
+  const isPending = pendingKey === item.id
+
+  const filePath = (node: ChecklistMatch['node'] | Node) => {
+    const path = folderPath(node.parent_id)
+    return path ? `${path}/${node.name}` : node.name
+  }
+
+  return (
+    <Card className={cn('p-4', status === 'complete' && 'bg-green-50/40 dark:bg-green-950/10')}>
+      <div className="flex items-start gap-3">
+        <StatusIcon status={status} />
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="font-medium">{item.description}</p>
+          <div className="flex flex-wrap items-center gap-1.5">
+            <Badge variant="outline" className="font-normal">{STATUS_LABELS[status]}</Badge>
+            {fileType && <Badge variant="secondary" className="font-normal">{fileType.label}</Badge>}
+            {dateRange && <Badge variant="secondary" className="font-normal">Dated {dateRange}</Badge>}
+          </div>
+        </div>
+        <div className="flex shrink-0 items-center">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            disabled={index === 0 || isPending}
+            onClick={() => onRun(item.id, () => moveChecklistItem(item.id, -1), 'Failed to move item')}
+            title="Move up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            disabled={index === items.length - 1 || isPending}
+            onClick={() => onRun(item.id, () => moveChecklistItem(item.id, 1), 'Failed to move item')}
+            title="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={onEdit} title="Edit item">
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            onClick={onDelete}
+            disabled={isPending}
+            title="Delete item"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-2 pl-8">
+        {confirmed.map(match => (
+          <div key={match.id} className="flex items-center gap-2 rounded-md border bg-background px-3 py-2">
+            <FileText className="h-4 w-4 shrink-0 text-green-600" />
+            <span className="flex-1 truncate text-sm" title={filePath(match.node)}>{filePath(match.node)}</span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              disabled={pendingKey === match.id}
+              onClick={() => onRun(match.id, () => rejectChecklistMatch(match.id), 'Failed to remove match')}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+
+        {suggested.map(match => (
+          <div key={match.id} className="rounded-md border border-dashed px-3 py-2 space-y-1">
+            <div className="flex items-center gap-2">
+              <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate text-sm" title={filePath(match.node)}>{filePath(match.node)}</span>
+              <Badge variant="secondary" className="shrink-0">{Math.round(match.confidence * 100)}%</Badge>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0 text-green-600"
+                disabled={pendingKey === match.id}
+                onClick={() => onRun(match.id, () => confirmChecklistMatch(match.id), 'Failed to confirm match')}
+                title="Confirm"
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                disabled={pendingKey === match.id}
+                onClick={() => onRun(match.id, () => rejectChecklistMatch(match.id), 'Failed to reject match')}
+                title="Reject"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {match.reasoning && <p className="text-xs text-muted-foreground">{match.reasoning}</p>}
+            {items.length > 1 && (
+              <Select
+                value=""
+                onValueChange={(itemId) =>
+                  onRun(match.id, () => reassignChecklistMatch(match.id, itemId), 'Failed to reassign match')
+                }
+                disabled={pendingKey === match.id}
+              >
+                <SelectTrigger className="h-7 w-56 text-xs">
+                  <SelectValue placeholder="Belongs to another item..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {items.filter(other => other.id !== item.id).map(other => (
+                    <SelectItem key={other.id} value={other.id} className="text-xs">
+                      {other.description}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        ))}
+
+        <Popover open={isAssigning} onOpenChange={setIsAssigning}>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs text-muted-foreground">
+              <Plus className="h-3 w-3 mr-1" />
+              Assign a file
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-80 p-0">
+            <Command>
+              <CommandInput placeholder="Search files..." />
+              <CommandList>
+                <CommandEmpty>No files found.</CommandEmpty>
+                {files.filter(file => !matchedIds.has(file.id)).map(file => (
+                  <CommandItem
+                    key={file.id}
+                    value={filePath(file)}
+                    onSelect={() => {
+                      setIsAssigning(false)
+                      onRun(item.id, () => assignFileToChecklistItem(item.id, file.id), 'Failed to assign file')
+                    }}
+                  >
+                    <FileText className="h-4 w-4 mr-2 shrink-0" />
+                    <span className="truncate">{filePath(file)}</span>
+                  </CommandItem>
+                ))}
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+    </Card>
+  )
+}
@@ -3,7 +3,6 @@
 import { useState } from 'react'
 import {
   AlertDialog,
-  AlertDialogAction,
   AlertDialogCancel,
   AlertDialogContent,
   AlertDialogDescription,
@@ -13,17 +12,14 @@ import {
 } from '@/components/ui/alert-dialog'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
-import { Badge } from '@/components/ui/badge'
 import { Checkbox } from '@/components/ui/checkbox'
 import { 
   Trash2, 
   AlertTriangle, 
   FileText, 
   FolderOpen,
-  Shield,
-  Info
+  Shield
 } from 'lucide-react'
-import { cn } from '@/lib/utils'
 
 interface DeleteConfirmationDialogProps {
   isOpen: boolean
@@ -139,7 +135,7 @@ export function DeleteConfirmationDialog({
                 This action cannot be undone
               </p>
               <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">
-                Deleted files may not be recoverable from your system's trash/recycle bin
+                Deleted files may not be recoverable from your system&apos;s trash/recycle bin
               </p>
             </div>
           </div>
@@ -0,0 +1,295 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Copy, Loader2, ScanSearch, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { createClient } from '@/utils/supabase/client'
+import { ContentHasher } from '@/utils/content-hasher'
+import { FileDownloader } from '@/utils/file-downloader'
+import {
+  deleteNodes,
+  getDuplicateGroups,
+  getUnhashedFiles,
+  saveContentHashes
+} from '@/app/dashboard/file-organizer/actions'
+
+type DuplicateGroup = Awaited<ReturnType<typeof getDuplicateGroups>>[number]
+
+interface DuplicatesReportProps {
+  isOpen: boolean
+  onClose: () => void
+  workspaceId: string
+  onChanged: () => void
+}
+
+// Hashes are saved in batches while scanning older files
+const SCAN_SAVE_BATCH = 20
+
+// Groups of identical files in a workspace, with a keeper chosen per group.
+// Trashing the other copies goes through deleteNodes, so it can be undone
+export function DuplicatesReport({ isOpen, onClose, workspaceId, onChanged }: DuplicatesReportProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [unhashedCount, setUnhashedCount] = useState(0)
+  const [keepers, setKeepers] = useState<Record<string, string>>({})
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(false)
+  const [isScanning, setIsScanning] = useState(false)
+  const [scanProgress, setScanProgress] = useState(0)
+  const [isTrashing, setIsTrashing] = useState(false)
+  const supabase = createClient()
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [duplicateGroups, unhashed] = await Promise.all([
+        getDuplicateGroups(workspaceId),
+        getUnhashedFiles(workspaceId)
+      ])
+      setGroups(duplicateGroups)
+      setUnhashedCount(unhashed.length)
+      // Keep the oldest copy unless the user picks another
+      setKeepers(Object.fromEntries(duplicateGroups.map(group => [group.contentHash, group.files[0].id])))
+      setSelected(new Set(duplicateGroups.map(group => group.contentHash)))
+    } catch (error) {
+      console.error('Failed to load duplicates:', error)
+      toast(<SimpleToast message="Failed to load duplicates" type="error" />, { duration: 4000 })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    if (isOpen) loadReport()
+  }, [isOpen, loadReport])
+
+  const busy = isLoading || isScanning || isTrashing
+  const selectedGroups = groups.filter(group => selected.has(group.contentHash))
+  const removeIds = selectedGroups.flatMap(group =>
+    group.files.filter(file => file.id !== keepers[group.contentHash]).map(file => file.id)
+  )
+  const wastedBytes = groups.reduce((total, group) => total + group.size * (group.files.length - 1), 0)
+
+  const handleClose = () => {
+    if (isScanning || isTrashing) return
+    onClose()
+  }
+
+  const toggleGroup = (contentHash: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(contentHash)
+      } else {
+        next.delete(contentHash)
+      }
+      return next
+    })
+  }
+
+  const keepEverywhere = (pick: 'oldest' | 'newest') => {
+    setKeepers(prev => {
+      const next = { ...prev }
+      for (const group of selectedGroups) {
+        next[group.contentHash] = pick === 'oldest' ? group.files[0].id : group.files[group.files.length - 1].id
+      }
+      return next
+    })
+  }
+
+  // Hash files uploaded before checksums were recorded
+  const scanOlderFiles = async () => {
+    setIsScanning(true)
+    setScanProgress(0)
+
+    let failed = 0
+    try {
+      const files = await getUnhashedFiles(workspaceId)
+      let pending: { nodeId: string; contentHash: string }[] = []
+
+      for (let i = 0; i < files.length; i++) {
+        try {
+          const { data, error } = await supabase.storage
+            .from('user-files')
+            .download(files[i].storage_object_path!)
+          if (error || !data) throw error
+
+          pending.push({ nodeId: files[i].id, contentHash: await ContentHasher.hash(data) })
+        } catch (error) {
+          console.error(`[Duplicates] Failed to hash ${files[i].name}:`, error)
+          failed++
+        }
+
+        if (pending.length >= SCAN_SAVE_BATCH || (i === files.length - 1 && pending.length > 0)) {
+          await saveContentHashes(pending)
+          pending = []
+        }
+        setScanProgress(Math.round(((i + 1) / files.length) * 100))
+      }
+
+      if (failed > 0) {
+        toast(
+          <SimpleToast message={`${failed} file${failed > 1 ? 's' : ''} could not be scanned`} type="warning" />,
+          { duration: 4000 }
+        )
+      }
+      await loadReport()
+    } catch (error) {
+      console.error('[Duplicates] Scan failed:', error)
+      toast(<SimpleToast message="Failed to scan files" type="error" />, { duration: 4000 })
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const trashDuplicates = async () => {
+    if (removeIds.length === 0) return
+
+    setIsTrashing(true)
+    try {
+      await deleteNodes(removeIds)
+      toast(
+        <SimpleToast
+          message={`Moved ${removeIds.length} duplicate${removeIds.length > 1 ? 's' : ''} to trash`}
+          type="success"
+        />,
+        { duration: 4000 }
+      )
+      onChanged()
+      await loadReport()
+    } catch (error) {
+      console.error('[Duplicates] Failed to trash duplicates:', error)
+      toast(<SimpleToast message="Failed to move duplicates to trash" type="error" />, { duration: 4000 })
+    } finally {
+      setIsTrashing(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Duplicates
+          </DialogTitle>
+          <DialogDescription>
+            {groups.length === 0
+              ? 'Files with identical contents are grouped here, whatever their names.'
+              : `${groups.length} group${groups.length === 1 ? '' : 's'} of identical files, ${FileDownloader.formatBytes(wastedBytes)} in extra copies.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {unhashedCount > 0 && (
+          <div className="space-y-2 rounded-lg border p-3">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                {unhashedCount} file{unhashedCount === 1 ? ' was' : 's were'} uploaded before duplicate
+                detection and {unhashedCount === 1 ? 'is' : 'are'} not included yet.
+              </p>
+              <Button size="sm" variant="outline" onClick={scanOlderFiles} disabled={busy}>
+                {isScanning ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ScanSearch className="h-4 w-4 mr-2" />
+                )}
+                Scan
+              </Button>
+            </div>
+            {isScanning && <Progress value={scanProgress} className="h-2" />}
+          </div>
+        )}
+
+        {isLoading && groups.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Looking for duplicates...
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No duplicate files found.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">For selected groups keep the</span>
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => keepEverywhere('oldest')} disabled={busy}>
+                Oldest
+              </Button>
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => keepEverywhere('newest')} disabled={busy}>
+                Newest
+              </Button>
+            </div>
+
+            <ScrollArea className="max-h-[50vh] pr-3">
+              <div className="space-y-3">
+                {groups.map(group => (
+                  <div key={group.contentHash} className="rounded-lg border p-3">
+                    <div className="mb-2 flex items-center gap-3">
+                      <Checkbox
+                        checked={selected.has(group.contentHash)}
+                        onCheckedChange={(checked) => toggleGroup(group.contentHash, checked === true)}
+                        disabled={busy}
+                      />
+                      <span className="flex-1 truncate text-sm font-medium">{group.files[0].name}</span>
+                      <Badge variant="secondary" className="shrink-0">
+                        {group.files.length} × {FileDownloader.formatBytes(group.size)}
+                      </Badge>
+                    </div>
+                    <RadioGroup
+                      value={keepers[group.contentHash]}
+                      onValueChange={(id) => setKeepers(prev => ({ ...prev, [group.contentHash]: id }))}
+                      disabled={busy}
+                      className="gap-1 pl-7"
+                    >
+                      {group.files.map(file => (
+                        <label key={file.id} className="flex items-center gap-2 text-sm">
+                          <RadioGroupItem value={file.id} />
+                          <span className="flex-1 truncate">
+                            <span className="text-muted-foreground">{file.folderPath ? `${file.folderPath}/` : ''}</span>
+                            {file.name}
+                          </span>
+                          <span className="shrink-0 text-xs text-muted-foreground">
+                            {file.id === keepers[group.contentHash] ? 'Keep' : new Date(file.created_at).toLocaleDateString()}
+                          </span>
+                        </label>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isScanning || isTrashing}>
+            Close
+          </Button>
+          {groups.length > 0 && (
+            <Button variant="destructive" onClick={trashDuplicates} disabled={busy || removeIds.length === 0}>
+              {isTrashing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4 mr-2" />
+              )}
+              Move {removeIds.length} duplicate{removeIds.length === 1 ? '' : 's'} to trash
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import {
@@ -14,7 +14,6 @@ import {
   Folder,
   File,
   ChevronRight,
-  ChevronDown,
   Plus,
   Trash2,
   Download,
@@ -25,15 +24,30 @@ import {
   FileAudio,
   FileCode,
   FileArchive,
-  FileSpreadsheet
+  FileSpreadsheet,
+  Sparkles,
+  ArrowLeft,
+  History,
+  Copy,
+  Tag,
+  Package
 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
 import { Tables } from '@/utils/supabase/database.types'
-import { createFolder, deleteNode, deleteNodes, moveNode, moveNodes } from '@/app/dashboard/file-organizer/actions'
+import { deleteNode, deleteNodes, moveNode, moveNodes, renameNode } from '@/app/dashboard/file-organizer/actions'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/utils/supabase/client'
 import WorkspaceSettings from './workspace-settings'
 import UploadPopoverTus from './upload-popover-tus'
+import { StoredFilesOrganizer } from './stored-files-organizer'
+import { TrashView } from './trash-view'
+import { VersionHistoryDialog } from './version-history-dialog'
+import { DuplicatesReport } from './duplicates-report'
+import { SearchPanel } from './search-panel'
+import { NodeTagsDialog } from './node-tags-dialog'
+import { BundlesDialog } from './bundles-dialog'
+import { ActiveTagFilters, TagFilter, countTags, filterNodesByTags, hasAllTags } from './tag-filter'
 import { toast } from 'sonner'
 import { ProgressToast } from '@/components/ui/progress-toast'
 import { SimpleToast } from '@/components/ui/simple-toast'
@@ -52,6 +66,16 @@ interface TreeNode extends Node {
   children: TreeNode[]
 }
 
+// Expands the folders above a node and scrolls it into view
+interface RevealRequest {
+  // Only expands when null
+  nodeId: string | null
+  ancestorIds: Set<string>
+}
+
+// Tag chips shown next to a name before collapsing into "+n"
+const MAX_VISIBLE_TAGS = 3
+
 function buildTree(nodes: Node[]): TreeNode[] {
   const nodeMap = new Map<string, TreeNode>()
   const rootNodes: TreeNode[] = []
@@ -146,7 +170,18 @@ function TreeItem({
   onDrop,
   selectedNodes,
   onNodeClick,
-  onDeleteSelected
+  onDeleteSelected,
+  renamingNodeId,
+  onStartRename,
+  onEndRename,
+  onOrganize,
+  onShowVersions,
+  onEditTags,
+  onEditSelectedTags,
+  onAddToBundle,
+  onAddSelectedToBundle,
+  onTagClick,
+  revealRequest
 }: { 
   node: TreeNode
   level?: number
@@ -160,15 +195,54 @@ function TreeItem({
   selectedNodes: Set<string>
   onNodeClick: (node: Node, e: React.MouseEvent) => void
   onDeleteSelected: () => void
+  renamingNodeId: string | null
+  onStartRename: (nodeId: string) => void
+  onEndRename: () => void
+  onOrganize: (node: Node) => void
+  onShowVersions: (node: Node) => void
+  onEditTags: (node: Node) => void
+  onEditSelectedTags: () => void
+  onAddToBundle: (node: Node) => void
+  onAddSelectedToBundle: () => void
+  onTagClick: (tag: string) => void
+  revealRequest: RevealRequest | null
 }) {
   const [isExpanded, setIsExpanded] = useState(false)
+  const rowRef = useRef<HTMLDivElement>(null)
+  const [renameValue, setRenameValue] = useState(node.name)
+  const renameInputRef = useRef<HTMLInputElement>(null)
+  const isSubmittingRenameRef = useRef(false)
   const [isDragOver, setIsDragOver] = useState(false)
   const [expandTimer, setExpandTimer] = useState<NodeJS.Timeout | null>(null)
-  const router = useRouter()
   const supabase = createClient()
   
   const isSelected = selectedNodes.has(node.id)
   const selectedCount = selectedNodes.size
+  const isRenaming = renamingNodeId === node.id
+
+  // Start from the current name with the stem selected, like a file manager
+  useEffect(() => {
+    if (!isRenaming) return
+    setRenameValue(node.name)
+    isSubmittingRenameRef.current = false
+    requestAnimationFrame(() => {
+      const input = renameInputRef.current
+      if (!input) return
+      input.focus()
+      const lastDot = node.name.lastIndexOf('.')
+      input.setSelectionRange(0, node.node_type === 'file' && lastDot > 0 ? lastDot : node.name.length)
+    })
+  }, [isRenaming, node.name, node.node_type])
+
+  // Children mount once a folder expands, so a reveal walks down level by level
+  useEffect(() => {
+    if (!revealRequest) return
+    if (revealRequest.ancestorIds.has(node.id)) {
+      setIsExpanded(true)
+    } else if (revealRequest.nodeId === node.id) {
+      rowRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+    }
+  }, [revealRequest, node.id])
 
   // Check if this node can accept the dragged node
   const canAcceptDrop = useCallback(() => {
@@ -265,14 +339,14 @@ function TreeItem({
 
 
   const handleDelete = async () => {
-    if (!confirm(`Are you sure you want to delete "${node.name}"?`)) return
+    if (!confirm(`Move "${node.name}" to the trash?`)) return
 
     const toastId = `delete-${node.id}`
     
     try {
       toast(
         <ProgressToast 
-          message='Deleting file...'
+          message='Moving to trash...'
           progress={50}
         />,
         { id: toastId, duration: Infinity }
@@ -282,7 +356,7 @@ function TreeItem({
       
       toast(
         <SimpleToast 
-          message={`${node.name} deleted successfully`}
+          message={`${node.name} moved to trash`}
           type="success"
         />,
         { id: toastId, duration: 4000 }
@@ -300,6 +374,44 @@ function TreeItem({
     }
   }
 
+  const submitRename = async () => {
+    // Enter and the blur that follows must not submit twice
+    if (isSubmittingRenameRef.current) return
+    isSubmittingRenameRef.current = true
+
+    const newName = renameValue.trim()
+    if (!newName || newName === node.name) {
+      onEndRename()
+      return
+    }
+
+    const toastId = `rename-${node.id}`
+    try {
+      const result = await renameNode(node.id, newName)
+      toast(
+        <SimpleToast 
+          message={result.adjusted
+            ? `Renamed to "${result.newName}" because "${newName}" already exists`
+            : `Renamed to "${result.newName}"`}
+          type="success"
+        />,
+        { id: toastId, duration: 4000 }
+      )
+      onRefresh()
+    } catch (error) {
+      console.error('Failed to rename node:', error)
+      toast(
+        <SimpleToast 
+          message={error instanceof Error ? error.message : `Failed to rename ${node.name}`}
+          type="error"
+        />,
+        { id: toastId, duration: 4000 }
+      )
+    } finally {
+      onEndRename()
+    }
+  }
+
   const handleDownload = async () => {
     if (node.node_type !== 'file' || !node.storage_object_path) return
 
@@ -329,8 +441,9 @@ function TreeItem({
       <ContextMenu>
         <ContextMenuTrigger>
           <div
+            ref={rowRef}
             data-tree-item
-            draggable
+            draggable={!isRenaming}
             onDragStart={handleDragStart}
             onDragEnd={onDragEnd}
             onDragOver={node.node_type === 'folder' ? handleDragOver : undefined}
@@ -359,7 +472,66 @@ function TreeItem({
               getFileIcon(node.mime_type, node.name)
             )}
             
-            <span className="text-sm flex-1 truncate">{node.name}</span>
+            {isRenaming ? (
+              <Input
+                ref={renameInputRef}
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                onDoubleClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                  e.stopPropagation()
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    submitRename()
+                  } else if (e.key === 'Escape') {
+                    e.preventDefault()
+                    isSubmittingRenameRef.current = true
+                    onEndRename()
+                  }
+                }}
+                onBlur={submitRename}
+                className="h-6 flex-1 px-1 py-0 text-sm"
+                aria-label={`Rename ${node.name}`}
+              />
+            ) : (
+              <span
+                className="text-sm flex-1 truncate"
+                onDoubleClick={(e) => {
+                  e.stopPropagation()
+                  onStartRename(node.id)
+                }}
+              >
+                {node.name}
+              </span>
+            )}
+
+            {!isRenaming && node.tags.length > 0 && (
+              <span className="flex shrink-0 items-center gap-1">
+                {node.tags.slice(0, MAX_VISIBLE_TAGS).map(tag => (
+                  <Badge
+                    key={tag}
+                    variant="secondary"
+                    className="px-1.5 py-0 text-[10px] font-normal hover:bg-secondary/70"
+                    title={`Show items tagged "${tag}"`}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onTagClick(tag)
+                    }}
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+                {node.tags.length > MAX_VISIBLE_TAGS && (
+                  <span
+                    className="text-[10px] text-muted-foreground"
+                    title={node.tags.slice(MAX_VISIBLE_TAGS).join(', ')}
+                  >
+                    +{node.tags.length - MAX_VISIBLE_TAGS}
+                  </span>
+                )}
+              </span>
+            )}
             
             {node.node_type === 'file' && node.size && (
               <span className="text-xs text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity duration-200">
@@ -394,9 +566,18 @@ function TreeItem({
                 {selectedCount} items selected
               </ContextMenuItem>
               <ContextMenuSeparator />
+              <ContextMenuItem onClick={onEditSelectedTags}>
+                <Tag className="h-4 w-4 mr-2" />
+                Tag {selectedCount} items
+              </ContextMenuItem>
+              <ContextMenuItem onClick={onAddSelectedToBundle}>
+                <Package className="h-4 w-4 mr-2" />
+                Add {selectedCount} items to bundle
+              </ContextMenuItem>
+              <ContextMenuSeparator />
               <ContextMenuItem onClick={onDeleteSelected} className="text-destructive">
                 <Trash2 className="h-4 w-4 mr-2" />
-                Delete {selectedCount} items
+                Move {selectedCount} items to trash
               </ContextMenuItem>
             </>
           ) : (
@@ -414,6 +595,10 @@ function TreeItem({
                       </ContextMenuItem>
                     }
                   />
+                  <ContextMenuItem onClick={() => onOrganize(node)}>
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    Organize with AI
+                  </ContextMenuItem>
                   <ContextMenuSeparator />
                 </>
               )}
@@ -424,13 +609,32 @@ function TreeItem({
                     <Download className="h-4 w-4 mr-2" />
                     Download
                   </ContextMenuItem>
+                  <ContextMenuItem onClick={() => onShowVersions(node)}>
+                    <History className="h-4 w-4 mr-2" />
+                    Version History
+                  </ContextMenuItem>
                   <ContextMenuSeparator />
                 </>
               )}
               
+              <ContextMenuItem onClick={() => onStartRename(node.id)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Rename
+                <span className="ml-auto pl-4 text-xs text-muted-foreground">F2</span>
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => onEditTags(node)}>
+                <Tag className="h-4 w-4 mr-2" />
+                Tags & Metadata
+              </ContextMenuItem>
+              <ContextMenuItem onClick={() => onAddToBundle(node)}>
+                <Package className="h-4 w-4 mr-2" />
+                Add to Bundle
+              </ContextMenuItem>
+              <ContextMenuSeparator />
+              
               <ContextMenuItem onClick={handleDelete} className="text-destructive">
                 <Trash2 className="h-4 w-4 mr-2" />
-                Delete
+                Move to trash
               </ContextMenuItem>
             </>
           )}
@@ -462,6 +666,17 @@ function TreeItem({
                 selectedNodes={selectedNodes}
                 onNodeClick={onNodeClick}
                 onDeleteSelected={onDeleteSelected}
+                renamingNodeId={renamingNodeId}
+                onStartRename={onStartRename}
+                onEndRename={onEndRename}
+                onOrganize={onOrganize}
+                onShowVersions={onShowVersions}
+                onEditTags={onEditTags}
+                onEditSelectedTags={onEditSelectedTags}
+                onAddToBundle={onAddToBundle}
+                onAddSelectedToBundle={onAddSelectedToBundle}
+                onTagClick={onTagClick}
+                revealRequest={revealRequest}
               />
             </div>
           ))}
@@ -473,7 +688,6 @@ function TreeItem({
 
 export default function FileExplorer({ nodes, workspaceId, workspace, workspaces, onNodeSelect }: FileExplorerProps) {
   const router = useRouter()
-  const tree = buildTree(nodes)
   const [draggedNode, setDraggedNode] = useState<Node | null>(null)
   const [isDraggingOverRoot, setIsDraggingOverRoot] = useState(false)
   const [isMoving, setIsMoving] = useState(false)
@@ -481,13 +695,66 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
   // Multi-select state
   const [selectedNodes, setSelectedNodes] = useState<Set<string>>(new Set())
   const [lastSelectedNode, setLastSelectedNode] = useState<string | null>(null)
-  const [isCtrlPressed, setIsCtrlPressed] = useState(false)
-  const [isShiftPressed, setIsShiftPressed] = useState(false)
+  const [renamingNodeId, setRenamingNodeId] = useState<string | null>(null)
+  const [organizingFolder, setOrganizingFolder] = useState<Node | null>(null)
+  const [showTrash, setShowTrash] = useState(false)
+  const [versionsNode, setVersionsNode] = useState<Node | null>(null)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [revealRequest, setRevealRequest] = useState<RevealRequest | null>(null)
+  const [taggingNodes, setTaggingNodes] = useState<Node[]>([])
+  const [tagFilter, setTagFilter] = useState<string[]>([])
+  // Null while the bundles dialog is closed; empty when it's opened from the header
+  const [bundleNodeIds, setBundleNodeIds] = useState<string[] | null>(null)
+  const isSearching = searchQuery.trim().length > 0
+  const tagCounts = countTags(nodes)
+  const visibleNodes = filterNodesByTags(nodes, tagFilter)
+  const tree = buildTree(visibleNodes)
 
   const handleRefresh = () => {
     router.refresh()
   }
 
+  // Jump from a search result to its place in the tree
+  const handleReveal = (node: Node) => {
+    const nodesById = new Map(nodes.map(n => [n.id, n]))
+    const ancestorIds = new Set<string>()
+    for (let parentId = node.parent_id; parentId; parentId = nodesById.get(parentId)?.parent_id ?? null) {
+      ancestorIds.add(parentId)
+    }
+
+    setSearchQuery('')
+    setSelectedNodes(new Set([node.id]))
+    setLastSelectedNode(node.id)
+    setRevealRequest({ nodeId: node.id, ancestorIds })
+    onNodeSelect?.(node)
+  }
+
+  // Show only tagged items, with the folders leading to them opened
+  const handleTagFilterChange = (tags: string[]) => {
+    setTagFilter(tags)
+    setSelectedNodes(new Set())
+    if (tags.length === 0) return
+
+    const nodesById = new Map(nodes.map(n => [n.id, n]))
+    const ancestorIds = new Set<string>()
+    for (const node of nodes.filter(n => hasAllTags(n, tags))) {
+      for (let parentId = node.parent_id; parentId; parentId = nodesById.get(parentId)?.parent_id ?? null) {
+        ancestorIds.add(parentId)
+      }
+    }
+    setRevealRequest({ nodeId: null, ancestorIds })
+  }
+
+  const handleTagClick = (tag: string) => {
+    if (tagFilter.some(t => t.toLowerCase() === tag.toLowerCase())) return
+    handleTagFilterChange([...tagFilter, tag])
+  }
+
+  const handleEditSelectedTags = () => {
+    setTaggingNodes(nodes.filter(n => selectedNodes.has(n.id)))
+  }
+
   const handleDragStart = (node: Node) => {
     // If dragging a selected node, drag all selected
     if (selectedNodes.has(node.id)) {
@@ -524,7 +791,6 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
     
     // Show optimistic feedback
     const count = nodesToMove.length
-    const targetName = targetNode?.name || 'root'
     const toastId = `move-${Date.now()}`
     
     try {
@@ -633,12 +899,9 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
   // Multi-select handlers
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Control' || e.key === 'Meta') {
-        setIsCtrlPressed(true)
-      }
-      if (e.key === 'Shift') {
-        setIsShiftPressed(true)
-      }
+      // Leave typing in inputs (such as an inline rename) alone
+      const target = e.target as HTMLElement | null
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return
       
       // Select all
       if ((e.ctrlKey || e.metaKey) && e.key === 'a') {
@@ -657,23 +920,18 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
         e.preventDefault()
         handleDeleteSelected()
       }
-    }
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.key === 'Control' || e.key === 'Meta') {
-        setIsCtrlPressed(false)
-      }
-      if (e.key === 'Shift') {
-        setIsShiftPressed(false)
+      
+      // Rename the selected item
+      if (e.key === 'F2' && selectedNodes.size === 1) {
+        e.preventDefault()
+        setRenamingNodeId(Array.from(selectedNodes)[0])
       }
     }
 
     window.addEventListener('keydown', handleKeyDown)
-    window.addEventListener('keyup', handleKeyUp)
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
-      window.removeEventListener('keyup', handleKeyUp)
     }
   }, [selectedNodes, nodes])
 
@@ -714,8 +972,8 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
     
     const count = selectedNodes.size
     const message = count === 1 
-      ? 'Are you sure you want to delete this item?'
-      : `Are you sure you want to delete ${count} items?`
+      ? 'Move this item to the trash?'
+      : `Move ${count} items to the trash?`
     
     if (!confirm(message)) return
 
@@ -726,7 +984,7 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
       if (count === 1) {
         toast(
           <ProgressToast 
-            message='Deleting item...'
+            message='Moving to trash...'
             progress={50}
           />,
           { id: toastId, duration: Infinity }
@@ -736,7 +994,7 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
         
         toast(
           <SimpleToast 
-            message="Item deleted successfully"
+            message="Item moved to trash"
             type="success"
           />,
           { id: toastId, duration: 4000 }
@@ -745,7 +1003,7 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
         // For multiple items, show progress
         toast(
           <ProgressToast 
-            message='Deleting items...'
+            message='Moving items to trash...'
             progress={10}
           />,
           { id: toastId, duration: Infinity }
@@ -763,7 +1021,7 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
           const progress = (deleted / count) * 100
           toast(
             <ProgressToast 
-              message='Deleting items...'
+              message='Moving items to trash...'
               progress={progress}
             />,
             { id: toastId, duration: Infinity }
@@ -772,7 +1030,7 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
         
         toast(
           <SimpleToast 
-            message={`Deleted ${count} items successfully`}
+            message={`Moved ${count} items to trash`}
             type="success"
           />,
           { id: toastId, duration: 4000 }
@@ -809,29 +1067,97 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
         }}
       >
         <div className="mb-4 flex items-center justify-between">
-          <h3 className="text-sm font-medium">Files</h3>
-          <UploadPopoverTus
-            workspaceId={workspaceId}
-            parentId={null}
-            trigger={
+          <h3 className="text-sm font-medium">{showTrash ? 'Trash' : 'Files'}</h3>
+          <div className="flex items-center gap-1">
+            {!showTrash && (
+              <TagFilter
+                workspaceId={workspaceId}
+                tagCounts={tagCounts}
+                selected={tagFilter}
+                onChange={handleTagFilterChange}
+                onChanged={handleRefresh}
+              />
+            )}
+            {!showTrash && (
               <Button
                 size="sm"
                 variant="ghost"
                 className="transition-all duration-200 hover:scale-110 active:scale-95"
+                title="Duplicates"
+                onClick={() => setShowDuplicates(true)}
               >
-                <Plus className="h-4 w-4" />
+                <Copy className="h-4 w-4" />
               </Button>
-            }
-          />
+            )}
+            {!showTrash && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="transition-all duration-200 hover:scale-110 active:scale-95"
+                title="Bundles"
+                onClick={() => setBundleNodeIds([])}
+              >
+                <Package className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="transition-all duration-200 hover:scale-110 active:scale-95"
+              title={showTrash ? 'Back to files' : 'Trash'}
+              onClick={() => {
+                setSelectedNodes(new Set())
+                setShowTrash(!showTrash)
+              }}
+            >
+              {showTrash ? <ArrowLeft className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+            </Button>
+            {!showTrash && (
+              <UploadPopoverTus
+                workspaceId={workspaceId}
+                parentId={null}
+                trigger={
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="transition-all duration-200 hover:scale-110 active:scale-95"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                }
+              />
+            )}
+          </div>
         </div>
 
 
-        {tree.length === 0 ? (
-          <p className="text-sm text-muted-foreground px-2">
-            No files yet. Upload files or create folders to get started.
-          </p>
+        {!showTrash && (
+          <SearchPanel
+            workspaceId={workspaceId}
+            nodes={nodes}
+            query={searchQuery}
+            onQueryChange={setSearchQuery}
+            onReveal={handleReveal}
+          />
+        )}
+
+        {!showTrash && !isSearching && (
+          <ActiveTagFilters selected={tagFilter} onChange={handleTagFilterChange} />
+        )}
+
+        {showTrash ? (
+          <TrashView workspaceId={workspaceId} onChanged={handleRefresh} />
+        ) : tree.length === 0 ? (
+          !isSearching && (
+            <p className="text-sm text-muted-foreground px-2">
+              {tagFilter.length > 0
+                ? 'Nothing carries all of the selected tags.'
+                : 'No files yet. Upload files or create folders to get started.'}
+            </p>
+          )
         ) : (
-          <>
+          // Hidden rather than unmounted during a search so expanded folders stay open
+          <div className={cn(isSearching && "hidden")}>
             <div className="space-y-0.5">
               {tree.map((node) => (
                 <TreeItem
@@ -847,6 +1173,17 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
                   selectedNodes={selectedNodes}
                   onNodeClick={handleNodeClick}
                   onDeleteSelected={handleDeleteSelected}
+                  renamingNodeId={renamingNodeId}
+                  onStartRename={setRenamingNodeId}
+                  onEndRename={() => setRenamingNodeId(null)}
+                  onOrganize={setOrganizingFolder}
+                  onShowVersions={setVersionsNode}
+                  onEditTags={(node) => setTaggingNodes([node])}
+                  onEditSelectedTags={handleEditSelectedTags}
+                  onAddToBundle={(node) => setBundleNodeIds([node.id])}
+                  onAddSelectedToBundle={() => setBundleNodeIds(Array.from(selectedNodes))}
+                  onTagClick={handleTagClick}
+                  revealRequest={revealRequest}
                 />
               ))}
             </div>
@@ -873,7 +1210,7 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
                 </p>
               </div>
             )}
-          </>
+          </div>
         )}
       </div>
       
@@ -882,6 +1219,43 @@ export default function FileExplorer({ nodes, workspaceId, workspace, workspaces
           <WorkspaceSettings workspace={workspace} workspaces={workspaces} />
         </div>
       </div>
+      
+      <StoredFilesOrganizer
+        isOpen={organizingFolder !== null}
+        onClose={() => setOrganizingFolder(null)}
+        workspaceId={workspaceId}
+        folder={organizingFolder}
+        nodes={nodes}
+        onApplied={handleRefresh}
+      />
+
+      <VersionHistoryDialog
+        node={versionsNode}
+        onClose={() => setVersionsNode(null)}
+        onRestored={handleRefresh}
+      />
+
+      <NodeTagsDialog
+        nodes={taggingNodes}
+        allTags={tagCounts.map(({ tag }) => tag)}
+        onClose={() => setTaggingNodes([])}
+        onSaved={handleRefresh}
+      />
+
+      <DuplicatesReport
+        isOpen={showDuplicates}
+        onClose={() => setShowDuplicates(false)}
+        workspaceId={workspaceId}
+        onChanged={handleRefresh}
+      />
+
+      <BundlesDialog
+        addNodeIds={bundleNodeIds}
+        onClose={() => setBundleNodeIds(null)}
+        workspaceId={workspaceId}
+        nodes={nodes}
+        onChanged={handleRefresh}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, type InputHTMLAttributes } from 'react'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Upload, FolderUp, X, Settings2 } from 'lucide-react'
@@ -13,6 +13,16 @@ import { createClient } from '@/utils/supabase/client'
 import { ParallelUploadManager, UploadTask } from '@/utils/parallel-upload-manager'
 import { FolderStructureProcessor } from '@/utils/folder-structure-processor'
 import { StorageSessionManager } from '@/utils/storage-session-manager'
+import { ContentHasher } from '@/utils/content-hasher'
+import { SearchIndexer } from '@/utils/search-indexer'
+import { UPLOAD_CONFIG } from '@/utils/upload-config'
+import { useUserSettings } from '@/hooks/use-user-settings'
+import {
+  addUploadedVersion,
+  findDuplicateContent,
+  indexNodeContents,
+  linkDuplicateFile
+} from '@/app/dashboard/file-organizer/actions'
 import {
   Popover,
   PopoverContent,
@@ -73,17 +83,28 @@ export default function FileUploadTus({ workspaceId, parentId, onUploadComplete
   const [isDragging, setIsDragging] = useState(false)
   const [uploadQueue, setUploadQueue] = useState<FileUploadItem[]>([])
   const [isUploading, setIsUploading] = useState(false)
-  const [concurrencyLimit, setConcurrencyLimit] = useState(2) // Further reduced for stability
+  const { settings, isLoaded: settingsLoaded } = useUserSettings()
+  const [concurrencyLimit, setConcurrencyLimit] = useState<number>(UPLOAD_CONFIG.DEFAULT_CONCURRENCY)
   const [bandwidthLimit, setBandwidthLimit] = useState(0) // 0 = unlimited
   const [dynamicConcurrency, setDynamicConcurrency] = useState(true)
+  const [uploadAsVersion, setUploadAsVersion] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const folderInputRef = useRef<HTMLInputElement>(null)
-  const uploadManagerRef = useRef<ParallelUploadManager>(new ParallelUploadManager(2))
+  const uploadManagerRef = useRef<ParallelUploadManager>(new ParallelUploadManager(UPLOAD_CONFIG.DEFAULT_CONCURRENCY))
   const folderProcessorRef = useRef<FolderStructureProcessor>(new FolderStructureProcessor())
   const currentBatchIdRef = useRef<string | null>(null)
   const sessionManagerRef = useRef<StorageSessionManager>(new StorageSessionManager())
   const supabase = createClient()
   
+  // Start from the user's upload settings; the sliders still adjust this panel
+  useEffect(() => {
+    if (!settingsLoaded) return
+    setConcurrencyLimit(settings.uploadConcurrency)
+    setBandwidthLimit(settings.uploadBandwidthLimit)
+    uploadManagerRef.current.setGlobalConcurrencyLimit(settings.uploadConcurrency)
+    uploadManagerRef.current.setBandwidthLimit(settings.uploadBandwidthLimit)
+  }, [settings, settingsLoaded])
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -198,6 +219,13 @@ export default function FileUploadTus({ workspaceId, parentId, onUploadComplete
     }
   }
 
+  // Text extraction runs after the upload counts as done, so it never holds up the batch
+  const indexUploadedFile = (nodeId: string, file: File) => {
+    SearchIndexer.extractText(file)
+      .then(text => indexNodeContents([{ nodeId, text }]))
+      .catch(error => console.error(`Failed to index ${file.name}:`, error))
+  }
+
   const createTusUploadHandler = async (task: UploadTask, batchId: string, folderId?: string): Promise<tus.Upload | null> => {
     console.log(`[TUS Handler] Creating upload handler for ${task.file.name}`, {
       fileSize: task.file.size,
@@ -214,6 +242,24 @@ export default function FileUploadTus({ workspaceId, parentId, onUploadComplete
       return null
     }
 
+    // Skip bytes the workspace already has, linking them into this folder
+    // when they are stored elsewhere. Hashing failures fall back to uploading
+    const targetParentId = folderId || task.parentId || parentId
+    try {
+      task.contentHash = await ContentHasher.hash(task.file)
+      const duplicate = await findDuplicateContent(workspaceId, targetParentId, task.contentHash)
+      if (duplicate) {
+        if (!duplicate.inTargetFolder) {
+          await linkDuplicateFile(workspaceId, targetParentId, task.file.name, duplicate.node.id)
+        }
+        task.duplicateOf = duplicate.node.name
+        uploadManagerRef.current.updateTaskStatus(batchId, task.id, 'complete')
+        return null
+      }
+    } catch (error) {
+      console.error(`[Content Hash] Duplicate check failed for ${task.file.name}:`, error)
+    }
+
     // Generate storage path
     const lastDotIndex = task.file.name.lastIndexOf('.')
     const hasExtension = lastDotIndex > 0 && lastDotIndex < task.file.name.length - 1
@@ -252,7 +298,9 @@ export default function FileUploadTus({ workspaceId, parentId, onUploadComplete
       addRequestId: true, // Add request ID for debugging
       // Commented out debugging callbacks that were causing errors
       // onBeforeRequest and onAfterResponse removed due to API incompatibility
-      onError: function (error: any) {
+      onError: function (uploadError) {
+        // Only failed requests carry the request and response details
+        const error = uploadError as Partial<tus.DetailedError> & Error & { causeDetail?: unknown }
         const errorMessage = error?.message || 'Unknown upload error'
         console.error(`[TUS Upload Error] ${task.file.name}:`, {
           message: errorMessage,
@@ -292,8 +340,23 @@ export default function FileUploadTus({ workspaceId, parentId, onUploadComplete
           // Use pre-created folder ID or task's parent ID
           const finalParentId = folderId || task.parentId || parentId
 
+          // Stack the upload onto a same-named file as its next version
+          if (uploadAsVersion) {
+            const versioned = await addUploadedVersion(workspaceId, finalParentId, task.file.name, {
+              storagePath,
+              mimeType: task.file.type,
+              size: task.file.size,
+              contentHash: task.contentHash
+            })
+            if (versioned) {
+              uploadManagerRef.current.updateTaskStatus(batchId, task.id, 'complete')
+              indexUploadedFile(versioned.id, task.file)
+              return
+            }
+          }
+
           // Create file record
-          const { error } = await supabase
+          const { data: node, error } = await supabase
             .from('nodes')
             .insert({
               user_id: session.user.id,
@@ -303,12 +366,16 @@ export default function FileUploadTus({ workspaceId, parentId, onUploadComplete
               name: task.file.name,
               mime_type: task.file.type,
               size: task.file.size,
-              storage_object_path: storagePath
+              storage_object_path: storagePath,
+              content_hash: task.contentHash || null
             })
+            .select('id')
+            .single()
 
           if (error) throw error
 
           uploadManagerRef.current.updateTaskStatus(batchId, task.id, 'complete')
+          indexUploadedFile(node.id, task.file)
         } catch (error) {
           console.error('Failed to create database record:', error)
           uploadManagerRef.current.updateTaskStatus(batchId, task.id, 'error', 'Failed to save file record')
@@ -619,7 +686,7 @@ export default function FileUploadTus({ workspaceId, parentId, onUploadComplete
         <input
           ref={folderInputRef}
           type="file"
-          {...{ webkitdirectory: '' } as any}
+          {...{ webkitdirectory: '' } as InputHTMLAttributes<HTMLInputElement>}
           multiple
           className="hidden"
           onChange={handleFolderSelect}
@@ -667,8 +734,8 @@ export default function FileUploadTus({ workspaceId, parentId, onUploadComplete
                       </Label>
                       <Slider
                         id="concurrency"
-                        min={1}
-                        max={6}
+                        min={UPLOAD_CONFIG.MIN_CONCURRENCY}
+                        max={UPLOAD_CONFIG.MAX_CONCURRENCY}
                         step={1}
                         value={[concurrencyLimit]}
                         onValueChange={(value) => {
@@ -702,6 +769,23 @@ export default function FileUploadTus({ workspaceId, parentId, onUploadComplete
                         0 = unlimited, useful for slower connections
                       </p>
                     </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="as-version">Upload as New Version</Label>
+                        <input
+                          id="as-version"
+                          type="checkbox"
+                          checked={uploadAsVersion}
+                          onChange={(e) => setUploadAsVersion(e.target.checked)}
+                          className="h-4 w-4"
+                          disabled={isUploading}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Same-named files become a new version instead of a copy
+                      </p>
+                    </div>
                   </div>
                 </PopoverContent>
               </Popover>
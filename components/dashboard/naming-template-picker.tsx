@@ -0,0 +1,162 @@
+'use client'
+
+import { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertCircle } from 'lucide-react'
+import {
+  NAMING_TEMPLATE_PRESETS,
+  renderTemplate,
+  type NamingCase,
+  type NamingFields,
+  type NamingSeparator,
+  type NamingTemplate
+} from '@/utils/ai/naming-template'
+
+interface NamingTemplatePickerProps {
+  value: NamingTemplate | null
+  onChange: (template: NamingTemplate | null) => void
+}
+
+// Shown under the pattern so users can check a template before analyzing
+const EXAMPLE_FIELDS: NamingFields = {
+  date: '2024-03-15',
+  author: 'Jane Smith',
+  title: 'Quarterly Revenue Report',
+  counterparty: 'Acme Corp',
+  amount: '1250.00 EUR',
+  category: 'invoice'
+}
+
+const SEPARATOR_LABELS: Record<NamingSeparator, string> = {
+  ' ': 'Space',
+  '-': 'Hyphen (-)',
+  '_': 'Underscore (_)',
+  '.': 'Dot (.)'
+}
+
+const CASE_LABELS: Record<NamingCase, string> = {
+  preserve: 'As extracted',
+  lower: 'lowercase',
+  upper: 'UPPERCASE',
+  title: 'Title Case'
+}
+
+export function NamingTemplatePicker({ value, onChange }: NamingTemplatePickerProps) {
+  const [mode, setMode] = useState<string>(() => {
+    if (!value) return 'descriptive'
+    const preset = NAMING_TEMPLATE_PRESETS.find(p => p.template.pattern === value.pattern)
+    return preset?.id ?? 'custom'
+  })
+
+  let example: string | null = null
+  let patternError: string | null = null
+  if (value) {
+    try {
+      example = renderTemplate(value, EXAMPLE_FIELDS)
+    } catch (error) {
+      patternError = error instanceof Error ? error.message : 'Invalid template'
+    }
+  }
+
+  const handleModeChange = (nextMode: string) => {
+    setMode(nextMode)
+    if (nextMode === 'descriptive') {
+      onChange(null)
+      return
+    }
+    const preset = NAMING_TEMPLATE_PRESETS.find(p => p.id === nextMode)
+    onChange(preset ? { ...preset.template } : value ?? { pattern: '{date} {title}', case: 'preserve', separator: ' ' })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <Label className="text-sm whitespace-nowrap">Naming</Label>
+        <Select value={mode} onValueChange={handleModeChange}>
+          <SelectTrigger className="w-full sm:w-64 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="descriptive">Descriptive (AI chooses)</SelectItem>
+            {NAMING_TEMPLATE_PRESETS.map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.label}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">Custom template</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {value && (
+          <>
+            <Select
+              value={value.case}
+              onValueChange={(nextCase) => onChange({ ...value, case: nextCase as NamingCase })}
+            >
+              <SelectTrigger className="w-full sm:w-36 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CASE_LABELS) as NamingCase[]).map(namingCase => (
+                  <SelectItem key={namingCase} value={namingCase}>
+                    {CASE_LABELS[namingCase]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={value.separator}
+              onValueChange={(separator) => onChange({ ...value, separator: separator as NamingSeparator })}
+            >
+              <SelectTrigger className="w-full sm:w-36 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SEPARATOR_LABELS) as NamingSeparator[]).map(separator => (
+                  <SelectItem key={separator} value={separator}>
+                    {SEPARATOR_LABELS[separator]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+      </div>
+
+      {value && mode === 'custom' && (
+        <div className="space-y-1">
+          <Input
+            value={value.pattern}
+            onChange={(e) => onChange({ ...value, pattern: e.target.value })}
+            placeholder="{date:YYYY} - {author} - {title}"
+            className="h-8 font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Fields: {'{date}'} (or {'{date:YYYYMMDD}'}, {'{year}'}), {'{author}'}, {'{title}'},{' '}
+            {'{counterparty}'} / {'{client}'}, {'{amount}'}, {'{category}'} / {'{doctype}'}
+          </p>
+        </div>
+      )}
+
+      {patternError && (
+        <p className="text-xs text-red-600 flex items-center gap-1">
+          <AlertCircle className="h-3 w-3" />
+          {patternError}
+        </p>
+      )}
+      {example && (
+        <p className="text-xs text-muted-foreground">
+          Example: <span className="font-mono">{example}.pdf</span>
+        </p>
+      )}
+    </div>
+  )
+}
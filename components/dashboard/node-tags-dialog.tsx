@@ -0,0 +1,277 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Loader2, Plus, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { Tables } from '@/utils/supabase/database.types'
+import {
+  SUGGESTED_METADATA_KEYS,
+  formatMetadataKey,
+  normalizeMetadataKey,
+  normalizeTags,
+  toNodeMetadata
+} from '@/utils/tags'
+import {
+  addTagsToNodes,
+  removeTagsFromNodes,
+  updateNodesMetadata
+} from '@/app/dashboard/file-organizer/actions'
+
+type Node = Tables<'nodes'>
+
+interface NodeTagsDialogProps {
+  // The nodes being edited; the dialog is closed while empty
+  nodes: Node[]
+  // Every tag in the workspace, offered as suggestions
+  allTags: string[]
+  onClose: () => void
+  onSaved: () => void
+}
+
+interface MetadataRow {
+  key: string
+  value: string
+}
+
+// Values every node shares; keys whose values differ are left out and untouched on save
+function commonMetadata(nodes: Node[]): Record<string, string> {
+  const [first, ...rest] = nodes.map(node => toNodeMetadata(node.metadata))
+  if (!first) return {}
+  return Object.fromEntries(
+    Object.entries(first).filter(([key, value]) => rest.every(metadata => metadata[key] === value))
+  )
+}
+
+// Edit tags and key/value metadata of one node, or of a selection at once
+export function NodeTagsDialog({ nodes, allTags, onClose, onSaved }: NodeTagsDialogProps) {
+  const [tags, setTags] = useState<string[]>([])
+  const [tagInput, setTagInput] = useState('')
+  const [rows, setRows] = useState<MetadataRow[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const initialTags = useMemo(() => normalizeTags(nodes.flatMap(node => node.tags), Infinity), [nodes])
+  const initialMetadata = useMemo(() => commonMetadata(nodes), [nodes])
+
+  useEffect(() => {
+    setTags(initialTags)
+    setTagInput('')
+    setRows(Object.entries(initialMetadata).map(([key, value]) => ({ key, value })))
+  }, [initialTags, initialMetadata])
+
+  const isBulk = nodes.length > 1
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const tag of nodes.flatMap(node => node.tags)) {
+      counts.set(tag.toLowerCase(), (counts.get(tag.toLowerCase()) || 0) + 1)
+    }
+    return counts
+  }, [nodes])
+
+  const lowerTags = new Set(tags.map(tag => tag.toLowerCase()))
+  const tagSuggestions = allTags
+    .filter(tag => !lowerTags.has(tag.toLowerCase()))
+    .filter(tag => tag.toLowerCase().includes(tagInput.trim().toLowerCase()))
+    .slice(0, 8)
+  const usedKeys = new Set(rows.map(row => normalizeMetadataKey(row.key)))
+  const keySuggestions = SUGGESTED_METADATA_KEYS.filter(key => !usedKeys.has(key))
+
+  const addTag = (tag: string) => {
+    setTags(prev => normalizeTags([...prev, tag], Infinity))
+    setTagInput('')
+  }
+
+  const updateRow = (index: number, update: Partial<MetadataRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...update } : row)))
+  }
+
+  const save = async () => {
+    const nodeIds = nodes.map(node => node.id)
+    const added = tags.filter(tag => !initialTags.some(initial => initial.toLowerCase() === tag.toLowerCase()))
+    const removed = initialTags.filter(initial => !lowerTags.has(initial.toLowerCase()))
+
+    const changes: Record<string, string | null> = {}
+    for (const key of Object.keys(initialMetadata)) changes[key] = null
+    for (const row of rows) {
+      const key = normalizeMetadataKey(row.key)
+      if (key) changes[key] = row.value.trim() || null
+    }
+    // Only send keys that actually change
+    for (const [key, value] of Object.entries(changes)) {
+      if ((initialMetadata[key] ?? null) === value) delete changes[key]
+    }
+
+    setIsSaving(true)
+    try {
+      if (removed.length > 0) await removeTagsFromNodes(nodeIds, removed)
+      if (added.length > 0) await addTagsToNodes(nodeIds, added)
+      if (Object.keys(changes).length > 0) await updateNodesMetadata(nodeIds, changes)
+
+      toast(
+        <SimpleToast
+          message={isBulk ? `Updated ${nodes.length} items` : `Updated ${nodes[0].name}`}
+          type="success"
+        />,
+        { duration: 4000 }
+      )
+      onSaved()
+      onClose()
+    } catch (error) {
+      console.error('Failed to save tags:', error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : 'Failed to save tags'} type="error" />,
+        { duration: 4000 }
+      )
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={nodes.length > 0} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Tags & Metadata</DialogTitle>
+          <DialogDescription className="truncate">
+            {isBulk ? `${nodes.length} items selected` : nodes[0]?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {tags.map(tag => (
+                <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+                  {tag}
+                  {isBulk && (
+                    <span className="text-muted-foreground">
+                      {tagCounts.get(tag.toLowerCase()) ?? 0}/{nodes.length}
+                    </span>
+                  )}
+                  <button
+                    className="rounded-sm hover:bg-background/60"
+                    onClick={() => setTags(prev => prev.filter(t => t !== tag))}
+                    aria-label={`Remove ${tag}`}
+                    disabled={isSaving}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {tags.length === 0 && <span className="text-sm text-muted-foreground">No tags yet</span>}
+            </div>
+            <Input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if ((e.key === 'Enter' || e.key === ',') && tagInput.trim()) {
+                  e.preventDefault()
+                  addTag(tagInput)
+                }
+              }}
+              placeholder={isBulk ? 'Add a tag to all selected items' : 'Add a tag and press Enter'}
+              className="h-8 text-sm"
+              disabled={isSaving}
+            />
+            {tagSuggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {tagSuggestions.map(tag => (
+                  <button
+                    key={tag}
+                    className="rounded-full border px-2 py-0.5 text-xs text-muted-foreground hover:bg-accent"
+                    onClick={() => addTag(tag)}
+                    disabled={isSaving}
+                  >
+                    + {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Metadata</Label>
+            {isBulk && (
+              <p className="text-xs text-muted-foreground">
+                Values shared by every selected item are shown. Values set here apply to all of them.
+              </p>
+            )}
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={row.key}
+                  onChange={(e) => updateRow(index, { key: e.target.value })}
+                  placeholder="Key"
+                  className="h-8 w-36 text-sm"
+                  disabled={isSaving}
+                />
+                <Input
+                  value={row.value}
+                  onChange={(e) => updateRow(index, { value: e.target.value })}
+                  placeholder="Value"
+                  className="h-8 flex-1 text-sm"
+                  disabled={isSaving}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove field"
+                  disabled={isSaving}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-1">
+              {keySuggestions.map(key => (
+                <button
+                  key={key}
+                  className="rounded-full border px-2 py-0.5 text-xs text-muted-foreground hover:bg-accent"
+                  onClick={() => setRows(prev => [...prev, { key, value: '' }])}
+                  disabled={isSaving}
+                >
+                  + {formatMetadataKey(key)}
+                </button>
+              ))}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+                onClick={() => setRows(prev => [...prev, { key: '', value: '' }])}
+                disabled={isSaving}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Custom field
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
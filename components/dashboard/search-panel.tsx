@@ -0,0 +1,489 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { File, Folder, Loader2, ScanText, Search, SlidersHorizontal, Sparkles, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { Tables } from '@/utils/supabase/database.types'
+import { createClient } from '@/utils/supabase/client'
+import { SearchIndexer } from '@/utils/search-indexer'
+import {
+  embedMissingNodes,
+  getSemanticIndexStatus,
+  getUnindexedFiles,
+  indexNodeContents,
+  searchNodes,
+  semanticSearchNodes
+} from '@/app/dashboard/file-organizer/actions'
+
+type Node = Tables<'nodes'>
+type SearchFilters = NonNullable<Parameters<typeof searchNodes>[2]>
+type SemanticIndexStatus = Awaited<ReturnType<typeof getSemanticIndexStatus>>
+
+// Keyword matches carry highlights; semantic matches a similarity score
+interface SearchResult {
+  node: Node
+  nameHighlight: string
+  contentHighlight: string | null
+  similarity?: number
+}
+
+interface SearchPanelProps {
+  workspaceId: string
+  nodes: Node[]
+  query: string
+  onQueryChange: (query: string) => void
+  onReveal: (node: Node) => void
+}
+
+const SEARCH_DEBOUNCE_MS = 250
+// Every semantic query embeds the query with the AI provider, so wait longer
+const SEMANTIC_DEBOUNCE_MS = 600
+// Extracted text is saved in batches while indexing older files
+const INDEX_SAVE_BATCH = 10
+
+const TYPE_FILTERS: Record<string, { label: string; filters: SearchFilters }> = {
+  all: { label: 'Any type', filters: {} },
+  folder: { label: 'Folders', filters: { nodeType: 'folder' } },
+  file: { label: 'Files', filters: { nodeType: 'file' } },
+  pdf: { label: 'PDFs', filters: { nodeType: 'file', mimePrefix: 'application/pdf' } },
+  image: { label: 'Images', filters: { nodeType: 'file', mimePrefix: 'image/' } },
+  text: { label: 'Text', filters: { nodeType: 'file', mimePrefix: 'text/' } },
+  video: { label: 'Videos', filters: { nodeType: 'file', mimePrefix: 'video/' } },
+  audio: { label: 'Audio', filters: { nodeType: 'file', mimePrefix: 'audio/' } }
+}
+
+const MB = 1024 * 1024
+const SIZE_FILTERS: Record<string, { label: string; filters: SearchFilters }> = {
+  all: { label: 'Any size', filters: {} },
+  small: { label: 'Under 1 MB', filters: { maxSize: MB - 1 } },
+  medium: { label: '1 – 10 MB', filters: { minSize: MB, maxSize: 10 * MB - 1 } },
+  large: { label: '10 – 100 MB', filters: { minSize: 10 * MB, maxSize: 100 * MB - 1 } },
+  huge: { label: 'Over 100 MB', filters: { minSize: 100 * MB } }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DATE_FILTERS: Record<string, { label: string; days: number | null }> = {
+  all: { label: 'Any time', days: null },
+  day: { label: 'Last 24 hours', days: 1 },
+  week: { label: 'Last 7 days', days: 7 },
+  month: { label: 'Last 30 days', days: 30 },
+  year: { label: 'Last year', days: 365 }
+}
+
+// ts_headline marks matches with « and »
+function renderHighlight(text: string) {
+  return text.split(/«([^»]*)»/).map((part, index) =>
+    index % 2 === 1
+      ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">{part}</mark>
+      : part
+  )
+}
+
+// Search box for the file explorer. Results replace the tree while a query
+// is entered; picking one hands the node to onReveal to show it in the tree
+export function SearchPanel({ workspaceId, nodes, query, onQueryChange, onReveal }: SearchPanelProps) {
+  const [mode, setMode] = useState<'keyword' | 'semantic'>('keyword')
+  const [typeFilter, setTypeFilter] = useState('all')
+  const [sizeFilter, setSizeFilter] = useState('all')
+  const [dateFilter, setDateFilter] = useState('all')
+  const [folderFilter, setFolderFilter] = useState('all')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const [semanticStatus, setSemanticStatus] = useState<SemanticIndexStatus | null>(null)
+  const [isEmbedding, setIsEmbedding] = useState(false)
+  const [unindexedCount, setUnindexedCount] = useState(0)
+  const [isIndexing, setIsIndexing] = useState(false)
+  const [indexProgress, setIndexProgress] = useState(0)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const latestSearchRef = useRef(0)
+  const supabase = createClient()
+
+  const isActive = query.trim().length > 0
+  const activeFilterCount = [typeFilter, sizeFilter, dateFilter, folderFilter].filter(value => value !== 'all').length
+
+  const nodesById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes])
+  const folderPath = useCallback((parentId: string | null) => {
+    const segments: string[] = []
+    for (let current = parentId ? nodesById.get(parentId) : undefined; current; ) {
+      segments.unshift(current.name)
+      current = current.parent_id ? nodesById.get(current.parent_id) : undefined
+    }
+    return segments.join('/')
+  }, [nodesById])
+
+  const folders = useMemo(() =>
+    nodes
+      .filter(node => node.node_type === 'folder')
+      .map(folder => ({ id: folder.id, path: [folderPath(folder.parent_id), folder.name].filter(Boolean).join('/') }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    [nodes, folderPath]
+  )
+
+  useEffect(() => {
+    if (!isActive) {
+      setResults([])
+      return
+    }
+
+    const searchId = ++latestSearchRef.current
+    const days = DATE_FILTERS[dateFilter].days
+    const filters: SearchFilters = {
+      ...TYPE_FILTERS[typeFilter].filters,
+      ...SIZE_FILTERS[sizeFilter].filters,
+      ...(days !== null && { updatedAfter: new Date(Date.now() - days * DAY_MS).toISOString() }),
+      ...(folderFilter !== 'all' && { folderId: folderFilter })
+    }
+
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const matches: SearchResult[] = mode === 'semantic'
+          ? (await semanticSearchNodes(workspaceId, query, filters)).map(match => ({
+              node: match.node,
+              nameHighlight: match.node.name,
+              contentHighlight: match.excerpt,
+              similarity: match.similarity
+            }))
+          : await searchNodes(workspaceId, query, filters)
+        // A slower earlier request must not overwrite newer results
+        if (searchId === latestSearchRef.current) {
+          setResults(matches)
+          setSearchError(null)
+        }
+      } catch (error) {
+        console.error('Search failed:', error)
+        if (searchId === latestSearchRef.current) {
+          setResults([])
+          setSearchError(error instanceof Error ? error.message : 'Search failed')
+        }
+      } finally {
+        if (searchId === latestSearchRef.current) setIsSearching(false)
+      }
+    }, mode === 'semantic' ? SEMANTIC_DEBOUNCE_MS : SEARCH_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [isActive, mode, query, typeFilter, sizeFilter, dateFilter, folderFilter, workspaceId, refreshKey])
+
+  const loadUnindexedCount = useCallback(async () => {
+    try {
+      setUnindexedCount((await getUnindexedFiles(workspaceId)).length)
+    } catch (error) {
+      console.error('Failed to count unindexed files:', error)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    if (isActive) loadUnindexedCount()
+  }, [isActive, loadUnindexedCount])
+
+  const loadSemanticStatus = useCallback(async () => {
+    try {
+      setSemanticStatus(await getSemanticIndexStatus(workspaceId))
+    } catch (error) {
+      console.error('Failed to load semantic index status:', error)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    if (isActive && mode === 'semantic') loadSemanticStatus()
+  }, [isActive, mode, loadSemanticStatus])
+
+  // Embed indexed files the semantic index is missing, a batch per request
+  const embedOlderFiles = async () => {
+    setIsEmbedding(true)
+    try {
+      let remaining = semanticStatus?.missing ?? 0
+      while (remaining > 0) {
+        const result = await embedMissingNodes(workspaceId)
+        remaining = result.remaining
+        setSemanticStatus(prev => prev && { ...prev, missing: remaining })
+        if (result.embedded === 0) break
+      }
+      setRefreshKey(key => key + 1)
+    } catch (error) {
+      console.error('[Search] Embedding failed:', error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : 'Failed to embed files'} type="error" />,
+        { duration: 4000 }
+      )
+    } finally {
+      setIsEmbedding(false)
+      await loadSemanticStatus()
+    }
+  }
+
+  // Extract text from files uploaded before search, or stored without it
+  const indexOlderFiles = async () => {
+    setIsIndexing(true)
+    setIndexProgress(0)
+
+    let failed = 0
+    try {
+      const files = await getUnindexedFiles(workspaceId)
+      let pending: { nodeId: string; text: string }[] = []
+
+      for (let i = 0; i < files.length; i++) {
+        try {
+          const { data, error } = await supabase.storage
+            .from('user-files')
+            .download(files[i].storage_object_path!)
+          if (error || !data) throw error
+
+          const file = new window.File([data], files[i].name, { type: files[i].mime_type || data.type })
+          pending.push({ nodeId: files[i].id, text: await SearchIndexer.extractText(file) })
+        } catch (error) {
+          console.error(`[Search] Failed to index ${files[i].name}:`, error)
+          failed++
+        }
+
+        if (pending.length >= INDEX_SAVE_BATCH || (i === files.length - 1 && pending.length > 0)) {
+          await indexNodeContents(pending)
+          pending = []
+        }
+        setIndexProgress(Math.round(((i + 1) / files.length) * 100))
+      }
+
+      if (failed > 0) {
+        toast(
+          <SimpleToast message={`${failed} file${failed > 1 ? 's' : ''} could not be indexed`} type="warning" />,
+          { duration: 4000 }
+        )
+      }
+      await loadUnindexedCount()
+      if (mode === 'semantic') await loadSemanticStatus()
+      setRefreshKey(key => key + 1)
+    } catch (error) {
+      console.error('[Search] Indexing failed:', error)
+      toast(<SimpleToast message="Failed to index files" type="error" />, { duration: 4000 })
+    } finally {
+      setIsIndexing(false)
+    }
+  }
+
+  const clearFilters = () => {
+    setTypeFilter('all')
+    setSizeFilter('all')
+    setDateFilter('all')
+    setFolderFilter('all')
+  }
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex items-center gap-1">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') onQueryChange('')
+            }}
+            placeholder={mode === 'semantic' ? 'Describe what you are looking for' : 'Search names and contents'}
+            className="h-8 pl-8 pr-7 text-sm"
+            aria-label="Search files"
+          />
+          {query && (
+            <button
+              className="absolute right-1.5 top-1/2 -translate-y-1/2 rounded p-0.5 hover:bg-accent"
+              onClick={() => onQueryChange('')}
+              aria-label="Clear search"
+            >
+              <X className="h-3.5 w-3.5 text-muted-foreground" />
+            </button>
+          )}
+        </div>
+
+        <Button
+          size="sm"
+          variant={mode === 'semantic' ? 'secondary' : 'ghost'}
+          className="h-8 w-8 p-0"
+          title={mode === 'semantic' ? 'Searching by meaning' : 'Search by meaning'}
+          aria-pressed={mode === 'semantic'}
+          onClick={() => setMode(mode === 'semantic' ? 'keyword' : 'semantic')}
+        >
+          <Sparkles className="h-4 w-4" />
+        </Button>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="ghost" className="relative h-8 w-8 p-0" title="Search filters">
+              <SlidersHorizontal className="h-4 w-4" />
+              {activeFilterCount > 0 && (
+                <span className="absolute -right-0.5 -top-0.5 flex h-4 w-4 items-center justify-center rounded-full bg-primary text-[10px] text-primary-foreground">
+                  {activeFilterCount}
+                </span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-64 space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="h-8 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TYPE_FILTERS).map(([value, option]) => (
+                    <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Size</Label>
+              <Select value={sizeFilter} onValueChange={setSizeFilter}>
+                <SelectTrigger className="h-8 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SIZE_FILTERS).map(([value, option]) => (
+                    <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Modified</Label>
+              <Select value={dateFilter} onValueChange={setDateFilter}>
+                <SelectTrigger className="h-8 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DATE_FILTERS).map(([value, option]) => (
+                    <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">In folder</Label>
+              <Select value={folderFilter} onValueChange={setFolderFilter}>
+                <SelectTrigger className="h-8 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Anywhere</SelectItem>
+                  {folders.map(folder => (
+                    <SelectItem key={folder.id} value={folder.id}>{folder.path}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {activeFilterCount > 0 && (
+              <Button size="sm" variant="ghost" className="h-7 w-full" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {isActive && (
+        <div className="space-y-2">
+          {unindexedCount > 0 && (
+            <div className="space-y-2 rounded-lg border p-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  Contents of {unindexedCount} file{unindexedCount === 1 ? ' is' : 's are'} not searchable yet.
+                </p>
+                <Button size="sm" variant="outline" className="h-7" onClick={indexOlderFiles} disabled={isIndexing}>
+                  {isIndexing ? (
+                    <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                  ) : (
+                    <ScanText className="h-3.5 w-3.5 mr-1.5" />
+                  )}
+                  Index
+                </Button>
+              </div>
+              {isIndexing && <Progress value={indexProgress} className="h-1.5" />}
+            </div>
+          )}
+
+          {mode === 'semantic' && semanticStatus && !semanticStatus.enabled && (
+            <p className="rounded-lg border p-2 text-xs text-muted-foreground">
+              Search by meaning needs an embedding provider. Set AI_EMBEDDING_PROVIDER or use OpenAI or a local model.
+            </p>
+          )}
+
+          {mode === 'semantic' && semanticStatus?.enabled && semanticStatus.missing > 0 && (
+            <div className="flex items-center justify-between gap-2 rounded-lg border p-2">
+              <p className="text-xs text-muted-foreground">
+                {semanticStatus.missing} file{semanticStatus.missing === 1 ? ' is' : 's are'} not in the semantic index yet.
+              </p>
+              <Button size="sm" variant="outline" className="h-7" onClick={embedOlderFiles} disabled={isEmbedding}>
+                {isEmbedding ? (
+                  <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                ) : (
+                  <Sparkles className="h-3.5 w-3.5 mr-1.5" />
+                )}
+                Embed
+              </Button>
+            </div>
+          )}
+
+          {isSearching && results.length === 0 ? (
+            <div className="flex items-center gap-2 px-2 py-4 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          ) : searchError ? (
+            <p className="px-2 py-4 text-sm text-destructive">{searchError}</p>
+          ) : results.length === 0 ? (
+            <p className="px-2 py-4 text-sm text-muted-foreground">No matching files or folders.</p>
+          ) : (
+            <div className={cn("space-y-0.5 transition-opacity", isSearching && "opacity-60")}>
+              {results.map(result => {
+                const path = folderPath(result.node.parent_id)
+                return (
+                  <button
+                    key={result.node.id}
+                    className="flex w-full items-start gap-2 rounded px-2 py-1.5 text-left hover:bg-accent"
+                    onClick={() => onReveal(result.node)}
+                    title="Show in folder"
+                  >
+                    {result.node.node_type === 'folder' ? (
+                      <Folder className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+                    ) : (
+                      <File className="mt-0.5 h-4 w-4 shrink-0" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <p className="flex-1 truncate text-sm">{renderHighlight(result.nameHighlight)}</p>
+                        {result.similarity !== undefined && (
+                          <span className="shrink-0 text-xs text-muted-foreground">
+                            {Math.round(result.similarity * 100)}%
+                          </span>
+                        )}
+                      </div>
+                      <p className="truncate text-xs text-muted-foreground">{path || 'Workspace root'}</p>
+                      {result.contentHighlight && (
+                        <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">
+                          {renderHighlight(result.contentHighlight)}
+                        </p>
+                      )}
+                    </div>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,8 @@
 'use client'
 
-import { useState, useRef, useCallback } from 'react'
+import { useState, useRef, useCallback, useEffect } from 'react'
 import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
@@ -17,27 +16,50 @@ import {
   Zap, 
   Shield, 
   RefreshCw,
-  Check,
   Edit2,
-  AlertCircle,
   Loader2,
-  Copy,
   CheckCircle,
   XCircle,
-  AlertTriangle,
   Download,
   Eye,
   FolderTree,
-  FileDown
+  FileDown,
+  History,
+  Play,
+  Trash2,
+  Undo2
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { showToast } from '@/utils/toast-helper'
 import { SmartSyncProcessor } from '@/utils/smart-sync-processor'
 import { FileDownloader, type DownloadableFile, type FolderStructure } from '@/utils/file-downloader'
-import { FolderReorganizer } from '@/utils/folder-reorganizer'
+import { FolderReorganizer, type FolderSuggestion } from '@/utils/folder-reorganizer'
 import { FilePreviewModal } from './file-preview-modal'
 import { SmartSyncSummary } from './smart-sync-summary'
 import { DeleteConfirmationDialog } from './delete-confirmation-dialog'
+import { NamingTemplatePicker } from './naming-template-picker'
+import type { AnalysisFailure } from '@/utils/ai/analysis-schema'
+import { parseTemplate, type NamingTemplate } from '@/utils/ai/naming-template'
+import type { AnalysisResult } from '@/utils/ai/analysis-schema'
+import {
+  RenameJobStore,
+  type RenameJobItem,
+  type RenameJobSummary
+} from '@/utils/rename-job-store'
+import { isIndexedDBSupported } from '@/utils/indexed-db'
+import { ensurePermission, type IterableDirectoryHandle } from '@/utils/file-system-permissions'
+import {
+  RenameJournal,
+  computeSha256,
+  fileExists,
+  type MovableFileHandle,
+  type RenameJournalEntry,
+  type RenameSync
+} from '@/utils/rename-journal'
+import { getSuggestionDecision } from '@/utils/analytics'
+import { meetsAutoApplyThreshold } from '@/utils/user-settings'
+import { useUserSettings } from '@/hooks/use-user-settings'
+import { recordRenameDecisions } from '@/app/dashboard/analytics/actions'
 
 interface SmartSyncProps {
   workspaceId: string
@@ -56,18 +78,17 @@ interface FileHandle {
 interface FileAnalysis {
   originalName: string
   suggestedName: string
+  // Name as the AI suggested it, before any edits
+  aiSuggestedName: string
   confidence: number
   reasoning: string
   selected: boolean
   edited: boolean
   file?: File
-}
-
-interface RenameResult {
-  originalName: string
-  suggestedName: string
-  status: 'success' | 'error' | 'skipped'
-  newLocation?: string
+  error?: AnalysisFailure
+  path?: string
+  // Served from the suggestion cache instead of a new AI call
+  cached?: boolean
 }
 
 interface ProgressState {
@@ -79,15 +100,26 @@ interface ProgressState {
   individualProgress: Map<string, number>
 }
 
+// Folder holding the file at `path`, which starts with the root folder's name
+async function getParentDirectory(root: FileSystemDirectoryHandle, path: string): Promise<FileSystemDirectoryHandle> {
+  let directory = root
+  for (const name of path.split('/').slice(1, -1)) {
+    directory = await directory.getDirectoryHandle(name)
+  }
+  return directory
+}
+
 export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: SmartSyncProps) {
   const [permissionGranted, setPermissionGranted] = useState(false)
   const [selectedFiles, setSelectedFiles] = useState<FileHandle[]>([])
   const [fileAnalyses, setFileAnalyses] = useState<FileAnalysis[]>([])
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [isDownloading, setIsDownloading] = useState(false)
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [lastSync, setLastSync] = useState<RenameSync | null>(null)
+  const [isUndoing, setIsUndoing] = useState(false)
   const [showResults, setShowResults] = useState(false)
   const [showDownloadResults, setShowDownloadResults] = useState(false)
-  const [downloadResults, setDownloadResults] = useState<RenameResult[]>([])
   const [progress, setProgress] = useState<ProgressState>({
     totalFiles: 0,
     processedFiles: 0,
@@ -100,28 +132,85 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
   // New states for enhanced features
   const [useSummaryView, setUseSummaryView] = useState(false)
   const [reorganizeFolders, setReorganizeFolders] = useState(false)
-  const [folderStructure, setFolderStructure] = useState<any>(null)
+  const [folderStructure, setFolderStructure] = useState<FolderSuggestion | null>(null)
   const [selectedFolder, setSelectedFolder] = useState<FileHandle | null>(null)
   const [showPreviewModal, setShowPreviewModal] = useState(false)
   const [previewFile, setPreviewFile] = useState<{ original: File; renamed?: File; originalName: string; suggestedName: string } | null>(null)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [downloadLocation, setDownloadLocation] = useState<string>('')
+  const [namingTemplate, setNamingTemplate] = useState<NamingTemplate | null>(null)
+  // Bumped when the template is set from outside the picker, so it re-reads it
+  const [templatePickerKey, setTemplatePickerKey] = useState(0)
+  const { settings, isLoaded: settingsLoaded } = useUserSettings()
+  const [unfinishedJobs, setUnfinishedJobs] = useState<RenameJobSummary[]>([])
   
+  // Persisted job the current analysis belongs to, so a reload can resume it
+  const jobIdRef = useRef<string | null>(null)
   const startTimeRef = useRef<number>(0)
   const processedCountRef = useRef<number>(0)
+  // Set once the user picks a template, which the settings default must not replace
+  const templateTouchedRef = useRef(false)
   const downloadedFilesRef = useRef<DownloadableFile[]>([])
 
+  const loadUnfinishedJobs = useCallback(async () => {
+    if (!isIndexedDBSupported()) return
+    try {
+      setUnfinishedJobs(await RenameJobStore.listUnfinishedJobs(workspaceId))
+    } catch (error) {
+      console.error('[SmartSync] Failed to load rename jobs:', error)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadUnfinishedJobs()
+  }, [loadUnfinishedJobs])
+
+  const loadLastSync = useCallback(async () => {
+    if (!isIndexedDBSupported()) return
+    try {
+      setLastSync(await RenameJournal.getLastSync(workspaceId))
+    } catch (error) {
+      console.error('[SmartSync] Failed to load rename journal:', error)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadLastSync()
+  }, [loadLastSync])
+
+  // The user's default naming convention is preselected once settings load,
+  // unless a template was already picked
+  useEffect(() => {
+    if (!settingsLoaded || templateTouchedRef.current) return
+    setNamingTemplate(settings.namingTemplate)
+    setTemplatePickerKey(key => key + 1)
+  }, [settings, settingsLoaded])
+
+  const chooseNamingTemplate = (template: NamingTemplate | null) => {
+    templateTouchedRef.current = true
+    setNamingTemplate(template)
+  }
+
+  // Persistence is best effort; a failed write must not interrupt the user
+  const persistJob = (operation: (jobId: string) => Promise<void>) => {
+    const jobId = jobIdRef.current
+    if (!jobId) return
+    operation(jobId).catch(error => {
+      console.error('[SmartSync] Failed to update rename job:', error)
+    })
+  }
+
   // Select files from local file system
   const selectFiles = async () => {
     try {
       console.log('[SmartSync] Requesting file selection')
       
-      // @ts-ignore - File System Access API
+      // @ts-expect-error - File System Access API
       const fileHandles = await window.showOpenFilePicker({
         multiple: true
       })
       
-      const files: FileHandle[] = fileHandles.map((handle: any) => ({
+      const files: FileHandle[] = fileHandles.map((handle: FileSystemFileHandle) => ({
         name: handle.name,
         kind: 'file',
         path: handle.name,
@@ -154,7 +243,7 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
     try {
       console.log('[SmartSync] Requesting folder selection')
       
-      // @ts-ignore - File System Access API
+      // @ts-expect-error - File System Access API
       const dirHandle = await window.showDirectoryPicker({
         mode: 'read'
       })
@@ -193,9 +282,9 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
 
   // Recursively get files from directory
   const getFilesFromDirectory = async (
-    dirHandle: any, 
+    dirHandle: IterableDirectoryHandle, 
     path: string,
-    rootDirHandle?: any
+    rootDirHandle?: IterableDirectoryHandle
   ): Promise<FileHandle[]> => {
     const files: FileHandle[] = []
     
@@ -238,14 +327,52 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
     })
   }, [progress.totalFiles, progress.processedFiles])
 
-  // Analyze files using AI
+  const isNamingTemplateValid = (() => {
+    if (!namingTemplate) return true
+    try {
+      parseTemplate(namingTemplate.pattern)
+      return true
+    } catch {
+      return false
+    }
+  })()
+
+  // Analyze files using AI, recording the job so it can be resumed
   const analyzeFiles = async () => {
     if (selectedFiles.length === 0) {
       showToast.error('No files selected')
       return
     }
     
-    console.log('[SmartSync] Starting analysis of', selectedFiles.length, 'files')
+    const fileHandles = selectedFiles.filter(f => f.fileHandle)
+    
+    jobIdRef.current = null
+    if (isIndexedDBSupported()) {
+      try {
+        const job = await RenameJobStore.createJob({
+          workspaceId,
+          name: selectedFolder?.name || `${fileHandles.length} selected files`,
+          namingTemplate,
+          rootHandle: selectedFolder?.dirHandle,
+          files: fileHandles.map(f => ({ path: f.path, name: f.name, fileHandle: f.fileHandle! }))
+        })
+        jobIdRef.current = job.id
+      } catch (error) {
+        console.error('[SmartSync] Failed to create rename job:', error)
+      }
+    }
+    
+    await runAnalysis(fileHandles, new Map(), namingTemplate)
+  }
+
+  // Analyze every handle without a stored result. `completedItems` holds the
+  // results of a resumed job, which are shown without calling the AI again
+  const runAnalysis = async (
+    fileHandles: FileHandle[],
+    completedItems: Map<string, RenameJobItem>,
+    template: NamingTemplate | null
+  ) => {
+    console.log('[SmartSync] Starting analysis of', fileHandles.length, 'files')
     setIsAnalyzing(true)
     setShowResults(false)
     startTimeRef.current = Date.now()
@@ -253,8 +380,8 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
     
     // Initialize progress
     setProgress({
-      totalFiles: selectedFiles.length,
-      processedFiles: 0,
+      totalFiles: fileHandles.length,
+      processedFiles: completedItems.size,
       currentBatch: [],
       filesPerSecond: 0,
       estimatedTimeRemaining: 0,
@@ -263,19 +390,32 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
     
     try {
       // Convert FileHandle to File objects
-      const files: File[] = []
-      for (const fileHandle of selectedFiles) {
-        if (fileHandle.fileHandle) {
-          const file = await fileHandle.fileHandle.getFile()
-          files.push(file)
+      const entries: { handle: FileHandle; file: File }[] = []
+      let missingCount = 0
+      for (const fileHandle of fileHandles) {
+        if (!fileHandle.fileHandle) continue
+        try {
+          entries.push({ handle: fileHandle, file: await fileHandle.fileHandle.getFile() })
+        } catch (error) {
+          // Files moved or deleted since a resumed job was started
+          console.error('[SmartSync] Could not read', fileHandle.path, error)
+          missingCount++
         }
       }
       
-      if (files.length === 0) {
+      if (entries.length === 0) {
         showToast.error('No valid files to analyze')
         setIsAnalyzing(false)
         return
       }
+      if (missingCount > 0) {
+        showToast.warning(`${missingCount} file${missingCount > 1 ? 's' : ''} could no longer be found and ${missingCount > 1 ? 'were' : 'was'} skipped.`)
+      }
+      
+      const pending = entries.filter(entry => !completedItems.has(entry.handle.path))
+      const files = pending.map(entry => entry.file)
+      const pathByFile = new Map(pending.map(entry => [entry.file, entry.handle.path]))
+      const alreadyCompleted = entries.length - pending.length
       
       // Dynamically set concurrent workers based on file count
       const concurrentWorkers = Math.min(
@@ -286,42 +426,77 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
       console.log(`[SmartSync] Using ${concurrentWorkers} concurrent workers for ${files.length} files`)
       
       // Use SmartSyncProcessor for parallel processing
-      const processor = new SmartSyncProcessor(concurrentWorkers)
+      const processor = new SmartSyncProcessor(concurrentWorkers, {
+        namingTemplate: template ?? undefined,
+        workspaceId
+      })
       
-      const results = await processor.processBatch(files, (completed, total) => {
+      // Results are streamed back as each file finishes, in completion order
+      const finishedNames: string[] = []
+      const results = files.length === 0 ? [] : await processor.processBatchStreaming(files, (completed) => {
         processedCountRef.current = completed
         
         // Update progress
         setProgress(prev => ({
           ...prev,
-          processedFiles: completed,
-          individualProgress: new Map(
-            files.slice(0, completed).map(f => [f.name, 100])
-          )
+          processedFiles: alreadyCompleted + completed,
+          individualProgress: new Map(finishedNames.map(name => [name, 100])),
+          // Show the last 5 files that finished
+          currentBatch: finishedNames.slice(-5)
         }))
         
         updateProgressMetrics()
-        
-        // Update current batch (show last 5 processing files)
-        const currentBatchStart = Math.max(0, completed - 5)
-        const currentBatch = files.slice(currentBatchStart, completed).map(f => f.name)
-        setProgress(prev => ({ ...prev, currentBatch }))
+      }, (file, result) => {
+        finishedNames.push(file.name)
+        const path = pathByFile.get(file)
+        if (path) persistJob(jobId => RenameJobStore.recordResult(jobId, path, result))
       })
       
-      // Convert results to FileAnalysis format with file reference
-      const analyses: FileAnalysis[] = results.map((result, index) => ({
-        originalName: result.originalName,
-        suggestedName: result.suggestedName,
-        confidence: result.confidence,
-        reasoning: result.reasoning,
-        selected: true,
-        edited: false,
-        file: files[index]
-      }))
+      const resultByPath = new Map<string, AnalysisResult>(
+        pending.map((entry, index) => [entry.handle.path, results[index]])
+      )
+      
+      // Convert results to FileAnalysis format with file reference, keeping
+      // the decisions made before a resumed job was interrupted
+      const analyses: FileAnalysis[] = entries.map(({ handle, file }) => {
+        const stored = completedItems.get(handle.path)
+        if (stored) {
+          return {
+            originalName: stored.name,
+            suggestedName: stored.editedName ?? stored.suggestedName ?? stored.name,
+            aiSuggestedName: stored.suggestedName ?? stored.name,
+            confidence: stored.confidence ?? 0,
+            reasoning: stored.reasoning ?? '',
+            selected: stored.decision === 'accepted',
+            edited: stored.editedName !== undefined,
+            file,
+            error: stored.error,
+            path: handle.path
+          }
+        }
+        
+        const result = resultByPath.get(handle.path)!
+        return {
+          originalName: result.originalName,
+          suggestedName: result.suggestedName,
+          aiSuggestedName: result.suggestedName,
+          confidence: result.confidence,
+          reasoning: result.reasoning,
+          // Failed analyses are shown but not selected for download, and
+          // neither are ones below the user's auto-apply threshold
+          selected: !result.error && meetsAutoApplyThreshold(settings, result.confidence),
+          edited: false,
+          file,
+          error: result.error,
+          path: handle.path,
+          cached: result.cached
+        }
+      })
       
       console.log('[SmartSync] Analysis complete:', analyses.length, 'files analyzed')
       setFileAnalyses(analyses)
       setShowResults(true)
+      persistJob(jobId => RenameJobStore.updateJobStatus(jobId, 'reviewing'))
       
       // If folder reorganization is enabled, analyze folder structure
       if (reorganizeFolders && selectedFolder) {
@@ -338,7 +513,18 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
         console.log('[SmartSync] Folder structure analyzed:', structure)
       }
       
-      showToast.success('Analysis complete! Review the suggestions below.')
+      // Unchanged files analyzed before come back from the server's cache
+      const cachedCount = analyses.filter(a => a.cached).length
+      const cachedNote = cachedCount > 0
+        ? ` ${cachedCount} suggestion${cachedCount > 1 ? 's were' : ' was'} reused from earlier runs.`
+        : ''
+      
+      const failedCount = analyses.filter(a => a.error).length
+      if (failedCount > 0) {
+        showToast.warning(`Analysis complete, but ${failedCount} file${failedCount > 1 ? 's' : ''} could not be analyzed.${cachedNote}`)
+      } else {
+        showToast.success(`Analysis complete! Review the suggestions below.${cachedNote}`)
+      }
       
     } catch (error) {
       console.error('[SmartSync] Analysis error:', error)
@@ -348,8 +534,78 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
     }
   }
 
+  // Continue an interrupted job: files that already have a result keep it,
+  // only the remaining ones are sent for analysis
+  const resumeJob = async (job: RenameJobSummary) => {
+    try {
+      const items = await RenameJobStore.getItems(job.id)
+      const granted = await ensurePermission(
+        job.rootHandle ? [job.rootHandle] : items.map(item => item.fileHandle)
+      )
+      if (!granted) {
+        showToast.error('Permission to read the files is needed to resume this job')
+        return
+      }
+      
+      const handles: FileHandle[] = items.map(item => ({
+        name: item.name,
+        kind: 'file',
+        path: item.path,
+        fileHandle: item.fileHandle,
+        parentDirHandle: job.rootHandle
+      }))
+      
+      jobIdRef.current = job.id
+      setSelectedFiles(handles)
+      setSelectedFolder(job.rootHandle
+        ? { name: job.rootHandle.name, kind: 'directory', path: job.rootHandle.name, dirHandle: job.rootHandle }
+        : null)
+      templateTouchedRef.current = true
+      setNamingTemplate(job.namingTemplate)
+      setTemplatePickerKey(key => key + 1)
+      setPermissionGranted(true)
+      if (handles.length > 50) {
+        setUseSummaryView(true)
+      }
+      
+      const completedItems = new Map(
+        items.filter(item => item.status !== 'pending').map(item => [item.path, item])
+      )
+      await runAnalysis(handles, completedItems, job.namingTemplate)
+    } catch (error) {
+      console.error('[SmartSync] Failed to resume job:', error)
+      showToast.error('Failed to resume job')
+    }
+  }
+
+  const discardJob = async (jobId: string) => {
+    try {
+      await RenameJobStore.deleteJob(jobId)
+      setUnfinishedJobs(prev => prev.filter(job => job.id !== jobId))
+    } catch (error) {
+      console.error('[SmartSync] Failed to discard job:', error)
+      showToast.error('Failed to discard job')
+    }
+  }
+
+  // Store the review decisions for the given analyses
+  const persistDecisions = (analyses: FileAnalysis[]) => {
+    const decisions = analyses
+      .filter(analysis => analysis.path)
+      .map(analysis => ({
+        path: analysis.path!,
+        decision: analysis.selected ? 'accepted' as const : 'rejected' as const,
+        editedName: analysis.edited ? analysis.suggestedName : undefined
+      }))
+    if (decisions.length > 0) {
+      persistJob(jobId => RenameJobStore.recordDecisions(jobId, decisions))
+    }
+  }
+
   // Toggle file selection
   const toggleFileSelection = (index: number) => {
+    const analysis = fileAnalyses[index]
+    if (analysis) persistDecisions([{ ...analysis, selected: !analysis.selected }])
     setFileAnalyses(prev => prev.map((analysis, i) => 
       i === index ? { ...analysis, selected: !analysis.selected } : analysis
     ))
@@ -357,6 +613,8 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
 
   // Update suggested name
   const updateSuggestedName = (index: number, newName: string) => {
+    const analysis = fileAnalyses[index]
+    if (analysis) persistDecisions([{ ...analysis, suggestedName: newName, edited: true }])
     setFileAnalyses(prev => prev.map((analysis, i) => 
       i === index ? { ...analysis, suggestedName: newName, edited: true } : analysis
     ))
@@ -364,12 +622,186 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
 
   // Handle bulk selection changes from summary view
   const handleBulkSelectionChange = (indices: number[]) => {
+    const selected = new Set(indices)
+    persistDecisions(
+      fileAnalyses
+        .map((analysis, i) => ({ ...analysis, selected: selected.has(i) }))
+        .filter((analysis, i) => analysis.selected !== fileAnalyses[i].selected)
+    )
     setFileAnalyses(prev => prev.map((analysis, i) => ({
       ...analysis,
-      selected: indices.includes(i)
+      selected: selected.has(i)
     })))
   }
 
+  // Every suggestion's fate, for analytics and the naming examples
+  const recordDecisions = () => {
+    recordRenameDecisions(workspaceId, fileAnalyses
+      .filter(a => !a.error && a.aiSuggestedName !== a.originalName)
+      .map(a => ({
+        originalName: a.originalName,
+        suggestedName: a.aiSuggestedName,
+        finalName: a.selected ? a.suggestedName : a.originalName,
+        confidence: a.confidence,
+        decision: getSuggestionDecision(a.aiSuggestedName, a.suggestedName, a.selected)
+      })))
+      .catch(error => console.error('[SmartSync] Failed to record rename decisions:', error))
+  }
+
+  // Rename the selected files inside the chosen folder. Each applied rename
+  // is journaled as it happens so the whole sync can be undone; when an
+  // entry can't be written the rename is taken back and the batch stops
+  const renameInPlace = async () => {
+    const rootHandle = selectedFolder?.dirHandle
+    const selectedAnalyses = fileAnalyses.filter(
+      a => a.selected && !a.error && a.path && a.suggestedName !== a.originalName
+    )
+    if (!rootHandle || selectedAnalyses.length === 0) {
+      showToast.error('No files selected for renaming')
+      return
+    }
+    if (!isIndexedDBSupported()) {
+      showToast.error('Renames cannot be undone in this browser. Download the files instead.')
+      return
+    }
+    // One prompt for the folder covers every file below it
+    if (!(await ensurePermission([rootHandle], 'readwrite'))) {
+      showToast.error('Permission to modify the folder was denied')
+      return
+    }
+    
+    console.log('[SmartSync] Renaming', selectedAnalyses.length, 'files in place')
+    setIsRenaming(true)
+    
+    let renamed = 0
+    let skipped = 0
+    let failed = 0
+    // Set when journaling failed; `unrecorded` is a file left renamed without an entry
+    let journalFailure: { unrecorded: string | null } | null = null
+    try {
+      const sync = await RenameJournal.startSync(workspaceId, rootHandle)
+      
+      for (const analysis of selectedAnalyses) {
+        const originalPath = analysis.path!
+        const newPath = originalPath.slice(0, originalPath.lastIndexOf('/') + 1) + analysis.suggestedName
+        try {
+          const fileHandle = selectedFiles.find(f => f.path === originalPath)?.fileHandle as MovableFileHandle | undefined
+          if (!fileHandle) throw new Error('File handle not found')
+          
+          const directory = await getParentDirectory(rootHandle, originalPath)
+          if (await fileExists(directory, analysis.suggestedName)) {
+            console.warn('[SmartSync] Skipping', originalPath, '- a file named', analysis.suggestedName, 'already exists')
+            skipped++
+            continue
+          }
+          
+          // Fingerprint the content first so undo can tell if it changed later
+          const file = await fileHandle.getFile()
+          const sha256 = await computeSha256(file)
+          const fingerprint = {
+            originalPath,
+            newPath,
+            originalName: analysis.originalName,
+            newName: analysis.suggestedName,
+            size: file.size,
+            sha256,
+            originalDirHandle: directory
+          }
+          
+          let entry: Omit<RenameJournalEntry, 'id' | 'syncId' | 'sequence' | 'appliedAt'>
+          let revert: () => Promise<void>
+          if (typeof fileHandle.move === 'function') {
+            await fileHandle.move(directory, analysis.suggestedName)
+            entry = { ...fingerprint, operation: 'move', fileHandle }
+            revert = () => fileHandle.move!(directory, analysis.originalName)
+          } else {
+            // Without move(), save a renamed copy next to the original. The
+            // name was checked to be free, so undo may delete the copy
+            const copyHandle = await directory.getFileHandle(analysis.suggestedName, { create: true })
+            const writable = await copyHandle.createWritable()
+            await writable.write(file)
+            await writable.close()
+            entry = { ...fingerprint, operation: 'copy', fileHandle: copyHandle, createdTarget: true }
+            revert = () => directory.removeEntry(analysis.suggestedName)
+          }
+          
+          try {
+            await RenameJournal.record(sync.id, entry)
+          } catch (journalError) {
+            console.error('[SmartSync] Failed to journal rename of', originalPath, journalError)
+            const reverted = await revert().then(() => true, revertError => {
+              console.error('[SmartSync] Failed to revert unjournaled rename of', originalPath, revertError)
+              return false
+            })
+            journalFailure = { unrecorded: reverted ? null : originalPath }
+            break
+          }
+          renamed++
+        } catch (error) {
+          console.error('[SmartSync] Rename error for', originalPath, error)
+          failed++
+        }
+      }
+    } catch (error) {
+      console.error('[SmartSync] Failed to start rename journal:', error)
+      showToast.error('Rename history is unavailable, so no files were renamed')
+      setIsRenaming(false)
+      return
+    }
+    
+    setIsRenaming(false)
+    loadLastSync()
+    
+    if (journalFailure) {
+      const { unrecorded } = journalFailure
+      showToast.error(
+        `Rename history could not be saved, so renaming stopped after ${renamed} file${renamed === 1 ? '' : 's'}.` +
+        (unrecorded ? ` ${unrecorded} was renamed but cannot be undone.` : '')
+      )
+      return
+    }
+    if (renamed === 0) {
+      showToast.error(`No files were renamed (${skipped} skipped, ${failed} failed)`)
+      return
+    }
+    if (skipped > 0 || failed > 0) {
+      showToast.warning(`Renamed ${renamed} file${renamed === 1 ? '' : 's'}; ${skipped} skipped, ${failed} failed`)
+    } else {
+      showToast.success(`Renamed ${renamed} file${renamed === 1 ? '' : 's'} in place`)
+    }
+    persistJob(jobId => RenameJobStore.updateJobStatus(jobId, 'completed'))
+    recordDecisions()
+    resetSelection()
+  }
+
+  // Revert the most recent sync: moved files go back to their original name
+  // and folder, copies the sync created are deleted
+  const undoLastSync = async () => {
+    if (!lastSync) return
+    
+    setIsUndoing(true)
+    try {
+      const { restored, skipped } = await RenameJournal.undoSync(lastSync)
+      
+      if (skipped.length > 0) {
+        skipped.forEach(({ path, reason }) => console.warn('[SmartSync] Undo skipped', path, '-', reason))
+        showToast.warning(
+          `Restored ${restored} file${restored === 1 ? '' : 's'}; ${skipped.length} could not be restored (${skipped[0].reason}${skipped.length > 1 ? ', ...' : ''})`
+        )
+      } else {
+        showToast.success(`Restored ${restored} file${restored === 1 ? '' : 's'} to their original names`)
+      }
+      
+      onFilesRenamed?.()
+    } catch (error) {
+      console.error('[SmartSync] Undo error:', error)
+      showToast.error(error instanceof Error ? error.message : 'Failed to undo the last sync')
+    } finally {
+      setIsUndoing(false)
+      loadLastSync()
+    }
+  }
+
   // Download renamed files
   const downloadRenamedFiles = async () => {
     const selectedAnalyses = fileAnalyses.filter(a => a.selected)
@@ -439,6 +871,8 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
       
       setShowDownloadResults(true)
       showToast.success('Files downloaded successfully!')
+      persistJob(jobId => RenameJobStore.updateJobStatus(jobId, 'completed'))
+      recordDecisions()
       
       // Show delete confirmation dialog after successful download
       setTimeout(() => {
@@ -484,14 +918,15 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
       suggestedName: a.suggestedName,
       confidence: a.confidence,
       reasoning: a.reasoning,
-      selected: a.selected
+      selected: a.selected,
+      error: a.error?.category || ''
     }))
     
     if (format === 'csv') {
       const csv = [
-        'Original Name,Suggested Name,Confidence,Reasoning,Selected',
+        'Original Name,Suggested Name,Confidence,Reasoning,Selected,Error',
         ...data.map(d => 
-          `"${d.originalName}","${d.suggestedName}",${d.confidence},"${d.reasoning}",${d.selected}`
+          `"${d.originalName}","${d.suggestedName}",${d.confidence},"${d.reasoning}",${d.selected},${d.error}`
         )
       ].join('\n')
       
@@ -513,7 +948,6 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
     setFileAnalyses([])
     setShowResults(false)
     setShowDownloadResults(false)
-    setDownloadResults([])
     setPermissionGranted(false)
     setSelectedFolder(null)
     setFolderStructure(null)
@@ -528,6 +962,9 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
       individualProgress: new Map()
     })
     downloadedFilesRef.current = []
+    // An unfinished job stays listed and can still be resumed
+    jobIdRef.current = null
+    loadUnfinishedJobs()
     
     // Notify parent component
     onFilesRenamed?.()
@@ -552,17 +989,35 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
               Transform chaos into clarity with AI-powered file organization
             </p>
           </div>
-          {permissionGranted && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={resetSelection}
-              className="text-muted-foreground"
-            >
-              <RefreshCw className="h-4 w-4 mr-2" />
-              Reset
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {lastSync && !isRenaming && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={undoLastSync}
+                disabled={isUndoing}
+                title={`Undo ${lastSync.entryCount} rename${lastSync.entryCount === 1 ? '' : 's'} from ${new Date(lastSync.createdAt).toLocaleString()}`}
+              >
+                {isUndoing ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Undo2 className="h-4 w-4 mr-2" />
+                )}
+                Undo last sync
+              </Button>
+            )}
+            {permissionGranted && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={resetSelection}
+                className="text-muted-foreground"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Main Action Area */}
@@ -699,6 +1154,43 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
           </div>
         )}
 
+        {/* Unfinished jobs from earlier sessions */}
+        {!permissionGranted && !showResults && unfinishedJobs.length > 0 && (
+          <Card className="p-4 flex-shrink-0">
+            <div className="flex items-center gap-2 mb-3">
+              <History className="h-4 w-4 text-muted-foreground" />
+              <h3 className="text-sm font-medium">Unfinished jobs</h3>
+            </div>
+            <div className="space-y-2">
+              {unfinishedJobs.map(job => (
+                <div key={job.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{job.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {job.analyzedFiles} of {job.totalFiles} analyzed
+                      {job.failedFiles > 0 && ` · ${job.failedFiles} failed`}
+                      {' · '}
+                      {job.status === 'reviewing' ? 'awaiting review' : 'interrupted'}
+                      {' · '}
+                      {new Date(job.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" onClick={() => resumeJob(job)}>
+                      <Play className="h-3 w-3 mr-1" />
+                      Resume
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => discardJob(job.id)}>
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* File Selection Display */}
         {permissionGranted && !isAnalyzing && !showResults && !showDownloadResults && (
           <div className="flex-1 flex flex-col min-h-0 space-y-4">
@@ -735,7 +1227,7 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
               
               <Button 
                 onClick={analyzeFiles} 
-                disabled={selectedFiles.length === 0}
+                disabled={selectedFiles.length === 0 || !isNamingTemplateValid}
                 className="w-full sm:w-auto"
               >
                 <Sparkles className="h-4 w-4 mr-2" />
@@ -743,6 +1235,14 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
               </Button>
             </div>
             
+            <div className="flex-shrink-0">
+              <NamingTemplatePicker
+                key={templatePickerKey}
+                value={namingTemplate}
+                onChange={chooseNamingTemplate}
+              />
+            </div>
+            
             <div className="flex-1 min-h-0 overflow-hidden rounded-lg border bg-muted/20">
               <ScrollArea className="h-full w-full">
                 <div className="p-4">
@@ -844,7 +1344,7 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
 
             {/* File processing animation */}
             <div className="space-y-2">
-              <p className="text-xs text-center text-muted-foreground mb-2">Currently processing:</p>
+              <p className="text-xs text-center text-muted-foreground mb-2">Just analyzed:</p>
               <div className="flex flex-wrap gap-2 justify-center max-w-3xl mx-auto">
                 {progress.currentBatch.slice(-5).map((fileName, idx) => (
                   <Badge 
@@ -901,9 +1401,24 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
                     </Label>
                   </div>
                 )}
+                {selectedFolder?.dirHandle && (
+                  <Button
+                    variant="outline"
+                    onClick={renameInPlace}
+                    disabled={isRenaming || isDownloading || !fileAnalyses.some(a => a.selected)}
+                    className="text-xs md:text-sm"
+                  >
+                    {isRenaming ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Edit2 className="h-4 w-4 mr-2" />
+                    )}
+                    Rename in Place
+                  </Button>
+                )}
                 <Button
                   onClick={downloadRenamedFiles}
-                  disabled={isDownloading || !fileAnalyses.some(a => a.selected)}
+                  disabled={isDownloading || isRenaming || !fileAnalyses.some(a => a.selected)}
                   className="text-xs md:text-sm"
                 >
                   {isDownloading ? (
@@ -991,6 +1506,17 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
                               )}
                             </div>
                             
+                            {analysis.error && (
+                              <div
+                                className="flex items-center gap-1 mt-1 text-[10px] text-red-600 dark:text-red-400"
+                                title={analysis.error.message}
+                              >
+                                <XCircle className="h-3 w-3 flex-shrink-0" />
+                                <span className="font-medium">{analysis.error.category.replace('_', ' ')}</span>
+                                <span className="truncate">{analysis.error.message}</span>
+                              </div>
+                            )}
+                            
                             {/* Confidence and actions row */}
                             <div className="flex items-center gap-3 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
                               <div className="flex items-center gap-1">
@@ -1010,6 +1536,12 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
                                 </span>
                               </div>
                               
+                              {analysis.cached && (
+                                <Badge variant="outline" className="h-4 px-1 text-[10px]" title="Reused from an earlier analysis of the same content">
+                                  Cached
+                                </Badge>
+                              )}
+                              
                               {analysis.reasoning && (
                                 <span className="text-[10px] text-muted-foreground truncate flex-1" title={analysis.reasoning}>
                                   {analysis.reasoning}
@@ -1129,7 +1661,7 @@ export default function SmartSyncEnhanced({ workspaceId, onFilesRenamed }: Smart
                   <div className="flex-1">
                     <p className="text-sm font-medium">Delete original files (optional)</p>
                     <p className="text-xs text-muted-foreground">
-                      Once you're satisfied, you can delete the original files
+                      Once you&apos;re satisfied, you can delete the original files
                     </p>
                   </div>
                 </div>
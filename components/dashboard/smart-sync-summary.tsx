@@ -8,18 +8,15 @@ import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { 
-  BarChart3, 
-  Filter, 
   Search, 
   Download, 
   CheckCircle2,
-  AlertCircle,
   XCircle,
   FileText,
   TrendingUp,
   Layers
 } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import type { AnalysisFailure } from '@/utils/ai/analysis-schema'
 
 export interface FileAnalysisSummary {
   originalName: string
@@ -28,6 +25,7 @@ export interface FileAnalysisSummary {
   reasoning: string
   selected: boolean
   edited: boolean
+  error?: AnalysisFailure
 }
 
 interface SmartSyncSummaryProps {
@@ -59,9 +57,17 @@ export function SmartSyncSummary({
     const confidenceGroups = {
       high: analyses.filter(a => a.confidence >= 0.8),
       medium: analyses.filter(a => a.confidence >= 0.5 && a.confidence < 0.8),
-      low: analyses.filter(a => a.confidence < 0.5)
+      low: analyses.filter(a => a.confidence < 0.5 && !a.error)
     }
 
+    // Group failed analyses by error category
+    const failures = new Map<string, number>()
+    analyses.forEach(a => {
+      if (a.error) {
+        failures.set(a.error.category, (failures.get(a.error.category) || 0) + 1)
+      }
+    })
+
     // Find common patterns in suggestions
     const patterns = new Map<string, number>()
     analyses.forEach(a => {
@@ -87,6 +93,8 @@ export function SmartSyncSummary({
       selected: selected.length,
       avgConfidence,
       confidenceGroups,
+      failed: analyses.filter(a => a.error).length,
+      failures: Array.from(failures.entries()).sort((a, b) => b[1] - a[1]),
       patterns: Array.from(patterns.entries()).sort((a, b) => b[1] - a[1])
     }
   }, [analyses])
@@ -106,7 +114,7 @@ export function SmartSyncSummary({
       filtered = filtered.filter(a => {
         if (selectedConfidenceFilter === 'high') return a.confidence >= 0.8
         if (selectedConfidenceFilter === 'medium') return a.confidence >= 0.5 && a.confidence < 0.8
-        if (selectedConfidenceFilter === 'low') return a.confidence < 0.5
+        if (selectedConfidenceFilter === 'low') return a.confidence < 0.5 && !a.error
         return true
       })
     }
@@ -137,7 +145,7 @@ export function SmartSyncSummary({
         break
       case 'low':
         indicesToSelect = analyses
-          .map((a, i) => a.confidence < 0.5 ? i : -1)
+          .map((a, i) => a.confidence < 0.5 && !a.error ? i : -1)
           .filter(i => i !== -1)
         break
     }
@@ -225,7 +233,7 @@ export function SmartSyncSummary({
       </div>
 
       {/* Tabs */}
-      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)}>
+      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as typeof activeTab)}>
         <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="byConfidence">By Confidence</TabsTrigger>
@@ -259,6 +267,23 @@ export function SmartSyncSummary({
             </div>
           </Card>
 
+          {/* Failed analyses by category */}
+          {stats.failed > 0 && (
+            <Card className="p-3 border-red-500/20 bg-red-500/5">
+              <h4 className="text-sm font-semibold mb-2 flex items-center gap-1">
+                <XCircle className="h-3.5 w-3.5 text-red-500" />
+                {stats.failed} Failed
+              </h4>
+              <div className="flex flex-wrap gap-1">
+                {stats.failures.map(([category, count]) => (
+                  <Badge key={category} variant="outline" className="text-xs h-5">
+                    {category.replace('_', ' ')}: {count}
+                  </Badge>
+                ))}
+              </div>
+            </Card>
+          )}
+
           {/* Compact Confidence Stats */}
           <Card className="p-3">
             <h4 className="text-sm font-semibold mb-2">Confidence Distribution</h4>
@@ -3,7 +3,6 @@
 import { useState, useRef, useCallback } from 'react'
 import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
@@ -27,6 +26,8 @@ import {
 import { cn } from '@/lib/utils'
 import { showToast } from '@/utils/toast-helper'
 import { SmartSyncProcessor } from '@/utils/smart-sync-processor'
+import type { MovableFileHandle } from '@/utils/rename-journal'
+import type { IterableDirectoryHandle } from '@/utils/file-system-permissions'
 
 interface SmartSyncProps {
   workspaceId: string
@@ -67,7 +68,7 @@ interface ProgressState {
   individualProgress: Map<string, number>
 }
 
-export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProps) {
+export default function SmartSync({ onFilesRenamed }: SmartSyncProps) {
   const [permissionGranted, setPermissionGranted] = useState(false)
   const [selectedFiles, setSelectedFiles] = useState<FileHandle[]>([])
   const [fileAnalyses, setFileAnalyses] = useState<FileAnalysis[]>([])
@@ -93,12 +94,12 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
     try {
       console.log('[SmartSync] Requesting file selection')
       
-      // @ts-ignore - File System Access API
+      // @ts-expect-error - File System Access API
       const fileHandles = await window.showOpenFilePicker({
         multiple: true
       })
       
-      const files: FileHandle[] = fileHandles.map((handle: any) => ({
+      const files: FileHandle[] = fileHandles.map((handle: FileSystemFileHandle) => ({
         name: handle.name,
         kind: 'file',
         path: handle.name,
@@ -124,7 +125,7 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
     try {
       console.log('[SmartSync] Requesting folder selection')
       
-      // @ts-ignore - File System Access API
+      // @ts-expect-error - File System Access API
       const dirHandle = await window.showDirectoryPicker({
         mode: 'read'
       })
@@ -149,9 +150,9 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
 
   // Recursively get files from directory
   const getFilesFromDirectory = async (
-    dirHandle: any, 
+    dirHandle: IterableDirectoryHandle, 
     path: string,
-    rootDirHandle?: any
+    rootDirHandle?: IterableDirectoryHandle
   ): Promise<FileHandle[]> => {
     const files: FileHandle[] = []
     
@@ -244,7 +245,7 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
       // Use SmartSyncProcessor for parallel processing
       const processor = new SmartSyncProcessor(concurrentWorkers)
       
-      const results = await processor.processBatch(files, (completed, total) => {
+      const results = await processor.processBatch(files, (completed) => {
         processedCountRef.current = completed
         
         // Update progress
@@ -265,12 +266,12 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
       })
       
       // Convert results to FileAnalysis format
-      const analyses: FileAnalysis[] = results.map((result, index) => ({
+      const analyses: FileAnalysis[] = results.map((result) => ({
         originalName: result.originalName,
         suggestedName: result.suggestedName,
         confidence: result.confidence,
         reasoning: result.reasoning,
-        selected: true,
+        selected: !result.error,
         edited: false
       }))
       
@@ -303,7 +304,7 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
   }
 
   // Check if browser supports file move/rename
-  const checkMoveSupport = async (fileHandle: any): Promise<boolean> => {
+  const checkMoveSupport = async (fileHandle: FileSystemFileHandle): Promise<boolean> => {
     try {
       // Check if the move method exists and works
       if ('move' in fileHandle && typeof fileHandle.move === 'function') {
@@ -362,7 +363,7 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
           if (canUseMove && fileHandleInfo.parentDirHandle) {
             try {
               // Attempt to move/rename the file in place
-              await fileHandleInfo.fileHandle.move(fileHandleInfo.parentDirHandle, analysis.suggestedName)
+              await (fileHandleInfo.fileHandle as MovableFileHandle).move!(fileHandleInfo.parentDirHandle, analysis.suggestedName)
               console.log('[SmartSync] Successfully renamed in place:', analysis.originalName, '->', analysis.suggestedName)
               successCount++
               results.push({
@@ -372,7 +373,7 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
                 newLocation: 'Renamed in place'
               })
               continue
-            } catch (moveError: any) {
+            } catch (moveError) {
               console.warn('[SmartSync] Move failed, falling back to save dialog:', moveError)
               // Fall through to save dialog approach
             }
@@ -389,7 +390,11 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
           
           try {
             // Create save options
-            const saveOptions: any = {
+            const saveOptions: {
+              suggestedName: string
+              types?: { description: string; accept: Record<string, string[]> }[]
+              startIn?: FileSystemDirectoryHandle
+            } = {
               suggestedName: analysis.suggestedName,
             }
             
@@ -407,7 +412,7 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
             }
             
             // Show save file picker
-            // @ts-ignore - File System Access API
+            // @ts-expect-error - File System Access API
             const newFileHandle = await window.showSaveFilePicker(saveOptions)
             
             // Write content to the new file
@@ -424,8 +429,8 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
               newLocation: 'Saved to new location'
             })
             
-          } catch (saveError: any) {
-            if (saveError.name === 'AbortError') {
+          } catch (saveError) {
+            if (saveError instanceof DOMException && saveError.name === 'AbortError') {
               console.log('[SmartSync] User cancelled save for:', analysis.originalName)
               skipCount++
               results.push({
@@ -1077,7 +1082,7 @@ export default function SmartSync({ workspaceId, onFilesRenamed }: SmartSyncProp
                     <p className="text-sm font-medium">Manual Cleanup Required</p>
                     <p className="text-xs text-muted-foreground">
                       Some files were saved to new locations. The original files remain in place and need to be deleted manually.
-                      Use the "Copy List" button to get a list of files that were successfully renamed.
+                      Use the &quot;Copy List&quot; button to get a list of files that were successfully renamed.
                     </p>
                   </div>
                 </div>
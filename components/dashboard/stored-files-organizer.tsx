@@ -0,0 +1,451 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Sparkles, Loader2, AlertCircle, FolderInput, Tag, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { ProgressToast } from '@/components/ui/progress-toast'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { Tables } from '@/utils/supabase/database.types'
+import { SmartSyncProcessor } from '@/utils/smart-sync-processor'
+import { FolderReorganizer } from '@/utils/folder-reorganizer'
+import type { AnalysisResult } from '@/utils/ai/analysis-schema'
+import type { NamingTemplate } from '@/utils/ai/naming-template'
+import { NamingTemplatePicker } from './naming-template-picker'
+import { addTagsToNodes, ensureFolderPath, moveNodes, renameNodes } from '@/app/dashboard/file-organizer/actions'
+import { recordRenameDecisions } from '@/app/dashboard/analytics/actions'
+import { getSuggestionDecision } from '@/utils/analytics'
+import { meetsAutoApplyThreshold } from '@/utils/user-settings'
+import { useUserSettings } from '@/hooks/use-user-settings'
+import { cn } from '@/lib/utils'
+
+type Node = Tables<'nodes'>
+
+interface StoredFilesOrganizerProps {
+  isOpen: boolean
+  onClose: () => void
+  workspaceId: string
+  folder: Node | null
+  nodes: Node[]
+  onApplied: () => void
+}
+
+interface StoredFileAnalysis {
+  node: Node
+  // Folder path relative to the selected folder, empty for direct children
+  relativePath: string
+  result: AnalysisResult
+  selected: boolean
+  name: string
+  // Target folder below the selected folder when reorganizing
+  targetPath?: string
+  // Suggested tags the file doesn't carry yet
+  tags: string[]
+}
+
+// Files below a folder, with their path relative to it
+function collectFiles(folder: Node, nodes: Node[]): { node: Node; relativePath: string }[] {
+  const files: { node: Node; relativePath: string }[] = []
+  const visit = (parentId: string, path: string) => {
+    for (const child of nodes.filter(n => n.parent_id === parentId)) {
+      if (child.node_type === 'file') {
+        files.push({ node: child, relativePath: path })
+      } else {
+        visit(child.id, path ? `${path}/${child.name}` : child.name)
+      }
+    }
+  }
+  visit(folder.id, '')
+  return files
+}
+
+// Run Smart Sync on files already uploaded to a workspace. Content is read
+// from storage by the route; approved changes go through the node actions
+export function StoredFilesOrganizer({
+  isOpen,
+  onClose,
+  workspaceId,
+  folder,
+  nodes,
+  onApplied
+}: StoredFilesOrganizerProps) {
+  const { settings, isLoaded: settingsLoaded } = useUserSettings()
+  const [namingTemplate, setNamingTemplate] = useState<NamingTemplate | null>(null)
+  // Bumped when the settings default is applied, so the picker re-reads it
+  const [templatePickerKey, setTemplatePickerKey] = useState(0)
+  // Set once the user picks a template, which the settings default must not replace
+  const templateTouchedRef = useRef(false)
+  const [reorganizeFolders, setReorganizeFolders] = useState(false)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [analyses, setAnalyses] = useState<StoredFileAnalysis[] | null>(null)
+
+  useEffect(() => {
+    if (!settingsLoaded || templateTouchedRef.current) return
+    setNamingTemplate(settings.namingTemplate)
+    setTemplatePickerKey(key => key + 1)
+  }, [settings, settingsLoaded])
+
+  const chooseNamingTemplate = (template: NamingTemplate | null) => {
+    templateTouchedRef.current = true
+    setNamingTemplate(template)
+  }
+
+  const files = useMemo(() => (folder ? collectFiles(folder, nodes) : []), [folder, nodes])
+  const selectedCount = analyses?.filter(a => a.selected).length ?? 0
+
+  const resetState = () => {
+    setIsAnalyzing(false)
+    setIsApplying(false)
+    setProgress(0)
+    setAnalyses(null)
+  }
+
+  const handleClose = () => {
+    if (isAnalyzing || isApplying) return
+    onClose()
+    resetState()
+  }
+
+  const analyze = async () => {
+    if (!folder || files.length === 0) return
+
+    setIsAnalyzing(true)
+    setProgress(0)
+
+    try {
+      const processor = new SmartSyncProcessor(3, {
+        namingTemplate: namingTemplate ?? undefined,
+        workspaceId
+      })
+      const results = await processor.processStoredNodes(
+        files.map(({ node }) => ({ id: node.id, name: node.name })),
+        (completed, total) => setProgress(Math.round((completed / total) * 100))
+      )
+
+      const next: StoredFileAnalysis[] = files.map(({ node, relativePath }, index) => ({
+        node,
+        relativePath,
+        result: results[index],
+        selected: false,
+        name: results[index].suggestedName,
+        tags: results[index].suggestedTags.filter(tag =>
+          !node.tags.some(existing => existing.toLowerCase() === tag.toLowerCase())
+        )
+      }))
+
+      if (reorganizeFolders) {
+        // Group by category (and year for large groups) the same way local
+        // folders are reorganized, then drop the synthetic root folder
+        const structure = FolderReorganizer.analyzeFolderStructure(next.map(analysis => ({
+          name: analysis.node.name,
+          suggestedName: analysis.name,
+          type: analysis.node.mime_type || '',
+          size: analysis.node.size || 0,
+          extension: analysis.name.split('.').pop() || '',
+          metadata: { nodeId: analysis.node.id }
+        })))
+        for (const [path, infos] of Object.entries(FolderReorganizer.flattenStructure(structure))) {
+          const targetPath = path.split('/').slice(1).join('/')
+          for (const info of infos) {
+            const analysis = next.find(a => a.node.id === info.metadata?.nodeId)
+            if (analysis) analysis.targetPath = targetPath
+          }
+        }
+      }
+
+      // Preselect every file that would actually change, unless the
+      // suggestion is below the user's auto-apply threshold
+      for (const analysis of next) {
+        const moves = analysis.targetPath !== undefined && analysis.targetPath !== analysis.relativePath
+        analysis.selected = !analysis.result.error &&
+          meetsAutoApplyThreshold(settings, analysis.result.confidence) &&
+          (analysis.name !== analysis.node.name || moves || analysis.tags.length > 0)
+      }
+
+      setAnalyses(next)
+
+      const failedCount = next.filter(a => a.result.error).length
+      if (failedCount > 0) {
+        toast(
+          <SimpleToast
+            message={`Analysis complete, but ${failedCount} file${failedCount > 1 ? 's' : ''} could not be analyzed`}
+            type="error"
+          />,
+          { duration: 4000 }
+        )
+      }
+    } catch (error) {
+      console.error('[StoredFilesOrganizer] Analysis failed:', error)
+      toast(
+        <SimpleToast
+          message={error instanceof Error ? error.message : 'Failed to analyze files'}
+          type="error"
+        />,
+        { duration: 4000 }
+      )
+    } finally {
+      setIsAnalyzing(false)
+    }
+  }
+
+  const updateAnalysis = (nodeId: string, update: Partial<StoredFileAnalysis>) => {
+    setAnalyses(prev => prev?.map(a => (a.node.id === nodeId ? { ...a, ...update } : a)) ?? null)
+  }
+
+  const apply = async () => {
+    if (!folder || !analyses) return
+    const approved = analyses.filter(a => a.selected)
+    if (approved.length === 0) return
+
+    setIsApplying(true)
+    const toastId = `organize-${folder.id}`
+    toast(
+      <ProgressToast message="Applying changes..." progress={10} />,
+      { id: toastId, duration: Infinity }
+    )
+
+    try {
+      const renames = approved
+        .filter(a => a.name.trim() && a.name.trim() !== a.node.name)
+        .map(a => ({ nodeId: a.node.id, name: a.name }))
+      const renamed = await renameNodes(renames)
+      const adjustedCount = renamed.filter(r => r.adjusted).length
+
+      // Every suggested name counts toward the approval rate, including the
+      // ones left unselected
+      await recordRenameDecisions(workspaceId, analyses
+        .filter(a => !a.result.error && a.result.suggestedName !== a.node.name)
+        .map(a => ({
+          nodeId: a.node.id,
+          originalName: a.node.name,
+          suggestedName: a.result.suggestedName,
+          finalName: a.selected ? a.name : a.node.name,
+          confidence: a.result.confidence,
+          decision: getSuggestionDecision(a.result.suggestedName, a.name, a.selected)
+        })))
+
+      // Moves are grouped by target folder; folders are created as needed
+      const byTarget = new Map<string, string[]>()
+      for (const analysis of approved) {
+        if (analysis.targetPath === undefined || analysis.targetPath === analysis.relativePath) continue
+        const ids = byTarget.get(analysis.targetPath) ?? []
+        ids.push(analysis.node.id)
+        byTarget.set(analysis.targetPath, ids)
+      }
+
+      // Tags are added per tag so files sharing one take a single call
+      const byTag = new Map<string, string[]>()
+      for (const analysis of approved) {
+        for (const tag of analysis.tags) {
+          const ids = byTag.get(tag) ?? []
+          ids.push(analysis.node.id)
+          byTag.set(tag, ids)
+        }
+      }
+
+      let tagged = 0
+      for (const [tag, nodeIds] of byTag) {
+        await addTagsToNodes(nodeIds, [tag])
+        tagged += nodeIds.length
+      }
+
+      let moved = 0
+      for (const [targetPath, nodeIds] of byTarget) {
+        const segments = targetPath.split('/').filter(Boolean)
+        const targetId = await ensureFolderPath(workspaceId, folder.id, segments)
+        await moveNodes(nodeIds, targetId)
+        moved += nodeIds.length
+        toast(
+          <ProgressToast
+            message="Moving files..."
+            progress={10 + (moved / approved.length) * 90}
+          />,
+          { id: toastId, duration: Infinity }
+        )
+      }
+
+      const parts = [`Renamed ${renamed.length} file${renamed.length === 1 ? '' : 's'}`]
+      if (moved > 0) parts.push(`moved ${moved}`)
+      if (tagged > 0) parts.push(`added ${tagged} tag${tagged === 1 ? '' : 's'}`)
+      if (adjustedCount > 0) parts.push(`${adjustedCount} adjusted to avoid name conflicts`)
+      toast(
+        <SimpleToast message={parts.join(', ')} type="success" />,
+        { id: toastId, duration: 4000 }
+      )
+
+      onApplied()
+      onClose()
+      resetState()
+    } catch (error) {
+      console.error('[StoredFilesOrganizer] Failed to apply changes:', error)
+      toast(
+        <SimpleToast
+          message={error instanceof Error ? error.message : 'Failed to apply changes'}
+          type="error"
+        />,
+        { id: toastId, duration: 4000 }
+      )
+      // Some changes may have been applied before the failure
+      onApplied()
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Organize &ldquo;{folder?.name}&rdquo;
+          </DialogTitle>
+          <DialogDescription>
+            {files.length} file{files.length === 1 ? '' : 's'} in this folder will be analyzed from
+            their stored copies. Nothing changes until you apply the suggestions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!analyses ? (
+          <div className="space-y-4">
+            <NamingTemplatePicker
+              key={templatePickerKey}
+              value={namingTemplate}
+              onChange={chooseNamingTemplate}
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id="stored-reorganize"
+                checked={reorganizeFolders}
+                onCheckedChange={setReorganizeFolders}
+                disabled={isAnalyzing}
+              />
+              <Label htmlFor="stored-reorganize" className="text-sm">
+                Also sort files into subfolders by type
+              </Label>
+            </div>
+            {isAnalyzing && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Analyzing files...</span>
+                  <span className="font-medium">{progress}%</span>
+                </div>
+                <Progress value={progress} className="h-2" />
+              </div>
+            )}
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[50vh] pr-3">
+            <div className="space-y-2">
+              {analyses.map(analysis => (
+                <div
+                  key={analysis.node.id}
+                  className={cn(
+                    'flex items-start gap-3 rounded-lg border p-3',
+                    analysis.result.error && 'border-red-200 bg-red-50/50 dark:border-red-900 dark:bg-red-950/20'
+                  )}
+                >
+                  <Checkbox
+                    checked={analysis.selected}
+                    disabled={!!analysis.result.error || isApplying}
+                    onCheckedChange={(checked) => updateAnalysis(analysis.node.id, { selected: checked === true })}
+                    className="mt-1.5"
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-xs text-muted-foreground truncate">
+                      {analysis.relativePath ? `${analysis.relativePath}/` : ''}{analysis.node.name}
+                    </p>
+                    {analysis.result.error ? (
+                      <p className="text-sm text-red-600 flex items-center gap-1">
+                        <AlertCircle className="h-3 w-3" />
+                        {analysis.result.error.message}
+                      </p>
+                    ) : (
+                      <>
+                        <Input
+                          value={analysis.name}
+                          onChange={(e) => updateAnalysis(analysis.node.id, { name: e.target.value })}
+                          disabled={isApplying}
+                          className="h-8 text-sm"
+                        />
+                        <p className="text-xs text-muted-foreground">{analysis.result.reasoning}</p>
+                        {analysis.tags.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Tag className="h-3 w-3 text-muted-foreground" />
+                            {analysis.tags.map(tag => (
+                              <Badge key={tag} variant="outline" className="gap-1 pr-1 font-normal">
+                                {tag}
+                                <button
+                                  className="rounded-sm hover:bg-accent"
+                                  onClick={() => updateAnalysis(analysis.node.id, {
+                                    tags: analysis.tags.filter(t => t !== tag)
+                                  })}
+                                  disabled={isApplying}
+                                  aria-label={`Don't add ${tag}`}
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+                    {analysis.targetPath !== undefined && analysis.targetPath !== analysis.relativePath && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <FolderInput className="h-3 w-3" />
+                        {folder?.name}/{analysis.targetPath}
+                      </p>
+                    )}
+                  </div>
+                  {!analysis.result.error && (
+                    <Badge variant="secondary" className="shrink-0">
+                      {Math.round(analysis.result.confidence * 100)}%
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isAnalyzing || isApplying}>
+            Cancel
+          </Button>
+          {!analyses ? (
+            <Button onClick={analyze} disabled={isAnalyzing || files.length === 0}>
+              {isAnalyzing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Sparkles className="h-4 w-4 mr-2" />
+              )}
+              Analyze {files.length} file{files.length === 1 ? '' : 's'}
+            </Button>
+          ) : (
+            <Button onClick={apply} disabled={isApplying || selectedCount === 0}>
+              {isApplying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Apply {selectedCount} change{selectedCount === 1 ? '' : 's'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
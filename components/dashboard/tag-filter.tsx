@@ -0,0 +1,225 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { Edit, Tag, Trash2, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { Tables } from '@/utils/supabase/database.types'
+import { deleteTag, renameTag } from '@/app/dashboard/file-organizer/actions'
+
+type Node = Tables<'nodes'>
+
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+// Tags in use across the given nodes, most used first
+export function countTags(nodes: Node[]): TagCount[] {
+  const counts = new Map<string, TagCount>()
+  for (const tag of nodes.flatMap(node => node.tags)) {
+    const key = tag.toLowerCase()
+    const entry = counts.get(key)
+    if (entry) {
+      entry.count++
+    } else {
+      counts.set(key, { tag, count: 1 })
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
+
+export function hasAllTags(node: Node, tags: string[]): boolean {
+  const nodeTags = new Set(node.tags.map(tag => tag.toLowerCase()))
+  return tags.every(tag => nodeTags.has(tag.toLowerCase()))
+}
+
+// Nodes carrying every selected tag, together with their ancestors and descendants
+// so the matches keep their place in the tree
+export function filterNodesByTags(nodes: Node[], tags: string[]): Node[] {
+  if (tags.length === 0) return nodes
+
+  const nodesById = new Map(nodes.map(node => [node.id, node]))
+  const matches = nodes.filter(node => hasAllTags(node, tags))
+  const matchIds = new Set(matches.map(node => node.id))
+
+  const visible = new Set(matchIds)
+  for (const node of matches) {
+    for (let parentId = node.parent_id; parentId; parentId = nodesById.get(parentId)?.parent_id ?? null) {
+      visible.add(parentId)
+    }
+  }
+  for (const node of nodes) {
+    for (let parentId = node.parent_id; parentId; parentId = nodesById.get(parentId)?.parent_id ?? null) {
+      if (matchIds.has(parentId)) {
+        visible.add(node.id)
+        break
+      }
+    }
+  }
+
+  return nodes.filter(node => visible.has(node.id))
+}
+
+interface TagFilterProps {
+  workspaceId: string
+  tagCounts: TagCount[]
+  selected: string[]
+  onChange: (tags: string[]) => void
+  onChanged: () => void
+}
+
+// Header button listing the workspace's tags to filter by, rename or delete
+export function TagFilter({ workspaceId, tagCounts, selected, onChange, onChanged }: TagFilterProps) {
+  const [open, setOpen] = useState(false)
+  const selectedKeys = useMemo(() => new Set(selected.map(tag => tag.toLowerCase())), [selected])
+
+  const toggle = (tag: string) => {
+    onChange(selectedKeys.has(tag.toLowerCase())
+      ? selected.filter(t => t.toLowerCase() !== tag.toLowerCase())
+      : [...selected, tag])
+  }
+
+  const handleRename = async (tag: string) => {
+    const newTag = prompt(`Rename tag "${tag}" to:`, tag)?.trim()
+    if (!newTag || newTag === tag) return
+
+    try {
+      const updated = await renameTag(workspaceId, tag, newTag)
+      if (selectedKeys.has(tag.toLowerCase())) {
+        onChange(selected.map(t => (t.toLowerCase() === tag.toLowerCase() ? newTag : t)))
+      }
+      toast(
+        <SimpleToast message={`Renamed "${tag}" on ${updated} item${updated === 1 ? '' : 's'}`} type="success" />,
+        { duration: 4000 }
+      )
+      onChanged()
+    } catch (error) {
+      console.error('Failed to rename tag:', error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : 'Failed to rename tag'} type="error" />,
+        { duration: 4000 }
+      )
+    }
+  }
+
+  const handleDelete = async (tag: string, count: number) => {
+    if (!confirm(`Remove the tag "${tag}" from ${count} item${count === 1 ? '' : 's'}?`)) return
+
+    try {
+      await deleteTag(workspaceId, tag)
+      onChange(selected.filter(t => t.toLowerCase() !== tag.toLowerCase()))
+      toast(<SimpleToast message={`Deleted tag "${tag}"`} type="success" />, { duration: 4000 })
+      onChanged()
+    } catch (error) {
+      console.error('Failed to delete tag:', error)
+      toast(
+        <SimpleToast message={error instanceof Error ? error.message : 'Failed to delete tag'} type="error" />,
+        { duration: 4000 }
+      )
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className={cn(
+            "transition-all duration-200 hover:scale-110 active:scale-95",
+            selected.length > 0 && "text-primary"
+          )}
+          title="Tags"
+        >
+          <Tag className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-2">
+        <div className="flex items-center justify-between px-2 pb-2">
+          <span className="text-sm font-medium">Filter by tags</span>
+          {selected.length > 0 && (
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => onChange([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+        {tagCounts.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-muted-foreground">
+            No tags yet. Right-click a file or folder to add some.
+          </p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto">
+            {tagCounts.map(({ tag, count }) => (
+              <div key={tag} className="group flex items-center gap-2 rounded px-2 py-1 hover:bg-accent">
+                <Checkbox
+                  id={`tag-filter-${tag}`}
+                  checked={selectedKeys.has(tag.toLowerCase())}
+                  onCheckedChange={() => toggle(tag)}
+                />
+                <label htmlFor={`tag-filter-${tag}`} className="flex-1 truncate text-sm cursor-pointer">
+                  {tag}
+                </label>
+                <span className="text-xs text-muted-foreground">{count}</span>
+                <button
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                  onClick={() => handleRename(tag)}
+                  title="Rename tag"
+                >
+                  <Edit className="h-3 w-3" />
+                </button>
+                <button
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(tag, count)}
+                  title="Delete tag"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+interface ActiveTagFiltersProps {
+  selected: string[]
+  onChange: (tags: string[]) => void
+}
+
+// Chips of the tags currently filtering the tree
+export function ActiveTagFilters({ selected, onChange }: ActiveTagFiltersProps) {
+  if (selected.length === 0) return null
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-1.5 px-2">
+      <span className="text-xs text-muted-foreground">Tagged</span>
+      {selected.map(tag => (
+        <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+          {tag}
+          <button
+            className="rounded-sm hover:bg-background/60"
+            onClick={() => onChange(selected.filter(t => t !== tag))}
+            aria-label={`Stop filtering by ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <button className="text-xs text-muted-foreground hover:text-foreground" onClick={() => onChange([])}>
+        Clear
+      </button>
+    </div>
+  )
+}
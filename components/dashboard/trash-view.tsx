@@ -0,0 +1,284 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { File, Folder, Layers, Loader2, RotateCcw, Trash2 } from 'lucide-react'
+import {
+  emptyTrash,
+  getDeletedWorkspaces,
+  getTrash,
+  permanentlyDeleteNodes,
+  purgeExpiredTrash,
+  restoreNodes,
+  restoreWorkspace
+} from '@/app/dashboard/file-organizer/actions'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+
+type TrashEntry = Awaited<ReturnType<typeof getTrash>>[number]
+type DeletedWorkspace = Awaited<ReturnType<typeof getDeletedWorkspaces>>[number]
+
+interface TrashViewProps {
+  workspaceId: string
+  onChanged: () => void
+}
+
+// What the confirmation dialog is about to delete for good
+type PendingDelete = { kind: 'entry'; entry: TrashEntry } | { kind: 'all' }
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString()
+}
+
+export function TrashView({ workspaceId, onChanged }: TrashViewProps) {
+  const router = useRouter()
+  const [entries, setEntries] = useState<TrashEntry[]>([])
+  const [workspaces, setWorkspaces] = useState<DeletedWorkspace[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null)
+
+  const loadTrash = useCallback(async () => {
+    // Expired entries are deleted for good before the rest are listed; a
+    // failed purge only leaves them in the trash a while longer
+    await purgeExpiredTrash().catch(error => console.error('Failed to purge expired trash:', error))
+    try {
+      const [trash, deletedWorkspaces] = await Promise.all([
+        getTrash(workspaceId),
+        getDeletedWorkspaces()
+      ])
+      setEntries(trash)
+      setWorkspaces(deletedWorkspaces)
+    } catch (error) {
+      console.error('Failed to load trash:', error)
+      toast(<SimpleToast message="Failed to load trash" type="error" />, { duration: 4000 })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    setIsLoading(true)
+    loadTrash()
+  }, [loadTrash])
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setBusyId(entry.id)
+    try {
+      const [result] = await restoreNodes([entry.id])
+
+      let message = `Restored "${entry.name}"`
+      if (result?.movedToRoot) {
+        message = `Restored "${result.newName}" to the workspace root, its folder is in the trash`
+      } else if (result?.adjusted) {
+        message = `Restored as "${result.newName}", the original name is taken`
+      }
+      toast(
+        <SimpleToast message={message} type={result?.adjusted || result?.movedToRoot ? 'info' : 'success'} />,
+        { duration: 4000 }
+      )
+
+      await loadTrash()
+      onChanged()
+    } catch (error) {
+      console.error('Failed to restore:', error)
+      toast(<SimpleToast message={`Failed to restore "${entry.name}"`} type="error" />, { duration: 4000 })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRestoreWorkspace = async (workspace: DeletedWorkspace) => {
+    setBusyId(workspace.id)
+    try {
+      await restoreWorkspace(workspace.id)
+      toast(<SimpleToast message={`Restored workspace "${workspace.name}"`} type="success" />, { duration: 4000 })
+      await loadTrash()
+      router.refresh()
+    } catch (error) {
+      console.error('Failed to restore workspace:', error)
+      toast(<SimpleToast message={`Failed to restore "${workspace.name}"`} type="error" />, { duration: 4000 })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return
+
+    const target = pendingDelete
+    setPendingDelete(null)
+    setBusyId(target.kind === 'entry' ? target.entry.id : 'all')
+
+    try {
+      if (target.kind === 'entry') {
+        await permanentlyDeleteNodes([target.entry.id])
+      } else {
+        await emptyTrash(workspaceId)
+      }
+      toast(
+        <SimpleToast
+          message={target.kind === 'entry' ? `Deleted "${target.entry.name}" forever` : 'Trash emptied'}
+          type="success"
+        />,
+        { duration: 4000 }
+      )
+      await loadTrash()
+    } catch (error) {
+      console.error('Failed to delete permanently:', error)
+      toast(<SimpleToast message="Failed to delete permanently" type="error" />, { duration: 4000 })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 px-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading trash...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground px-2">
+          The trash is empty.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between px-2">
+            <p className="text-xs text-muted-foreground">
+              {entries.length} {entries.length === 1 ? 'item' : 'items'} in trash
+            </p>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-destructive hover:text-destructive"
+              onClick={() => setPendingDelete({ kind: 'all' })}
+              disabled={busyId !== null}
+            >
+              Empty trash
+            </Button>
+          </div>
+
+          <div className="space-y-1">
+            {entries.map(entry => (
+              <div key={entry.id} className="rounded-md px-2 py-1.5 hover:bg-accent">
+                <div className="flex items-center gap-2">
+                  {entry.node_type === 'folder' ? (
+                    <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <File className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <span className="flex-1 truncate text-sm">{entry.name}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    title="Restore"
+                    onClick={() => handleRestore(entry)}
+                    disabled={busyId !== null}
+                  >
+                    {busyId === entry.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                    title="Delete forever"
+                    onClick={() => setPendingDelete({ kind: 'entry', entry })}
+                    disabled={busyId !== null}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="ml-6 text-xs text-muted-foreground">
+                  {entry.itemCount > 0 && `${entry.itemCount} ${entry.itemCount === 1 ? 'item' : 'items'} · `}
+                  Deleted {formatDate(entry.deleted_at!)} · Removed on {formatDate(entry.expiresAt)}
+                </p>
+                {entry.restoresToRoot && (
+                  <p className="ml-6 text-xs text-yellow-700 dark:text-yellow-400">
+                    Restores to workspace root
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {workspaces.length > 0 && (
+        <div className="space-y-1 border-t pt-4">
+          <h4 className="px-2 text-xs font-medium text-muted-foreground">Deleted workspaces</h4>
+          {workspaces.map(workspace => (
+            <div key={workspace.id} className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-accent">
+              <Layers className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <p className="truncate text-sm">{workspace.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  Removed on {formatDate(workspace.expiresAt)}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                title="Restore workspace"
+                onClick={() => handleRestoreWorkspace(workspace)}
+                disabled={busyId !== null}
+              >
+                {busyId === workspace.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.kind === 'entry' ? `Delete "${pendingDelete.entry.name}" forever?` : 'Empty trash?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.kind === 'entry'
+                ? 'This permanently deletes it and everything deleted along with it. This action cannot be undone.'
+                : `This permanently deletes all ${entries.length} items in the trash. This action cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-white hover:bg-destructive/90"
+              onClick={handleConfirmDelete}
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
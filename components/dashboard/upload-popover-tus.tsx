@@ -8,8 +8,15 @@ import {
 } from '@/components/ui/popover'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Upload, FolderPlus, FolderUp } from 'lucide-react'
-import { createFolder } from '@/app/dashboard/file-organizer/actions'
+import {
+  addUploadedVersion,
+  createFolder,
+  findDuplicateContent,
+  indexNodeContents,
+  linkDuplicateFile
+} from '@/app/dashboard/file-organizer/actions'
 import { toast } from 'sonner'
 import { useRouter } from 'next/navigation'
 import { ProgressToast } from '@/components/ui/progress-toast'
@@ -19,6 +26,10 @@ import { createClient } from '@/utils/supabase/client'
 import { ParallelUploadManager, UploadTask } from '@/utils/parallel-upload-manager'
 import { FolderStructureProcessor } from '@/utils/folder-structure-processor'
 import { StorageSessionManager } from '@/utils/storage-session-manager'
+import { ContentHasher } from '@/utils/content-hasher'
+import { SearchIndexer } from '@/utils/search-indexer'
+import { UPLOAD_CONFIG } from '@/utils/upload-config'
+import { getSettings } from '@/app/dashboard/settings/actions'
 
 interface UploadPopoverProps {
   workspaceId: string
@@ -78,9 +89,10 @@ export default function UploadPopoverTus({
   const [isCreatingFolder, setIsCreatingFolder] = useState(false)
   const [showNewFolder, setShowNewFolder] = useState(false)
   const [showUploadOptions, setShowUploadOptions] = useState(false)
+  const [uploadAsVersion, setUploadAsVersion] = useState(false)
   const router = useRouter()
   const supabase = createClient()
-  const uploadManagerRef = useRef<ParallelUploadManager>(new ParallelUploadManager(2))
+  const uploadManagerRef = useRef<ParallelUploadManager>(new ParallelUploadManager(UPLOAD_CONFIG.DEFAULT_CONCURRENCY))
   const folderProcessorRef = useRef<FolderStructureProcessor>(new FolderStructureProcessor())
   const currentBatchIdRef = useRef<string | null>(null)
   const sessionManagerRef = useRef<StorageSessionManager>(new StorageSessionManager())
@@ -145,6 +157,13 @@ export default function UploadPopoverTus({
     }
   }
 
+  // Text extraction runs after the upload counts as done, so it never holds up the batch
+  const indexUploadedFile = (nodeId: string, file: File) => {
+    SearchIndexer.extractText(file)
+      .then(text => indexNodeContents([{ nodeId, text }]))
+      .catch(error => console.error(`Failed to index ${file.name}:`, error))
+  }
+
   const createTusUploadHandler = async (task: UploadTask, batchId: string, folderId?: string): Promise<tus.Upload | null> => {
     // Get a fresh, valid session
     const { valid, session } = await sessionManagerRef.current.validateUploadSession()
@@ -155,6 +174,24 @@ export default function UploadPopoverTus({
       return null
     }
 
+    // Skip bytes the workspace already has, linking them into this folder
+    // when they are stored elsewhere. Hashing failures fall back to uploading
+    const targetParentId = folderId || task.parentId || parentId
+    try {
+      task.contentHash = await ContentHasher.hash(task.file)
+      const duplicate = await findDuplicateContent(workspaceId, targetParentId, task.contentHash)
+      if (duplicate) {
+        if (!duplicate.inTargetFolder) {
+          await linkDuplicateFile(workspaceId, targetParentId, task.file.name, duplicate.node.id)
+        }
+        task.duplicateOf = duplicate.node.name
+        uploadManagerRef.current.updateTaskStatus(batchId, task.id, 'complete')
+        return null
+      }
+    } catch (error) {
+      console.error(`[Content Hash] Duplicate check failed for ${task.file.name}:`, error)
+    }
+
     // Generate storage path
     const lastDotIndex = task.file.name.lastIndexOf('.')
     const hasExtension = lastDotIndex > 0 && lastDotIndex < task.file.name.length - 1
@@ -220,8 +257,23 @@ export default function UploadPopoverTus({
           // Use pre-created folder ID or task's parent ID
           const finalParentId = folderId || task.parentId || parentId
 
+          // Stack the upload onto a same-named file as its next version
+          if (uploadAsVersion) {
+            const versioned = await addUploadedVersion(workspaceId, finalParentId, task.file.name, {
+              storagePath,
+              mimeType: task.file.type,
+              size: task.file.size,
+              contentHash: task.contentHash
+            })
+            if (versioned) {
+              uploadManagerRef.current.updateTaskStatus(batchId, task.id, 'complete')
+              indexUploadedFile(versioned.id, task.file)
+              return
+            }
+          }
+
           // Create file record
-          const { error } = await supabase
+          const { data: node, error } = await supabase
             .from('nodes')
             .insert({
               user_id: session.user.id,
@@ -231,12 +283,16 @@ export default function UploadPopoverTus({
               name: task.file.name,
               mime_type: task.file.type,
               size: task.file.size,
-              storage_object_path: storagePath
+              storage_object_path: storagePath,
+              content_hash: task.contentHash || null
             })
+            .select('id')
+            .single()
 
           if (error) throw error
 
           uploadManagerRef.current.updateTaskStatus(batchId, task.id, 'complete')
+          indexUploadedFile(node.id, task.file)
         } catch (error) {
           console.error('Failed to create database record:', error)
           uploadManagerRef.current.updateTaskStatus(batchId, task.id, 'error', 'Failed to save file record')
@@ -249,7 +305,7 @@ export default function UploadPopoverTus({
     return upload
   }
 
-  const processUploadBatch = async (items: UploadItem[], toastId: string): Promise<{ successCount: number; totalCount: number; skippedCount: number }> => {
+  const processUploadBatch = async (items: UploadItem[], toastId: string): Promise<{ successCount: number; totalCount: number; skippedCount: number; duplicateCount: number }> => {
     try {
       // Filter out invalid files
       const validItems: UploadItem[] = []
@@ -277,7 +333,7 @@ export default function UploadPopoverTus({
           />,
           { duration: 4000 }
         )
-        return { successCount: 0, totalCount: items.length, skippedCount: skippedFiles.length }
+        return { successCount: 0, totalCount: items.length, skippedCount: skippedFiles.length, duplicateCount: 0 }
       }
       
       // Start auto-refresh for session during uploads
@@ -293,7 +349,7 @@ export default function UploadPopoverTus({
           />,
           { duration: 4000 }
         )
-        return { successCount: 0, totalCount: items.length, skippedCount: skippedFiles.length }
+        return { successCount: 0, totalCount: items.length, skippedCount: skippedFiles.length, duplicateCount: 0 }
       }
 
       // Extract folder paths and create folder structure first
@@ -333,10 +389,19 @@ export default function UploadPopoverTus({
         }
       })
 
+      // Settings are read per upload rather than on mount, since every
+      // folder in the tree renders one of these popovers
+      const { uploadConcurrency, uploadBandwidthLimit } = await getSettings().catch(() => ({
+        uploadConcurrency: UPLOAD_CONFIG.DEFAULT_CONCURRENCY,
+        uploadBandwidthLimit: 0
+      }))
+      uploadManagerRef.current.setGlobalConcurrencyLimit(uploadConcurrency)
+      uploadManagerRef.current.setBandwidthLimit(uploadBandwidthLimit)
+
       // Create upload batch
       const batchId = uploadManagerRef.current.createBatch(tasks, {
-        concurrencyLimit: 2,
-        onProgress: (progress, uploadedBytes, totalBytes) => {
+        concurrencyLimit: uploadConcurrency,
+        onProgress: (progress) => {
           const message = skippedFiles.length > 0 
             ? `Uploading ${validItems.length} files (${skippedFiles.length} skipped)...`
             : `Uploading ${validItems.length} files...`
@@ -360,11 +425,12 @@ export default function UploadPopoverTus({
         return await createTusUploadHandler(task, batchId, taskFolderId as string | undefined)
       })
 
-      return { ...result, skippedCount: skippedFiles.length }
+      const duplicateCount = uploadManagerRef.current.getBatchStatus(batchId)?.duplicates || 0
+      return { ...result, skippedCount: skippedFiles.length, duplicateCount }
 
     } catch (error) {
       console.error('Upload batch error:', error)
-      return { successCount: 0, totalCount: items.length, skippedCount: skippedFiles.length }
+      return { successCount: 0, totalCount: items.length, skippedCount: skippedFiles.length, duplicateCount: 0 }
     } finally {
       // Stop auto-refresh when uploads complete
       sessionManagerRef.current.stopAutoRefresh()
@@ -388,7 +454,7 @@ export default function UploadPopoverTus({
       const items = files.map(file => ({ file }))
       
       // Process uploads in parallel
-      const { successCount, totalCount, skippedCount } = await processUploadBatch(items, toastId)
+      const { successCount, totalCount, skippedCount, duplicateCount } = await processUploadBatch(items, toastId)
       
       // Show final result
       const validCount = totalCount - skippedCount
@@ -432,6 +498,16 @@ export default function UploadPopoverTus({
         )
       }
       
+      if (duplicateCount > 0) {
+        toast(
+          <SimpleToast 
+            message={`${duplicateCount} file${duplicateCount > 1 ? 's were' : ' was'} already stored in this workspace and not uploaded again`}
+            type="info"
+          />,
+          { duration: 4000 }
+        )
+      }
+      
       if (successCount > 0) {
         router.refresh()
       }
@@ -448,7 +524,7 @@ export default function UploadPopoverTus({
     const input = document.createElement('input')
     input.type = 'file'
     input.multiple = true
-    ;(input as any).webkitdirectory = true
+    input.webkitdirectory = true
     
     input.onchange = async (e) => {
       const files = Array.from((e.target as HTMLInputElement).files || [])
@@ -458,7 +534,7 @@ export default function UploadPopoverTus({
       
       // Process files with folder structure
       const items = files.map(file => {
-        const pathParts = (file as any).webkitRelativePath?.split('/') || []
+        const pathParts = file.webkitRelativePath?.split('/') || []
         if (pathParts.length > 1) {
           pathParts.pop() // Remove filename
         }
@@ -469,7 +545,7 @@ export default function UploadPopoverTus({
       })
       
       // Process uploads in parallel
-      const { successCount, totalCount, skippedCount } = await processUploadBatch(items, toastId)
+      const { successCount, totalCount, skippedCount, duplicateCount } = await processUploadBatch(items, toastId)
       
       // Show final result
       const validCount = totalCount - skippedCount
@@ -513,6 +589,16 @@ export default function UploadPopoverTus({
         )
       }
       
+      if (duplicateCount > 0) {
+        toast(
+          <SimpleToast 
+            message={`${duplicateCount} file${duplicateCount > 1 ? 's were' : ' was'} already stored in this workspace and not uploaded again`}
+            type="info"
+          />,
+          { duration: 4000 }
+        )
+      }
+      
       if (successCount > 0) {
         router.refresh()
       }
@@ -605,6 +691,16 @@ export default function UploadPopoverTus({
               <FolderUp className="h-4 w-4 mr-2" />
               Select Folder
             </Button>
+            <div className="flex items-start gap-2 border-t px-2 pt-2 mt-1">
+              <Checkbox
+                id="upload-as-version"
+                checked={uploadAsVersion}
+                onCheckedChange={(checked) => setUploadAsVersion(checked as boolean)}
+              />
+              <label htmlFor="upload-as-version" className="text-xs leading-tight text-muted-foreground">
+                Save same-named files as a new version
+              </label>
+            </div>
           </div>
         ) : (
           <div className="space-y-2">
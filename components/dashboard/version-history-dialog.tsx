@@ -0,0 +1,210 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Download, Loader2, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+import { SimpleToast } from '@/components/ui/simple-toast'
+import { Tables } from '@/utils/supabase/database.types'
+import { createClient } from '@/utils/supabase/client'
+import { FileDownloader } from '@/utils/file-downloader'
+import { getFileVersions, restoreFileVersion } from '@/app/dashboard/file-organizer/actions'
+
+type Node = Tables<'nodes'>
+
+interface VersionHistoryDialogProps {
+  node: Node | null
+  onClose: () => void
+  onRestored: () => void
+}
+
+// One row of the history, the current version included
+interface VersionEntry {
+  id: string
+  version: number
+  storagePath: string | null
+  size: number | null
+  uploadedAt: string
+  isCurrent: boolean
+}
+
+// "contract.pdf" version 2 downloads as "contract (v2).pdf"
+function versionFileName(name: string, version: number): string {
+  const dotIndex = name.lastIndexOf('.')
+  if (dotIndex <= 0) return `${name} (v${version})`
+  return `${name.slice(0, dotIndex)} (v${version})${name.slice(dotIndex)}`
+}
+
+export function VersionHistoryDialog({ node, onClose, onRestored }: VersionHistoryDialogProps) {
+  const [entries, setEntries] = useState<VersionEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const supabase = createClient()
+
+  const loadVersions = useCallback(async (nodeId: string) => {
+    setIsLoading(true)
+    try {
+      const { current, currentUploadedAt, versions } = await getFileVersions(nodeId)
+      setEntries([
+        {
+          id: current.id,
+          version: current.version,
+          storagePath: current.storage_object_path,
+          size: current.size,
+          uploadedAt: currentUploadedAt,
+          isCurrent: true
+        },
+        ...versions.map(version => ({
+          id: version.id,
+          version: version.version,
+          storagePath: version.storage_object_path,
+          size: version.size,
+          uploadedAt: version.created_at,
+          isCurrent: false
+        }))
+      ])
+    } catch (error) {
+      console.error('Failed to load versions:', error)
+      toast(<SimpleToast message="Failed to load version history" type="error" />, { duration: 4000 })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const nodeId = node?.id
+  useEffect(() => {
+    if (nodeId) {
+      loadVersions(nodeId)
+    } else {
+      setEntries([])
+    }
+  }, [nodeId, loadVersions])
+
+  const handleDownload = async (entry: VersionEntry) => {
+    if (!node || !entry.storagePath) return
+
+    setBusyId(entry.id)
+    try {
+      const { data, error } = await supabase.storage
+        .from('user-files')
+        .download(entry.storagePath)
+
+      if (error || !data) throw error
+
+      const url = URL.createObjectURL(data)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = entry.isCurrent ? node.name : versionFileName(node.name, entry.version)
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to download version:', error)
+      toast(<SimpleToast message={`Failed to download version ${entry.version}`} type="error" />, { duration: 4000 })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRestore = async (entry: VersionEntry) => {
+    if (!node) return
+
+    setBusyId(entry.id)
+    try {
+      const updated = await restoreFileVersion(entry.id)
+      toast(
+        <SimpleToast
+          message={`Restored version ${entry.version} as version ${updated.version}`}
+          type="success"
+        />,
+        { duration: 4000 }
+      )
+      await loadVersions(node.id)
+      onRestored()
+    } catch (error) {
+      console.error('Failed to restore version:', error)
+      toast(<SimpleToast message={`Failed to restore version ${entry.version}`} type="error" />, { duration: 4000 })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Dialog open={node !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription className="truncate">
+            {node?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading versions...
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <div className="space-y-1">
+              {entries.map(entry => (
+                <div key={entry.id} className="flex items-center gap-3 rounded-md px-2 py-2 hover:bg-accent">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">Version {entry.version}</span>
+                      {entry.isCurrent && <Badge variant="secondary">Current</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(entry.uploadedAt).toLocaleString()}
+                      {entry.size !== null && ` · ${FileDownloader.formatBytes(entry.size)}`}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    title="Download"
+                    onClick={() => handleDownload(entry)}
+                    disabled={busyId !== null || !entry.storagePath}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  {!entry.isCurrent && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      title="Restore this version"
+                      onClick={() => handleRestore(entry)}
+                      disabled={busyId !== null}
+                    >
+                      {busyId === entry.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {entries.length === 1 && (
+                <p className="px-2 pt-2 text-xs text-muted-foreground">
+                  No earlier versions. Upload a file with the same name and choose
+                  &quot;Save same-named files as a new version&quot; to add one.
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
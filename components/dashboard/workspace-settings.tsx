@@ -135,7 +135,7 @@ export default function WorkspaceSettings({ workspace, workspaces }: WorkspaceSe
             <div className="space-y-2 border-t pt-4">
               <h4 className="text-sm font-medium text-destructive">Danger Zone</h4>
               <p className="text-sm text-muted-foreground">
-                Delete this workspace and all its contents. This action cannot be undone.
+                Move this workspace and all its contents to the trash. It can be restored from the trash until the retention period ends.
               </p>
               <div className="space-y-2">
                 <Label htmlFor="delete-confirm" className="text-sm">
@@ -0,0 +1,26 @@
+import * as React from "react"
+import { getSettings } from "@/app/dashboard/settings/actions"
+import { DEFAULT_USER_SETTINGS, type UserSettings } from "@/utils/user-settings"
+
+// The signed-in user's settings, defaults until they have loaded
+export function useUserSettings() {
+  const [settings, setSettings] = React.useState<UserSettings>(DEFAULT_USER_SETTINGS)
+  const [isLoaded, setIsLoaded] = React.useState(false)
+
+  React.useEffect(() => {
+    let cancelled = false
+    getSettings()
+      .then(loaded => {
+        if (!cancelled) setSettings(loaded)
+      })
+      .catch(error => console.error("Failed to load settings:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { settings, isLoaded }
+}
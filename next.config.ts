@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // pdfjs loads its worker module at runtime when reading stored PDFs on the server
+  serverExternalPackages: ['pdfjs-dist'],
   experimental: {
     serverActions: {
       bodySizeLimit: '50mb', // Increase limit to 50MB
@@ -0,0 +1,39 @@
+// Copies the tesseract.js worker, WASM core and language data into
+// public/ocr so on-device OCR never has to fetch anything from a CDN.
+import { cpSync, existsSync, mkdirSync, readdirSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { createRequire } from 'node:module'
+import { fileURLToPath } from 'node:url'
+
+const require = createRequire(import.meta.url)
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const target = join(root, 'public', 'ocr')
+
+function packageDir(name) {
+  return dirname(require.resolve(`${name}/package.json`))
+}
+
+mkdirSync(join(target, 'core'), { recursive: true })
+mkdirSync(join(target, 'lang'), { recursive: true })
+
+cpSync(
+  join(packageDir('tesseract.js'), 'dist', 'worker.min.js'),
+  join(target, 'worker.min.js')
+)
+
+const coreDir = packageDir('tesseract.js-core')
+for (const file of readdirSync(coreDir)) {
+  if (file.startsWith('tesseract-core') && /\.(js|wasm)$/.test(file)) {
+    cpSync(join(coreDir, file), join(target, 'core', file))
+  }
+}
+
+// LSTM-only "best_int" models, the same data tesseract.js downloads by default
+const langFile = join(packageDir('@tesseract.js-data/eng'), '4.0.0_best_int', 'eng.traineddata.gz')
+if (!existsSync(langFile)) {
+  console.error('[copy-ocr-assets] Missing language data:', langFile)
+  process.exit(1)
+}
+cpSync(langFile, join(target, 'lang', 'eng.traineddata.gz'))
+
+console.log('[copy-ocr-assets] OCR assets copied to', target)
@@ -0,0 +1,151 @@
+-- Per-user quotas for /api/ai/smart-sync. Usage is counted in fixed minute
+-- and day windows and only changes through the functions below, so users can
+-- read their counters but never reset them.
+
+create table public.ai_quotas (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  -- Requests are counted per analyzed file, since each one is a provider call
+  requests_per_minute integer not null default 60,
+  requests_per_day integer not null default 2000,
+  tokens_per_day bigint not null default 500000,
+  updated_at timestamptz not null default now()
+);
+
+create table public.ai_usage (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  window_kind text not null check (window_kind in ('minute', 'day')),
+  window_start timestamptz not null,
+  requests integer not null default 0,
+  tokens bigint not null default 0,
+  primary key (user_id, window_kind, window_start)
+);
+
+alter table public.ai_quotas enable row level security;
+alter table public.ai_usage enable row level security;
+
+create policy "Users can view their own AI quota"
+  on public.ai_quotas for select
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own AI usage"
+  on public.ai_usage for select
+  using (auth.uid() = user_id);
+
+-- Reserve p_requests requests for the calling user. Returns
+-- {"allowed": true} or the exceeded quota with its limit, current usage and
+-- the seconds until its window resets.
+create or replace function public.reserve_ai_requests(p_requests integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_now timestamptz := now();
+  v_minute timestamptz := date_trunc('minute', v_now);
+  v_day timestamptz := date_trunc('day', v_now);
+  v_quota public.ai_quotas%rowtype;
+  v_minute_requests integer;
+  v_day_requests integer;
+  v_day_tokens bigint;
+begin
+  if v_user is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+  if p_requests is null or p_requests < 1 then
+    raise exception 'p_requests must be positive' using errcode = '22023';
+  end if;
+
+  -- Users without an explicit quota get the column defaults
+  insert into public.ai_quotas (user_id) values (v_user) on conflict do nothing;
+  select * into v_quota from public.ai_quotas where user_id = v_user;
+
+  insert into public.ai_usage (user_id, window_kind, window_start)
+  values (v_user, 'minute', v_minute), (v_user, 'day', v_day)
+  on conflict do nothing;
+
+  -- Lock both windows so concurrent requests can't overshoot the limits
+  select requests into v_minute_requests
+  from public.ai_usage
+  where user_id = v_user and window_kind = 'minute' and window_start = v_minute
+  for update;
+
+  select requests, tokens into v_day_requests, v_day_tokens
+  from public.ai_usage
+  where user_id = v_user and window_kind = 'day' and window_start = v_day
+  for update;
+
+  if v_day_tokens >= v_quota.tokens_per_day then
+    return jsonb_build_object(
+      'allowed', false,
+      'quota', 'tokens_per_day',
+      'limit', v_quota.tokens_per_day,
+      'used', v_day_tokens,
+      'retry_after', ceil(extract(epoch from (v_day + interval '1 day' - v_now)))::integer
+    );
+  end if;
+
+  if v_day_requests + p_requests > v_quota.requests_per_day then
+    return jsonb_build_object(
+      'allowed', false,
+      'quota', 'requests_per_day',
+      'limit', v_quota.requests_per_day,
+      'used', v_day_requests,
+      'retry_after', ceil(extract(epoch from (v_day + interval '1 day' - v_now)))::integer
+    );
+  end if;
+
+  if v_minute_requests + p_requests > v_quota.requests_per_minute then
+    return jsonb_build_object(
+      'allowed', false,
+      'quota', 'requests_per_minute',
+      'limit', v_quota.requests_per_minute,
+      'used', v_minute_requests,
+      'retry_after', greatest(1, ceil(extract(epoch from (v_minute + interval '1 minute' - v_now)))::integer)
+    );
+  end if;
+
+  update public.ai_usage
+  set requests = requests + p_requests
+  where user_id = v_user
+    and ((window_kind = 'minute' and window_start = v_minute)
+      or (window_kind = 'day' and window_start = v_day));
+
+  -- Only the current minute matters; day windows are kept as history
+  delete from public.ai_usage
+  where user_id = v_user and window_kind = 'minute' and window_start < v_minute;
+
+  return jsonb_build_object('allowed', true);
+end;
+$$;
+
+-- Add provider-reported tokens to the calling user's daily usage
+create or replace function public.record_ai_tokens(p_tokens bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+begin
+  if v_user is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+  -- Never let a caller lower their own usage
+  if p_tokens is null or p_tokens <= 0 then
+    return;
+  end if;
+
+  insert into public.ai_usage (user_id, window_kind, window_start, tokens)
+  values (v_user, 'day', date_trunc('day', now()), p_tokens)
+  on conflict (user_id, window_kind, window_start)
+  do update set tokens = public.ai_usage.tokens + excluded.tokens;
+end;
+$$;
+
+revoke execute on function public.reserve_ai_requests(integer) from public, anon;
+revoke execute on function public.record_ai_tokens(bigint) from public, anon;
+grant execute on function public.reserve_ai_requests(integer) to authenticated;
+grant execute on function public.record_ai_tokens(bigint) to authenticated;
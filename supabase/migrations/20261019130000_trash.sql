@@ -0,0 +1,33 @@
+-- Soft delete for nodes and workspaces. Deleting moves a node and its
+-- subtree to the trash; storage objects are only removed when the trash is
+-- emptied or its retention period runs out.
+
+alter table public.nodes
+  add column deleted_at timestamptz,
+  -- The node whose deletion trashed this one (itself for trash entries), so
+  -- restoring a folder brings back exactly what was deleted with it
+  add column deleted_root_id uuid references public.nodes (id) on delete cascade;
+
+alter table public.workspaces
+  add column deleted_at timestamptz;
+
+create index idx_nodes_trash
+  on public.nodes (user_id, workspace_id, deleted_at)
+  where deleted_at is not null;
+
+create index idx_nodes_deleted_root
+  on public.nodes (deleted_root_id)
+  where deleted_root_id is not null;
+
+-- Trashed nodes keep their name and parent so they can be restored in place,
+-- so names only have to be unique among live siblings
+drop index if exists public.idx_unique_node_in_root;
+drop index if exists public.idx_unique_node_in_folder;
+
+create unique index idx_unique_node_in_root
+  on public.nodes (workspace_id, name, node_type)
+  where parent_id is null and deleted_at is null;
+
+create unique index idx_unique_node_in_folder
+  on public.nodes (parent_id, name, node_type)
+  where parent_id is not null and deleted_at is null;
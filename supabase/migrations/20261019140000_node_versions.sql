@@ -0,0 +1,37 @@
+-- Version history for files. The node always points at its current storage
+-- object; uploading a new version archives the previous object here instead
+-- of creating a second, timestamped node.
+
+alter table public.nodes
+  add column version integer not null default 1;
+
+create table public.node_versions (
+  id uuid primary key default gen_random_uuid(),
+  node_id uuid not null references public.nodes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  version integer not null,
+  storage_object_path text not null,
+  mime_type text,
+  size bigint,
+  -- When this version was uploaded, and when a newer one replaced it
+  created_at timestamptz not null,
+  archived_at timestamptz not null default now(),
+  unique (node_id, version)
+);
+
+create index idx_node_versions_workspace on public.node_versions (workspace_id);
+
+alter table public.node_versions enable row level security;
+
+create policy "Users can view their own node versions"
+  on public.node_versions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own node versions"
+  on public.node_versions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own node versions"
+  on public.node_versions for delete
+  using (auth.uid() = user_id);
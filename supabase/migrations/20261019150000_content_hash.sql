@@ -0,0 +1,20 @@
+-- SHA-256 of each file's bytes, computed by the client while uploading. Used
+-- to skip re-uploads of content the workspace already has and to report
+-- duplicate files. Files uploaded before this migration have no hash until
+-- they are scanned from the Duplicates report.
+
+alter table public.nodes
+  add column content_hash text;
+
+alter table public.node_versions
+  add column content_hash text;
+
+create index idx_nodes_content_hash
+  on public.nodes (workspace_id, content_hash)
+  where content_hash is not null and deleted_at is null;
+
+-- Linked duplicates share a storage object, so deleting one has to check
+-- whether any other node still points at it
+create index idx_nodes_storage_object_path
+  on public.nodes (storage_object_path)
+  where storage_object_path is not null;
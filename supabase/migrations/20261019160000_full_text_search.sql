@@ -0,0 +1,136 @@
+-- Full-text search over node names and the text extracted from files.
+-- Extracted text lives in its own table so the large column never travels
+-- with the node rows the file explorer loads.
+
+create table public.node_contents (
+  node_id uuid primary key references public.nodes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  content_text text not null default '',
+  content_vector tsvector generated always as (to_tsvector('simple', content_text)) stored,
+  indexed_at timestamptz not null default now()
+);
+
+create index idx_node_contents_vector on public.node_contents using gin (content_vector);
+create index idx_node_contents_workspace on public.node_contents (workspace_id);
+
+-- Separators are replaced so "Invoice_2024-03.pdf" is found by "invoice" or "pdf"
+create index idx_nodes_name_search
+  on public.nodes using gin (to_tsvector('simple', regexp_replace(name, '[._-]+', ' ', 'g')))
+  where deleted_at is null;
+
+alter table public.node_contents enable row level security;
+
+create policy "Users can view their own node contents"
+  on public.node_contents for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own node contents"
+  on public.node_contents for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own node contents"
+  on public.node_contents for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own node contents"
+  on public.node_contents for delete
+  using (auth.uid() = user_id);
+
+-- Live nodes of a workspace matching every word of p_query as a prefix, so
+-- results update while typing. Highlights wrap matches in « and ».
+create or replace function public.search_nodes(
+  p_workspace_id uuid,
+  p_query text,
+  p_node_type text default null,
+  p_mime_prefix text default null,
+  p_min_size bigint default null,
+  p_max_size bigint default null,
+  p_updated_after timestamptz default null,
+  p_updated_before timestamptz default null,
+  p_folder_id uuid default null,
+  p_limit integer default 50
+)
+returns table (
+  id uuid,
+  rank real,
+  name_highlight text,
+  content_highlight text
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_query tsquery;
+begin
+  select to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  into v_query
+  from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') as word
+  where word <> '';
+
+  if v_query is null then
+    return;
+  end if;
+
+  return query
+  with recursive scope as (
+    select f.id from public.nodes f
+    where f.id = p_folder_id and f.deleted_at is null
+    union all
+    select c.id from public.nodes c
+    join scope s on c.parent_id = s.id
+    where c.deleted_at is null
+  ),
+  matches as (
+    select n.id from public.nodes n
+    where n.workspace_id = p_workspace_id
+      and n.deleted_at is null
+      and to_tsvector('simple', regexp_replace(n.name, '[._-]+', ' ', 'g')) @@ v_query
+    union
+    select nc.node_id from public.node_contents nc
+    where nc.workspace_id = p_workspace_id
+      and nc.content_vector @@ v_query
+  ),
+  ranked as (
+    select
+      n.id,
+      n.name,
+      ts_rank(
+        setweight(to_tsvector('simple', regexp_replace(n.name, '[._-]+', ' ', 'g')), 'A') ||
+        setweight(coalesce(nc.content_vector, ''::tsvector), 'B'),
+        v_query
+      ) as rank,
+      nc.content_text
+    from matches m
+    join public.nodes n on n.id = m.id
+    left join public.node_contents nc on nc.node_id = n.id
+    where n.deleted_at is null
+      and (p_node_type is null or n.node_type = p_node_type)
+      and (p_mime_prefix is null or n.mime_type like p_mime_prefix || '%')
+      and (p_min_size is null or n.size >= p_min_size)
+      and (p_max_size is null or n.size <= p_max_size)
+      and (p_updated_after is null or n.updated_at >= p_updated_after)
+      and (p_updated_before is null or n.updated_at < p_updated_before)
+      and (p_folder_id is null or (n.id <> p_folder_id and n.id in (select scope.id from scope)))
+    order by rank desc, n.name
+    limit greatest(1, least(coalesce(p_limit, 50), 200))
+  )
+  -- Highlights are only built for the rows that are returned
+  select
+    r.id,
+    r.rank,
+    ts_headline('simple', r.name, v_query, 'HighlightAll=true, StartSel=«, StopSel=»'),
+    case
+      when r.content_text is null or r.content_text = '' then null
+      else ts_headline(
+        'simple', r.content_text, v_query,
+        'StartSel=«, StopSel=», MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "'
+      )
+    end
+  from ranked r
+  order by r.rank desc, r.name;
+end;
+$$;
+
+grant execute on function public.search_nodes(uuid, text, text, text, bigint, bigint, timestamptz, timestamptz, uuid, integer) to authenticated;
@@ -0,0 +1,95 @@
+-- Embeddings of file names and extracted text for search by meaning.
+-- Vectors are stored per node together with the model that produced them,
+-- since vectors from different models can't be compared.
+
+create extension if not exists vector with schema extensions;
+
+create table public.node_embeddings (
+  node_id uuid primary key references public.nodes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  model text not null,
+  -- Must match EMBEDDING_DIMENSIONS in utils/ai/types.ts
+  embedding extensions.vector(768) not null,
+  embedded_at timestamptz not null default now()
+);
+
+create index idx_node_embeddings_vector
+  on public.node_embeddings using hnsw (embedding extensions.vector_cosine_ops);
+create index idx_node_embeddings_workspace on public.node_embeddings (workspace_id, model);
+
+alter table public.node_embeddings enable row level security;
+
+create policy "Users can view their own node embeddings"
+  on public.node_embeddings for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own node embeddings"
+  on public.node_embeddings for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own node embeddings"
+  on public.node_embeddings for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own node embeddings"
+  on public.node_embeddings for delete
+  using (auth.uid() = user_id);
+
+-- Live files of a workspace nearest to p_embedding by cosine similarity,
+-- with the same filters as search_nodes
+create or replace function public.match_nodes(
+  p_workspace_id uuid,
+  p_embedding extensions.vector(768),
+  p_model text,
+  p_node_type text default null,
+  p_mime_prefix text default null,
+  p_min_size bigint default null,
+  p_max_size bigint default null,
+  p_updated_after timestamptz default null,
+  p_updated_before timestamptz default null,
+  p_folder_id uuid default null,
+  p_min_similarity real default 0.2,
+  p_limit integer default 20
+)
+returns table (
+  id uuid,
+  similarity real,
+  excerpt text
+)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  with recursive scope as (
+    select f.id from public.nodes f
+    where f.id = p_folder_id and f.deleted_at is null
+    union all
+    select c.id from public.nodes c
+    join scope s on c.parent_id = s.id
+    where c.deleted_at is null
+  )
+  select
+    n.id,
+    (1 - (e.embedding <=> p_embedding))::real as similarity,
+    left(nc.content_text, 200) as excerpt
+  from public.node_embeddings e
+  join public.nodes n on n.id = e.node_id
+  left join public.node_contents nc on nc.node_id = n.id
+  where e.workspace_id = p_workspace_id
+    and e.model = p_model
+    and n.deleted_at is null
+    -- A distance of NaN (from an all-zero vector) never passes this check
+    and (e.embedding <=> p_embedding) <= 1 - p_min_similarity
+    and (p_node_type is null or n.node_type = p_node_type)
+    and (p_mime_prefix is null or n.mime_type like p_mime_prefix || '%')
+    and (p_min_size is null or n.size >= p_min_size)
+    and (p_max_size is null or n.size <= p_max_size)
+    and (p_updated_after is null or n.updated_at >= p_updated_after)
+    and (p_updated_before is null or n.updated_at < p_updated_before)
+    and (p_folder_id is null or (n.id <> p_folder_id and n.id in (select scope.id from scope)))
+  order by e.embedding <=> p_embedding
+  limit greatest(1, least(coalesce(p_limit, 20), 100));
+$$;
+
+grant execute on function public.match_nodes(uuid, extensions.vector, text, text, text, bigint, bigint, timestamptz, timestamptz, uuid, real, integer) to authenticated;
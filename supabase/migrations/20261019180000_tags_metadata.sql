@@ -0,0 +1,11 @@
+-- User-defined tags and key/value metadata (client, project, fiscal year,
+-- amount...) on files and folders, so organization doesn't depend on
+-- folder placement alone.
+
+alter table public.nodes
+  add column tags text[] not null default '{}',
+  add column metadata jsonb not null default '{}'::jsonb,
+  add constraint nodes_metadata_is_object check (jsonb_typeof(metadata) = 'object');
+
+create index idx_nodes_tags on public.nodes using gin (tags) where deleted_at is null;
+create index idx_nodes_metadata on public.nodes using gin (metadata jsonb_path_ops) where deleted_at is null;
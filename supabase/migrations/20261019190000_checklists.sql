@@ -0,0 +1,102 @@
+-- Checklists of documents a workspace should contain, such as the items of a
+-- closing binder, and the files matched to each item. Matches start out as
+-- AI suggestions and count towards completion once a user confirms them.
+
+create table public.checklists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  name text not null,
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index idx_checklists_workspace on public.checklists (workspace_id);
+
+create table public.checklist_items (
+  id uuid primary key default gen_random_uuid(),
+  checklist_id uuid not null references public.checklists (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  position integer not null,
+  description text not null,
+  -- One of CHECKLIST_FILE_TYPES in utils/checklist.ts
+  expected_file_type text,
+  -- Period the document should be dated in, either end optional
+  date_from date,
+  date_to date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint checklist_items_date_range check (date_from is null or date_to is null or date_from <= date_to)
+);
+
+create index idx_checklist_items_checklist on public.checklist_items (checklist_id, position);
+
+create table public.checklist_matches (
+  id uuid primary key default gen_random_uuid(),
+  checklist_id uuid not null references public.checklists (id) on delete cascade,
+  item_id uuid not null references public.checklist_items (id) on delete cascade,
+  node_id uuid not null references public.nodes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  confidence real not null check (confidence >= 0 and confidence <= 1),
+  reasoning text,
+  status text not null default 'suggested' check (status in ('suggested', 'confirmed', 'rejected')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (item_id, node_id)
+);
+
+create index idx_checklist_matches_checklist on public.checklist_matches (checklist_id);
+create index idx_checklist_matches_node on public.checklist_matches (node_id);
+
+alter table public.checklists enable row level security;
+alter table public.checklist_items enable row level security;
+alter table public.checklist_matches enable row level security;
+
+create policy "Users can view their own checklists"
+  on public.checklists for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own checklists"
+  on public.checklists for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own checklists"
+  on public.checklists for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own checklists"
+  on public.checklists for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own checklist items"
+  on public.checklist_items for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own checklist items"
+  on public.checklist_items for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own checklist items"
+  on public.checklist_items for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own checklist items"
+  on public.checklist_items for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own checklist matches"
+  on public.checklist_matches for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own checklist matches"
+  on public.checklist_matches for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own checklist matches"
+  on public.checklist_matches for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own checklist matches"
+  on public.checklist_matches for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,64 @@
+-- Saved deliverable bundles: an ordered, labelled selection of files from
+-- anywhere in a workspace, exported as one ZIP with the files numbered by
+-- position. Items point at nodes, so a re-export picks up renamed files and
+-- new versions.
+
+create table public.bundles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  exported_at timestamptz
+);
+
+create index idx_bundles_workspace on public.bundles (workspace_id);
+
+create table public.bundle_items (
+  id uuid primary key default gen_random_uuid(),
+  bundle_id uuid not null references public.bundles (id) on delete cascade,
+  node_id uuid not null references public.nodes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  position integer not null,
+  -- Shown in the index and used for the exported file name instead of the file's own name
+  label text,
+  unique (bundle_id, node_id)
+);
+
+create index idx_bundle_items_bundle on public.bundle_items (bundle_id, position);
+
+alter table public.bundles enable row level security;
+alter table public.bundle_items enable row level security;
+
+create policy "Users can view their own bundles"
+  on public.bundles for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own bundles"
+  on public.bundles for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own bundles"
+  on public.bundles for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own bundles"
+  on public.bundles for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own bundle items"
+  on public.bundle_items for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own bundle items"
+  on public.bundle_items for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own bundle items"
+  on public.bundle_items for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own bundle items"
+  on public.bundle_items for delete
+  using (auth.uid() = user_id);
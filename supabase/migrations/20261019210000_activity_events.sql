@@ -0,0 +1,100 @@
+-- Activity events behind the analytics page. Node operations are recorded by
+-- a trigger on nodes, so uploads that insert rows from the browser are
+-- counted too; rename decisions on AI suggestions are inserted by the app.
+
+create table public.activity_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  node_id uuid references public.nodes (id) on delete set null,
+  event_type text not null check (
+    event_type in ('created', 'renamed', 'moved', 'trashed', 'restored', 'rename_decision')
+  ),
+  node_type text check (node_type in ('folder', 'file')),
+  -- Set for rename_decision events only
+  decision text check (decision in ('accepted', 'edited', 'rejected')),
+  confidence real check (confidence between 0 and 1),
+  suggested_name text,
+  final_name text,
+  created_at timestamptz not null default now()
+);
+
+create index idx_activity_events_workspace on public.activity_events (workspace_id, created_at);
+
+alter table public.activity_events enable row level security;
+
+create policy "Users can view their own activity events"
+  on public.activity_events for select
+  using (auth.uid() = user_id);
+
+create policy "Users can record their own activity events"
+  on public.activity_events for insert
+  with check (auth.uid() = user_id);
+
+create or replace function public.record_node_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.activity_events (user_id, workspace_id, node_id, event_type, node_type, final_name)
+    values (new.user_id, new.workspace_id, new.id, 'created', new.node_type, new.name);
+    return new;
+  end if;
+
+  if old.deleted_at is null and new.deleted_at is not null then
+    insert into public.activity_events (user_id, workspace_id, node_id, event_type, node_type)
+    values (new.user_id, new.workspace_id, new.id, 'trashed', new.node_type);
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    insert into public.activity_events (user_id, workspace_id, node_id, event_type, node_type)
+    values (new.user_id, new.workspace_id, new.id, 'restored', new.node_type);
+  end if;
+
+  if new.name is distinct from old.name then
+    insert into public.activity_events (user_id, workspace_id, node_id, event_type, node_type, suggested_name, final_name)
+    values (new.user_id, new.workspace_id, new.id, 'renamed', new.node_type, old.name, new.name);
+  end if;
+
+  if new.parent_id is distinct from old.parent_id then
+    insert into public.activity_events (user_id, workspace_id, node_id, event_type, node_type)
+    values (new.user_id, new.workspace_id, new.id, 'moved', new.node_type);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger record_node_activity
+  after insert or update of name, parent_id, deleted_at on public.nodes
+  for each row execute function public.record_node_activity();
+
+-- Event counts per week for the analytics page, with rename decisions split
+-- into five confidence buckets (0 = below 20%, 4 = 80% and above)
+create or replace function public.activity_counts(p_workspace_id uuid, p_since timestamptz)
+returns table (
+  week date,
+  event_type text,
+  node_type text,
+  decision text,
+  confidence_bucket integer,
+  events bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    date_trunc('week', created_at)::date,
+    event_type,
+    node_type,
+    decision,
+    case when confidence is null then null else least(floor(confidence * 5)::integer, 4) end,
+    count(*)
+  from public.activity_events
+  where workspace_id = p_workspace_id
+    and user_id = auth.uid()
+    and created_at >= p_since
+  group by 1, 2, 3, 4, 5
+$$;
@@ -0,0 +1,34 @@
+-- Per-user preferences edited on /dashboard/settings. A missing row or a
+-- null column means the deployment default (environment variables and
+-- utils/upload-config.ts) applies.
+
+create table public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  ai_provider text check (ai_provider in ('grok', 'openai', 'anthropic', 'local')),
+  ai_model text,
+  -- Default naming convention, a NamingTemplate; null for descriptive names
+  naming_template jsonb,
+  -- Language generated names are written in; null keeps the file's own language
+  name_language text,
+  -- Suggestions at or above this confidence are preselected for applying
+  auto_apply_threshold real check (auto_apply_threshold between 0 and 1),
+  upload_concurrency integer check (upload_concurrency between 1 and 6),
+  -- MB/s, 0 for unlimited
+  upload_bandwidth_limit integer check (upload_bandwidth_limit between 0 and 50),
+  trash_retention_days integer check (trash_retention_days between 1 and 365),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_settings enable row level security;
+
+create policy "Users can view their own settings"
+  on public.user_settings for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own settings"
+  on public.user_settings for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own settings"
+  on public.user_settings for update
+  using (auth.uid() = user_id);
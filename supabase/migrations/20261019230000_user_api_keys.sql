@@ -0,0 +1,86 @@
+-- Provider API keys registered by users so their AI requests are billed to
+-- their own accounts instead of the deployment's keys. Keys are encrypted by
+-- the app with API_KEY_ENCRYPTION_SECRET before they reach the database; only
+-- the last characters are stored in the clear so users can tell keys apart.
+
+create table public.user_api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  provider text not null check (provider in ('grok', 'openai', 'anthropic', 'local')),
+  -- Null for the user's default key, otherwise only used for this workspace
+  workspace_id uuid references public.workspaces (id) on delete cascade,
+  label text not null,
+  encrypted_key text not null,
+  key_hint text not null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz
+);
+
+-- One key per provider for each workspace, plus one default
+create unique index idx_user_api_keys_scope on public.user_api_keys (
+  user_id,
+  provider,
+  coalesce(workspace_id, '00000000-0000-0000-0000-000000000000'::uuid)
+);
+
+-- Requests and tokens spent through each key, per day
+create table public.api_key_usage (
+  key_id uuid not null references public.user_api_keys (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  day date not null,
+  requests integer not null default 0,
+  tokens bigint not null default 0,
+  primary key (key_id, day)
+);
+
+alter table public.user_api_keys enable row level security;
+alter table public.api_key_usage enable row level security;
+
+create policy "Users can view their own API keys"
+  on public.user_api_keys for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own API keys"
+  on public.user_api_keys for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own API keys"
+  on public.user_api_keys for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own API keys"
+  on public.user_api_keys for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own API key usage"
+  on public.api_key_usage for select
+  using (auth.uid() = user_id);
+
+-- Add a request's usage to one of the caller's keys. Usage only changes
+-- through this function, so counters can't be edited directly
+create or replace function public.record_api_key_usage(p_key_id uuid, p_requests integer, p_tokens bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+begin
+  if v_user is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  if not exists (select 1 from public.user_api_keys where id = p_key_id and user_id = v_user) then
+    raise exception 'API key not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.api_key_usage (key_id, user_id, day, requests, tokens)
+  values (p_key_id, v_user, current_date, greatest(p_requests, 0), greatest(p_tokens, 0))
+  on conflict (key_id, day) do update
+    set requests = api_key_usage.requests + excluded.requests,
+        tokens = api_key_usage.tokens + excluded.tokens;
+
+  update public.user_api_keys set last_used_at = now() where id = p_key_id;
+end;
+$$;
@@ -0,0 +1,35 @@
+-- Smart Sync results cached per user so re-running on unchanged files
+-- doesn't call the provider again. The key is a hash of the file's content
+-- hash, the model, the prompt version, the naming template and the name
+-- language (see utils/ai/suggestion-cache.ts), so changing any of them misses.
+-- The user's naming examples are not part of it, since they change with
+-- every accepted rename.
+
+create table public.suggestion_cache (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  cache_key text not null,
+  -- provider/model that produced the result
+  model text not null,
+  -- An AnalysisResult without an error
+  result jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (user_id, cache_key)
+);
+
+alter table public.suggestion_cache enable row level security;
+
+create policy "Users can view their own cached suggestions"
+  on public.suggestion_cache for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own cached suggestions"
+  on public.suggestion_cache for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own cached suggestions"
+  on public.suggestion_cache for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own cached suggestions"
+  on public.suggestion_cache for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,30 @@
+-- Names users approved or corrected in the organizers. The most recent ones
+-- are sent to the model as examples (see utils/ai/naming-examples.ts), so
+-- suggestions follow each user's own conventions.
+
+create table public.naming_examples (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  original_name text not null,
+  -- What the model suggested and the name the user kept
+  suggested_name text not null,
+  final_name text not null,
+  decision text not null check (decision in ('accepted', 'edited')),
+  created_at timestamptz not null default now()
+);
+
+create index idx_naming_examples_user_recent on public.naming_examples (user_id, created_at desc);
+
+alter table public.naming_examples enable row level security;
+
+create policy "Users can view their own naming examples"
+  on public.naming_examples for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own naming examples"
+  on public.naming_examples for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own naming examples"
+  on public.naming_examples for delete
+  using (auth.uid() = user_id);
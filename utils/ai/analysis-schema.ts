@@ -0,0 +1,172 @@
+import { z } from 'zod'
+import { NamingFieldsSchema } from './naming-template'
+import type { CompletionUsage } from './types'
+
+// What the model is asked to return for a single file. Model-facing schemas
+// stick to keywords that strict structured outputs accept (no minLength)
+export const RenameSuggestionSchema = z.object({
+  suggestedName: z.string(),
+  // Short topic, client or project tags; normalized by the route
+  suggestedTags: z.array(z.string()),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string()
+})
+
+export type RenameSuggestion = z.infer<typeof RenameSuggestionSchema>
+
+// What the model is asked to return when a naming template is in use; the
+// server renders the name from the fields so a batch stays consistent
+export const FieldExtractionSchema = z.object({
+  fields: NamingFieldsSchema,
+  suggestedTags: z.array(z.string()),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string()
+})
+
+export type FieldExtraction = z.infer<typeof FieldExtractionSchema>
+
+// What the model is asked to return for folder organization
+export const FolderSuggestionsSchema = z.object({
+  folders: z.array(z.string()),
+  reasoning: z.string()
+})
+
+export type FolderSuggestions = z.infer<typeof FolderSuggestionsSchema>
+
+// What the model is asked to return when matching files to checklist items.
+// Items and files are referred to by their number in the prompt
+export const ChecklistMatchesSchema = z.object({
+  matches: z.array(z.object({
+    item: z.number().int(),
+    file: z.number().int(),
+    confidence: z.number().min(0).max(1),
+    reasoning: z.string()
+  }))
+})
+
+export type ChecklistMatches = z.infer<typeof ChecklistMatchesSchema>
+
+export const AnalysisErrorCategorySchema = z.enum([
+  'not_configured',   // No provider or credentials available
+  'auth',             // Provider rejected the credentials, or the user is signed out
+  'rate_limit',       // Provider or the user's usage quota throttled the request
+  'provider_error',   // Provider failed or was unreachable
+  'empty_response',   // Provider answered with no content
+  'invalid_output',   // Output still failed validation after repair attempts
+  'network',          // Client could not reach the smart-sync route
+  'storage',          // A stored file could not be found or downloaded
+])
+
+export type AnalysisErrorCategory = z.infer<typeof AnalysisErrorCategorySchema>
+
+export const AnalysisFailureSchema = z.object({
+  category: AnalysisErrorCategorySchema,
+  message: z.string(),
+  retryable: z.boolean()
+})
+
+export type AnalysisFailure = z.infer<typeof AnalysisFailureSchema>
+
+// A result returned by /api/ai/smart-sync. Failed files keep their original
+// name, a confidence of 0 and carry an `error` describing why
+export const AnalysisResultSchema = RenameSuggestionSchema.extend({
+  originalName: z.string(),
+  // Fields the name was rendered from, when a naming template was used
+  fields: NamingFieldsSchema.optional(),
+  error: AnalysisFailureSchema.optional(),
+  // Set when the result was served from the suggestion cache
+  cached: z.boolean().optional()
+})
+
+export type AnalysisResult = z.infer<typeof AnalysisResultSchema>
+
+// Events sent by /api/ai/smart-sync when called with `stream: true`, one JSON
+// object per line. File events carry the file's index in the request; an
+// error without an index means the request itself failed
+export const SmartSyncEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('result'),
+    index: z.number().int(),
+    result: AnalysisResultSchema
+  }),
+  z.object({
+    type: z.literal('error'),
+    index: z.number().int().optional(),
+    originalName: z.string().optional(),
+    error: AnalysisFailureSchema
+  }),
+  z.object({
+    type: z.literal('folders'),
+    folderSuggestions: FolderSuggestionsSchema
+  }),
+  z.object({
+    type: z.literal('done'),
+    processed: z.number().int()
+  })
+])
+
+export type SmartSyncEvent = z.infer<typeof SmartSyncEventSchema>
+
+// Body of a successful /api/ai/smart-sync response without `stream: true`
+export interface SmartSyncResults {
+  results: AnalysisResult[]
+  folderSuggestions: FolderSuggestions | null
+}
+
+// Body of a failed /api/ai/smart-sync response. A 429 from a usage quota
+// also says when the quota resets
+export interface SmartSyncErrorBody {
+  error: string
+  category?: AnalysisErrorCategory
+  retryAfter?: number
+}
+
+export type SmartSyncResponse = SmartSyncResults | SmartSyncErrorBody
+
+const RETRYABLE_CATEGORIES: AnalysisErrorCategory[] = [
+  'rate_limit',
+  'provider_error',
+  'empty_response',
+  'network',
+  'storage'
+]
+
+export class AnalysisError extends Error {
+  category: AnalysisErrorCategory
+  // Seconds until a usage quota resets, when the route reported one
+  retryAfter?: number
+  // Responses received and tokens spent before the request failed, so
+  // they are recorded like those of a successful request
+  attempts?: number
+  usage?: CompletionUsage
+
+  constructor(category: AnalysisErrorCategory, message: string, retryAfter?: number) {
+    super(message)
+    this.name = 'AnalysisError'
+    this.category = category
+    this.retryAfter = retryAfter
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CATEGORIES.includes(this.category)
+  }
+
+  toFailure(): AnalysisFailure {
+    return {
+      category: this.category,
+      message: this.message,
+      retryable: this.retryable
+    }
+  }
+}
+
+export function createFailedResult(originalName: string, error: AnalysisError): AnalysisResult {
+  return {
+    originalName,
+    suggestedName: originalName,
+    suggestedTags: [],
+    confidence: 0,
+    reasoning: error.message,
+    error: error.toFailure()
+  }
+}
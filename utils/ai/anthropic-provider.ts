@@ -0,0 +1,141 @@
+import {
+  AIProviderError,
+  type AIProvider,
+  type CompletionRequest,
+  type CompletionResult,
+  type ProviderId
+} from './types'
+
+interface AnthropicOptions {
+  apiKey: string
+  baseURL?: string
+  model: string
+}
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// The parts of the Messages API this adapter sends and reads
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: string | AnthropicContentBlock[]
+}
+
+// Only text and tool_use blocks are read; `input` is the tool call's arguments
+interface AnthropicResponseBlock {
+  type: string
+  text?: string
+  input?: unknown
+}
+
+interface AnthropicResponse {
+  content?: AnthropicResponseBlock[]
+  usage?: { input_tokens: number; output_tokens: number }
+  error?: { message?: string }
+}
+
+// Adapter for the Anthropic Messages API, called over fetch to avoid
+// pulling in another SDK for a single endpoint
+export class AnthropicProvider implements AIProvider {
+  readonly id: ProviderId = 'anthropic'
+  readonly model: string
+  private apiKey: string
+  private baseURL: string
+
+  constructor(options: AnthropicOptions) {
+    this.apiKey = options.apiKey
+    this.baseURL = (options.baseURL || 'https://api.anthropic.com').replace(/\/$/, '')
+    this.model = options.model
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const content: AnthropicContentBlock[] = []
+    if (request.image) {
+      content.push({
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: request.image.mimeType,
+          data: request.image.data
+        }
+      })
+    }
+    content.push({ type: 'text', text: request.prompt })
+
+    const messages: AnthropicMessage[] = [{ role: 'user', content }]
+    for (const message of request.followUp || []) {
+      messages.push({ role: message.role, content: message.content })
+    }
+
+    const body: Record<string, unknown> = {
+      model: this.model,
+      system: request.system,
+      messages,
+      temperature: request.temperature ?? 0.3,
+      max_tokens: request.maxTokens ?? 500
+    }
+
+    // Anthropic has no JSON mode; forcing a single tool call gives the same
+    // guarantee, with the tool input being the structured response
+    if (request.responseFormat) {
+      body.tools = [{
+        name: request.responseFormat.name,
+        description: 'Return the structured response',
+        input_schema: request.responseFormat.schema
+      }]
+      body.tool_choice = { type: 'tool', name: request.responseFormat.name }
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.baseURL}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION
+        },
+        body: JSON.stringify(body)
+      })
+    } catch (error) {
+      throw new AIProviderError(
+        this.id,
+        error instanceof Error ? error.message : 'Network error'
+      )
+    }
+
+    const data: AnthropicResponse | null = await response.json().catch(() => null)
+
+    if (!response.ok) {
+      throw new AIProviderError(
+        this.id,
+        data?.error?.message || `Anthropic API error: ${response.status}`,
+        response.status
+      )
+    }
+
+    const blocks = data?.content || []
+    const toolUse = blocks.find(block => block.type === 'tool_use')
+    const text = toolUse
+      ? JSON.stringify(toolUse.input)
+      : blocks
+          .filter(block => block.type === 'text')
+          .map(block => block.text)
+          .join('')
+
+    const usage = data?.usage
+    return {
+      text,
+      usage: usage
+        ? {
+            promptTokens: usage.input_tokens,
+            completionTokens: usage.output_tokens,
+            totalTokens: usage.input_tokens + usage.output_tokens
+          }
+        : undefined
+    }
+  }
+}
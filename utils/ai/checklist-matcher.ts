@@ -0,0 +1,110 @@
+import { ChecklistMatchesSchema } from './analysis-schema'
+import { completeStructured } from './structured-output'
+import type { AIProvider } from './types'
+import { describeChecklistItem } from '@/utils/checklist'
+
+export interface ChecklistMatcherItem {
+  id: string
+  description: string
+  expected_file_type: string | null
+  date_from: string | null
+  date_to: string | null
+}
+
+// What the model sees of a workspace file
+export interface ChecklistMatcherFile {
+  id: string
+  name: string
+  path: string
+  mimeType: string | null
+  updatedAt: string
+  tags: string[]
+  metadata: Record<string, string>
+  excerpt: string
+}
+
+export interface ChecklistMatcherResult {
+  itemId: string
+  nodeId: string
+  confidence: number
+  reasoning: string
+}
+
+// Files described per provider call; every item is listed in each call
+export const FILES_PER_MATCH_REQUEST = 25
+
+// Characters of extracted text shown per file
+const MAX_EXCERPT_CHARS = 300
+
+const SYSTEM_PROMPT =
+  'You match documents to the items of a checklist, such as the documents needed for a closing binder. ' +
+  'Judge each file by its name, folder, type, dates, tags, metadata and text. Respond ONLY with valid JSON.'
+
+function describeFile(file: ChecklistMatcherFile, number: number): string {
+  const lines = [`File ${number}: ${file.path ? `${file.path}/` : ''}${file.name}`]
+  lines.push(`  type: ${file.mimeType || 'unknown'}, modified ${file.updatedAt.slice(0, 10)}`)
+  if (file.tags.length > 0) lines.push(`  tags: ${file.tags.join(', ')}`)
+  const metadata = Object.entries(file.metadata)
+  if (metadata.length > 0) lines.push(`  metadata: ${metadata.map(([key, value]) => `${key}=${value}`).join(', ')}`)
+  const excerpt = file.excerpt.replace(/\s+/g, ' ').trim().slice(0, MAX_EXCERPT_CHARS)
+  if (excerpt) lines.push(`  text: ${excerpt}`)
+  return lines.join('\n')
+}
+
+/**
+ * Ask the provider which of the files satisfy which checklist items. Files
+ * are sent in groups of FILES_PER_MATCH_REQUEST, each group being one
+ * provider call, and every plausible pairing comes back with a confidence.
+ * Numbers the model returns that don't refer to a listed item or file are
+ * dropped.
+ */
+export async function matchChecklistFiles(
+  provider: AIProvider,
+  items: ChecklistMatcherItem[],
+  files: ChecklistMatcherFile[]
+): Promise<{ matches: ChecklistMatcherResult[]; totalTokens: number }> {
+  const matches: ChecklistMatcherResult[] = []
+  let totalTokens = 0
+  if (items.length === 0 || files.length === 0) return { matches, totalTokens }
+
+  const itemList = items.map((item, i) => `Item ${i + 1}: ${describeChecklistItem(item)}`).join('\n')
+
+  for (let start = 0; start < files.length; start += FILES_PER_MATCH_REQUEST) {
+    const group = files.slice(start, start + FILES_PER_MATCH_REQUEST)
+    const { data, usage } = await completeStructured(
+      provider,
+      {
+        system: SYSTEM_PROMPT,
+        prompt: `Checklist:
+${itemList}
+
+Files:
+${group.map((file, i) => describeFile(file, i + 1)).join('\n')}
+
+For every file that satisfies a checklist item, return the item number, the file number, a confidence between 0 and 1 and a one-sentence reason. A date range on an item refers to the date of the document itself. Leave out files that match no item; an empty list is fine.
+
+Respond with ONLY this JSON format:
+{"matches": [{"item": 1, "file": 1, "confidence": 0.9, "reasoning": "Signed lease agreement for the office"}]}`,
+        temperature: 0.2,
+        maxTokens: 1500
+      },
+      ChecklistMatchesSchema,
+      'checklist_matches'
+    )
+    totalTokens += usage?.totalTokens || 0
+
+    for (const match of data.matches) {
+      const item = items[match.item - 1]
+      const file = group[match.file - 1]
+      if (!item || !file) continue
+      matches.push({
+        itemId: item.id,
+        nodeId: file.id,
+        confidence: match.confidence,
+        reasoning: match.reasoning
+      })
+    }
+  }
+
+  return { matches, totalTokens }
+}
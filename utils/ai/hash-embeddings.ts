@@ -0,0 +1,46 @@
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider, type EmbeddingResult } from './types'
+
+// FNV-1a, enough to spread tokens over the vector deterministically
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Deterministic stand-in for an embedding model, selected with
+ * AI_EMBEDDING_PROVIDER=hash. Words and word pairs are hashed into a
+ * normalized bag-of-words vector, so texts sharing vocabulary end up close.
+ * It needs no network and returns the same vectors on every run, which
+ * makes it suitable for tests and offline development, but it has no
+ * notion of synonyms.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'hash' as const
+  readonly model = `hash-${EMBEDDING_DIMENSIONS}`
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    return { embeddings: texts.map(text => this.embedText(text)) }
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 1)
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`)
+    ]
+
+    for (const feature of features) {
+      const hash = hashToken(feature)
+      // The top bit picks the sign so unrelated features tend to cancel out
+      vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm === 0 ? vector : vector.map(value => value / norm)
+  }
+}
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { decryptApiKey, encryptApiKey, getKeyHint, isKeyVaultConfigured } from './key-vault'
+
+const SECRET = 'a-test-secret-that-is-long-enough-to-use'
+const API_KEY = 'sk-test-1234567890abcdef'
+
+describe('key vault', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEY_ENCRYPTION_SECRET', SECRET)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('decrypts what it encrypted', () => {
+    const encrypted = encryptApiKey(API_KEY)
+    expect(encrypted).toMatch(/^v1:/)
+    expect(encrypted).not.toContain(API_KEY)
+    expect(decryptApiKey(encrypted)).toBe(API_KEY)
+  })
+
+  it('uses a fresh IV for every encryption', () => {
+    const first = encryptApiKey(API_KEY)
+    const second = encryptApiKey(API_KEY)
+    expect(first).not.toBe(second)
+    expect(decryptApiKey(second)).toBe(API_KEY)
+  })
+
+  it('rejects a tampered ciphertext', () => {
+    const [version, iv, tag, ciphertext] = encryptApiKey(API_KEY).split(':')
+    const bytes = Buffer.from(ciphertext, 'base64')
+    bytes[0] ^= 1
+    expect(decryptApiKey([version, iv, tag, bytes.toString('base64')].join(':'))).toBeNull()
+  })
+
+  it('cannot decrypt after the secret changed', () => {
+    const encrypted = encryptApiKey(API_KEY)
+    vi.stubEnv('API_KEY_ENCRYPTION_SECRET', `${SECRET}-rotated`)
+    expect(decryptApiKey(encrypted)).toBeNull()
+  })
+
+  it('returns null for values in an unknown format', () => {
+    expect(decryptApiKey('')).toBeNull()
+    expect(decryptApiKey(API_KEY)).toBeNull()
+    expect(decryptApiKey(encryptApiKey(API_KEY).replace(/^v1:/, 'v2:'))).toBeNull()
+  })
+
+  it('is not configured without a long enough secret', () => {
+    expect(isKeyVaultConfigured()).toBe(true)
+    vi.stubEnv('API_KEY_ENCRYPTION_SECRET', 'too-short')
+    expect(isKeyVaultConfigured()).toBe(false)
+    expect(() => encryptApiKey(API_KEY)).toThrow('API_KEY_ENCRYPTION_SECRET')
+  })
+
+  it('shows only the end of a key as its hint', () => {
+    expect(getKeyHint(API_KEY)).toBe('…cdef')
+  })
+})
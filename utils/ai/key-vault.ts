@@ -0,0 +1,53 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+// Encrypts user-supplied provider keys with AES-256-GCM before they are
+// stored. The key is derived from API_KEY_ENCRYPTION_SECRET, so rotating the
+// secret makes existing keys unreadable and users have to enter them again.
+// Server-only: the secret must never reach the browser.
+
+const VERSION = 'v1'
+const IV_BYTES = 12
+
+function getEncryptionKey(): Buffer | null {
+  const secret = process.env.API_KEY_ENCRYPTION_SECRET
+  if (!secret || secret.length < 32) return null
+  return createHash('sha256').update(secret).digest()
+}
+
+export function isKeyVaultConfigured(): boolean {
+  return getEncryptionKey() !== null
+}
+
+// `v1:<iv>:<auth tag>:<ciphertext>`, each part base64
+export function encryptApiKey(plaintext: string): string {
+  const key = getEncryptionKey()
+  if (!key) throw new Error('API_KEY_ENCRYPTION_SECRET is not set or shorter than 32 characters')
+
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':')
+}
+
+// Returns null when the value can't be decrypted, e.g. after the secret changed
+export function decryptApiKey(encrypted: string): string | null {
+  const key = getEncryptionKey()
+  const [version, iv, tag, ciphertext] = encrypted.split(':')
+  if (!key || version !== VERSION || !iv || !tag || !ciphertext) return null
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64'))
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final()
+    ]).toString('utf8')
+  } catch {
+    return null
+  }
+}
+
+// The last characters of a key, shown so users can tell their keys apart
+export function getKeyHint(plaintext: string): string {
+  return `…${plaintext.slice(-4)}`
+}
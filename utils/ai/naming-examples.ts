@@ -0,0 +1,90 @@
+import type { createClient } from '@/utils/supabase/server'
+import type { SuggestionDecision } from '@/utils/analytics'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+// A name the user kept for a file, with what the model had suggested
+export interface NamingExample {
+  originalName: string
+  suggestedName: string
+  finalName: string
+}
+
+// Examples sent with each prompt; more mostly costs tokens
+export const MAX_PROMPT_EXAMPLES = 8
+// Recent rows the prompt examples are picked from
+const RECENT_EXAMPLES = 50
+// Examples stored per organizer run, so one large run doesn't crowd out the rest
+const MAX_EXAMPLES_PER_CALL = 20
+
+/**
+ * The user's most recent naming examples for the prompt. Corrections come
+ * first since they carry the most about the user's conventions. A failed
+ * lookup is logged and yields no examples rather than failing the request.
+ */
+export async function getNamingExamples(
+  supabase: SupabaseServerClient,
+  userId: string
+): Promise<NamingExample[]> {
+  const { data, error } = await supabase
+    .from('naming_examples')
+    .select('original_name, suggested_name, final_name, decision')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_EXAMPLES)
+
+  if (error) {
+    console.error('[Naming Examples] Failed to load naming examples:', error)
+    return []
+  }
+
+  const rows = [...(data || [])].sort(
+    (a, b) => Number(b.decision === 'edited') - Number(a.decision === 'edited')
+  )
+  const seen = new Set<string>()
+  const examples: NamingExample[] = []
+  for (const row of rows) {
+    if (seen.has(row.final_name)) continue
+    seen.add(row.final_name)
+    examples.push({
+      originalName: row.original_name,
+      suggestedName: row.suggested_name,
+      finalName: row.final_name
+    })
+    if (examples.length >= MAX_PROMPT_EXAMPLES) break
+  }
+  return examples
+}
+
+// Keep the names the user accepted or corrected. Like decision recording,
+// failures are only logged since the renames already happened
+export async function saveNamingExamples(
+  supabase: SupabaseServerClient,
+  userId: string,
+  examples: (NamingExample & { decision: SuggestionDecision })[]
+): Promise<void> {
+  const rows = examples
+    .filter((example): example is NamingExample & { decision: 'accepted' | 'edited' } =>
+      (example.decision === 'accepted' || example.decision === 'edited') &&
+      !!example.originalName.trim() &&
+      !!example.finalName.trim() &&
+      example.finalName !== example.originalName
+    )
+    // Corrections first when a run has more than fit
+    .sort((a, b) => Number(b.decision === 'edited') - Number(a.decision === 'edited'))
+    .slice(0, MAX_EXAMPLES_PER_CALL)
+    .map(example => ({
+      user_id: userId,
+      original_name: example.originalName.trim(),
+      suggested_name: example.suggestedName.trim(),
+      final_name: example.finalName.trim(),
+      decision: example.decision
+    }))
+
+  if (rows.length === 0) return
+
+  const { error } = await supabase.from('naming_examples').insert(rows)
+  if (error) {
+    console.error('[Naming Examples] Failed to save naming examples:', error)
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { formatDate, renderTemplate, type NamingFields, type NamingTemplate } from './naming-template'
+
+const fields: NamingFields = {
+  date: '2024-03-01',
+  author: 'Jane Doe',
+  title: 'Annual Report',
+  counterparty: 'Acme Corp',
+  amount: null,
+  category: 'Invoice'
+}
+
+function template(pattern: string, overrides: Partial<NamingTemplate> = {}): NamingTemplate {
+  return { pattern, case: 'preserve', separator: ' ', ...overrides }
+}
+
+describe('formatDate', () => {
+  it('formats a full date', () => {
+    expect(formatDate('2024-03-01')).toBe('2024-03-01')
+    expect(formatDate('2024-03-01', 'DD.MM.YYYY')).toBe('01.03.2024')
+    expect(formatDate('2024-03-01', 'YY_MM')).toBe('24_03')
+  })
+
+  it('drops the tokens a partial date has no value for', () => {
+    expect(formatDate('2024', 'DD.MM.YYYY')).toBe('2024')
+    expect(formatDate('2024-03', 'YYYY-MM-DD')).toBe('2024-03')
+    expect(formatDate('2024', 'YYYY MM DD')).toBe('2024')
+  })
+
+  it('returns an empty string for values that are not dates', () => {
+    expect(formatDate('March 2024')).toBe('')
+  })
+})
+
+describe('renderTemplate', () => {
+  it('renders every field', () => {
+    expect(renderTemplate(template('{date:YYYY} - {author} - {title}'), fields))
+      .toBe('2024 - Jane Doe - Annual Report')
+  })
+
+  it('resolves aliases and applies the case and separator to field values', () => {
+    expect(renderTemplate(template('{client}_{doctype}_{date}', { case: 'lower', separator: '-' }), fields))
+      .toBe('acme-corp_invoice_2024-03-01')
+    expect(renderTemplate(template('{year} {title}', { case: 'upper' }), fields))
+      .toBe('2024 ANNUAL REPORT')
+  })
+
+  it('leaves out a missing field with the text that joins it', () => {
+    expect(renderTemplate(template('{date:YYYY} - {author} - {title}'), { ...fields, author: null }))
+      .toBe('2024 - Annual Report')
+    expect(renderTemplate(template('{title} - {author}'), { ...fields, author: '  ' }))
+      .toBe('Annual Report')
+  })
+
+  it('leaves out the brackets around a missing field', () => {
+    expect(renderTemplate(template('{title} ({date})'), { ...fields, date: null }))
+      .toBe('Annual Report')
+    expect(renderTemplate(template('[{date}] {title}'), { ...fields, date: null }))
+      .toBe('Annual Report')
+  })
+
+  it('removes characters file names cannot contain', () => {
+    expect(renderTemplate(template('{title}'), { ...fields, title: 'Q1/Q2: "Review"' }))
+      .toBe('Q1Q2 Review')
+  })
+
+  it('returns an empty string when no field has a value', () => {
+    expect(renderTemplate(template('{author} - {title}'), { ...fields, author: null, title: null }))
+      .toBe('')
+  })
+
+  it('rejects unknown fields', () => {
+    expect(() => renderTemplate(template('{project} {title}'), fields))
+      .toThrow('Unknown template field "{project}"')
+  })
+})
@@ -0,0 +1,203 @@
+import { z } from 'zod'
+
+// Fields the model extracts from a file so the server can render the name.
+// Every field is required but nullable, as strict structured outputs demand
+export const NamingFieldsSchema = z.object({
+  date: z.string().nullable(),          // YYYY-MM-DD, or YYYY-MM / YYYY when partial
+  author: z.string().nullable(),
+  title: z.string().nullable(),
+  counterparty: z.string().nullable(),  // Client, vendor or other party
+  amount: z.string().nullable(),        // Total with currency, e.g. "1250.00 EUR"
+  category: z.string().nullable()       // Document type, e.g. "invoice"
+})
+
+export type NamingFields = z.infer<typeof NamingFieldsSchema>
+export type NamingField = keyof NamingFields
+
+export const NAMING_FIELDS = Object.keys(NamingFieldsSchema.shape) as NamingField[]
+
+// Alternative names accepted in patterns, e.g. `{client}_{doctype}_{date}`
+const FIELD_ALIASES: Record<string, NamingField> = {
+  client: 'counterparty',
+  vendor: 'counterparty',
+  doctype: 'category',
+  type: 'category',
+  year: 'date'
+}
+
+export const NamingCaseSchema = z.enum(['preserve', 'lower', 'upper', 'title'])
+export const NamingSeparatorSchema = z.enum([' ', '-', '_', '.'])
+
+export const NamingTemplateSchema = z.object({
+  pattern: z.string().trim().min(1).max(200),
+  // Applied to field values only; literal text in the pattern is kept as is
+  case: NamingCaseSchema.default('preserve'),
+  // Replaces whitespace inside field values
+  separator: NamingSeparatorSchema.default(' ')
+})
+
+export type NamingTemplate = z.infer<typeof NamingTemplateSchema>
+export type NamingCase = z.infer<typeof NamingCaseSchema>
+export type NamingSeparator = z.infer<typeof NamingSeparatorSchema>
+
+export const NAMING_TEMPLATE_PRESETS: { id: string; label: string; template: NamingTemplate }[] = [
+  {
+    id: 'research',
+    label: 'Research (2024 - Author - Title)',
+    template: { pattern: '{date:YYYY} - {author} - {title}', case: 'preserve', separator: ' ' }
+  },
+  {
+    id: 'accounting',
+    label: 'Accounting (client_doctype_date)',
+    template: { pattern: '{client}_{doctype}_{date}', case: 'lower', separator: '-' }
+  },
+  {
+    id: 'dated',
+    label: 'Dated (2024-03-01 Title)',
+    template: { pattern: '{date} {title}', case: 'preserve', separator: ' ' }
+  }
+]
+
+type TemplateToken =
+  | { kind: 'literal'; text: string }
+  | { kind: 'field'; field: NamingField; format?: string }
+
+const FIELD_PATTERN = /\{([a-zA-Z]+)(?::([^}]+))?\}/g
+
+function resolveField(name: string): NamingField | null {
+  const lower = name.toLowerCase()
+  if ((NAMING_FIELDS as string[]).includes(lower)) return lower as NamingField
+  return FIELD_ALIASES[lower] ?? null
+}
+
+export function parseTemplate(pattern: string): TemplateToken[] {
+  const tokens: TemplateToken[] = []
+  let lastIndex = 0
+
+  for (const match of pattern.matchAll(FIELD_PATTERN)) {
+    const field = resolveField(match[1])
+    if (!field) {
+      throw new Error(`Unknown template field "{${match[1]}}"`)
+    }
+    if (match.index! > lastIndex) {
+      tokens.push({ kind: 'literal', text: pattern.slice(lastIndex, match.index) })
+    }
+    // `{year}` is shorthand for `{date:YYYY}`
+    const format = match[2] ?? (match[1].toLowerCase() === 'year' ? 'YYYY' : undefined)
+    tokens.push({ kind: 'field', field, format })
+    lastIndex = match.index! + match[0].length
+  }
+
+  if (lastIndex < pattern.length) {
+    tokens.push({ kind: 'literal', text: pattern.slice(lastIndex) })
+  }
+  if (!tokens.some(token => token.kind === 'field')) {
+    throw new Error('Template must contain at least one field, e.g. {title}')
+  }
+  return tokens
+}
+
+// Fields referenced by a pattern, so the model is only asked for those
+export function templateFields(template: NamingTemplate): NamingField[] {
+  const fields = parseTemplate(template.pattern)
+    .filter(token => token.kind === 'field')
+    .map(token => (token as { field: NamingField }).field)
+  return Array.from(new Set(fields))
+}
+
+// Format YYYY-MM-DD (or a partial date) with YYYY, YY, MM and DD tokens.
+// Tokens the date is too coarse for are dropped with their punctuation,
+// so `DD.MM.YYYY` renders a bare year as `2024` rather than `..2024`
+export function formatDate(value: string, format: string = 'YYYY-MM-DD'): string {
+  const match = value.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/)
+  if (!match) return ''
+
+  const [, year, month, day] = match
+  return format
+    .replace(/YYYY/g, year)
+    .replace(/YY/g, year.slice(2))
+    .replace(/MM/g, month ?? '')
+    .replace(/DD/g, day ?? '')
+    .replace(/^[-_. ]+|[-_. ]+$/g, '')
+    .replace(/([-_. ])[-_. ]+/g, '$1')
+}
+
+function applyCase(value: string, namingCase: NamingCase): string {
+  switch (namingCase) {
+    case 'lower':
+      return value.toLowerCase()
+    case 'upper':
+      return value.toUpperCase()
+    case 'title':
+      return value.replace(/\S+/g, word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    default:
+      return value
+  }
+}
+
+function renderField(
+  fields: NamingFields,
+  token: Extract<TemplateToken, { kind: 'field' }>,
+  template: NamingTemplate
+): string {
+  const raw = fields[token.field]?.trim()
+  if (!raw) return ''
+
+  const value = token.field === 'date' ? formatDate(raw, token.format) : raw
+  return applyCase(value, template.case)
+    .replace(/[<>:"/\\|?*\x00-\x1F]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/ /g, template.separator)
+}
+
+// Brackets around a missing field go with it, e.g. the parentheses in `({date})`
+const OPENING_BRACKETS = /[([{]\s*$/
+const CLOSING_BRACKETS = /^\s*[)\]}]/
+
+/**
+ * Render a file name (without extension) from extracted fields. Missing
+ * fields are left out together with the literal text that joins them to the
+ * previous field and any brackets around them, so `{date} - {author} - {title}`
+ * without an author becomes `2024 - Title` rather than `2024 -  - Title`, and
+ * `{title} ({date})` without a date becomes `Title`.
+ */
+export function renderTemplate(template: NamingTemplate, fields: NamingFields): string {
+  let prefix = ''
+  let name = ''
+  let pendingLiteral = ''
+  let seenField = false
+  let firstRendered = false
+  let lastRendered = false
+
+  for (const token of parseTemplate(template.pattern)) {
+    if (token.kind === 'literal') {
+      if (!seenField) {
+        prefix += token.text
+      } else {
+        // Text right after a missing field loses the bracket that closed it
+        const text = !lastRendered && !pendingLiteral
+          ? token.text.replace(CLOSING_BRACKETS, '')
+          : token.text
+        pendingLiteral += text
+      }
+      continue
+    }
+
+    const value = renderField(fields, token, template)
+    if (value) {
+      name += (name ? pendingLiteral : '') + value
+    }
+    if (!seenField) firstRendered = !!value
+    seenField = true
+    lastRendered = !!value
+    // A missing field takes the literal text leading up to it along
+    pendingLiteral = ''
+  }
+
+  if (!name) return ''
+  // Trailing text needs the last field; a missing first field drops its bracket
+  const leading = firstRendered ? prefix : prefix.replace(OPENING_BRACKETS, '')
+  const trailing = lastRendered ? pendingLiteral : ''
+  return (leading + name + trailing).trim()
+}
@@ -0,0 +1,72 @@
+import OpenAI from 'openai'
+import {
+  AIProviderError,
+  EMBEDDING_DIMENSIONS,
+  type EmbeddingProvider,
+  type EmbeddingResult,
+  type ProviderId
+} from './types'
+
+interface OpenAICompatibleEmbeddingOptions {
+  apiKey: string
+  baseURL?: string
+  model: string
+}
+
+// Embeddings over the OpenAI /v1/embeddings API, which OpenAI and local
+// servers such as Ollama both expose
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: ProviderId
+  readonly model: string
+  private client: OpenAI
+
+  constructor(id: ProviderId, options: OpenAICompatibleEmbeddingOptions) {
+    this.id = id
+    this.model = options.model
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL
+    })
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    let response
+    try {
+      response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts,
+        // text-embedding-3 models can shorten their vectors; other models
+        // must already produce EMBEDDING_DIMENSIONS values
+        ...(this.model.startsWith('text-embedding-3') && { dimensions: EMBEDDING_DIMENSIONS })
+      })
+    } catch (error) {
+      throw new AIProviderError(
+        this.id,
+        (error instanceof Error && error.message) || 'Embedding request failed',
+        error instanceof OpenAI.APIError ? error.status : undefined
+      )
+    }
+
+    const embeddings = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding)
+
+    if (embeddings.length !== texts.length) {
+      throw new AIProviderError(this.id, `Expected ${texts.length} embeddings, got ${embeddings.length}`)
+    }
+    const wrongSize = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS)
+    if (wrongSize) {
+      throw new AIProviderError(
+        this.id,
+        `${this.model} returned ${wrongSize.length}-dimensional embeddings, ${EMBEDDING_DIMENSIONS} are required`
+      )
+    }
+
+    return {
+      embeddings,
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, totalTokens: response.usage.total_tokens }
+        : undefined
+    }
+  }
+}
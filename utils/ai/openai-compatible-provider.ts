@@ -0,0 +1,116 @@
+import OpenAI from 'openai'
+import type {
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionMessageParam
+} from 'openai/resources/chat/completions'
+import {
+  AIProviderError,
+  type AIProvider,
+  type CompletionRequest,
+  type CompletionResult,
+  type ProviderId
+} from './types'
+
+// How the endpoint is asked for JSON: strict structured outputs, or plain
+// JSON mode where the schema is only described in the prompt
+export type StructuredOutputMode = 'json_schema' | 'json_object'
+
+interface OpenAICompatibleOptions {
+  apiKey: string
+  baseURL?: string
+  model: string
+  structuredOutput?: StructuredOutputMode
+}
+
+// Adapter for any endpoint speaking the OpenAI chat completions API:
+// OpenAI itself, x.ai (Grok), and local servers such as Ollama or llama.cpp
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly id: ProviderId
+  readonly model: string
+  private client: OpenAI
+  private structuredOutput: StructuredOutputMode
+  private responseFormatSupported = true
+
+  constructor(id: ProviderId, options: OpenAICompatibleOptions) {
+    this.id = id
+    this.model = options.model
+    this.structuredOutput = options.structuredOutput || 'json_schema'
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL
+    })
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'system', content: request.system },
+      {
+        role: 'user',
+        content: request.image
+          ? [
+              { type: 'text', text: request.prompt },
+              {
+                type: 'image_url',
+                image_url: {
+                  url: `data:${request.image.mimeType};base64,${request.image.data}`,
+                  detail: 'auto'
+                }
+              }
+            ]
+          : request.prompt
+      }
+    ]
+
+    for (const message of request.followUp || []) {
+      messages.push({ role: message.role, content: message.content })
+    }
+
+    const params: ChatCompletionCreateParamsNonStreaming = {
+      model: this.model,
+      messages,
+      temperature: request.temperature ?? 0.3,
+      max_tokens: request.maxTokens ?? 500
+    }
+
+    if (request.responseFormat && this.responseFormatSupported) {
+      params.response_format = this.structuredOutput === 'json_schema'
+        ? {
+            type: 'json_schema',
+            json_schema: {
+              name: request.responseFormat.name,
+              schema: request.responseFormat.schema,
+              strict: true
+            }
+          }
+        : { type: 'json_object' }
+    }
+
+    let completion
+    try {
+      completion = await this.client.chat.completions.create(params)
+    } catch (error) {
+      const status = error instanceof OpenAI.APIError ? error.status : undefined
+      const message = error instanceof Error ? error.message : ''
+      // Some compatible servers reject response_format outright; drop it and
+      // rely on validation and repair of the plain response instead
+      if (params.response_format && status === 400 && /response_format|json_schema/i.test(message)) {
+        console.warn(`[AI] ${this.id} does not support response_format, retrying without it`)
+        this.responseFormatSupported = false
+        return this.complete(request)
+      }
+      throw new AIProviderError(this.id, message || 'Request failed', status)
+    }
+
+    const usage = completion.usage
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      usage: usage
+        ? {
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+            totalTokens: usage.total_tokens
+          }
+        : undefined
+    }
+  }
+}
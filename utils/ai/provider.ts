@@ -0,0 +1,191 @@
+import { OpenAICompatibleProvider, type StructuredOutputMode } from './openai-compatible-provider'
+import { AnthropicProvider } from './anthropic-provider'
+import { OpenAICompatibleEmbeddingProvider } from './openai-compatible-embeddings'
+import { HashEmbeddingProvider } from './hash-embeddings'
+import {
+  PROVIDER_IDS,
+  type AIProvider,
+  type EmbeddingProvider,
+  type ProviderId,
+  type ProviderSelection
+} from './types'
+
+export * from './types'
+
+interface ProviderPreset {
+  apiKey?: string
+  baseURL?: string
+  textModel: string
+  visionModel: string | null
+  // Served from the same endpoint as /v1/embeddings; null when there is none
+  embeddingModel: string | null
+  requiresApiKey: boolean
+  // Only used by OpenAI-compatible endpoints, Anthropic uses tool calling
+  structuredOutput?: StructuredOutputMode
+}
+
+// Presets are read lazily so env changes in dev are picked up per request
+function getPreset(id: ProviderId): ProviderPreset {
+  switch (id) {
+    case 'grok':
+      return {
+        apiKey: process.env.GROK_API_KEY,
+        baseURL: 'https://api.x.ai/v1',
+        textModel: 'grok-3-mini',
+        visionModel: null,
+        embeddingModel: null,
+        requiresApiKey: true,
+        structuredOutput: 'json_schema'
+      }
+    case 'openai':
+      return {
+        apiKey: process.env.OPEN_AI_API_KEY,
+        baseURL: process.env.OPEN_AI_BASE_URL,
+        textModel: 'gpt-4o-mini',
+        visionModel: 'gpt-4o-mini',
+        embeddingModel: 'text-embedding-3-small',
+        requiresApiKey: true,
+        structuredOutput: 'json_schema'
+      }
+    case 'anthropic':
+      return {
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        baseURL: process.env.ANTHROPIC_BASE_URL,
+        textModel: 'claude-3-5-haiku-latest',
+        visionModel: 'claude-3-5-haiku-latest',
+        embeddingModel: null,
+        requiresApiKey: true
+      }
+    case 'local':
+      // Ollama and llama.cpp both expose an OpenAI-compatible /v1 endpoint
+      return {
+        apiKey: process.env.LOCAL_AI_API_KEY,
+        baseURL: process.env.LOCAL_AI_BASE_URL || 'http://localhost:11434/v1',
+        textModel: process.env.LOCAL_AI_MODEL || 'llama3.1',
+        visionModel: process.env.LOCAL_AI_VISION_MODEL || null,
+        embeddingModel: process.env.LOCAL_AI_EMBEDDING_MODEL || 'nomic-embed-text',
+        requiresApiKey: false,
+        // JSON mode is the lowest common denominator across local servers
+        structuredOutput: process.env.LOCAL_AI_STRUCTURED_OUTPUT === 'json_schema'
+          ? 'json_schema'
+          : 'json_object'
+      }
+  }
+}
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && (PROVIDER_IDS as string[]).includes(value)
+}
+
+export function isProviderConfigured(id: ProviderId, userApiKey?: string): boolean {
+  const preset = getPreset(id)
+  return !preset.requiresApiKey || !!(userApiKey || preset.apiKey)
+}
+
+// AI_PROVIDER, or Grok for backwards compatibility
+export function getDefaultProviderId(): ProviderId {
+  return isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'grok'
+}
+
+// Text providers as offered on the settings page
+export function listTextProviders(): { id: ProviderId; configured: boolean; defaultModel: string }[] {
+  return PROVIDER_IDS.map(id => ({
+    id,
+    configured: isProviderConfigured(id),
+    defaultModel: getPreset(id).textModel
+  }))
+}
+
+function createProvider(id: ProviderId, model: string, userApiKey?: string): AIProvider {
+  const preset = getPreset(id)
+  const apiKey = userApiKey || preset.apiKey
+
+  if (id === 'anthropic') {
+    return new AnthropicProvider({ apiKey: apiKey!, baseURL: preset.baseURL, model })
+  }
+
+  return new OpenAICompatibleProvider(id, {
+    // The OpenAI SDK refuses an empty key, local servers ignore it
+    apiKey: apiKey || 'not-needed',
+    baseURL: preset.baseURL,
+    model,
+    structuredOutput: preset.structuredOutput
+  })
+}
+
+/**
+ * Resolve the text provider for a request. Precedence is the request
+ * selection, then AI_PROVIDER / AI_MODEL, then Grok for backwards compatibility.
+ * A key of the user's for that provider replaces the deployment's key.
+ * Returns null when the chosen provider has no credentials configured.
+ */
+export function resolveTextProvider(selection: ProviderSelection = {}): AIProvider | null {
+  const envProvider = getDefaultProviderId()
+  const id = selection.provider || envProvider
+  const userApiKey = selection.apiKeys?.[id]
+
+  if (!isProviderConfigured(id, userApiKey)) return null
+
+  const model = selection.model ||
+    (id === envProvider ? process.env.AI_MODEL : undefined) ||
+    getPreset(id).textModel
+
+  return createProvider(id, model, userApiKey)
+}
+
+/**
+ * Resolve the provider used for image analysis. Only one provider is
+ * considered (request, AI_VISION_PROVIDER, AI_PROVIDER, then OpenAI) so
+ * images never silently go to a provider the caller did not choose.
+ * Returns null when that provider is unconfigured or has no vision model.
+ */
+export function resolveVisionProvider(selection: ProviderSelection = {}): AIProvider | null {
+  const envVisionProvider = isProviderId(process.env.AI_VISION_PROVIDER)
+    ? process.env.AI_VISION_PROVIDER
+    : undefined
+  const envProvider = isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : undefined
+  const id = selection.provider || envVisionProvider || envProvider || 'openai'
+  const userApiKey = selection.apiKeys?.[id]
+
+  if (!isProviderConfigured(id, userApiKey)) return null
+
+  const model = selection.model ||
+    (id === envVisionProvider ? process.env.AI_VISION_MODEL : undefined) ||
+    getPreset(id).visionModel
+  if (!model) return null
+
+  return createProvider(id, model, userApiKey)
+}
+
+/**
+ * Resolve the provider used to embed file contents and search queries.
+ * AI_EMBEDDING_PROVIDER picks it ('hash' selects the deterministic stand-in);
+ * otherwise AI_PROVIDER is used when it serves embeddings, then OpenAI.
+ * There is no per-request selection: stored vectors are only comparable
+ * with queries embedded by the same model. A key of the user's only
+ * replaces the deployment's credentials, never the model. Returns null when
+ * the provider is unconfigured or has no embedding model.
+ */
+export function resolveEmbeddingProvider(apiKeys: ProviderSelection['apiKeys'] = {}): EmbeddingProvider | null {
+  if (process.env.AI_EMBEDDING_PROVIDER === 'hash') return new HashEmbeddingProvider()
+
+  const envProvider = isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : undefined
+  const id = isProviderId(process.env.AI_EMBEDDING_PROVIDER)
+    ? process.env.AI_EMBEDDING_PROVIDER
+    : envProvider && getPreset(envProvider).embeddingModel ? envProvider : 'openai'
+
+  const userApiKey = apiKeys[id]
+
+  // Anthropic has no embeddings endpoint
+  if (id === 'anthropic' || !isProviderConfigured(id, userApiKey)) return null
+
+  const preset = getPreset(id)
+  const model = process.env.AI_EMBEDDING_MODEL || preset.embeddingModel
+  if (!model) return null
+
+  return new OpenAICompatibleEmbeddingProvider(id, {
+    apiKey: userApiKey || preset.apiKey || 'not-needed',
+    baseURL: preset.baseURL,
+    model
+  })
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { AnalysisError } from './analysis-schema'
+import { completeStructured } from './structured-output'
+import { AIProviderError, type AIProvider, type CompletionResult } from './types'
+
+const Schema = z.object({ name: z.string() })
+
+// A provider that answers with the given responses in order
+function fakeProvider(responses: (CompletionResult | Error)[]): AIProvider {
+  let call = 0
+  return {
+    id: 'openai',
+    model: 'test-model',
+    async complete() {
+      const response = responses[call++]
+      if (response instanceof Error) throw response
+      return response
+    }
+  }
+}
+
+function response(text: string, totalTokens: number): CompletionResult {
+  return { text, usage: { promptTokens: totalTokens - 10, completionTokens: 10, totalTokens } }
+}
+
+const request = { system: 'system', prompt: 'prompt' }
+
+describe('completeStructured', () => {
+  it('returns the usage of a single successful attempt', async () => {
+    const result = await completeStructured(fakeProvider([response('{"name":"a"}', 100)]), request, Schema, 'test')
+    expect(result.data).toEqual({ name: 'a' })
+    expect(result.attempts).toBe(1)
+    expect(result.usage).toEqual({ promptTokens: 90, completionTokens: 10, totalTokens: 100 })
+  })
+
+  it('adds up the usage of attempts that failed validation', async () => {
+    const provider = fakeProvider([response('not json', 100), response('{"name":"a"}', 150)])
+    const result = await completeStructured(provider, request, Schema, 'test')
+    expect(result.attempts).toBe(2)
+    expect(result.usage).toEqual({ promptTokens: 230, completionTokens: 20, totalTokens: 250 })
+    expect(result.completion.text).toBe('{"name":"a"}')
+  })
+
+  it('attaches the usage of every attempt to the error when none is valid', async () => {
+    const provider = fakeProvider([response('{"name":1}', 100), response('{}', 150)])
+    const error = await completeStructured(provider, request, Schema, 'test').catch(error => error)
+    expect(error).toBeInstanceOf(AnalysisError)
+    expect(error.category).toBe('invalid_output')
+    expect(error.attempts).toBe(2)
+    expect(error.usage?.totalTokens).toBe(250)
+  })
+
+  it('keeps the usage of earlier attempts when the provider fails', async () => {
+    const provider = fakeProvider([response('not json', 100), new AIProviderError('openai', 'Too many requests', 429)])
+    const error = await completeStructured(provider, request, Schema, 'test').catch(error => error)
+    expect(error.category).toBe('rate_limit')
+    expect(error.attempts).toBe(1)
+    expect(error.usage?.totalTokens).toBe(100)
+  })
+})
@@ -0,0 +1,142 @@
+import type { ZodType } from 'zod'
+import { zodResponseFormat } from 'openai/helpers/zod'
+import { AnalysisError } from './analysis-schema'
+import {
+  AIProviderError,
+  type AIProvider,
+  type CompletionMessage,
+  type CompletionRequest,
+  type CompletionResult,
+  type CompletionUsage
+} from './types'
+
+export interface StructuredCompletion<T> {
+  data: T
+  // The response that passed validation
+  completion: CompletionResult
+  attempts: number
+  // Tokens of every attempt, including the ones that failed validation
+  usage?: CompletionUsage
+}
+
+// Convert a provider failure into the error category reported to clients
+export function toAnalysisError(error: unknown): AnalysisError {
+  if (error instanceof AnalysisError) return error
+
+  if (error instanceof AIProviderError) {
+    if (error.status === 401 || error.status === 403) {
+      return new AnalysisError('auth', `Provider ${error.providerId} rejected the API key`)
+    }
+    if (error.status === 429) {
+      return new AnalysisError('rate_limit', `Provider ${error.providerId} rate limit exceeded`)
+    }
+    return new AnalysisError('provider_error', `Provider ${error.providerId} failed: ${error.message}`)
+  }
+
+  return new AnalysisError(
+    'provider_error',
+    error instanceof Error ? error.message : 'Unknown provider error'
+  )
+}
+
+function addUsage(total: CompletionUsage | undefined, usage: CompletionUsage | undefined): CompletionUsage | undefined {
+  if (!usage) return total
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens
+  }
+}
+
+// Models in plain JSON mode sometimes wrap output in markdown fences
+function stripCodeFences(text: string): string {
+  return text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+}
+
+/**
+ * Request a completion whose output must satisfy `schema`. The schema is
+ * sent to the provider as its native structured output format, and if the
+ * response still fails to parse or validate the model is shown its output
+ * and the validation errors and asked to correct it. The usage of all
+ * attempts is returned, or attached to the AnalysisError when none succeeds.
+ */
+export async function completeStructured<T>(
+  provider: AIProvider,
+  request: CompletionRequest,
+  schema: ZodType<T>,
+  name: string,
+  maxAttempts: number = 2
+): Promise<StructuredCompletion<T>> {
+  const responseFormat = zodResponseFormat(schema, name).json_schema
+  const followUp: CompletionMessage[] = []
+  let lastProblem = ''
+  let received = 0
+  let usage: CompletionUsage | undefined
+
+  const fail = (error: AnalysisError): AnalysisError => {
+    error.attempts = received
+    error.usage = usage
+    return error
+  }
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let completion: CompletionResult
+    try {
+      completion = await provider.complete({
+        ...request,
+        followUp,
+        responseFormat: {
+          name: responseFormat.name,
+          schema: responseFormat.schema as Record<string, unknown>
+        }
+      })
+    } catch (error) {
+      throw fail(toAnalysisError(error))
+    }
+    received = attempt
+    usage = addUsage(usage, completion.usage)
+
+    const text = stripCodeFences(completion.text)
+    if (!text) {
+      throw fail(new AnalysisError('empty_response', `Provider ${provider.id} returned an empty response`))
+    }
+
+    let candidate: unknown
+    try {
+      candidate = JSON.parse(text)
+    } catch {
+      lastProblem = 'The response was not valid JSON.'
+      console.warn(`[AI] Attempt ${attempt} returned invalid JSON from ${provider.id}:`, text)
+      followUp.push(
+        { role: 'assistant', content: completion.text },
+        { role: 'user', content: `${lastProblem} Respond again with ONLY the corrected JSON object.` }
+      )
+      continue
+    }
+
+    const parsed = schema.safeParse(candidate)
+    if (parsed.success) {
+      return { data: parsed.data, completion, attempts: attempt, usage }
+    }
+
+    lastProblem = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+      .join('; ')
+    console.warn(`[AI] Attempt ${attempt} failed validation from ${provider.id}:`, lastProblem)
+    followUp.push(
+      { role: 'assistant', content: completion.text },
+      {
+        role: 'user',
+        content: `The response did not match the required format (${lastProblem}). Respond again with ONLY the corrected JSON object.`
+      }
+    )
+  }
+
+  throw fail(new AnalysisError(
+    'invalid_output',
+    `Provider ${provider.id} returned invalid output after ${maxAttempts} attempts: ${lastProblem}`
+  ))
+}
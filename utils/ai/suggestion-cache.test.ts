@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { getSuggestionCacheKey, type SuggestionCacheScope } from './suggestion-cache'
+
+const CONTENT_HASH = 'a'.repeat(64)
+
+const scope: SuggestionCacheScope = {
+  model: 'openai/gpt-4o-mini',
+  template: { pattern: '{date} {title}', case: 'preserve', separator: ' ' },
+  language: null
+}
+
+describe('getSuggestionCacheKey', () => {
+  it('returns the same key for the same content and scope', () => {
+    const key = getSuggestionCacheKey(CONTENT_HASH, scope)
+    expect(key).toMatch(/^[0-9a-f]{64}$/)
+    expect(getSuggestionCacheKey(CONTENT_HASH, { ...scope, template: { ...scope.template! } })).toBe(key)
+  })
+
+  it('returns null without a usable content hash', () => {
+    expect(getSuggestionCacheKey(undefined, scope)).toBeNull()
+    expect(getSuggestionCacheKey('', scope)).toBeNull()
+    expect(getSuggestionCacheKey('not-a-hash', scope)).toBeNull()
+    expect(getSuggestionCacheKey('A'.repeat(64), scope)).toBeNull()
+  })
+
+  it('changes with the content', () => {
+    expect(getSuggestionCacheKey('b'.repeat(64), scope)).not.toBe(getSuggestionCacheKey(CONTENT_HASH, scope))
+  })
+
+  it('changes with everything in the scope', () => {
+    const key = getSuggestionCacheKey(CONTENT_HASH, scope)
+    const variants: SuggestionCacheScope[] = [
+      { ...scope, model: 'anthropic/claude-3-5-haiku' },
+      { ...scope, template: null },
+      { ...scope, template: { ...scope.template!, case: 'lower' } },
+      { ...scope, language: 'de' }
+    ]
+    const keys = variants.map(variant => getSuggestionCacheKey(CONTENT_HASH, variant))
+    expect(new Set([key, ...keys]).size).toBe(variants.length + 1)
+  })
+})
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto'
+import type { createClient } from '@/utils/supabase/server'
+import { AnalysisResultSchema, type AnalysisResult } from './analysis-schema'
+import type { NamingTemplate } from './naming-template'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+// Bump whenever the Smart Sync prompts or the way results are built change,
+// so suggestions made by the old prompts are no longer served
+export const SUGGESTION_PROMPT_VERSION = 1
+
+// SHA-256 hex, as computed by ContentHasher
+const CONTENT_HASH_PATTERN = /^[0-9a-f]{64}$/
+
+// Everything besides the content that decides what a suggestion looks like
+export interface SuggestionCacheScope {
+  // `provider/model` that analyzes the file
+  model: string
+  template: NamingTemplate | null
+  // The naming examples in the prompt are left out on purpose: every
+  // accepted rename changes them, which would empty the cache each time
+  language: string | null
+}
+
+export interface CachedSuggestion {
+  key: string
+  model: string
+  result: AnalysisResult
+}
+
+// Null when the file has no usable content hash and can't be cached
+export function getSuggestionCacheKey(contentHash: string | undefined, scope: SuggestionCacheScope): string | null {
+  if (!contentHash || !CONTENT_HASH_PATTERN.test(contentHash)) return null
+
+  return createHash('sha256')
+    .update(JSON.stringify([
+      contentHash,
+      scope.model,
+      SUGGESTION_PROMPT_VERSION,
+      scope.template,
+      scope.language
+    ]))
+    .digest('hex')
+}
+
+/**
+ * Cached results for the given keys. A failed lookup is logged and treated
+ * as a miss, so the files are analyzed again instead of failing the request.
+ */
+export async function getCachedSuggestions(
+  supabase: SupabaseServerClient,
+  userId: string,
+  keys: string[]
+): Promise<Map<string, AnalysisResult>> {
+  const cached = new Map<string, AnalysisResult>()
+  if (keys.length === 0) return cached
+
+  const { data, error } = await supabase
+    .from('suggestion_cache')
+    .select('cache_key, result')
+    .eq('user_id', userId)
+    .in('cache_key', Array.from(new Set(keys)))
+
+  if (error) {
+    console.error('[Suggestion Cache] Failed to look up cached suggestions:', error)
+    return cached
+  }
+
+  for (const row of data || []) {
+    const parsed = AnalysisResultSchema.safeParse(row.result)
+    if (parsed.success && !parsed.data.error) cached.set(row.cache_key, parsed.data)
+  }
+  return cached
+}
+
+// Store fresh results; like token recording, failures are only logged
+export async function cacheSuggestions(
+  supabase: SupabaseServerClient,
+  userId: string,
+  suggestions: CachedSuggestion[]
+): Promise<void> {
+  if (suggestions.length === 0) return
+
+  const { error } = await supabase
+    .from('suggestion_cache')
+    .upsert(suggestions.map(({ key, model, result }) => {
+      const stored: AnalysisResult = { ...result }
+      delete stored.cached
+      return {
+        user_id: userId,
+        cache_key: key,
+        model,
+        result: stored,
+        created_at: new Date().toISOString()
+      }
+    }))
+
+  if (error) {
+    console.error('[Suggestion Cache] Failed to cache suggestions:', error)
+  }
+}
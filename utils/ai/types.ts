@@ -0,0 +1,95 @@
+export type ProviderId = 'grok' | 'openai' | 'anthropic' | 'local'
+
+export const PROVIDER_IDS: ProviderId[] = ['grok', 'openai', 'anthropic', 'local']
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  grok: 'Grok',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Local (Ollama / llama.cpp)'
+}
+
+export interface CompletionImage {
+  mimeType: string
+  data: string // Base64 encoded, without the data: prefix
+}
+
+// JSON schema the response must conform to. Adapters enforce it with the
+// provider's native mechanism (JSON mode, structured outputs or tool calling)
+export interface CompletionResponseFormat {
+  name: string
+  schema: Record<string, unknown>
+}
+
+export interface CompletionMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface CompletionRequest {
+  system: string
+  prompt: string
+  image?: CompletionImage
+  // Earlier turns replayed after the prompt, used for repair requests
+  followUp?: CompletionMessage[]
+  responseFormat?: CompletionResponseFormat
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface CompletionUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface CompletionResult {
+  text: string
+  usage?: CompletionUsage
+}
+
+export interface AIProvider {
+  readonly id: ProviderId
+  readonly model: string
+  complete(request: CompletionRequest): Promise<CompletionResult>
+}
+
+export interface ProviderSelection {
+  provider?: ProviderId
+  model?: string
+  // Users' own keys, used instead of the deployment's key for that provider
+  apiKeys?: Partial<Record<ProviderId, string>>
+}
+
+// Errors raised by adapters carry the upstream HTTP status so callers can
+// tell auth and rate-limit failures apart from malformed responses
+export class AIProviderError extends Error {
+  status?: number
+  providerId: ProviderId
+
+  constructor(providerId: ProviderId, message: string, status?: number) {
+    super(message)
+    this.name = 'AIProviderError'
+    this.providerId = providerId
+    this.status = status
+  }
+}
+
+// Length of the vectors stored in node_embeddings.embedding. Every embedding
+// model has to produce (or be asked for) vectors of this size
+export const EMBEDDING_DIMENSIONS = 768
+
+// 'hash' is the deterministic stand-in that needs no model at all
+export type EmbeddingProviderId = ProviderId | 'hash'
+
+export interface EmbeddingResult {
+  // One vector per input text, in input order
+  embeddings: number[][]
+  usage?: Pick<CompletionUsage, 'promptTokens' | 'totalTokens'>
+}
+
+export interface EmbeddingProvider {
+  readonly id: EmbeddingProviderId
+  readonly model: string
+  embed(texts: string[]): Promise<EmbeddingResult>
+}
@@ -0,0 +1,55 @@
+import type { createClient } from '@/utils/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+export type QuotaName = 'requests_per_minute' | 'requests_per_day' | 'tokens_per_day'
+
+export interface QuotaExceeded {
+  quota: QuotaName
+  limit: number
+  used: number
+  retryAfter: number // Seconds until the quota's window resets
+}
+
+const QUOTA_MESSAGES: Record<QuotaName, (exceeded: QuotaExceeded) => string> = {
+  requests_per_minute: ({ limit, retryAfter }) =>
+    `Rate limit of ${limit} files per minute reached, try again in ${retryAfter}s`,
+  requests_per_day: ({ limit }) => `Daily limit of ${limit} analyzed files reached`,
+  tokens_per_day: ({ limit }) => `Daily limit of ${limit.toLocaleString()} AI tokens reached`
+}
+
+export function describeQuotaExceeded(exceeded: QuotaExceeded): string {
+  return QUOTA_MESSAGES[exceeded.quota](exceeded)
+}
+
+/**
+ * Count `requests` provider calls against the signed-in user's quotas, which
+ * live in Postgres (see supabase/migrations). Returns null when the requests
+ * are allowed, otherwise the quota that would be exceeded.
+ */
+export async function reserveAiRequests(
+  supabase: SupabaseServerClient,
+  requests: number
+): Promise<QuotaExceeded | null> {
+  const { data, error } = await supabase.rpc('reserve_ai_requests', { p_requests: requests })
+  if (error) throw error
+  if (data?.allowed) return null
+
+  return {
+    quota: data.quota,
+    limit: Number(data.limit),
+    used: Number(data.used),
+    retryAfter: Number(data.retry_after)
+  }
+}
+
+// Add the tokens a request used to today's usage. Failing to record is
+// logged rather than failing a request whose results are already computed
+export async function recordAiTokens(supabase: SupabaseServerClient, tokens: number): Promise<void> {
+  if (tokens <= 0) return
+
+  const { error } = await supabase.rpc('record_ai_tokens', { p_tokens: tokens })
+  if (error) {
+    console.error('[AI Usage] Failed to record token usage:', error)
+  }
+}
@@ -0,0 +1,80 @@
+import type { createClient } from '@/utils/supabase/server'
+import { decryptApiKey } from './key-vault'
+import { PROVIDER_IDS, type ProviderId } from './types'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+// Workspace ids end up in a PostgREST filter string, so only UUIDs are accepted
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface UserApiKey {
+  id: string
+  provider: ProviderId
+  apiKey: string
+}
+
+/**
+ * The signed-in user's decrypted keys for a request, one per provider. A key
+ * registered for the workspace wins over the user's default key, so an
+ * agency can bill each client's workspace to that client. Keys that no
+ * longer decrypt are skipped and the deployment's key is used instead.
+ */
+export async function loadUserApiKeys(
+  supabase: SupabaseServerClient,
+  userId: string,
+  workspaceId: string | null
+): Promise<Map<ProviderId, UserApiKey>> {
+  if (workspaceId !== null && !UUID_PATTERN.test(workspaceId)) {
+    throw new Error('Invalid workspace id')
+  }
+
+  let query = supabase
+    .from('user_api_keys')
+    .select('id, provider, workspace_id, encrypted_key')
+    .eq('user_id', userId)
+  query = workspaceId
+    ? query.or(`workspace_id.is.null,workspace_id.eq.${workspaceId}`)
+    : query.is('workspace_id', null)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const keys = new Map<ProviderId, UserApiKey>()
+  // Defaults first so workspace keys overwrite them
+  const rows = (data || []).sort((a, b) => Number(a.workspace_id !== null) - Number(b.workspace_id !== null))
+  for (const row of rows) {
+    if (!(PROVIDER_IDS as string[]).includes(row.provider)) continue
+    const apiKey = decryptApiKey(row.encrypted_key)
+    if (!apiKey) {
+      console.error(`[API Keys] Could not decrypt key ${row.id}; was API_KEY_ENCRYPTION_SECRET changed?`)
+      continue
+    }
+    keys.set(row.provider, { id: row.id, provider: row.provider, apiKey })
+  }
+  return keys
+}
+
+// Provider keys in the shape the provider resolvers take
+export function toApiKeySelection(keys: Map<ProviderId, UserApiKey>): Partial<Record<ProviderId, string>> {
+  return Object.fromEntries(Array.from(keys.values()).map(key => [key.provider, key.apiKey]))
+}
+
+// Add a request's usage to a key. Like token recording, a failure is logged
+// rather than failing a request whose results are already computed
+export async function recordApiKeyUsage(
+  supabase: SupabaseServerClient,
+  keyId: string,
+  requests: number,
+  tokens: number
+): Promise<void> {
+  if (requests <= 0 && tokens <= 0) return
+
+  const { error } = await supabase.rpc('record_api_key_usage', {
+    p_key_id: keyId,
+    p_requests: requests,
+    p_tokens: tokens
+  })
+  if (error) {
+    console.error('[API Keys] Failed to record key usage:', error)
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { listWeeks, startOfWeek } from './analytics'
+
+describe('startOfWeek', () => {
+  it('returns the Monday of the week', () => {
+    expect(startOfWeek(new Date('2024-03-06T15:30:00Z'))).toBe('2024-03-04')
+    expect(startOfWeek(new Date('2024-03-04T00:00:00Z'))).toBe('2024-03-04')
+  })
+
+  it('counts Sunday as the last day of the week', () => {
+    expect(startOfWeek(new Date('2024-03-10T23:59:59Z'))).toBe('2024-03-04')
+    expect(startOfWeek(new Date('2024-03-11T00:00:00Z'))).toBe('2024-03-11')
+  })
+
+  it('crosses month and year boundaries', () => {
+    expect(startOfWeek(new Date('2024-03-01T12:00:00Z'))).toBe('2024-02-26')
+    expect(startOfWeek(new Date('2025-01-01T12:00:00Z'))).toBe('2024-12-30')
+  })
+})
+
+describe('listWeeks', () => {
+  it('lists every week from the week of since through the current week', () => {
+    expect(listWeeks(new Date('2024-02-28T10:00:00Z'), new Date('2024-03-13T10:00:00Z')))
+      .toEqual(['2024-02-26', '2024-03-04', '2024-03-11'])
+  })
+
+  it('returns a single week when both dates fall in it', () => {
+    expect(listWeeks(new Date('2024-03-04T00:00:00Z'), new Date('2024-03-10T23:59:59Z')))
+      .toEqual(['2024-03-04'])
+  })
+
+  it('covers a full range without gaps', () => {
+    const weeks = listWeeks(new Date('2024-01-01T00:00:00Z'), new Date('2024-12-31T00:00:00Z'))
+    expect(weeks[0]).toBe('2024-01-01')
+    expect(weeks[weeks.length - 1]).toBe('2024-12-30')
+    expect(weeks).toHaveLength(53)
+  })
+})
@@ -0,0 +1,66 @@
+import { CHECKLIST_FILE_TYPES, matchesExpectedFileType } from '@/utils/checklist'
+
+// Organization activity shown on the analytics page. Node operations are
+// recorded by a trigger on nodes (see supabase/migrations); decisions on AI
+// name suggestions are recorded by the organizers through the analytics actions.
+
+export type SuggestionDecision = 'accepted' | 'edited' | 'rejected'
+
+export type NodeActivityType = 'created' | 'renamed' | 'moved' | 'trashed' | 'restored'
+
+// A reviewed AI name suggestion as sent by the organizers
+export interface RenameDecisionInput {
+  nodeId?: string | null
+  // Name before organizing; accepted and edited names become naming examples
+  originalName?: string
+  suggestedName: string
+  finalName: string
+  confidence: number
+  decision: SuggestionDecision
+}
+
+// Days of activity the page can show
+export const ANALYTICS_RANGES = [30, 90, 365] as const
+export const DEFAULT_ANALYTICS_RANGE = 90
+
+// Labels of the buckets computed by activity_counts, lowest confidence first
+export const CONFIDENCE_BUCKETS = ['Below 20%', '20-39%', '40-59%', '60-79%', '80% and above']
+
+// The PRD's target share of suggestions approved without edits
+export const TARGET_APPROVAL_RATE = 0.7
+
+/**
+ * How the user treated a suggestion: a name kept as suggested is accepted,
+ * any other name the file ends up with is an edit.
+ */
+export function getSuggestionDecision(
+  suggestedName: string,
+  finalName: string,
+  selected: boolean
+): SuggestionDecision {
+  if (!selected) return 'rejected'
+  return finalName.trim() === suggestedName.trim() ? 'accepted' : 'edited'
+}
+
+// Storage categories follow the checklist file types, anything else is "Other"
+export function getFileCategory(file: { name: string; mime_type: string | null }): string {
+  return CHECKLIST_FILE_TYPES.find(type => matchesExpectedFileType(type.value, file))?.label ?? 'Other'
+}
+
+// Monday of the UTC week a date falls in, as YYYY-MM-DD like date_trunc('week')
+export function startOfWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+  return day.toISOString().slice(0, 10)
+}
+
+// Every week start from the week of `since` through the current week
+export function listWeeks(since: Date, now: Date = new Date()): string[] {
+  const weeks: string[] = []
+  const end = startOfWeek(now)
+  for (let week = new Date(startOfWeek(since)); ; week.setUTCDate(week.getUTCDate() + 7)) {
+    const key = week.toISOString().slice(0, 10)
+    weeks.push(key)
+    if (key >= end) return weeks
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { BundleExporter } from './bundle-exporter'
+
+describe('BundleExporter.fileName', () => {
+  it('numbers the file and keeps its name and extension', () => {
+    expect(BundleExporter.fileName(3, 12, null, 'Signed NDA.pdf')).toBe('03 - Signed NDA.pdf')
+  })
+
+  it('pads the number to the width of the total', () => {
+    expect(BundleExporter.fileName(7, 150, null, 'scan.png')).toBe('007 - scan.png')
+    expect(BundleExporter.fileName(1, 3, null, 'scan.png')).toBe('01 - scan.png')
+  })
+
+  it('uses the label in place of the file name', () => {
+    expect(BundleExporter.fileName(1, 2, 'Master agreement', 'msa_v4_final.docx')).toBe('01 - Master agreement.docx')
+    expect(BundleExporter.fileName(1, 2, '   ', 'msa.docx')).toBe('01 - msa.docx')
+  })
+
+  it('does not repeat an extension the label already has', () => {
+    expect(BundleExporter.fileName(2, 2, 'Invoice.PDF', 'scan.pdf')).toBe('02 - Invoice.pdf')
+  })
+
+  it('replaces characters file names cannot contain', () => {
+    expect(BundleExporter.fileName(1, 1, 'Q1/Q2: "Report"', 'report.xlsx')).toBe('01 - Q1_Q2_ _Report_.xlsx')
+  })
+
+  it('handles names without an extension and dotfiles', () => {
+    expect(BundleExporter.fileName(4, 9, null, 'README')).toBe('04 - README')
+    expect(BundleExporter.fileName(5, 9, null, '.env')).toBe('05 - .env')
+  })
+})
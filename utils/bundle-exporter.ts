@@ -0,0 +1,188 @@
+import { createClient } from '@/utils/supabase/client'
+import { FileDownloader, type DownloadableFile } from '@/utils/file-downloader'
+import type { Tables } from '@/utils/supabase/database.types'
+
+type Node = Tables<'nodes'>
+
+export interface BundleExportItem {
+  node: Node
+  label: string | null
+  // Folder the file lives in within the workspace, empty at the root
+  path: string
+}
+
+// One exported file as listed in the index and the manifest
+export interface BundleEntry {
+  position: number
+  label: string
+  fileName: string
+  originalName: string
+  sourcePath: string
+  size: number | null
+  version: number
+  contentHash: string | null
+  updatedAt: string
+}
+
+export interface BundleExportResult {
+  exported: number
+  // Files that were left out, such as ones in the trash
+  skipped: { name: string; reason: string }[]
+}
+
+const INDEX_FILE_NAME = '00 - Index.html'
+const MANIFEST_FILE_NAME = 'manifest.json'
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Exports a deliverable bundle as one ZIP: the files numbered by position
+ * (`03 - Signed NDA.pdf`), an index document listing them and a JSON
+ * manifest tying each numbered file back to its source in the workspace.
+ */
+export class BundleExporter {
+  /**
+   * Name of a file at a 1-based position; the label replaces the file's own
+   * name and the original extension is kept
+   */
+  static fileName(position: number, total: number, label: string | null, originalName: string): string {
+    const lastDot = originalName.lastIndexOf('.')
+    const extension = lastDot > 0 ? originalName.slice(lastDot) : ''
+    const stem = lastDot > 0 ? originalName.slice(0, lastDot) : originalName
+    let title = (label?.trim() || stem).replace(/[<>:"/\\|?*\x00-\x1F]/g, '_').trim()
+    if (extension && title.toLowerCase().endsWith(extension.toLowerCase())) {
+      title = title.slice(0, -extension.length)
+    }
+    const number = String(position).padStart(Math.max(2, String(total).length), '0')
+    return `${number} - ${title}${extension}`
+  }
+
+  static createIndex(bundleName: string, entries: BundleEntry[], exportedAt: Date): string {
+    const rows = entries.map(entry => `      <tr>
+        <td>${entry.position}</td>
+        <td>${escapeHtml(entry.label)}</td>
+        <td>${escapeHtml(entry.fileName)}</td>
+        <td>${escapeHtml(entry.sourcePath ? `${entry.sourcePath}/${entry.originalName}` : entry.originalName)}</td>
+        <td>${entry.size !== null ? FileDownloader.formatBytes(entry.size) : ''}</td>
+      </tr>`).join('\n')
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(bundleName)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.5rem; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .meta { color: #666; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(bundleName)}</h1>
+  <p class="meta">${entries.length} document${entries.length === 1 ? '' : 's'}, exported ${exportedAt.toLocaleString()}</p>
+  <table>
+    <thead>
+      <tr><th>No.</th><th>Document</th><th>File</th><th>Source</th><th>Size</th></tr>
+    </thead>
+    <tbody>
+${rows}
+    </tbody>
+  </table>
+</body>
+</html>
+`
+  }
+
+  static createManifest(
+    bundleName: string,
+    entries: BundleEntry[],
+    skipped: BundleExportResult['skipped'],
+    exportedAt: Date
+  ): string {
+    return JSON.stringify({
+      version: '1.0',
+      bundle: bundleName,
+      exportedAt: exportedAt.toISOString(),
+      totalFiles: entries.length,
+      files: entries,
+      skipped
+    }, null, 2)
+  }
+
+  /**
+   * Download the bundle's files from the `user-files` bucket and save the
+   * ZIP. Files in the trash or without a stored object are skipped and
+   * recorded in the manifest; numbering stays consecutive without them.
+   */
+  static async export(
+    bundleName: string,
+    items: BundleExportItem[],
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<BundleExportResult> {
+    const supabase = createClient()
+    const skipped: BundleExportResult['skipped'] = []
+    const available = items.filter(item => {
+      if (item.node.deleted_at) {
+        skipped.push({ name: item.node.name, reason: 'In the trash' })
+        return false
+      }
+      if (!item.node.storage_object_path) {
+        skipped.push({ name: item.node.name, reason: 'No stored content' })
+        return false
+      }
+      return true
+    })
+
+    const files: DownloadableFile[] = []
+    const entries: BundleEntry[] = []
+
+    for (const item of available) {
+      const { data, error } = await supabase.storage
+        .from('user-files')
+        .download(item.node.storage_object_path!)
+
+      if (error || !data) {
+        console.error(`[BundleExporter] Failed to download ${item.node.name}:`, error)
+        skipped.push({ name: item.node.name, reason: 'Could not be downloaded' })
+      } else {
+        const position = entries.length + 1
+        const fileName = this.fileName(position, available.length, item.label, item.node.name)
+        files.push({ originalName: item.node.name, suggestedName: fileName, content: data })
+        entries.push({
+          position,
+          label: item.label?.trim() || item.node.name,
+          fileName,
+          originalName: item.node.name,
+          sourcePath: item.path,
+          size: item.node.size,
+          version: item.node.version,
+          contentHash: item.node.content_hash,
+          updatedAt: item.node.updated_at
+        })
+      }
+      onProgress?.(files.length + skipped.length, items.length)
+    }
+
+    if (files.length === 0) {
+      throw new Error('None of the files in this bundle could be exported')
+    }
+
+    const exportedAt = new Date()
+    const zipName = `${bundleName.replace(/[<>:"/\\|?*\x00-\x1F]/g, '_').trim() || 'bundle'}.zip`
+    await FileDownloader.downloadWithManifest(files, zipName, {
+      manifest: { name: MANIFEST_FILE_NAME, content: this.createManifest(bundleName, entries, skipped, exportedAt) },
+      extraFiles: [{ name: INDEX_FILE_NAME, content: this.createIndex(bundleName, entries, exportedAt) }],
+      filesFolder: ''
+    })
+
+    return { exported: files.length, skipped }
+  }
+}
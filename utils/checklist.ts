@@ -0,0 +1,97 @@
+import type { Tables } from '@/utils/supabase/database.types'
+
+// Checklists list the documents a workspace should contain; files are
+// matched to their items by the AI and confirmed by the user. Shared by the
+// checklist actions, the matcher prompt and the checklist UI.
+
+type ChecklistItem = Tables<'checklist_items'>
+type ChecklistMatch = Tables<'checklist_matches'>
+
+export interface ChecklistFileType {
+  value: string
+  label: string
+  mimePrefixes: string[]
+  extensions: string[]
+}
+
+// File types an item can expect, stored in checklist_items.expected_file_type
+export const CHECKLIST_FILE_TYPES: ChecklistFileType[] = [
+  { value: 'pdf', label: 'PDF', mimePrefixes: ['application/pdf'], extensions: ['pdf'] },
+  {
+    value: 'document',
+    label: 'Word document',
+    mimePrefixes: ['application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml', 'application/vnd.oasis.opendocument.text'],
+    extensions: ['doc', 'docx', 'odt', 'rtf']
+  },
+  {
+    value: 'spreadsheet',
+    label: 'Spreadsheet',
+    mimePrefixes: ['application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml', 'text/csv'],
+    extensions: ['xls', 'xlsx', 'ods', 'csv']
+  },
+  {
+    value: 'presentation',
+    label: 'Presentation',
+    mimePrefixes: ['application/vnd.ms-powerpoint', 'application/vnd.openxmlformats-officedocument.presentationml'],
+    extensions: ['ppt', 'pptx', 'odp', 'key']
+  },
+  { value: 'image', label: 'Image or scan', mimePrefixes: ['image/'], extensions: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'tif', 'tiff'] },
+  { value: 'email', label: 'Email', mimePrefixes: ['message/'], extensions: ['eml', 'msg'] },
+  { value: 'text', label: 'Text', mimePrefixes: ['text/plain', 'text/markdown'], extensions: ['txt', 'md'] }
+]
+
+// Suggestions below this confidence are not stored
+export const MIN_MATCH_CONFIDENCE = 0.3
+// Suggestions kept per item, best first
+export const MAX_SUGGESTIONS_PER_ITEM = 3
+
+export type ChecklistItemStatus = 'complete' | 'review' | 'missing'
+
+// An item as entered in the checklist editor; dates are YYYY-MM-DD
+export interface ChecklistItemInput {
+  description: string
+  expectedFileType: string | null
+  dateFrom: string | null
+  dateTo: string | null
+}
+
+export function getChecklistFileType(value: string | null): ChecklistFileType | null {
+  return CHECKLIST_FILE_TYPES.find(type => type.value === value) ?? null
+}
+
+// Whether a file can satisfy an item's expected type; items without one accept any file
+export function matchesExpectedFileType(
+  expected: string | null,
+  file: { name: string; mime_type: string | null }
+): boolean {
+  const type = getChecklistFileType(expected)
+  if (!type) return true
+
+  const mimeType = file.mime_type?.toLowerCase() ?? ''
+  if (mimeType && type.mimePrefixes.some(prefix => mimeType.startsWith(prefix))) return true
+
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+  return type.extensions.includes(extension)
+}
+
+export function formatDateRange(from: string | null, to: string | null): string | null {
+  if (from && to) return from === to ? from : `${from} to ${to}`
+  if (from) return `from ${from}`
+  if (to) return `until ${to}`
+  return null
+}
+
+// Complete once a match is confirmed; needs review while suggestions wait
+export function getChecklistItemStatus(matches: Pick<ChecklistMatch, 'status'>[]): ChecklistItemStatus {
+  if (matches.some(match => match.status === 'confirmed')) return 'complete'
+  if (matches.some(match => match.status === 'suggested')) return 'review'
+  return 'missing'
+}
+
+export function describeChecklistItem(item: Pick<ChecklistItem, 'description' | 'expected_file_type' | 'date_from' | 'date_to'>): string {
+  const details = [
+    getChecklistFileType(item.expected_file_type)?.label,
+    formatDateRange(item.date_from, item.date_to)
+  ].filter(Boolean)
+  return details.length > 0 ? `${item.description} (${details.join(', ')})` : item.description
+}
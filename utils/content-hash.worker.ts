@@ -0,0 +1,144 @@
+// Computes SHA-256 checksums of Blobs posted by ContentHasher. Small blobs go
+// through WebCrypto; larger ones are read in chunks and fed to an incremental
+// implementation, since crypto.subtle needs the whole file in memory.
+
+const WEBCRYPTO_MAX_SIZE = 64 * 1024 * 1024
+const CHUNK_SIZE = 4 * 1024 * 1024
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+])
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n))
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+class Sha256 {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ])
+  private words = new Uint32Array(64)
+  private block = new Uint8Array(64)
+  private blockLength = 0
+  private bytesHashed = 0
+
+  update(data: Uint8Array) {
+    let offset = 0
+    this.bytesHashed += data.length
+
+    // Top up a partial block left over from the previous chunk
+    if (this.blockLength > 0) {
+      const take = Math.min(64 - this.blockLength, data.length)
+      this.block.set(data.subarray(0, take), this.blockLength)
+      this.blockLength += take
+      offset = take
+      if (this.blockLength < 64) return
+      this.compress(this.block, 0)
+      this.blockLength = 0
+    }
+
+    for (; offset + 64 <= data.length; offset += 64) {
+      this.compress(data, offset)
+    }
+
+    if (offset < data.length) {
+      this.block.set(data.subarray(offset))
+      this.blockLength = data.length - offset
+    }
+  }
+
+  digest(): string {
+    const block = this.block
+    block[this.blockLength++] = 0x80
+    if (this.blockLength > 56) {
+      block.fill(0, this.blockLength)
+      this.compress(block, 0)
+      this.blockLength = 0
+    }
+    block.fill(0, this.blockLength, 56)
+
+    // Message length in bits as a 64-bit big-endian integer
+    const view = new DataView(block.buffer)
+    view.setUint32(56, Math.floor(this.bytesHashed / 0x20000000))
+    view.setUint32(60, (this.bytesHashed * 8) >>> 0)
+    this.compress(block, 0)
+
+    const output = new Uint8Array(32)
+    const outputView = new DataView(output.buffer)
+    this.state.forEach((word, i) => outputView.setUint32(i * 4, word))
+    return toHex(output)
+  }
+
+  private compress(data: Uint8Array, offset: number) {
+    const w = this.words
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3]
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3)
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10)
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0
+      h = g
+      g = f
+      f = e
+      e = (d + t1) | 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) | 0
+    }
+
+    // Uint32Array stores the sums modulo 2^32
+    this.state[0] += a
+    this.state[1] += b
+    this.state[2] += c
+    this.state[3] += d
+    this.state[4] += e
+    this.state[5] += f
+    this.state[6] += g
+    this.state[7] += h
+  }
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+  if (blob.size <= WEBCRYPTO_MAX_SIZE) {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+    return toHex(new Uint8Array(digest))
+  }
+
+  const sha256 = new Sha256()
+  for (let offset = 0; offset < blob.size; offset += CHUNK_SIZE) {
+    const chunk = await blob.slice(offset, offset + CHUNK_SIZE).arrayBuffer()
+    sha256.update(new Uint8Array(chunk))
+  }
+  return sha256.digest()
+}
+
+const worker = self as unknown as Worker
+
+worker.onmessage = async (event: MessageEvent<{ id: number; blob: Blob }>) => {
+  const { id, blob } = event.data
+  try {
+    worker.postMessage({ id, hash: await hashBlob(blob) })
+  } catch (error) {
+    worker.postMessage({ id, error: error instanceof Error ? error.message : 'Failed to hash file' })
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * SHA-256 checksums of file contents, used to spot uploads whose bytes are
+ * already stored in the workspace. In the browser hashing runs in a shared
+ * worker so large uploads don't block the UI.
+ */
+export class ContentHasher {
+  private static worker: Worker | null = null
+  private static nextRequestId = 0
+  private static pending = new Map<number, { resolve: (hash: string) => void; reject: (error: Error) => void }>()
+
+  static async hash(blob: Blob): Promise<string> {
+    if (typeof Worker === 'undefined') {
+      return this.hashBuffer(await blob.arrayBuffer())
+    }
+
+    const worker = this.getWorker()
+    const id = this.nextRequestId++
+
+    return new Promise<string>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      worker.postMessage({ id, blob })
+    })
+  }
+
+  // Hash in the current thread, for the server and environments without workers
+  static async hashBuffer(buffer: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', buffer)
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+  }
+
+  private static getWorker(): Worker {
+    if (this.worker) return this.worker
+
+    const worker = new Worker(new URL('./content-hash.worker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (event: MessageEvent<{ id: number; hash?: string; error?: string }>) => {
+      const { id, hash, error } = event.data
+      const request = this.pending.get(id)
+      if (!request) return
+
+      this.pending.delete(id)
+      if (hash) {
+        request.resolve(hash)
+      } else {
+        request.reject(new Error(error || 'Failed to hash file'))
+      }
+    }
+
+    // A crashed worker fails everything in flight; the next call starts a new one
+    worker.onerror = (event) => {
+      console.error('[Content Hasher] Worker error:', event.message)
+      this.pending.forEach(request => request.reject(new Error('Hash worker crashed')))
+      this.pending.clear()
+      worker.terminate()
+      this.worker = null
+    }
+
+    this.worker = worker
+    return worker
+  }
+}
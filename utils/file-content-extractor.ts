@@ -1,7 +1,37 @@
+import { PdfTextExtractor } from './pdf-text-extractor'
+import { OcrEngine } from './ocr-engine'
+import { OfficeDocumentExtractor } from './office-document-extractor'
+
+export interface ExtractedContent {
+  preview: string
+  // Document properties found inside the file (title, author, page count...)
+  metadata: Record<string, any>
+}
+
 export class FileContentExtractor {
   // Maximum image size for base64 encoding (5MB)
   private static readonly MAX_IMAGE_SIZE_FOR_BASE64 = 5 * 1024 * 1024;
   
+  // Extract a text preview plus any document properties embedded in the file
+  static async extractContentWithMetadata(file: File): Promise<ExtractedContent> {
+    if (this.isPdf(file)) {
+      return await this.extractPdfContent(file)
+    }
+    
+    if (OfficeDocumentExtractor.detectFormat(file.name)) {
+      return await this.extractOfficeContent(file)
+    }
+    
+    if (this.isOcrImage(file) && OcrEngine.isSupported()) {
+      return await this.extractImageContent(file)
+    }
+    
+    return {
+      preview: await this.extractContent(file),
+      metadata: {}
+    }
+  }
+  
   // Extract text content from various file types
   static async extractContent(file: File): Promise<string> {
     const fileType = file.type.toLowerCase()
@@ -18,17 +48,24 @@ export class FileContentExtractor {
         return await this.extractTextContent(file)
       }
       
-      // PDF files - return metadata for now (could integrate PDF.js later)
-      if (fileType === 'application/pdf' || fileName.endsWith('.pdf')) {
-        return `[PDF Document: ${(file.size / 1024).toFixed(1)}KB, ${file.name}]`
+      // PDF files - text layer of the first pages plus document info
+      if (this.isPdf(file)) {
+        const { preview } = await this.extractPdfContent(file)
+        return preview
       }
       
-      // Image files - return metadata (could integrate OCR later)
+      // Image files - return metadata (OCR runs in extractContentWithMetadata)
       if (fileType.startsWith('image/')) {
         return await this.extractImageMetadata(file)
       }
       
-      // Office documents - return metadata
+      // OOXML documents - body text, sheets or slide titles plus core properties
+      if (OfficeDocumentExtractor.detectFormat(file.name)) {
+        const { preview } = await this.extractOfficeContent(file)
+        return preview
+      }
+      
+      // Legacy and OpenDocument office files - return metadata
       if (fileName.match(/\.(doc|docx|xls|xlsx|ppt|pptx|odt|ods|odp)$/i)) {
         const docType = fileName.split('.').pop()?.toUpperCase() || 'Document'
         return `[${docType} Document: ${(file.size / 1024).toFixed(1)}KB, ${file.name}]`
@@ -49,29 +86,114 @@ export class FileContentExtractor {
     }
   }
   
-  private static async extractTextContent(file: File, maxSize: number = 5000): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
+  static isPdf(file: File): boolean {
+    return file.type.toLowerCase() === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')
+  }
+  
+  // Raster formats Tesseract can decode; vector and animated formats are skipped
+  private static isOcrImage(file: File): boolean {
+    return /\.(jpe?g|png|tiff?|bmp|webp)$/i.test(file.name)
+  }
+  
+  private static async extractPdfContent(file: File): Promise<ExtractedContent> {
+    const placeholder = `[PDF Document: ${(file.size / 1024).toFixed(1)}KB, ${file.name}]`
+    
+    try {
+      const pdf = await PdfTextExtractor.extract(file, { ocr: OcrEngine.isSupported() })
+      const hasTextLayer = pdf.pages.some(page => page.source === 'text-layer' && page.text.length > 0)
+      const ocrPages = pdf.pages.filter(page => page.source === 'ocr').map(page => page.pageNumber)
       
-      reader.onload = (e) => {
-        const content = e.target?.result as string
-        // Return first maxSize characters
-        const preview = content.substring(0, maxSize)
-        if (content.length > maxSize) {
-          resolve(preview + '... [truncated]')
-        } else {
-          resolve(preview)
+      const header = [
+        `[PDF Document: ${pdf.pageCount} page${pdf.pageCount === 1 ? '' : 's'}, ${(file.size / 1024).toFixed(1)}KB, ${file.name}]`,
+        pdf.info.title ? `Title: ${pdf.info.title}` : null,
+        pdf.info.author ? `Author: ${pdf.info.author}` : null,
+        pdf.info.creationDate ? `Created: ${pdf.info.creationDate.split('T')[0]}` : null
+      ].filter(Boolean).join('\n')
+      
+      return {
+        preview: pdf.text ? `${header}\n${pdf.text}` : `${header}\n[No text layer found]`,
+        metadata: {
+          pageCount: pdf.pageCount,
+          documentTitle: pdf.info.title,
+          documentAuthor: pdf.info.author,
+          documentCreated: pdf.info.creationDate,
+          hasTextLayer,
+          ...(ocrPages.length > 0 && { ocrPages })
         }
       }
+    } catch (error) {
+      // Encrypted or malformed PDFs fall back to the placeholder
+      console.error('[FileContentExtractor] PDF extraction failed for', file.name, error)
+      return { preview: placeholder, metadata: {} }
+    }
+  }
+  
+  private static async extractOfficeContent(file: File): Promise<ExtractedContent> {
+    const docType = file.name.split('.').pop()?.toUpperCase() || 'Document'
+    const placeholder = `[${docType} Document: ${(file.size / 1024).toFixed(1)}KB, ${file.name}]`
+    
+    try {
+      const office = await OfficeDocumentExtractor.extract(file)
       
-      reader.onerror = () => {
-        reject(new Error('Failed to read file'))
+      const header = [
+        placeholder,
+        office.info.title ? `Title: ${office.info.title}` : null,
+        office.info.creator ? `Author: ${office.info.creator}` : null,
+        office.info.modified ? `Modified: ${office.info.modified.split('T')[0]}` : null
+      ].filter(Boolean).join('\n')
+      
+      return {
+        preview: office.text ? `${header}\n${office.text}` : header,
+        metadata: {
+          documentTitle: office.info.title,
+          documentAuthor: office.info.creator,
+          documentModified: office.info.modified,
+          ...(office.sheets && { sheetNames: office.sheets.map(sheet => sheet.name) }),
+          ...(office.slideCount !== undefined && { slideCount: office.slideCount })
+        }
+      }
+    } catch (error) {
+      // Password-protected files are not ZIP containers and keep the placeholder
+      console.error('[FileContentExtractor] Office extraction failed for', file.name, error)
+      return { preview: placeholder, metadata: {} }
+    }
+  }
+  
+  // Recognize text in scans and photos of documents so they can be named
+  // from their content without sending the image to a vision model
+  private static async extractImageContent(file: File): Promise<ExtractedContent> {
+    const description = await this.extractImageMetadata(file)
+    
+    try {
+      const result = await OcrEngine.recognize(file)
+      if (!OcrEngine.isUsable(result)) {
+        return { preview: description, metadata: {} }
       }
       
-      // Read only the first part of the file for preview
-      const blob = file.slice(0, Math.min(file.size, maxSize * 2)) // Read a bit more to handle multi-byte chars
-      reader.readAsText(blob)
-    })
+      const text = result.text.length > 5000 ? result.text.substring(0, 5000) + '... [truncated]' : result.text
+      return {
+        preview: `${description}\nText recognized by OCR:\n${text}`,
+        metadata: {
+          hasOcrText: true,
+          ocrConfidence: Math.round(result.confidence)
+        }
+      }
+    } catch (error) {
+      // Formats the browser can't decode (e.g. some TIFFs) keep the plain description
+      console.error('[FileContentExtractor] OCR failed for', file.name, error)
+      return { preview: description, metadata: {} }
+    }
+  }
+  
+  // Blob.text() rather than FileReader so stored files can be read on the server too
+  private static async extractTextContent(file: File, maxSize: number = 5000): Promise<string> {
+    // Read only the first part of the file for preview
+    const blob = file.slice(0, Math.min(file.size, maxSize * 2)) // Read a bit more to handle multi-byte chars
+    const content = await blob.text()
+    
+    // Return first maxSize characters
+    const preview = content.substring(0, maxSize)
+    return content.length > maxSize ? preview + '... [truncated]' : preview
   }
   
   private static async extractImageMetadata(file: File): Promise<string> {
@@ -12,6 +12,15 @@ export interface FolderStructure {
   [path: string]: DownloadableFile[]
 }
 
+export interface ManifestDownloadOptions {
+  // Replaces the rename manifest, such as with a bundle manifest
+  manifest?: { name: string; content: string }
+  // Further entries at the root of the archive, such as an index document
+  extraFiles?: { name: string; content: string | Blob }[]
+  // Folder the files are placed in; an empty string puts them at the root
+  filesFolder?: string
+}
+
 export class FileDownloader {
   /**
    * Download a single file with the new name
@@ -119,23 +128,27 @@ export class FileDownloader {
    */
   static async downloadWithManifest(
     files: DownloadableFile[],
-    zipName: string = 'renamed-files-with-manifest.zip'
+    zipName: string = 'renamed-files-with-manifest.zip',
+    options: ManifestDownloadOptions = {}
   ): Promise<void> {
     const zip = new JSZip()
     
     // Add manifest
-    const manifest = this.createManifest(files)
-    zip.file('rename-manifest.json', manifest)
+    const manifest = options.manifest ?? { name: 'rename-manifest.json', content: this.createManifest(files) }
+    zip.file(manifest.name, manifest.content)
+
+    for (const extra of options.extraFiles ?? []) {
+      zip.file(extra.name, extra.content)
+    }
     
     // Add files
+    const filesFolder = options.filesFolder ?? 'files'
     for (const file of files) {
       const blob = file.content instanceof Blob 
         ? file.content 
         : new Blob([file.content])
       
-      const filePath = file.path
-        ? `files/${file.path}/${file.suggestedName}`
-        : `files/${file.suggestedName}`
+      const filePath = [filesFolder, file.path, file.suggestedName].filter(Boolean).join('/')
       
       zip.file(filePath, blob)
     }
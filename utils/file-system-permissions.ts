@@ -0,0 +1,29 @@
+export type FileSystemPermissionMode = 'read' | 'readwrite'
+
+// Directory iteration, which lib.dom only declares in the dom.asynciterable lib
+export type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  values(): AsyncIterableIterator<FileSystemFileHandle | IterableDirectoryHandle>
+}
+
+// Permission methods of the File System Access API that lib.dom doesn't declare yet
+type PermissionedHandle = FileSystemHandle & {
+  queryPermission(descriptor: { mode: FileSystemPermissionMode }): Promise<PermissionState>
+  requestPermission(descriptor: { mode: FileSystemPermissionMode }): Promise<PermissionState>
+}
+
+/**
+ * Make sure every handle has the given permission. Handles restored from
+ * IndexedDB lose their permission on reload, and asking again only works
+ * during a user gesture such as the click that triggered the operation.
+ */
+export async function ensurePermission(
+  handles: FileSystemHandle[],
+  mode: FileSystemPermissionMode = 'read'
+): Promise<boolean> {
+  for (const handle of handles) {
+    const permissionHandle = handle as PermissionedHandle
+    if (await permissionHandle.queryPermission({ mode }) === 'granted') continue
+    if (await permissionHandle.requestPermission({ mode }) !== 'granted') return false
+  }
+  return true
+}
@@ -80,6 +80,7 @@ export class FolderStructureProcessor {
         .eq('workspace_id', workspaceId)
         .eq('name', folderName)
         .eq('node_type', 'folder')
+        .is('deleted_at', null)
 
       if (parentId === null) {
         query = query.is('parent_id', null)
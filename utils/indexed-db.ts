@@ -0,0 +1,70 @@
+// Browser-side persistence for state that must survive a reload but can't
+// live in Supabase, such as File System Access handles
+const DB_NAME = 'simply-file'
+const DB_VERSION = 2
+
+export const STORES = {
+  renameJobs: 'renameJobs',
+  renameJobItems: 'renameJobItems',
+  renameSyncs: 'renameSyncs',
+  renameJournal: 'renameJournal'
+} as const
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+// Each version only adds what it introduced, so existing data is kept
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.renameJobs, { keyPath: 'id' })
+    const items = db.createObjectStore(STORES.renameJobItems, { keyPath: ['jobId', 'path'] })
+    items.createIndex('jobId', 'jobId')
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.renameSyncs, { keyPath: 'id' })
+    const journal = db.createObjectStore(STORES.renameJournal, { keyPath: 'id' })
+    journal.createIndex('syncId', 'syncId')
+  }
+}
+
+export function isIndexedDBSupported(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion)
+      request.onsuccess = () => {
+        const db = request.result
+        // Another tab upgraded the schema; reopen on next use
+        db.onversionchange = () => {
+          db.close()
+          databasePromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'))
+    }).catch(error => {
+      databasePromise = null
+      throw error
+    })
+  }
+  return databasePromise
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'))
+  })
+}
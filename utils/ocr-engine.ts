@@ -0,0 +1,68 @@
+import type { Worker as TesseractWorker } from 'tesseract.js'
+
+export interface OcrResult {
+  text: string
+  confidence: number // 0-100 as reported by Tesseract
+}
+
+type OcrInput = File | Blob | HTMLCanvasElement | OffscreenCanvas
+
+// Runs Tesseract in a Web Worker using the WASM core and language data
+// copied into /public/ocr at install time, so images never leave the browser
+export class OcrEngine {
+  private static readonly ASSET_BASE = '/ocr'
+  private static readonly LANGUAGE = 'eng'
+
+  // Recognized text shorter than this, or below this confidence, is treated
+  // as noise (photos, logos) rather than a document
+  static readonly MIN_TEXT_LENGTH = 20
+  static readonly MIN_CONFIDENCE = 50
+
+  private static workerPromise: Promise<TesseractWorker> | null = null
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof Worker !== 'undefined' && typeof WebAssembly !== 'undefined'
+  }
+
+  private static async getWorker(): Promise<TesseractWorker> {
+    if (!this.workerPromise) {
+      this.workerPromise = import('tesseract.js').then(({ createWorker, OEM }) =>
+        createWorker(this.LANGUAGE, OEM.LSTM_ONLY, {
+          workerPath: `${this.ASSET_BASE}/worker.min.js`,
+          corePath: `${this.ASSET_BASE}/core`,
+          langPath: `${this.ASSET_BASE}/lang`,
+          workerBlobURL: false,
+          gzip: true
+        })
+      ).catch(error => {
+        // Allow a later call to retry initialization
+        this.workerPromise = null
+        throw error
+      })
+    }
+    return this.workerPromise
+  }
+
+  // Jobs are queued by the worker, so concurrent callers are processed in turn
+  static async recognize(input: OcrInput): Promise<OcrResult> {
+    const worker = await this.getWorker()
+    const { data } = await worker.recognize(input)
+
+    return {
+      text: data.text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n').trim(),
+      confidence: data.confidence
+    }
+  }
+
+  // True when the result looks like real document text worth sending to the AI
+  static isUsable(result: OcrResult): boolean {
+    return result.text.length >= this.MIN_TEXT_LENGTH && result.confidence >= this.MIN_CONFIDENCE
+  }
+
+  static async terminate(): Promise<void> {
+    if (!this.workerPromise) return
+    const worker = await this.workerPromise.catch(() => null)
+    this.workerPromise = null
+    await worker?.terminate()
+  }
+}
@@ -0,0 +1,254 @@
+import JSZip from 'jszip'
+
+export type OfficeFormat = 'docx' | 'xlsx' | 'pptx'
+
+export interface OfficeDocumentInfo {
+  title: string | null
+  creator: string | null
+  modified: string | null // ISO 8601
+}
+
+export interface OfficeSheet {
+  name: string
+  rows: string[][]
+}
+
+export interface OfficeExtraction {
+  format: OfficeFormat
+  text: string
+  info: OfficeDocumentInfo
+  sheets?: OfficeSheet[]
+  slideCount?: number
+  slideTitles?: string[]
+}
+
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+// DOCX, XLSX and PPTX are ZIP containers of XML parts, so the parts that
+// identify a document are read directly instead of pulling in a full parser
+export class OfficeDocumentExtractor {
+  static readonly DEFAULT_MAX_CHARS = 5000
+  // Spreadsheets identify themselves by their sheet names and header rows
+  static readonly MAX_SHEETS = 5
+  static readonly MAX_ROWS_PER_SHEET = 5
+  static readonly MAX_SLIDES = 20
+
+  static detectFormat(fileName: string): OfficeFormat | null {
+    const match = fileName.toLowerCase().match(/\.(docx|xlsx|pptx)$/)
+    return match ? (match[1] as OfficeFormat) : null
+  }
+
+  static async extract(
+    file: File,
+    maxChars: number = this.DEFAULT_MAX_CHARS
+  ): Promise<OfficeExtraction> {
+    const format = this.detectFormat(file.name)
+    if (!format) {
+      throw new Error(`Unsupported Office format: ${file.name}`)
+    }
+
+    const zip = await JSZip.loadAsync(await file.arrayBuffer())
+    const info = await this.extractInfo(zip)
+
+    let extraction: OfficeExtraction
+    switch (format) {
+      case 'docx':
+        extraction = { format, info, text: await this.extractDocxText(zip) }
+        break
+      case 'xlsx': {
+        const sheets = await this.extractSheets(zip)
+        const text = sheets
+          .map(sheet => [`Sheet: ${sheet.name}`, ...sheet.rows.map(row => row.join(' | '))].join('\n'))
+          .join('\n\n')
+        extraction = { format, info, text, sheets }
+        break
+      }
+      case 'pptx': {
+        const { slideCount, slideTitles } = await this.extractSlides(zip)
+        const text = slideTitles.join('\n')
+        extraction = { format, info, text, slideCount, slideTitles }
+        break
+      }
+    }
+
+    if (extraction.text.length > maxChars) {
+      extraction.text = extraction.text.substring(0, maxChars) + '... [truncated]'
+    }
+    return extraction
+  }
+
+  private static async readXml(zip: JSZip, path: string): Promise<Document | null> {
+    const entry = zip.file(path)
+    if (!entry) return null
+
+    const document = new DOMParser().parseFromString(await entry.async('string'), 'application/xml')
+    return document.getElementsByTagName('parsererror').length > 0 ? null : document
+  }
+
+  // Map relationship ids to part paths, resolved relative to the owning part
+  private static async readRelationships(zip: JSZip, partPath: string): Promise<Map<string, string>> {
+    const slash = partPath.lastIndexOf('/')
+    const directory = partPath.substring(0, slash)
+    const relsPath = `${directory}/_rels/${partPath.substring(slash + 1)}.rels`
+    const relationships = new Map<string, string>()
+
+    const document = await this.readXml(zip, relsPath)
+    if (!document) return relationships
+
+    for (const rel of Array.from(document.getElementsByTagName('Relationship'))) {
+      const id = rel.getAttribute('Id')
+      const target = rel.getAttribute('Target')
+      if (!id || !target) continue
+
+      relationships.set(
+        id,
+        target.startsWith('/') ? target.substring(1) : `${directory}/${target}`
+      )
+    }
+    return relationships
+  }
+
+  private static textOf(element: Element, tagName: string): string {
+    return Array.from(element.getElementsByTagName(tagName))
+      .map(node => node.textContent || '')
+      .join('')
+  }
+
+  private static async extractInfo(zip: JSZip): Promise<OfficeDocumentInfo> {
+    const empty: OfficeDocumentInfo = { title: null, creator: null, modified: null }
+
+    try {
+      const document = await this.readXml(zip, 'docProps/core.xml')
+      if (!document) return empty
+
+      const read = (tagName: string): string | null => {
+        const value = document.getElementsByTagName(tagName)[0]?.textContent?.trim()
+        return value ? value : null
+      }
+
+      const modified = read('dcterms:modified')
+      const modifiedDate = modified ? new Date(modified) : null
+
+      return {
+        title: read('dc:title'),
+        creator: read('dc:creator'),
+        modified: modifiedDate && !isNaN(modifiedDate.getTime()) ? modifiedDate.toISOString() : null
+      }
+    } catch (error) {
+      console.error('[OfficeDocumentExtractor] Failed to read core properties:', error)
+      return empty
+    }
+  }
+
+  private static async extractDocxText(zip: JSZip): Promise<string> {
+    const document = await this.readXml(zip, 'word/document.xml')
+    if (!document) return ''
+
+    const paragraphs: string[] = []
+    for (const paragraph of Array.from(document.getElementsByTagName('w:p'))) {
+      let text = ''
+      for (const node of Array.from(paragraph.getElementsByTagName('*'))) {
+        if (node.tagName === 'w:t') text += node.textContent || ''
+        else if (node.tagName === 'w:tab') text += '\t'
+        else if (node.tagName === 'w:br') text += '\n'
+      }
+      if (text.trim()) paragraphs.push(text.trim())
+    }
+    return paragraphs.join('\n')
+  }
+
+  private static async extractSheets(zip: JSZip): Promise<OfficeSheet[]> {
+    const workbookPath = 'xl/workbook.xml'
+    const workbook = await this.readXml(zip, workbookPath)
+    if (!workbook) return []
+
+    const relationships = await this.readRelationships(zip, workbookPath)
+    const sharedStrings = await this.readSharedStrings(zip)
+    const sheets: OfficeSheet[] = []
+
+    const sheetElements = Array.from(workbook.getElementsByTagName('sheet')).slice(0, this.MAX_SHEETS)
+    for (const sheetElement of sheetElements) {
+      const name = sheetElement.getAttribute('name') || `Sheet${sheets.length + 1}`
+      const relId = sheetElement.getAttributeNS(RELATIONSHIP_NS, 'id') || sheetElement.getAttribute('r:id')
+      const path = relId ? relationships.get(relId) : undefined
+      const sheet = path ? await this.readXml(zip, path) : null
+
+      sheets.push({ name, rows: sheet ? this.readRows(sheet, sharedStrings) : [] })
+    }
+    return sheets
+  }
+
+  private static async readSharedStrings(zip: JSZip): Promise<string[]> {
+    const document = await this.readXml(zip, 'xl/sharedStrings.xml')
+    if (!document) return []
+
+    // Rich text entries split one string across several <t> runs
+    return Array.from(document.getElementsByTagName('si')).map(item => this.textOf(item, 't'))
+  }
+
+  private static readRows(sheet: Document, sharedStrings: string[]): string[][] {
+    const rows: string[][] = []
+
+    for (const row of Array.from(sheet.getElementsByTagName('row'))) {
+      const values: string[] = []
+      for (const cell of Array.from(row.getElementsByTagName('c'))) {
+        const type = cell.getAttribute('t')
+        const raw = cell.getElementsByTagName('v')[0]?.textContent ?? ''
+
+        let value: string
+        if (type === 's') value = sharedStrings[parseInt(raw, 10)] ?? ''
+        else if (type === 'inlineStr') value = this.textOf(cell, 't')
+        else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE'
+        else value = raw
+
+        if (value.trim()) values.push(value.trim())
+      }
+
+      if (values.length > 0) rows.push(values)
+      if (rows.length >= this.MAX_ROWS_PER_SHEET) break
+    }
+    return rows
+  }
+
+  private static async extractSlides(zip: JSZip): Promise<{ slideCount: number; slideTitles: string[] }> {
+    const presentationPath = 'ppt/presentation.xml'
+    const presentation = await this.readXml(zip, presentationPath)
+    if (!presentation) return { slideCount: 0, slideTitles: [] }
+
+    const relationships = await this.readRelationships(zip, presentationPath)
+    const titles: string[] = []
+
+    // Slide order comes from the presentation's slide id list, not file names
+    const slideIds = Array.from(presentation.getElementsByTagName('p:sldId'))
+    for (const [index, slideId] of slideIds.slice(0, this.MAX_SLIDES).entries()) {
+      const relId = slideId.getAttributeNS(RELATIONSHIP_NS, 'id') || slideId.getAttribute('r:id')
+      const path = relId ? relationships.get(relId) : undefined
+      const slide = path ? await this.readXml(zip, path) : null
+      if (!slide) continue
+
+      const title = this.readSlideTitle(slide)
+      if (title) titles.push(`Slide ${index + 1}: ${title}`)
+    }
+    return { slideCount: slideIds.length, slideTitles: titles }
+  }
+
+  // The title placeholder, falling back to the first shape with text
+  private static readSlideTitle(slide: Document): string | null {
+    const shapes = Array.from(slide.getElementsByTagName('p:sp'))
+    const isTitle = (shape: Element) =>
+      Array.from(shape.getElementsByTagName('p:ph')).some(placeholder => {
+        const type = placeholder.getAttribute('type')
+        return type === 'title' || type === 'ctrTitle'
+      })
+
+    const candidates = [...shapes.filter(isTitle), ...shapes]
+    for (const shape of candidates) {
+      const text = Array.from(shape.getElementsByTagName('a:p'))
+        .map(paragraph => this.textOf(paragraph, 'a:t').trim())
+        .filter(Boolean)
+        .join(' ')
+      if (text) return text
+    }
+    return null
+  }
+}
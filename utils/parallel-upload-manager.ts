@@ -11,6 +11,8 @@ export interface UploadTask {
   uploadInstance?: tus.Upload
   bytesUploaded: number
   bytesTotal: number
+  contentHash?: string // SHA-256 of the file, set by the upload handler
+  duplicateOf?: string // Name of the stored file with the same bytes, when the upload was skipped
 }
 
 export interface UploadBatch {
@@ -240,6 +242,11 @@ export class ParallelUploadManager {
       
       // Create and start upload
       const upload = await uploadHandler(task)
+      // Handlers can finish a task without uploading, e.g. for duplicates,
+      // by marking it complete through updateTaskStatus
+      if (!upload && (task.status as UploadTask['status']) === 'complete') {
+        return true
+      }
       if (!upload) {
         console.error(`[Upload Manager] Failed to create upload for ${task.file.name}`)
         task.status = 'error'
@@ -369,6 +376,7 @@ export class ParallelUploadManager {
       complete: tasks.filter(t => t.status === 'complete').length,
       error: tasks.filter(t => t.status === 'error').length,
       cancelled: tasks.filter(t => t.status === 'cancelled').length,
+      duplicates: tasks.filter(t => t.duplicateOf).length,
       progress: batch.totalBytes > 0 ? (batch.uploadedBytes / batch.totalBytes) * 100 : 0
     }
   }
@@ -0,0 +1,194 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { OcrEngine } from './ocr-engine'
+
+export interface PdfPageText {
+  pageNumber: number
+  text: string
+  source: 'text-layer' | 'ocr' | 'none'
+}
+
+export interface PdfDocumentInfo {
+  title: string | null
+  author: string | null
+  creationDate: string | null // ISO 8601
+}
+
+export interface PdfExtraction {
+  text: string
+  pages: PdfPageText[]
+  pageCount: number
+  info: PdfDocumentInfo
+}
+
+export interface PdfExtractionOptions {
+  maxPages?: number
+  maxChars?: number
+  // OCR pages whose text layer is missing or too sparse to be real content
+  ocr?: boolean
+}
+
+export class PdfTextExtractor {
+  // Only the first pages are read; invoices and contracts identify themselves early
+  static readonly DEFAULT_MAX_PAGES = 5
+  static readonly DEFAULT_MAX_CHARS = 5000
+  // A page with less native text than this is treated as image-only
+  static readonly MIN_TEXT_LAYER_CHARS = 20
+  // Render scale for OCR; ~150 DPI is enough for Tesseract on typical scans
+  private static readonly OCR_RENDER_SCALE = 2
+
+  private static pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null
+
+  // pdfjs touches browser globals on import, so load it lazily on the client.
+  // On the server (stored files) the legacy build runs with its fake worker
+  static async loadPdfjs(): Promise<typeof import('pdfjs-dist')> {
+    if (!this.pdfjsPromise && typeof window === 'undefined') {
+      this.pdfjsPromise = import('pdfjs-dist/legacy/build/pdf.mjs') as Promise<typeof import('pdfjs-dist')>
+    }
+    if (!this.pdfjsPromise) {
+      this.pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+          'pdfjs-dist/build/pdf.worker.min.mjs',
+          import.meta.url
+        ).toString()
+        return pdfjs
+      })
+    }
+    return this.pdfjsPromise
+  }
+
+  static async openDocument(file: File): Promise<PDFDocumentProxy> {
+    const pdfjs = await this.loadPdfjs()
+    const data = new Uint8Array(await file.arrayBuffer())
+    return pdfjs.getDocument({ data }).promise
+  }
+
+  /**
+   * Extract the text of the first `maxPages` pages along with the document
+   * info dictionary. Each page's text layer is checked first and only pages
+   * without usable native text are rendered and OCR'd, when `ocr` is set.
+   */
+  static async extract(file: File, options: PdfExtractionOptions = {}): Promise<PdfExtraction> {
+    const maxPages = options.maxPages ?? this.DEFAULT_MAX_PAGES
+    const maxChars = options.maxChars ?? this.DEFAULT_MAX_CHARS
+    const document = await this.openDocument(file)
+
+    try {
+      const info = await this.extractInfo(document)
+      const pages: PdfPageText[] = []
+      let totalChars = 0
+
+      const pagesToRead = Math.min(document.numPages, maxPages)
+      for (let pageNumber = 1; pageNumber <= pagesToRead; pageNumber++) {
+        const page = await this.extractPage(document, pageNumber, !!options.ocr)
+        pages.push(page)
+
+        totalChars += page.text.length
+        if (totalChars >= maxChars) break
+      }
+
+      const text = pages
+        .map(page => page.text)
+        .filter(Boolean)
+        .join('\n\n')
+
+      return {
+        text: text.length > maxChars ? text.substring(0, maxChars) + '... [truncated]' : text,
+        pages,
+        pageCount: document.numPages,
+        info
+      }
+    } finally {
+      await document.destroy()
+    }
+  }
+
+  private static async extractPage(
+    document: PDFDocumentProxy,
+    pageNumber: number,
+    ocr: boolean
+  ): Promise<PdfPageText> {
+    const text = await this.extractPageText(document, pageNumber)
+    if (text.length >= this.MIN_TEXT_LAYER_CHARS) {
+      return { pageNumber, text, source: 'text-layer' }
+    }
+
+    if (ocr && OcrEngine.isSupported()) {
+      try {
+        const canvas = await this.renderPage(document, pageNumber)
+        const result = await OcrEngine.recognize(canvas)
+        if (OcrEngine.isUsable(result)) {
+          return { pageNumber, text: result.text, source: 'ocr' }
+        }
+      } catch (error) {
+        console.error(`[PdfTextExtractor] OCR failed for page ${pageNumber}:`, error)
+      }
+    }
+
+    return { pageNumber, text, source: text ? 'text-layer' : 'none' }
+  }
+
+  static async renderPage(document: PDFDocumentProxy, pageNumber: number): Promise<HTMLCanvasElement> {
+    const page = await document.getPage(pageNumber)
+
+    try {
+      const viewport = page.getViewport({ scale: this.OCR_RENDER_SCALE })
+      const canvas = window.document.createElement('canvas')
+      canvas.width = Math.floor(viewport.width)
+      canvas.height = Math.floor(viewport.height)
+
+      const canvasContext = canvas.getContext('2d')
+      if (!canvasContext) throw new Error('Canvas 2D context unavailable')
+
+      await page.render({ canvasContext, viewport }).promise
+      return canvas
+    } finally {
+      page.cleanup()
+    }
+  }
+
+  static async extractPageText(document: PDFDocumentProxy, pageNumber: number): Promise<string> {
+    const page = await document.getPage(pageNumber)
+
+    try {
+      const content = await page.getTextContent()
+      let text = ''
+      for (const item of content.items) {
+        if (!('str' in item)) continue
+        text += item.str
+        text += item.hasEOL ? '\n' : ' '
+      }
+
+      return text
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n\s*\n+/g, '\n')
+        .trim()
+    } finally {
+      page.cleanup()
+    }
+  }
+
+  private static async extractInfo(document: PDFDocumentProxy): Promise<PdfDocumentInfo> {
+    try {
+      const pdfjs = await this.loadPdfjs()
+      const { info } = await document.getMetadata()
+      const dict = info as Record<string, unknown>
+
+      const readString = (key: string): string | null => {
+        const value = dict[key]
+        return typeof value === 'string' && value.trim() ? value.trim() : null
+      }
+
+      const rawDate = readString('CreationDate')
+      const date = rawDate ? pdfjs.PDFDateString.toDateObject(rawDate) : null
+
+      return {
+        title: readString('Title'),
+        author: readString('Author'),
+        creationDate: date ? date.toISOString() : null
+      }
+    } catch (error) {
+      console.error('[PdfTextExtractor] Failed to read document info:', error)
+      return { title: null, author: null, creationDate: null }
+    }
+  }
+}
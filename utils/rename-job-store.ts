@@ -0,0 +1,183 @@
+import { openDatabase, requestToPromise, transactionDone, STORES } from './indexed-db'
+import type { AnalysisFailure, AnalysisResult } from './ai/analysis-schema'
+import type { NamingTemplate } from './ai/naming-template'
+
+export type RenameJobStatus = 'analyzing' | 'reviewing' | 'completed' | 'cancelled'
+export type RenameJobItemStatus = 'pending' | 'analyzed' | 'failed'
+export type RenameDecision = 'pending' | 'accepted' | 'rejected'
+
+export interface RenameJob {
+  id: string
+  workspaceId: string
+  name: string
+  status: RenameJobStatus
+  totalFiles: number
+  namingTemplate: NamingTemplate | null
+  // Folder jobs keep the root handle so one permission prompt covers every file
+  rootHandle?: FileSystemDirectoryHandle
+  createdAt: string
+  updatedAt: string
+}
+
+export interface RenameJobItem {
+  jobId: string
+  path: string
+  name: string
+  fileHandle: FileSystemFileHandle
+  status: RenameJobItemStatus
+  suggestedName?: string
+  confidence?: number
+  reasoning?: string
+  error?: AnalysisFailure
+  decision: RenameDecision
+  // Name the user settled on, when they edited the suggestion
+  editedName?: string
+}
+
+export interface RenameJobSummary extends RenameJob {
+  analyzedFiles: number
+  failedFiles: number
+}
+
+export interface NewRenameJob {
+  workspaceId: string
+  name: string
+  namingTemplate: NamingTemplate | null
+  rootHandle?: FileSystemDirectoryHandle
+  files: { path: string; name: string; fileHandle: FileSystemFileHandle }[]
+}
+
+// Rename jobs are stored in IndexedDB rather than Supabase because resuming
+// needs the File System Access handles, which only the browser can persist
+export class RenameJobStore {
+  static async createJob(input: NewRenameJob): Promise<RenameJob> {
+    const db = await openDatabase()
+    const now = new Date().toISOString()
+    const job: RenameJob = {
+      id: crypto.randomUUID(),
+      workspaceId: input.workspaceId,
+      name: input.name,
+      status: 'analyzing',
+      totalFiles: input.files.length,
+      namingTemplate: input.namingTemplate,
+      rootHandle: input.rootHandle,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    const transaction = db.transaction([STORES.renameJobs, STORES.renameJobItems], 'readwrite')
+    transaction.objectStore(STORES.renameJobs).put(job)
+    const items = transaction.objectStore(STORES.renameJobItems)
+    for (const file of input.files) {
+      const item: RenameJobItem = {
+        jobId: job.id,
+        path: file.path,
+        name: file.name,
+        fileHandle: file.fileHandle,
+        status: 'pending',
+        decision: 'pending'
+      }
+      items.put(item)
+    }
+    await transactionDone(transaction)
+
+    return job
+  }
+
+  // Jobs that were neither downloaded nor discarded, newest first
+  static async listUnfinishedJobs(workspaceId: string): Promise<RenameJobSummary[]> {
+    const db = await openDatabase()
+    const transaction = db.transaction([STORES.renameJobs, STORES.renameJobItems], 'readonly')
+    const jobs = await requestToPromise<RenameJob[]>(transaction.objectStore(STORES.renameJobs).getAll())
+    const unfinished = jobs.filter(job =>
+      job.workspaceId === workspaceId && (job.status === 'analyzing' || job.status === 'reviewing')
+    )
+
+    const index = transaction.objectStore(STORES.renameJobItems).index('jobId')
+    const summaries = await Promise.all(unfinished.map(async job => {
+      const items = await requestToPromise<RenameJobItem[]>(index.getAll(job.id))
+      return {
+        ...job,
+        analyzedFiles: items.filter(item => item.status !== 'pending').length,
+        failedFiles: items.filter(item => item.status === 'failed').length
+      }
+    }))
+
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  static async getItems(jobId: string): Promise<RenameJobItem[]> {
+    const db = await openDatabase()
+    const transaction = db.transaction(STORES.renameJobItems, 'readonly')
+    const index = transaction.objectStore(STORES.renameJobItems).index('jobId')
+    return requestToPromise<RenameJobItem[]>(index.getAll(jobId))
+  }
+
+  static async recordResult(jobId: string, path: string, result: AnalysisResult): Promise<void> {
+    await this.updateItems(jobId, [path], item => ({
+      ...item,
+      status: result.error ? 'failed' : 'analyzed',
+      suggestedName: result.suggestedName,
+      confidence: result.confidence,
+      reasoning: result.reasoning,
+      error: result.error,
+      // Failed files are never selected by default, mirroring the review list
+      decision: result.error ? 'rejected' : 'accepted'
+    }))
+  }
+
+  static async recordDecisions(
+    jobId: string,
+    decisions: { path: string; decision: RenameDecision; editedName?: string }[]
+  ): Promise<void> {
+    const byPath = new Map(decisions.map(decision => [decision.path, decision]))
+    await this.updateItems(jobId, Array.from(byPath.keys()), item => {
+      const { decision, editedName } = byPath.get(item.path)!
+      return { ...item, decision, editedName: editedName ?? item.editedName }
+    })
+  }
+
+  static async updateJobStatus(jobId: string, status: RenameJobStatus): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(STORES.renameJobs, 'readwrite')
+    const store = transaction.objectStore(STORES.renameJobs)
+    const job = await requestToPromise<RenameJob | undefined>(store.get(jobId))
+    if (job) {
+      store.put({ ...job, status, updatedAt: new Date().toISOString() })
+    }
+    await transactionDone(transaction)
+  }
+
+  static async deleteJob(jobId: string): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction([STORES.renameJobs, STORES.renameJobItems], 'readwrite')
+    transaction.objectStore(STORES.renameJobs).delete(jobId)
+    transaction.objectStore(STORES.renameJobItems).delete(
+      IDBKeyRange.bound([jobId], [jobId, []])
+    )
+    await transactionDone(transaction)
+  }
+
+  // Read-modify-write within one transaction so concurrent workers can't
+  // overwrite each other's results
+  private static async updateItems(
+    jobId: string,
+    paths: string[],
+    update: (item: RenameJobItem) => RenameJobItem
+  ): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction([STORES.renameJobs, STORES.renameJobItems], 'readwrite')
+    const items = transaction.objectStore(STORES.renameJobItems)
+
+    for (const path of paths) {
+      const item = await requestToPromise<RenameJobItem | undefined>(items.get([jobId, path]))
+      if (item) items.put(update(item))
+    }
+
+    const jobs = transaction.objectStore(STORES.renameJobs)
+    const job = await requestToPromise<RenameJob | undefined>(jobs.get(jobId))
+    if (job) jobs.put({ ...job, updatedAt: new Date().toISOString() })
+
+    await transactionDone(transaction)
+  }
+}
@@ -0,0 +1,221 @@
+import { openDatabase, requestToPromise, transactionDone, STORES } from './indexed-db'
+import { ensurePermission } from './file-system-permissions'
+
+// move() is only available in Chromium and missing from lib.dom
+export type MovableFileHandle = FileSystemFileHandle & {
+  move?(destination: FileSystemDirectoryHandle, name: string): Promise<void>
+}
+
+export type JournalOperation = 'move' | 'copy'
+
+export interface RenameSync {
+  id: string
+  workspaceId: string
+  // Folder the sync ran in; write permission on it covers every file below
+  rootHandle: FileSystemDirectoryHandle
+  createdAt: string
+  entryCount: number
+  undoneAt?: string
+}
+
+export interface RenameJournalEntry {
+  id: string
+  syncId: string
+  sequence: number
+  // 'move' renamed the file in place, 'copy' saved a renamed copy and left the original
+  operation: JournalOperation
+  originalPath: string
+  newPath: string
+  originalName: string
+  newName: string
+  size: number
+  sha256: string
+  // Handle to the file as it exists after the operation
+  fileHandle: FileSystemFileHandle
+  // Folder the file was renamed in, so it can be put back or the copy removed
+  originalDirHandle?: FileSystemDirectoryHandle
+  // Set when the copy was written to a name that didn't exist yet. Only such
+  // copies are deleted on undo, anything else may be the user's own file
+  createdTarget?: boolean
+  appliedAt: string
+  undoneAt?: string
+}
+
+export interface UndoResult {
+  restored: number
+  skipped: { path: string; reason: string }[]
+}
+
+export async function fileExists(directory: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  try {
+    await directory.getFileHandle(name)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function computeSha256(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Journal of every rename applied to local files, kept so a sync can be
+// reverted. Entries are written as each file is renamed, not at the end,
+// so an interrupted batch can still be undone
+export class RenameJournal {
+  static async startSync(workspaceId: string, rootHandle: FileSystemDirectoryHandle): Promise<RenameSync> {
+    const db = await openDatabase()
+    const sync: RenameSync = {
+      id: crypto.randomUUID(),
+      workspaceId,
+      rootHandle,
+      createdAt: new Date().toISOString(),
+      entryCount: 0
+    }
+
+    const transaction = db.transaction(STORES.renameSyncs, 'readwrite')
+    transaction.objectStore(STORES.renameSyncs).put(sync)
+    await transactionDone(transaction)
+    return sync
+  }
+
+  static async record(
+    syncId: string,
+    entry: Omit<RenameJournalEntry, 'id' | 'syncId' | 'sequence' | 'appliedAt'>
+  ): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction([STORES.renameSyncs, STORES.renameJournal], 'readwrite')
+    const syncs = transaction.objectStore(STORES.renameSyncs)
+
+    const sync = await requestToPromise<RenameSync | undefined>(syncs.get(syncId))
+    if (!sync) throw new Error(`Unknown sync ${syncId}`)
+
+    const journalEntry: RenameJournalEntry = {
+      ...entry,
+      id: crypto.randomUUID(),
+      syncId,
+      sequence: sync.entryCount,
+      appliedAt: new Date().toISOString()
+    }
+    transaction.objectStore(STORES.renameJournal).put(journalEntry)
+    syncs.put({ ...sync, entryCount: sync.entryCount + 1 })
+
+    await transactionDone(transaction)
+  }
+
+  // Most recent sync of the workspace that applied something and wasn't undone
+  static async getLastSync(workspaceId: string): Promise<RenameSync | null> {
+    const db = await openDatabase()
+    const transaction = db.transaction(STORES.renameSyncs, 'readonly')
+    const syncs = await requestToPromise<RenameSync[]>(transaction.objectStore(STORES.renameSyncs).getAll())
+
+    return syncs
+      .filter(sync => sync.workspaceId === workspaceId && sync.entryCount > 0 && !sync.undoneAt)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] ?? null
+  }
+
+  static async getEntries(syncId: string): Promise<RenameJournalEntry[]> {
+    const db = await openDatabase()
+    const transaction = db.transaction(STORES.renameJournal, 'readonly')
+    const index = transaction.objectStore(STORES.renameJournal).index('syncId')
+    const entries = await requestToPromise<RenameJournalEntry[]>(index.getAll(syncId))
+    return entries.sort((a, b) => a.sequence - b.sequence)
+  }
+
+  /**
+   * Revert a sync in reverse order. Moved files are moved back to their
+   * original folder and name, copies the sync created are deleted. A file is
+   * left alone when it changed since the sync (size or hash differ), when
+   * its original name has been taken in the meantime, or when it is no
+   * longer the file the sync wrote.
+   */
+  static async undoSync(sync: RenameSync): Promise<UndoResult> {
+    const entries = (await this.getEntries(sync.id)).filter(entry => !entry.undoneAt).reverse()
+    const result: UndoResult = { restored: 0, skipped: [] }
+
+    if (!(await ensurePermission([sync.rootHandle], 'readwrite'))) {
+      throw new Error('Permission to modify the folder was denied')
+    }
+
+    for (const entry of entries) {
+      try {
+        const reason = await this.undoEntry(entry)
+        if (reason) {
+          result.skipped.push({ path: entry.newPath, reason })
+          continue
+        }
+        await this.markEntryUndone(entry)
+        result.restored++
+      } catch (error) {
+        console.error('[RenameJournal] Undo failed for', entry.newPath, error)
+        result.skipped.push({
+          path: entry.newPath,
+          reason: error instanceof Error ? error.message : 'Undo failed'
+        })
+      }
+    }
+
+    // Skipped entries stay in the journal but the sync is no longer offered
+    await this.markSyncUndone(sync.id)
+    return result
+  }
+
+  // Returns the reason the entry was skipped, or null when it was reverted
+  private static async undoEntry(entry: RenameJournalEntry): Promise<string | null> {
+    let file: File
+    try {
+      file = await entry.fileHandle.getFile()
+    } catch {
+      return 'File no longer exists'
+    }
+
+    if (file.size !== entry.size || (await computeSha256(file)) !== entry.sha256) {
+      return 'File was modified after the sync'
+    }
+
+    if (!entry.originalDirHandle) {
+      return 'Original folder is unknown'
+    }
+
+    if (entry.operation === 'copy') {
+      if (!entry.createdTarget) {
+        return 'The copy replaced an existing file'
+      }
+      const current = await entry.originalDirHandle.getFileHandle(entry.newName).catch(() => null)
+      if (!current || !(await current.isSameEntry(entry.fileHandle))) {
+        return 'The copy was moved or replaced after the sync'
+      }
+      await entry.originalDirHandle.removeEntry(entry.newName)
+      return null
+    }
+
+    const handle = entry.fileHandle as MovableFileHandle
+    if (typeof handle.move !== 'function') {
+      return 'This browser cannot move files'
+    }
+    if (entry.originalName !== entry.newName && await fileExists(entry.originalDirHandle, entry.originalName)) {
+      return `A file named ${entry.originalName} already exists`
+    }
+    await handle.move(entry.originalDirHandle, entry.originalName)
+    return null
+  }
+
+  private static async markEntryUndone(entry: RenameJournalEntry): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(STORES.renameJournal, 'readwrite')
+    transaction.objectStore(STORES.renameJournal).put({ ...entry, undoneAt: new Date().toISOString() })
+    await transactionDone(transaction)
+  }
+
+  private static async markSyncUndone(syncId: string): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(STORES.renameSyncs, 'readwrite')
+    const store = transaction.objectStore(STORES.renameSyncs)
+    const sync = await requestToPromise<RenameSync | undefined>(store.get(syncId))
+    if (sync) store.put({ ...sync, undoneAt: new Date().toISOString() })
+    await transactionDone(transaction)
+  }
+}
@@ -0,0 +1,34 @@
+import { FileContentExtractor } from './file-content-extractor'
+
+/**
+ * Turns the previews FileContentExtractor builds for the AI prompts into the
+ * plain text stored in the search index. Placeholder lines such as
+ * "[PDF Document: 12.0KB, scan.pdf]" describe the file rather than its
+ * contents and would make every PDF match "pdf", so they are dropped.
+ */
+export class SearchIndexer {
+  // Postgres caps a tsvector at 1MB; this keeps the row and the index small
+  static readonly MAX_TEXT_LENGTH = 100_000
+
+  static async extractText(file: File): Promise<string> {
+    try {
+      const { preview } = await FileContentExtractor.extractContentWithMetadata(file)
+      return this.toSearchText(preview)
+    } catch (error) {
+      console.error('[Search Indexer] Failed to extract text from', file.name, error)
+      return ''
+    }
+  }
+
+  static toSearchText(preview: string): string {
+    const text = preview
+      .split('\n')
+      .filter(line => !/^\s*\[[^\]]*\]\s*$/.test(line))
+      .filter(line => line.trim() !== 'Text recognized by OCR:')
+      .join('\n')
+      .replace(/\.\.\. \[truncated\]$/, '')
+      .trim()
+
+    return text.length > this.MAX_TEXT_LENGTH ? text.slice(0, this.MAX_TEXT_LENGTH) : text
+  }
+}
@@ -1,4 +1,19 @@
-import { FileContentExtractor } from './file-content-extractor'
+import { FileContentExtractor, type ExtractedContent } from './file-content-extractor'
+import { ContentHasher } from './content-hasher'
+import {
+  AnalysisError,
+  AnalysisResultSchema,
+  SmartSyncEventSchema,
+  createFailedResult,
+  type AnalysisErrorCategory,
+  type AnalysisResult,
+  type FolderSuggestions,
+  type SmartSyncErrorBody,
+  type SmartSyncEvent,
+  type SmartSyncResponse,
+  type SmartSyncResults
+} from './ai/analysis-schema'
+import type { NamingTemplate } from './ai/naming-template'
 
 export interface FileMetadata {
   name: string
@@ -8,6 +23,19 @@ export interface FileMetadata {
   path?: string
   metadata?: Record<string, any>
   imageData?: string // Base64 encoded image data for vision analysis
+  contentHash?: string // Lets the route answer unchanged files from its suggestion cache
+}
+
+// Optional per-request settings, forwarded to /api/ai/smart-sync
+export interface SmartSyncOptions {
+  provider?: string
+  model?: string
+  visionProvider?: string
+  visionModel?: string
+  // Render names from extracted fields instead of free-form suggestions
+  namingTemplate?: NamingTemplate
+  // Lets the route use the user's API keys registered for this workspace
+  workspaceId?: string
 }
 
 export interface ProcessingTask {
@@ -15,42 +43,55 @@ export interface ProcessingTask {
   file: File
   metadata: FileMetadata
   status: 'pending' | 'processing' | 'complete' | 'error'
-  result?: any
+  result?: AnalysisResult
   error?: string
 }
 
+// Stored files are downloaded and extracted by the route, so they are sent
+// in small groups by id instead of one request per file
+const STORED_NODES_PER_REQUEST = 5
+
+// Streamed results arrive one by one, so a streaming request can carry many
+// files. Groups are also capped by size so previews and images stay under
+// the host's request body limit
+const STREAMED_FILES_PER_REQUEST = 25
+const MAX_STREAMED_REQUEST_BYTES = 4 * 1024 * 1024
+// The route analyzes several files of each streaming request in parallel
+const MAX_PARALLEL_STREAMS = 3
+
+// Per-minute quota responses are waited out; anything longer (daily quotas)
+// stops the batch instead of leaving it stuck
+const MAX_QUOTA_WAIT_SECONDS = 60
+const MAX_QUOTA_RETRIES = 3
+
 export class SmartSyncProcessor {
   private maxWorkers: number
   private activeWorkers: number = 0
   private queue: ProcessingTask[] = []
-  private results: Map<string, any> = new Map()
+  private results: Map<string, AnalysisResult> = new Map()
   private requestTimes: number[] = []
   private adaptiveDelay: number = 0
+  private options: SmartSyncOptions
+  // Set by a quota 429 so every worker waits until the window resets
+  private pausedUntil: number = 0
+  // Set by a 401 or an exhausted daily quota; remaining files fail with it
+  private haltError: AnalysisError | null = null
   
-  constructor(maxWorkers: number = 5) {
+  constructor(maxWorkers: number = 5, options: SmartSyncOptions = {}) {
     this.maxWorkers = maxWorkers
+    this.options = options
     console.log('[SmartSync] Processor initialized with', maxWorkers, 'workers')
   }
   
   async processBatch(
     files: File[],
-    onProgress: (completed: number, total: number) => void
-  ): Promise<any[]> {
+    onProgress: (completed: number, total: number) => void,
+    // Called as each file finishes, so callers can persist results incrementally
+    onResult?: (file: File, result: AnalysisResult) => void
+  ): Promise<AnalysisResult[]> {
     console.log('[SmartSync] Processing batch of', files.length, 'files')
     
-    // Create tasks
-    this.queue = files.map(file => ({
-      id: crypto.randomUUID(),
-      file,
-      metadata: {
-        name: file.name,
-        type: file.type,
-        size: file.size,
-        preview: '',
-        metadata: FileContentExtractor.extractMetadata(file)
-      },
-      status: 'pending' as const
-    }))
+    this.queue = this.createTasks(files)
     
     // Extract file previews in parallel
     await this.extractPreviews()
@@ -61,30 +102,260 @@ export class SmartSyncProcessor {
     
     // Start initial workers
     for (let i = 0; i < Math.min(this.maxWorkers, this.queue.length); i++) {
-      processingPromises.push(this.processNextTask(async () => {
+      processingPromises.push(this.processNextTask(async (task) => {
         completed++
         onProgress(completed, files.length)
+        const result = this.results.get(task.id)
+        if (result) onResult?.(task.file, result)
       }))
     }
     
     // Wait for all processing to complete
     await Promise.all(processingPromises)
     
-    // Return results in original order
+    return this.resultsInOrder(files)
+  }
+  
+  /**
+   * Like processBatch, but sends files in groups to the route's streaming
+   * mode and reports each result as its event arrives, so a large batch
+   * takes a few requests instead of one per file.
+   */
+  async processBatchStreaming(
+    files: File[],
+    onProgress: (completed: number, total: number) => void,
+    onResult?: (file: File, result: AnalysisResult) => void,
+    // When given, the route is also asked for folder suggestions per group
+    onFolderSuggestions?: (suggestions: FolderSuggestions) => void
+  ): Promise<AnalysisResult[]> {
+    console.log('[SmartSync] Streaming batch of', files.length, 'files')
+    
+    this.queue = this.createTasks(files)
+    await this.extractPreviews()
+    
+    let completed = 0
+    const complete = (task: ProcessingTask, result: AnalysisResult) => {
+      if (this.results.has(task.id)) return
+      task.status = result.error ? 'error' : 'complete'
+      task.result = result
+      task.error = result.error?.message
+      this.results.set(task.id, result)
+      completed++
+      onResult?.(task.file, result)
+      onProgress(completed, files.length)
+    }
+    
+    const groups = this.groupForStreaming(this.queue)
+    let nextGroup = 0
+    const runStreams = async () => {
+      while (nextGroup < groups.length) {
+        await this.streamGroup(groups[nextGroup++], complete, onFolderSuggestions)
+      }
+    }
+    await Promise.all(
+      Array.from({ length: Math.min(MAX_PARALLEL_STREAMS, groups.length) }, runStreams)
+    )
+    
+    return this.resultsInOrder(files)
+  }
+  
+  /**
+   * Analyze files already in workspace storage. Only node ids are sent; the
+   * route reads the content from storage and returns results in order.
+   */
+  async processStoredNodes(
+    nodes: { id: string; name: string }[],
+    onProgress: (completed: number, total: number) => void
+  ): Promise<AnalysisResult[]> {
+    console.log('[SmartSync] Processing', nodes.length, 'stored files')
+    
+    const results: AnalysisResult[] = []
+    for (let i = 0; i < nodes.length; i += STORED_NODES_PER_REQUEST) {
+      const chunk = nodes.slice(i, i + STORED_NODES_PER_REQUEST)
+      
+      if (this.adaptiveDelay > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.adaptiveDelay))
+      }
+      
+      try {
+        const data = await this.requestResults({ nodeIds: chunk.map(node => node.id) })
+        const parsed = AnalysisResultSchema.array().length(chunk.length).safeParse(data.results)
+        if (!parsed.success) {
+          throw new AnalysisError('invalid_output', 'Smart Sync returned malformed results')
+        }
+        results.push(...parsed.data)
+        
+        const rateLimited = parsed.data.some(result => result.error?.category === 'rate_limit')
+        this.updateAdaptiveDelay(0, rateLimited)
+      } catch (error) {
+        console.error('[SmartSync] Stored file analysis failed:', error)
+        const failure = error instanceof AnalysisError
+          ? error
+          : new AnalysisError('network', error instanceof Error ? error.message : 'Unknown error')
+        
+        // Without a valid session nothing else will succeed either
+        if (failure.category === 'auth') throw failure
+        
+        if (failure.category === 'rate_limit') this.updateAdaptiveDelay(0, true)
+        results.push(...chunk.map(node => createFailedResult(node.name, failure)))
+      }
+      
+      onProgress(results.length, nodes.length)
+    }
+    
+    return results
+  }
+  
+  private createTasks(files: File[]): ProcessingTask[] {
+    return files.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      metadata: {
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        preview: '',
+        metadata: FileContentExtractor.extractMetadata(file)
+      },
+      status: 'pending' as const
+    }))
+  }
+  
+  // Results in the order the files were given
+  private resultsInOrder(files: File[]): AnalysisResult[] {
     return files.map(file => {
       const task = this.queue.find(t => t.file === file)
-      return task ? this.results.get(task.id) : null
+      return (task && this.results.get(task.id)) ||
+        createFailedResult(file.name, new AnalysisError('provider_error', 'File was not processed'))
     })
   }
   
+  private groupForStreaming(tasks: ProcessingTask[]): ProcessingTask[][] {
+    const groups: ProcessingTask[][] = []
+    let group: ProcessingTask[] = []
+    let groupBytes = 0
+    
+    for (const task of tasks) {
+      const bytes = JSON.stringify(task.metadata).length
+      if (group.length > 0 &&
+          (group.length >= STREAMED_FILES_PER_REQUEST || groupBytes + bytes > MAX_STREAMED_REQUEST_BYTES)) {
+        groups.push(group)
+        group = []
+        groupBytes = 0
+      }
+      group.push(task)
+      groupBytes += bytes
+    }
+    if (group.length > 0) groups.push(group)
+    
+    return groups
+  }
+  
+  // Send one group with `stream: true` and complete its tasks as events
+  // arrive. Files the stream never answered fail with the request's error
+  private async streamGroup(
+    tasks: ProcessingTask[],
+    complete: (task: ProcessingTask, result: AnalysisResult) => void,
+    onFolderSuggestions?: (suggestions: FolderSuggestions) => void
+  ): Promise<void> {
+    tasks.forEach(task => { task.status = 'processing' })
+    
+    if (this.adaptiveDelay > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.adaptiveDelay))
+    }
+    
+    try {
+      const response = await this.requestWithQuota({
+        files: tasks.map(task => task.metadata),
+        stream: true,
+        ...(onFolderSuggestions ? { analyzeFolderStructure: true } : {})
+      })
+      
+      let rateLimited = false
+      for await (const event of this.readEvents(response)) {
+        if (event.type === 'folders') {
+          onFolderSuggestions?.(event.folderSuggestions)
+          continue
+        }
+        if (event.type === 'done') continue
+        
+        const task = event.index !== undefined ? tasks[event.index] : undefined
+        if (!task) {
+          if (event.type === 'error') throw new AnalysisError(event.error.category, event.error.message)
+          continue
+        }
+        
+        const result = event.type === 'result'
+          ? event.result
+          : createFailedResult(task.file.name, new AnalysisError(event.error.category, event.error.message))
+        if (result.error?.category === 'rate_limit') rateLimited = true
+        complete(task, result)
+      }
+      this.updateAdaptiveDelay(0, rateLimited)
+      
+      if (tasks.some(task => !this.results.has(task.id))) {
+        throw new AnalysisError('network', 'The connection closed before all results arrived')
+      }
+    } catch (error) {
+      console.error('[SmartSync] Streaming request failed:', error)
+      const failure = error instanceof AnalysisError
+        ? error
+        : new AnalysisError('network', error instanceof Error ? error.message : 'Unknown error')
+      
+      if (failure.category === 'rate_limit') this.updateAdaptiveDelay(0, true)
+      for (const task of tasks) {
+        complete(task, createFailedResult(task.file.name, failure))
+      }
+    }
+  }
+  
+  // Parse the route's newline-delimited JSON events as they arrive
+  private async *readEvents(response: Response): AsyncGenerator<SmartSyncEvent> {
+    if (!response.body) throw new AnalysisError('network', 'Smart Sync returned no stream')
+    
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (value) buffer += value
+      
+      const lines = buffer.split('\n')
+      buffer = done ? '' : lines.pop()!
+      for (const line of lines) {
+        if (!line.trim()) continue
+        let parsed
+        try {
+          parsed = SmartSyncEventSchema.safeParse(JSON.parse(line))
+        } catch {
+          parsed = null
+        }
+        if (!parsed?.success) {
+          throw new AnalysisError('invalid_output', 'Smart Sync sent a malformed event')
+        }
+        yield parsed.data
+      }
+      
+      if (done) return
+    }
+  }
+  
   private async extractPreviews() {
     const previewPromises = this.queue.map(async (task) => {
       try {
-        task.metadata.preview = await this.extractFilePreview(task.file)
+        task.metadata.contentHash = await ContentHasher.hash(task.file)
+      } catch (error) {
+        console.error('[SmartSync] Hashing failed for', task.file.name, error)
+      }
+      
+      try {
+        const { preview, metadata } = await this.extractFilePreview(task.file)
+        task.metadata.preview = preview
+        task.metadata.metadata = { ...task.metadata.metadata, ...metadata }
         
-        // For image files, also extract base64 data for vision analysis
-        if (task.file.type.startsWith('image/') || 
-            task.file.name.toLowerCase().match(/\.(jpg|jpeg|png|gif|bmp|webp|svg|ico|tiff|tif)$/i)) {
+        // For image files, also extract base64 data for vision analysis. Images
+        // whose text was recognized on-device are named from that text instead
+        if (!task.metadata.metadata?.hasOcrText && (task.file.type.startsWith('image/') || 
+            task.file.name.toLowerCase().match(/\.(jpg|jpeg|png|gif|bmp|webp|svg|ico|tiff|tif)$/i))) {
           try {
             const imageData = await FileContentExtractor.extractImageAsBase64(task.file)
             if (imageData) {
@@ -105,16 +376,16 @@ export class SmartSyncProcessor {
     await Promise.all(previewPromises)
   }
   
-  private async extractFilePreview(file: File): Promise<string> {
+  private async extractFilePreview(file: File): Promise<ExtractedContent> {
     try {
-      return await FileContentExtractor.extractContent(file)
+      return await FileContentExtractor.extractContentWithMetadata(file)
     } catch (error) {
       console.error('[SmartSync] Preview extraction failed:', error)
-      return `[Failed to extract content from ${file.name}]`
+      return { preview: `[Failed to extract content from ${file.name}]`, metadata: {} }
     }
   }
   
-  private async processNextTask(onComplete: () => void): Promise<void> {
+  private async processNextTask(onComplete: (task: ProcessingTask) => void): Promise<void> {
     const task = this.queue.find(t => t.status === 'pending')
     if (!task) return
     
@@ -131,39 +402,38 @@ export class SmartSyncProcessor {
     try {
       // Call the API
       const result = await this.analyzeFile(task.metadata)
-      task.status = 'complete'
+      task.status = result.error ? 'error' : 'complete'
       task.result = result
+      task.error = result.error?.message
       this.results.set(task.id, result)
       
-      // Track successful request time
-      const responseTime = Date.now() - startTime
-      this.updateAdaptiveDelay(responseTime, false)
+      if (result.error?.category === 'rate_limit') {
+        this.updateAdaptiveDelay(0, true)
+        console.log('[SmartSync] Rate limit reported, adding delay:', this.adaptiveDelay)
+      } else {
+        // Track successful request time
+        const responseTime = Date.now() - startTime
+        this.updateAdaptiveDelay(responseTime, false)
+      }
       
     } catch (error) {
       console.error('[SmartSync] Processing error for', task.file.name, error)
+      const failure = error instanceof AnalysisError
+        ? error
+        : new AnalysisError('network', error instanceof Error ? error.message : 'Unknown error')
+      
       task.status = 'error'
-      task.error = error instanceof Error ? error.message : 'Unknown error'
-      
-      // Check if it's a rate limit error (Grok may use different error codes)
-      if (error instanceof Error && (
-        error.message.includes('429') || 
-        error.message.includes('rate') ||
-        error.message.includes('quota') ||
-        error.message.includes('limit')
-      )) {
+      task.error = failure.message
+      
+      if (failure.category === 'rate_limit') {
         this.updateAdaptiveDelay(0, true)
         console.log('[SmartSync] Rate limit detected, adding delay:', this.adaptiveDelay)
       }
       
-      this.results.set(task.id, {
-        originalName: task.file.name,
-        suggestedName: task.file.name,
-        confidence: 0,
-        reasoning: 'Processing failed'
-      })
+      this.results.set(task.id, createFailedResult(task.file.name, failure))
     } finally {
       this.activeWorkers--
-      onComplete()
+      onComplete(task)
       
       // Process next task if available
       if (this.queue.some(t => t.status === 'pending')) {
@@ -172,29 +442,96 @@ export class SmartSyncProcessor {
     }
   }
   
-  private async analyzeFile(metadata: FileMetadata): Promise<any> {
+  private async analyzeFile(metadata: FileMetadata): Promise<AnalysisResult> {
     console.log('[SmartSync] Analyzing file:', metadata.name, 'Size:', metadata.size)
     
+    const data = await this.requestResults({ files: [metadata] })
+    const parsed = AnalysisResultSchema.safeParse(data.results?.[0])
+    if (!parsed.success) {
+      throw new AnalysisError('invalid_output', 'Smart Sync returned a malformed result')
+    }
+    
+    const result = parsed.data
+    console.log('[SmartSync] AI suggestion for', metadata.name, ':', result.suggestedName)
+    
+    return result
+  }
+  
+  /**
+   * Send a request, honoring the route's structured 401/429 responses: a
+   * per-minute quota pauses all workers until it resets and retries, while a
+   * signed-out session or exhausted daily quota halts the rest of the batch.
+   */
+  private async requestWithQuota(body: Record<string, unknown>): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      if (this.haltError) throw this.haltError
+      
+      const wait = this.pausedUntil - Date.now()
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait))
+      }
+      
+      try {
+        return await this.postToSmartSync(body)
+      } catch (error) {
+        if (!(error instanceof AnalysisError)) throw error
+        
+        if (error.category === 'auth') {
+          this.haltError = error
+        } else if (error.category === 'rate_limit' && error.retryAfter !== undefined) {
+          if (error.retryAfter > MAX_QUOTA_WAIT_SECONDS || attempt >= MAX_QUOTA_RETRIES) {
+            this.haltError = error
+          } else {
+            this.pausedUntil = Math.max(this.pausedUntil, Date.now() + error.retryAfter * 1000)
+            console.log(`[SmartSync] Quota reached, pausing for ${error.retryAfter}s`)
+            continue
+          }
+        }
+        throw error
+      }
+    }
+  }
+  
+  // Results of a request made without `stream: true`
+  private async requestResults(body: Record<string, unknown>): Promise<SmartSyncResults> {
+    const data: SmartSyncResponse = await (await this.requestWithQuota(body)).json()
+    if ('error' in data) {
+      throw new AnalysisError(data.category || 'provider_error', data.error)
+    }
+    return data
+  }
+  
+  // POST to the route with this processor's options, turning error
+  // responses into typed failures. The body is read by the caller
+  private async postToSmartSync(body: Record<string, unknown>): Promise<Response> {
     const response = await fetch('/api/ai/smart-sync', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        files: [metadata]
+        ...body,
+        ...this.options
       })
     })
     
     if (!response.ok) {
-      throw new Error(`API error: ${response.status}`)
+      const errorBody: SmartSyncErrorBody | null = await response.json().catch(() => null)
+      const retryAfter = Number(errorBody?.retryAfter ?? response.headers.get('Retry-After'))
+      throw new AnalysisError(
+        errorBody?.category || this.categoryForStatus(response.status),
+        errorBody?.error || `API error: ${response.status}`,
+        response.status === 429 && Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+      )
     }
     
-    const data = await response.json()
-    const result = data.results[0]
-    
-    console.log('[SmartSync] AI suggestion for', metadata.name, ':', result.suggestedName)
-    
-    return result
+    return response
+  }
+  
+  private categoryForStatus(status: number): AnalysisErrorCategory {
+    if (status === 401 || status === 403) return 'auth'
+    if (status === 429) return 'rate_limit'
+    return 'provider_error'
   }
   
   // Update adaptive delay based on response times and errors
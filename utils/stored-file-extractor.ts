@@ -0,0 +1,80 @@
+import { FileContentExtractor } from './file-content-extractor'
+import { OfficeDocumentExtractor } from './office-document-extractor'
+import { OcrEngine } from './ocr-engine'
+import type { FileMetadata } from './smart-sync-processor'
+
+export interface StoredFileOptions {
+  // Text the browser extracted (with OCR for images) when the file was indexed
+  indexedText?: string
+  // Attach image data for a vision model; only when the user chose one
+  allowVision?: boolean
+}
+
+// Builds the same metadata SmartSyncProcessor sends for local files, from a
+// node's content downloaded on the server. OCR and the Office parser need
+// browser APIs, so scans and Office files are described rather than read
+export class StoredFileExtractor {
+  // Same limit the browser applies before sending images for vision analysis
+  private static readonly MAX_IMAGE_SIZE_FOR_BASE64 = 5 * 1024 * 1024
+  // Same limit the browser applies to OCR text in previews
+  private static readonly MAX_OCR_TEXT_LENGTH = 5000
+
+  static async extract(
+    content: Blob,
+    name: string,
+    mimeType: string | null,
+    path?: string,
+    options: StoredFileOptions = {}
+  ): Promise<FileMetadata> {
+    const file = new File([content], name, { type: mimeType || content.type || '' })
+    const metadata: FileMetadata = {
+      name,
+      type: file.type,
+      size: file.size,
+      preview: '',
+      path,
+      metadata: FileContentExtractor.extractMetadata(file)
+    }
+
+    if (this.isImage(file)) {
+      metadata.preview = `[Image: ${file.type || 'unknown'}, ${(file.size / 1024).toFixed(1)}KB, ${name}]`
+
+      // Indexed text is used like local OCR text, so the image is named from
+      // it and never leaves the workspace
+      const text = options.indexedText?.trim()
+      if (text && text.length >= OcrEngine.MIN_TEXT_LENGTH) {
+        const ocrText = text.length > this.MAX_OCR_TEXT_LENGTH
+          ? text.substring(0, this.MAX_OCR_TEXT_LENGTH) + '... [truncated]'
+          : text
+        metadata.preview = `${metadata.preview}\nText recognized by OCR:\n${ocrText}`
+        metadata.metadata = { ...metadata.metadata, hasOcrText: true }
+        return metadata
+      }
+
+      if (options.allowVision && file.size <= this.MAX_IMAGE_SIZE_FOR_BASE64) {
+        metadata.imageData = Buffer.from(await file.arrayBuffer()).toString('base64')
+      }
+      return metadata
+    }
+
+    if (OfficeDocumentExtractor.detectFormat(name)) {
+      const docType = name.split('.').pop()?.toUpperCase() || 'Document'
+      metadata.preview = `[${docType} Document: ${(file.size / 1024).toFixed(1)}KB, ${name}]`
+      return metadata
+    }
+
+    // Text files and PDF text layers are read the same way as in the browser
+    const { preview, metadata: documentMetadata } = FileContentExtractor.isPdf(file)
+      ? await FileContentExtractor.extractContentWithMetadata(file)
+      : { preview: await FileContentExtractor.extractContent(file), metadata: {} }
+
+    metadata.preview = preview
+    metadata.metadata = { ...metadata.metadata, ...documentMetadata }
+    return metadata
+  }
+
+  private static isImage(file: File): boolean {
+    return file.type.startsWith('image/') ||
+      /\.(jpg|jpeg|png|gif|bmp|webp|svg|ico|tiff|tif)$/i.test(file.name)
+  }
+}
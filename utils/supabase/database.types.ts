@@ -9,6 +9,632 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      activity_events: {
+        Row: {
+          id: string
+          user_id: string
+          workspace_id: string
+          node_id: string | null
+          event_type: 'created' | 'renamed' | 'moved' | 'trashed' | 'restored' | 'rename_decision'
+          node_type: 'folder' | 'file' | null
+          decision: 'accepted' | 'edited' | 'rejected' | null
+          confidence: number | null
+          suggested_name: string | null
+          final_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace_id: string
+          node_id?: string | null
+          event_type: 'created' | 'renamed' | 'moved' | 'trashed' | 'restored' | 'rename_decision'
+          node_type?: 'folder' | 'file' | null
+          decision?: 'accepted' | 'edited' | 'rejected' | null
+          confidence?: number | null
+          suggested_name?: string | null
+          final_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace_id?: string
+          node_id?: string | null
+          event_type?: 'created' | 'renamed' | 'moved' | 'trashed' | 'restored' | 'rename_decision'
+          node_type?: 'folder' | 'file' | null
+          decision?: 'accepted' | 'edited' | 'rejected' | null
+          confidence?: number | null
+          suggested_name?: string | null
+          final_name?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activity_events_node_id_fkey"
+            columns: ["node_id"]
+            isOneToOne: false
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activity_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activity_events_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ai_quotas: {
+        Row: {
+          user_id: string
+          requests_per_minute: number
+          requests_per_day: number
+          tokens_per_day: number
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          requests_per_minute?: number
+          requests_per_day?: number
+          tokens_per_day?: number
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          requests_per_minute?: number
+          requests_per_day?: number
+          tokens_per_day?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_quotas_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ai_usage: {
+        Row: {
+          user_id: string
+          window_kind: 'minute' | 'day'
+          window_start: string
+          requests: number
+          tokens: number
+        }
+        Insert: {
+          user_id: string
+          window_kind: 'minute' | 'day'
+          window_start: string
+          requests?: number
+          tokens?: number
+        }
+        Update: {
+          user_id?: string
+          window_kind?: 'minute' | 'day'
+          window_start?: string
+          requests?: number
+          tokens?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      api_key_usage: {
+        Row: {
+          key_id: string
+          user_id: string
+          day: string
+          requests: number
+          tokens: number
+        }
+        Insert: {
+          key_id: string
+          user_id: string
+          day: string
+          requests?: number
+          tokens?: number
+        }
+        Update: {
+          key_id?: string
+          user_id?: string
+          day?: string
+          requests?: number
+          tokens?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_key_usage_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "user_api_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_key_usage_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      bundle_items: {
+        Row: {
+          id: string
+          bundle_id: string
+          node_id: string
+          user_id: string
+          position: number
+          label: string | null
+        }
+        Insert: {
+          id?: string
+          bundle_id: string
+          node_id: string
+          user_id: string
+          position: number
+          label?: string | null
+        }
+        Update: {
+          id?: string
+          bundle_id?: string
+          node_id?: string
+          user_id?: string
+          position?: number
+          label?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bundle_items_bundle_id_fkey"
+            columns: ["bundle_id"]
+            isOneToOne: false
+            referencedRelation: "bundles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bundle_items_node_id_fkey"
+            columns: ["node_id"]
+            isOneToOne: false
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bundle_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      bundles: {
+        Row: {
+          id: string
+          user_id: string
+          workspace_id: string
+          name: string
+          created_at: string
+          updated_at: string
+          exported_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace_id: string
+          name: string
+          created_at?: string
+          updated_at?: string
+          exported_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace_id?: string
+          name?: string
+          created_at?: string
+          updated_at?: string
+          exported_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bundles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bundles_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      checklist_items: {
+        Row: {
+          id: string
+          checklist_id: string
+          user_id: string
+          position: number
+          description: string
+          expected_file_type: string | null
+          date_from: string | null
+          date_to: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          checklist_id: string
+          user_id: string
+          position: number
+          description: string
+          expected_file_type?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          checklist_id?: string
+          user_id?: string
+          position?: number
+          description?: string
+          expected_file_type?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checklist_items_checklist_id_fkey"
+            columns: ["checklist_id"]
+            isOneToOne: false
+            referencedRelation: "checklists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checklist_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      checklist_matches: {
+        Row: {
+          id: string
+          checklist_id: string
+          item_id: string
+          node_id: string
+          user_id: string
+          confidence: number
+          reasoning: string | null
+          status: 'suggested' | 'confirmed' | 'rejected'
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          checklist_id: string
+          item_id: string
+          node_id: string
+          user_id: string
+          confidence: number
+          reasoning?: string | null
+          status?: 'suggested' | 'confirmed' | 'rejected'
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          checklist_id?: string
+          item_id?: string
+          node_id?: string
+          user_id?: string
+          confidence?: number
+          reasoning?: string | null
+          status?: 'suggested' | 'confirmed' | 'rejected'
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checklist_matches_checklist_id_fkey"
+            columns: ["checklist_id"]
+            isOneToOne: false
+            referencedRelation: "checklists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checklist_matches_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "checklist_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checklist_matches_node_id_fkey"
+            columns: ["node_id"]
+            isOneToOne: false
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checklist_matches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      checklists: {
+        Row: {
+          id: string
+          user_id: string
+          workspace_id: string
+          name: string
+          description: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace_id: string
+          name: string
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace_id?: string
+          name?: string
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checklists_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checklists_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      naming_examples: {
+        Row: {
+          id: string
+          user_id: string
+          original_name: string
+          suggested_name: string
+          final_name: string
+          decision: 'accepted' | 'edited'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          original_name: string
+          suggested_name: string
+          final_name: string
+          decision: 'accepted' | 'edited'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          original_name?: string
+          suggested_name?: string
+          final_name?: string
+          decision?: 'accepted' | 'edited'
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "naming_examples_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      node_contents: {
+        Row: {
+          node_id: string
+          user_id: string
+          workspace_id: string
+          content_text: string
+          content_vector: unknown
+          indexed_at: string
+        }
+        Insert: {
+          node_id: string
+          user_id: string
+          workspace_id: string
+          content_text?: string
+          indexed_at?: string
+        }
+        Update: {
+          node_id?: string
+          user_id?: string
+          workspace_id?: string
+          content_text?: string
+          indexed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "node_contents_node_id_fkey"
+            columns: ["node_id"]
+            isOneToOne: true
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "node_contents_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "node_contents_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      node_embeddings: {
+        Row: {
+          node_id: string
+          user_id: string
+          workspace_id: string
+          model: string
+          embedding: string
+          embedded_at: string
+        }
+        Insert: {
+          node_id: string
+          user_id: string
+          workspace_id: string
+          model: string
+          embedding: string
+          embedded_at?: string
+        }
+        Update: {
+          node_id?: string
+          user_id?: string
+          workspace_id?: string
+          model?: string
+          embedding?: string
+          embedded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "node_embeddings_node_id_fkey"
+            columns: ["node_id"]
+            isOneToOne: true
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "node_embeddings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "node_embeddings_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      node_versions: {
+        Row: {
+          id: string
+          node_id: string
+          user_id: string
+          workspace_id: string
+          version: number
+          storage_object_path: string
+          mime_type: string | null
+          size: number | null
+          created_at: string
+          archived_at: string
+          content_hash: string | null
+        }
+        Insert: {
+          id?: string
+          node_id: string
+          user_id: string
+          workspace_id: string
+          version: number
+          storage_object_path: string
+          mime_type?: string | null
+          size?: number | null
+          created_at: string
+          archived_at?: string
+          content_hash?: string | null
+        }
+        Update: {
+          id?: string
+          node_id?: string
+          user_id?: string
+          workspace_id?: string
+          version?: number
+          storage_object_path?: string
+          mime_type?: string | null
+          size?: number | null
+          created_at?: string
+          archived_at?: string
+          content_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "node_versions_node_id_fkey"
+            columns: ["node_id"]
+            isOneToOne: false
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "node_versions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "node_versions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       nodes: {
         Row: {
           id: string
@@ -22,6 +648,12 @@ export type Database = {
           storage_object_path: string | null
           created_at: string
           updated_at: string
+          deleted_at: string | null
+          deleted_root_id: string | null
+          version: number
+          content_hash: string | null
+          tags: string[]
+          metadata: Json
         }
         Insert: {
           id?: string
@@ -35,6 +667,12 @@ export type Database = {
           storage_object_path?: string | null
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          deleted_root_id?: string | null
+          version?: number
+          content_hash?: string | null
+          tags?: string[]
+          metadata?: Json
         }
         Update: {
           id?: string
@@ -48,8 +686,21 @@ export type Database = {
           storage_object_path?: string | null
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          deleted_root_id?: string | null
+          version?: number
+          content_hash?: string | null
+          tags?: string[]
+          metadata?: Json
         }
         Relationships: [
+          {
+            foreignKeyName: "nodes_deleted_root_id_fkey"
+            columns: ["deleted_root_id"]
+            isOneToOne: false
+            referencedRelation: "nodes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "nodes_parent_id_fkey"
             columns: ["parent_id"]
@@ -73,6 +724,136 @@ export type Database = {
           }
         ]
       }
+      suggestion_cache: {
+        Row: {
+          user_id: string
+          cache_key: string
+          model: string
+          result: Json
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          cache_key: string
+          model: string
+          result: Json
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          cache_key?: string
+          model?: string
+          result?: Json
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suggestion_cache_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      user_api_keys: {
+        Row: {
+          id: string
+          user_id: string
+          provider: 'grok' | 'openai' | 'anthropic' | 'local'
+          workspace_id: string | null
+          label: string
+          encrypted_key: string
+          key_hint: string
+          created_at: string
+          last_used_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          provider: 'grok' | 'openai' | 'anthropic' | 'local'
+          workspace_id?: string | null
+          label: string
+          encrypted_key: string
+          key_hint: string
+          created_at?: string
+          last_used_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          provider?: 'grok' | 'openai' | 'anthropic' | 'local'
+          workspace_id?: string | null
+          label?: string
+          encrypted_key?: string
+          key_hint?: string
+          created_at?: string
+          last_used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_api_keys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_api_keys_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      user_settings: {
+        Row: {
+          user_id: string
+          ai_provider: 'grok' | 'openai' | 'anthropic' | 'local' | null
+          ai_model: string | null
+          naming_template: Json | null
+          name_language: string | null
+          auto_apply_threshold: number | null
+          upload_concurrency: number | null
+          upload_bandwidth_limit: number | null
+          trash_retention_days: number | null
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          ai_provider?: 'grok' | 'openai' | 'anthropic' | 'local' | null
+          ai_model?: string | null
+          naming_template?: Json | null
+          name_language?: string | null
+          auto_apply_threshold?: number | null
+          upload_concurrency?: number | null
+          upload_bandwidth_limit?: number | null
+          trash_retention_days?: number | null
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          ai_provider?: 'grok' | 'openai' | 'anthropic' | 'local' | null
+          ai_model?: string | null
+          naming_template?: Json | null
+          name_language?: string | null
+          auto_apply_threshold?: number | null
+          upload_concurrency?: number | null
+          upload_bandwidth_limit?: number | null
+          trash_retention_days?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_settings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       workspaces: {
         Row: {
           id: string
@@ -81,6 +862,7 @@ export type Database = {
           is_default: boolean
           created_at: string
           updated_at: string
+          deleted_at: string | null
         }
         Insert: {
           id?: string
@@ -89,6 +871,7 @@ export type Database = {
           is_default?: boolean
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
         }
         Update: {
           id?: string
@@ -97,6 +880,7 @@ export type Database = {
           is_default?: boolean
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
         }
         Relationships: [
           {
@@ -113,7 +897,70 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      activity_counts: {
+        Args: { p_workspace_id: string; p_since: string }
+        Returns: {
+          week: string
+          event_type: string
+          node_type: string | null
+          decision: string | null
+          confidence_bucket: number | null
+          events: number
+        }[]
+      }
+      reserve_ai_requests: {
+        Args: { p_requests: number }
+        Returns: Json
+      }
+      record_ai_tokens: {
+        Args: { p_tokens: number }
+        Returns: undefined
+      }
+      record_api_key_usage: {
+        Args: { p_key_id: string; p_requests: number; p_tokens: number }
+        Returns: undefined
+      }
+      match_nodes: {
+        Args: {
+          p_workspace_id: string
+          p_embedding: string
+          p_model: string
+          p_node_type?: string | null
+          p_mime_prefix?: string | null
+          p_min_size?: number | null
+          p_max_size?: number | null
+          p_updated_after?: string | null
+          p_updated_before?: string | null
+          p_folder_id?: string | null
+          p_min_similarity?: number
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          similarity: number
+          excerpt: string | null
+        }[]
+      }
+      search_nodes: {
+        Args: {
+          p_workspace_id: string
+          p_query: string
+          p_node_type?: string | null
+          p_mime_prefix?: string | null
+          p_min_size?: number | null
+          p_max_size?: number | null
+          p_updated_after?: string | null
+          p_updated_before?: string | null
+          p_folder_id?: string | null
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          rank: number
+          name_highlight: string
+          content_highlight: string | null
+        }[]
+      }
     }
     Enums: {
       node_type: 'folder' | 'file'
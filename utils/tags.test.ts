@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_NODE, normalizeTags } from './tags'
+
+describe('normalizeTags', () => {
+  it('collapses whitespace and strips commas and hashes', () => {
+    expect(normalizeTags(['  tax   2024 ', '#urgent', 'a,b'])).toEqual(['tax 2024', 'urgent', 'a b'])
+  })
+
+  it('drops empty tags', () => {
+    expect(normalizeTags(['', '   ', '#', 'kept'])).toEqual(['kept'])
+  })
+
+  it('compares case-insensitively and keeps the first spelling', () => {
+    expect(normalizeTags(['Invoice', 'invoice', 'INVOICE ', 'receipt'])).toEqual(['Invoice', 'receipt'])
+  })
+
+  it('truncates long tags', () => {
+    const [tag] = normalizeTags(['x'.repeat(MAX_TAG_LENGTH + 10)])
+    expect(tag).toHaveLength(MAX_TAG_LENGTH)
+  })
+
+  it('caps the number of tags', () => {
+    const tags = Array.from({ length: MAX_TAGS_PER_NODE + 5 }, (_, i) => `tag ${i}`)
+    expect(normalizeTags(tags)).toHaveLength(MAX_TAGS_PER_NODE)
+    expect(normalizeTags(tags, 3)).toEqual(['tag 0', 'tag 1', 'tag 2'])
+  })
+
+  it('counts the limit after removing duplicates', () => {
+    expect(normalizeTags(['a', 'A', 'b', 'c'], 2)).toEqual(['a', 'b'])
+  })
+})
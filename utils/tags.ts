@@ -0,0 +1,62 @@
+// Tags and key/value metadata users attach to nodes, stored in nodes.tags
+// and nodes.metadata. Shared by the node actions and the smart-sync route
+// so AI-suggested tags follow the same rules as typed ones.
+
+export const MAX_TAG_LENGTH = 40
+export const MAX_TAGS_PER_NODE = 20
+// Tags the model may suggest for a single file
+export const MAX_SUGGESTED_TAGS = 5
+
+export const MAX_METADATA_KEY_LENGTH = 40
+export const MAX_METADATA_VALUE_LENGTH = 200
+
+// Keys offered in the metadata editor; any other key can be typed too
+export const SUGGESTED_METADATA_KEYS = ['client', 'project', 'fiscal_year', 'amount']
+
+export type NodeMetadata = Record<string, string>
+
+// Collapse whitespace and strip characters that would break chips or filters
+export function normalizeTag(tag: string): string {
+  return tag
+    .replace(/[,#]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TAG_LENGTH)
+    .trim()
+}
+
+// Tags are kept as typed but compared case-insensitively, first spelling wins
+export function normalizeTags(tags: string[], limit: number = MAX_TAGS_PER_NODE): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const tag of tags.map(normalizeTag)) {
+    const key = tag.toLowerCase()
+    if (!tag || seen.has(key)) continue
+    seen.add(key)
+    result.push(tag)
+  }
+  return result.slice(0, limit)
+}
+
+// "Fiscal Year" and "fiscal-year" are both stored as fiscal_year
+export function normalizeMetadataKey(key: string): string {
+  return key
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, MAX_METADATA_KEY_LENGTH)
+}
+
+export function formatMetadataKey(key: string): string {
+  const label = key.replace(/_/g, ' ')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+// Metadata read from a row; anything but string values is ignored
+export function toNodeMetadata(value: unknown): NodeMetadata {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  )
+}
@@ -0,0 +1,9 @@
+// Days a trashed node or workspace is kept before it is purged for good
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+// The user's retention setting wins over the deployment's TRASH_RETENTION_DAYS
+export function getTrashRetentionDays(userDays: number | null = null): number {
+  if (userDays !== null && userDays > 0) return userDays
+  const days = Number(process.env.TRASH_RETENTION_DAYS)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
@@ -0,0 +1,135 @@
+import type { createClient } from '@/utils/supabase/server'
+import type { Tables } from '@/utils/supabase/database.types'
+import { PROVIDER_IDS, type ProviderId } from '@/utils/ai/types'
+import { NamingTemplateSchema, parseTemplate, type NamingTemplate } from '@/utils/ai/naming-template'
+import { UPLOAD_CONFIG } from '@/utils/upload-config'
+
+// Preferences stored in user_settings. Null fields fall back to the
+// deployment's defaults, so changing an environment variable still reaches
+// users who never touched the setting.
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+export interface UserSettings {
+  aiProvider: ProviderId | null
+  aiModel: string | null
+  // Preselected in the organizers; null for descriptive names
+  namingTemplate: NamingTemplate | null
+  // Language generated names are written in; null keeps the file's own language
+  nameLanguage: string | null
+  // Suggestions at or above this confidence are preselected; null selects every successful one
+  autoApplyThreshold: number | null
+  uploadConcurrency: number
+  // MB/s, 0 for unlimited
+  uploadBandwidthLimit: number
+  // Null uses TRASH_RETENTION_DAYS
+  trashRetentionDays: number | null
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  aiProvider: null,
+  aiModel: null,
+  namingTemplate: null,
+  nameLanguage: null,
+  autoApplyThreshold: null,
+  uploadConcurrency: UPLOAD_CONFIG.DEFAULT_CONCURRENCY,
+  uploadBandwidthLimit: 0,
+  trashRetentionDays: null
+}
+
+export const NAME_LANGUAGES = [
+  'English',
+  'German',
+  'French',
+  'Spanish',
+  'Italian',
+  'Dutch',
+  'Portuguese',
+  'Polish',
+  'Swedish',
+  'Japanese',
+  'Chinese'
+]
+
+export const MAX_UPLOAD_BANDWIDTH_LIMIT = 50
+export const MAX_TRASH_RETENTION_DAYS = 365
+
+// provider.ts has the same check but pulls in the SDKs, which the browser doesn't need
+function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && (PROVIDER_IDS as string[]).includes(value)
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+// Settings from a user_settings row; invalid stored values fall back to the defaults
+export function toUserSettings(row: Tables<'user_settings'> | null): UserSettings {
+  if (!row) return DEFAULT_USER_SETTINGS
+
+  const template = NamingTemplateSchema.safeParse(row.naming_template)
+  let namingTemplate: NamingTemplate | null = null
+  if (row.naming_template && template.success) {
+    try {
+      parseTemplate(template.data.pattern)
+      namingTemplate = template.data
+    } catch {
+      // A pattern that no longer parses is treated as unset
+    }
+  }
+
+  return {
+    aiProvider: isProviderId(row.ai_provider) ? row.ai_provider : null,
+    aiModel: row.ai_model?.trim() || null,
+    namingTemplate,
+    nameLanguage: row.name_language?.trim() || null,
+    autoApplyThreshold: row.auto_apply_threshold ?? null,
+    uploadConcurrency: row.upload_concurrency ?? DEFAULT_USER_SETTINGS.uploadConcurrency,
+    uploadBandwidthLimit: row.upload_bandwidth_limit ?? DEFAULT_USER_SETTINGS.uploadBandwidthLimit,
+    trashRetentionDays: row.trash_retention_days ?? null
+  }
+}
+
+// Settings as written to user_settings, with values clamped to the table's checks
+export function toUserSettingsRow(settings: UserSettings) {
+  return {
+    ai_provider: settings.aiProvider && isProviderId(settings.aiProvider) ? settings.aiProvider : null,
+    // A model only makes sense together with its provider
+    ai_model: settings.aiProvider ? settings.aiModel?.trim() || null : null,
+    naming_template: settings.namingTemplate,
+    name_language: settings.nameLanguage?.trim().slice(0, 40) || null,
+    auto_apply_threshold: settings.autoApplyThreshold === null
+      ? null
+      : clamp(settings.autoApplyThreshold, 0, 1),
+    upload_concurrency: Math.round(clamp(
+      settings.uploadConcurrency,
+      UPLOAD_CONFIG.MIN_CONCURRENCY,
+      UPLOAD_CONFIG.MAX_CONCURRENCY
+    )),
+    upload_bandwidth_limit: Math.round(clamp(settings.uploadBandwidthLimit, 0, MAX_UPLOAD_BANDWIDTH_LIMIT)),
+    trash_retention_days: settings.trashRetentionDays === null
+      ? null
+      : Math.round(clamp(settings.trashRetentionDays, 1, MAX_TRASH_RETENTION_DAYS))
+  }
+}
+
+// Read the signed-in user's settings on the server, defaults when there is no row
+export async function getUserSettings(supabase: SupabaseServerClient, userId: string): Promise<UserSettings> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[Settings] Failed to load user settings:', error)
+    return DEFAULT_USER_SETTINGS
+  }
+
+  return toUserSettings(data)
+}
+
+// Whether a suggestion should be preselected for applying under the user's threshold
+export function meetsAutoApplyThreshold(settings: UserSettings, confidence: number): boolean {
+  return settings.autoApplyThreshold === null || confidence >= settings.autoApplyThreshold
+}